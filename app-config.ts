@@ -9,10 +9,40 @@ export const APP_CONFIG_DEFAULTS: AppConfig = {
   supportsVideoInput: true,
   supportsScreenShare: true,
   isPreConnectBufferEnabled: true,
+  isPreflightEnabled: true,
+  isMetricsPanelEnabled: false,
+  agentJoinTimeoutSeconds: 10,
+  languages: ['en', 'kn', 'hi', 'ta', 'te', 'mr', 'ml', 'bn'],
+  languageOverrides: {},
+  attachments: {
+    enabled: true,
+    maxFileSizeMb: 10,
+    maxFiles: 4,
+    acceptedTypes: ['image/*', 'application/pdf'],
+  },
 
   logo: '/bosch_logo_embedded.svg',
   accent: '#002cf2',
   logoDark: '/bosch_logo_embedded.svg',
   accentDark: '#1fd5f9',
   startButtonText: 'Start call',
+
+  branding: {
+    companyUrl: 'https://www.bosch.in/',
+    favicon: '/favicon.ico',
+    openGraphImage: '/opengraph-image-bg.png',
+    palette: {
+      backgroundFrom: '#581c87',
+      backgroundVia: '#1e3a8a',
+      backgroundTo: '#0f172a',
+      buttonFrom: '#c084fc',
+      buttonTo: '#6366f1',
+      ring: '#22d3ee',
+    },
+    welcome: {
+      title: 'Allion.ai',
+    },
+  },
+  brandings: {},
+  tenants: [],
 };
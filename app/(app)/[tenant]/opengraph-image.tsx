@@ -0,0 +1,2 @@
+// Same image as the root route; it picks the tenant's branding from the request path
+export { default, alt, contentType, size } from '../opengraph-image';
@@ -0,0 +1,17 @@
+import { headers } from 'next/headers';
+import { notFound } from 'next/navigation';
+import { getAppConfig } from '@/lib/app-config';
+import Page from '../page';
+
+interface TenantPageProps {
+  params: Promise<{ tenant: string }>;
+}
+
+/** The app under a tenant's path prefix, e.g. `/acme-motors`. */
+export default async function TenantPage({ params }: TenantPageProps) {
+  const { tenant } = await params;
+  const { tenants } = await getAppConfig(await headers());
+  if (!tenants.some((rule) => rule.pathPrefix === `/${tenant}`)) notFound();
+
+  return <Page />;
+}
@@ -1,5 +1,5 @@
 import { headers } from 'next/headers';
-import { getAppConfig } from '@/lib/utils';
+import { getBranding } from '@/lib/branding';
 
 interface AppLayoutProps {
   children: React.ReactNode;
@@ -7,7 +7,7 @@ interface AppLayoutProps {
 
 export default async function AppLayout({ children }: AppLayoutProps) {
   const hdrs = await headers();
-  const { companyName, logo, logoDark } = await getAppConfig(hdrs);
+  const { companyName, companyUrl, logo, logoDark } = await getBranding(hdrs);
 
   return (
     <>
@@ -15,7 +15,7 @@ export default async function AppLayout({ children }: AppLayoutProps) {
         <a
           target="_blank"
           rel="noopener noreferrer"
-          href="https://www.bosch.in/"
+          href={companyUrl}
           className="scale-300 transition-transform duration-300 hover:scale-410"
         >
           <img src={logo} alt={`${companyName} Logo`} className="block size-15 dark:hidden" />
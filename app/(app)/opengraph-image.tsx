@@ -4,9 +4,9 @@ import getImageSize from 'buffer-image-size';
 import mime from 'mime';
 import { existsSync } from 'node:fs';
 import { readFile } from 'node:fs/promises';
-import { join } from 'node:path';
+import { join, relative, resolve, sep } from 'node:path';
 import { APP_CONFIG_DEFAULTS } from '@/app-config';
-import { getAppConfig } from '@/lib/utils';
+import { getBranding } from '@/lib/branding';
 
 type Dimensions = {
   width: number;
@@ -29,6 +29,19 @@ function isRemoteFile(uri: string) {
   return uri.startsWith('http');
 }
 
+// Branding refers to public files by URL path, e.g. `/logo.svg`. Branding can come from a remote
+// config, so paths that resolve outside `public/`, e.g. `/../.env`, are refused
+function toFilePath(uri: string) {
+  if (isRemoteFile(uri)) return uri;
+  const publicDir = resolve(process.cwd(), 'public');
+  const filePath = resolve(process.cwd(), uri.startsWith('/') ? `public${uri}` : uri);
+  if (!filePath.startsWith(publicDir + sep)) {
+    console.warn(`Ignoring branding image outside the public folder: ${uri}`);
+    return undefined;
+  }
+  return relative(process.cwd(), filePath);
+}
+
 function doesLocalFileExist(uri: string) {
   return existsSync(join(process.cwd(), uri));
 }
@@ -103,12 +116,15 @@ export const contentType = 'image/png';
 // Image generation
 export default async function Image() {
   const hdrs = await headers();
-  const appConfig = await getAppConfig(hdrs);
+  const branding = await getBranding(hdrs);
 
-  const pageTitle = cleanPageTitle(appConfig.pageTitle);
-  const logoUri = appConfig.logoDark || appConfig.logo;
+  const pageTitle = cleanPageTitle(branding.pageTitle);
+  const logoUri = toFilePath(branding.logoDark || branding.logo) ?? 'public/lk-logo-dark.svg';
   const isLogoUriLocal = logoUri.includes('lk-logo');
-  const wordmarkUri = logoUri === APP_CONFIG_DEFAULTS.logoDark ? 'public/lk-wordmark.svg' : logoUri;
+  const wordmarkUri =
+    (branding.logoDark || branding.logo) === APP_CONFIG_DEFAULTS.logoDark
+      ? 'public/lk-wordmark.svg'
+      : logoUri;
 
   // Load fonts - use file system in dev, fetch in production
   let commitMonoData: ArrayBuffer | undefined;
@@ -123,7 +139,11 @@ export default async function Image() {
   }
 
   // bg
-  const { base64: bgSrcBase64 } = await getImageData('public/opengraph-image-bg.png');
+  const { base64: bgSrcBase64 } = await getImageData(
+    toFilePath(branding.openGraphImage ?? '/opengraph-image-bg.png') ??
+      'public/opengraph-image-bg.png',
+    'public/opengraph-image-bg.png'
+  );
 
   // wordmark
   const { base64: wordmarkSrcBase64, dimensions: wordmarkDimensions } = isLogoUriLocal
@@ -1,10 +1,12 @@
 import { headers } from 'next/headers';
 import { App } from '@/components/app';
-import { getAppConfig } from '@/lib/utils';
+import { getAppConfig } from '@/lib/app-config';
+import { getBranding } from '@/lib/branding';
 
 export default async function Page() {
   const hdrs = await headers();
   const appConfig = await getAppConfig(hdrs);
+  const branding = await getBranding(hdrs);
 
-  return <App appConfig={appConfig} />;
+  return <App appConfig={appConfig} branding={branding} />;
 }
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import type { ApiErrorBody } from '@/lib/api-error';
+import { type AppConfigResult, loadAppConfig } from '@/lib/app-config';
+
+export const revalidate = 0;
+
+// Shows which sandbox keys were rejected, so it is off in production unless asked for
+const ENABLED =
+  process.env.NODE_ENV !== 'production' || process.env.APP_CONFIG_DEBUG_ROUTE === 'true';
+
+/** Debug view of the effective app config for this request, with merge diagnostics. */
+export async function GET(req: Request) {
+  if (!ENABLED) {
+    return NextResponse.json(
+      { error: { code: 'not_found', message: 'Not found' } } satisfies ApiErrorBody,
+      { status: 404 }
+    );
+  }
+
+  const result = await loadAppConfig(req.headers);
+  return NextResponse.json(result satisfies AppConfigResult, {
+    headers: { 'Cache-Control': 'no-store' },
+  });
+}
@@ -1,9 +1,33 @@
 import { NextResponse } from 'next/server';
-import { AccessToken, type AccessTokenOptions, type VideoGrant } from 'livekit-server-sdk';
+import {
+  AccessToken,
+  type AccessTokenOptions,
+  AgentDispatchClient,
+  type VideoGrant,
+} from 'livekit-server-sdk';
+import type { VoiceBase } from '@/hooks/useConnectionDetails';
+import type { ApiErrorBody, ApiErrorCode } from '@/lib/api-error';
+import { loadAppConfig } from '@/lib/app-config';
+import { AuthConfigError, getAuthProvider, participantIdentity } from '@/lib/auth';
+import { DEFAULT_LANGUAGE, getLanguage, languageMetadata, resolveLanguages } from '@/lib/languages';
+import { getClientIp, getConnectionRateLimiter } from '@/lib/rate-limit';
+import {
+  SESSION_TTL_SECONDS,
+  createResumeToken,
+  createRoomName,
+  isValidRoomName,
+  verifyResumeToken,
+} from '@/lib/resume-token';
+import type { DispatchMetadata, ParticipantMetadata } from '@/lib/types';
+import { parseVehicleContext } from '@/lib/vehicle';
 
 const API_KEY = process.env.LIVEKIT_API_KEY!;
 const API_SECRET = process.env.LIVEKIT_API_SECRET!;
 const LIVEKIT_URL = process.env.LIVEKIT_URL!;
+// Name the agent registered with; when set, agents are dispatched explicitly from here
+const AGENT_NAME = process.env.LIVEKIT_AGENT_NAME;
+
+const VOICE_BASES: VoiceBase[] = ['Voice Assistant', 'Live Assistant'];
 
 export const revalidate = 0;
 
@@ -12,26 +36,97 @@ export type ConnectionDetails = {
   roomName: string;
   participantName: string;
   participantToken: string;
+  /** Lets the same user rejoin `roomName` after a reload or network drop. */
+  resumeToken: string;
+  /** When the participant and resume tokens expire, in epoch milliseconds. */
+  expiresAt: number;
+  /**
+   * The agent is only dispatched once details are requested to join, so details for a preflight
+   * check that have this set cannot be used to join.
+   */
+  agentPending?: boolean;
 };
 
 export async function GET(req: Request) {
   try {
     if (!LIVEKIT_URL) throw new Error('LIVEKIT_URL is not defined');
 
-    const language = new URL(req.url).searchParams.get('language') ?? 'en';
-    const voiceBase = new URL(req.url).searchParams.get('voiceBase') ?? 'Voice Assistant';
-    const participantName = 'user';
-    const participantIdentity = `voice_assistant_user_${Math.floor(Math.random() * 10_000)}`;
-    const roomName = `voice_assistant_room_${Math.floor(Math.random() * 10_000)}`;
+    // Throttle by IP before doing any work, then by user once we know who is asking
+    const limiter = getConnectionRateLimiter();
+    const ipLimit = await limiter.check({ ip: getClientIp(req) });
+    if (!ipLimit.allowed) return rateLimited(ipLimit.retryAfter);
+
+    const user = await getAuthProvider().authenticate(req);
+    if (!user) {
+      return errorResponse(401, 'unauthorized', 'Sign in to start a session', {
+        'WWW-Authenticate': 'Bearer',
+      });
+    }
+
+    const userLimit = await limiter.check({ userId: user.id });
+    if (!userLimit.allowed) return rateLimited(userLimit.retryAfter);
+
+    const { searchParams } = new URL(req.url);
+    // Languages as the deployment configures them, e.g. with another TTS voice
+    const { config } = await loadAppConfig(req.headers);
+    const languages = resolveLanguages(config.languages, config.languageOverrides);
+    const language = getLanguage(searchParams.get('language') ?? DEFAULT_LANGUAGE, languages);
+    const requestedVoiceBase = searchParams.get('voiceBase');
+    const voiceBase = VOICE_BASES.find((base) => base === requestedVoiceBase) ?? 'Voice Assistant';
+    const vehicle = parseVehicleParam(searchParams.get('vehicle'));
+    const participantName = user.displayName;
+    // A preflight check only checks that details can be issued; it should not start a call
+    const preflight = searchParams.get('preflight') === 'true';
+
+    // Rejoining an existing room requires the resume token issued with it
+    const requestedRoom = searchParams.get('roomName');
+    if (requestedRoom) {
+      const resumeToken = searchParams.get('resumeToken') ?? '';
+      const canResume =
+        isValidRoomName(requestedRoom) &&
+        (await verifyResumeToken(resumeToken, requestedRoom, user.id));
+      if (!canResume) {
+        return errorResponse(403, 'invalid_resume', 'This session can no longer be resumed');
+      }
+    }
+    const roomName = requestedRoom ?? createRoomName();
+    const metadata: ParticipantMetadata = {
+      ...languageMetadata(language),
+      voiceBase,
+      vehicle,
+    };
+
+    // Explicit dispatch sends the agent to new rooms from here, so an agent that cannot be
+    // dispatched is reported to the user straight away instead of never joining
+    if (AGENT_NAME && !requestedRoom && !preflight) {
+      try {
+        await new AgentDispatchClient(LIVEKIT_URL, API_KEY, API_SECRET).createDispatch(
+          roomName,
+          AGENT_NAME,
+          {
+            metadata: JSON.stringify({
+              ...metadata,
+              workshopId: user.workshopId,
+              technicianId: user.technicianId,
+            } satisfies DispatchMetadata),
+          }
+        );
+      } catch (e) {
+        // The details stay in the server log; they are of no use to the client
+        console.error(`Failed to dispatch agent "${AGENT_NAME}" to ${roomName}:`, e);
+        return errorResponse(503, 'agent_dispatch_failed', 'Could not dispatch the agent');
+      }
+    }
 
     const participantToken = await createParticipantToken(
       {
-        identity: participantIdentity,
+        identity: participantIdentity(user),
         name: participantName,
-        metadata: JSON.stringify({ language, voiceBase }),
+        metadata: JSON.stringify(metadata),
       },
       roomName
     ); // ← no trailing comma here
+    const resumeToken = await createResumeToken(roomName, user.id);
 
     return NextResponse.json(
       {
@@ -39,23 +134,65 @@ export async function GET(req: Request) {
         roomName,
         participantToken,
         participantName,
+        resumeToken,
+        expiresAt: Date.now() + SESSION_TTL_SECONDS * 1000,
+        agentPending: AGENT_NAME && !requestedRoom && preflight ? true : undefined,
       } satisfies ConnectionDetails,
       { headers: { 'Cache-Control': 'no-store' } } // ← no trailing comma here
     );
   } catch (e: unknown) {
-    const message = e instanceof Error ? e.message : 'Unknown error';
-    return new NextResponse(message, { status: 500 });
+    console.error('Failed to create connection details:', e);
+    if (e instanceof AuthConfigError) {
+      return errorResponse(500, 'server_misconfigured', e.message);
+    }
+    // Logged above; the details are of no use to the client and may reveal server internals
+    return errorResponse(500, 'internal_error', 'Could not create connection details');
+  }
+}
+
+function errorResponse(
+  status: number,
+  code: ApiErrorCode,
+  message: string,
+  headers?: Record<string, string>,
+  retryAfter?: number
+) {
+  return NextResponse.json({ error: { code, message, retryAfter } } satisfies ApiErrorBody, {
+    status,
+    headers: { 'Cache-Control': 'no-store', ...headers },
+  });
+}
+
+function rateLimited(retryAfter: number) {
+  return errorResponse(
+    429,
+    'rate_limited',
+    'Too many session requests, please try again later',
+    { 'Retry-After': String(retryAfter) },
+    retryAfter
+  );
+}
+
+function parseVehicleParam(value: string | null) {
+  if (!value) return undefined;
+  try {
+    return parseVehicleContext(JSON.parse(value));
+  } catch {
+    // A malformed vehicle parameter should not prevent the call from starting
+    return undefined;
   }
 }
 
 function createParticipantToken(userInfo: AccessTokenOptions, roomName: string) {
-  const at = new AccessToken(API_KEY, API_SECRET, { ...userInfo, ttl: '15m' });
+  const at = new AccessToken(API_KEY, API_SECRET, { ...userInfo, ttl: SESSION_TTL_SECONDS });
   const grant: VideoGrant = {
     room: roomName,
     roomJoin: true,
     canPublish: true,
     canPublishData: true,
     canSubscribe: true,
+    // Language and input mode changes are published as participant metadata and attributes
+    canUpdateOwnMetadata: true,
   };
   at.addGrant(grant);
   return at.toJwt();
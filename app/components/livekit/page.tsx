@@ -1,4 +1,5 @@
 import { Track } from 'livekit-client';
+import { APP_CONFIG_DEFAULTS } from '@/app-config';
 import { AgentControlBar } from '@/components/livekit/agent-control-bar/agent-control-bar';
 import { DeviceSelect } from '@/components/livekit/device-select';
 import { TrackToggle } from '@/components/livekit/track-toggle';
@@ -57,6 +58,9 @@ export default function LiveKit() {
               supportsChatInput: true,
               supportsVideoInput: true,
               supportsScreenShare: true,
+              attachments: APP_CONFIG_DEFAULTS.attachments,
+              languages: APP_CONFIG_DEFAULTS.languages,
+              languageOverrides: APP_CONFIG_DEFAULTS.languageOverrides,
             }}
           />
         </div>
@@ -1,8 +1,16 @@
-import { Public_Sans } from 'next/font/google';
+import {
+  Noto_Sans_Bengali,
+  Noto_Sans_Devanagari,
+  Noto_Sans_Kannada,
+  Noto_Sans_Malayalam,
+  Noto_Sans_Tamil,
+  Noto_Sans_Telugu,
+  Public_Sans,
+} from 'next/font/google';
 import localFont from 'next/font/local';
 import { headers } from 'next/headers';
 import { ApplyThemeScript, ThemeToggle } from '@/components/theme-toggle';
-import { getAppConfig } from '@/lib/utils';
+import { getBranding } from '@/lib/branding';
 import './globals.css';
 
 const publicSans = Public_Sans({
@@ -10,6 +18,47 @@ const publicSans = Public_Sans({
   subsets: ['latin'],
 });
 
+// Script fonts for the languages in `lib/languages`. Only the one in use is downloaded, so none
+// are preloaded.
+const notoDevanagari = Noto_Sans_Devanagari({
+  variable: '--font-noto-devanagari',
+  subsets: ['devanagari'],
+  preload: false,
+});
+const notoKannada = Noto_Sans_Kannada({
+  variable: '--font-noto-kannada',
+  subsets: ['kannada'],
+  preload: false,
+});
+const notoTamil = Noto_Sans_Tamil({
+  variable: '--font-noto-tamil',
+  subsets: ['tamil'],
+  preload: false,
+});
+const notoTelugu = Noto_Sans_Telugu({
+  variable: '--font-noto-telugu',
+  subsets: ['telugu'],
+  preload: false,
+});
+const notoMalayalam = Noto_Sans_Malayalam({
+  variable: '--font-noto-malayalam',
+  subsets: ['malayalam'],
+  preload: false,
+});
+const notoBengali = Noto_Sans_Bengali({
+  variable: '--font-noto-bengali',
+  subsets: ['bengali'],
+  preload: false,
+});
+const scriptFonts = [
+  notoDevanagari,
+  notoKannada,
+  notoTamil,
+  notoTelugu,
+  notoMalayalam,
+  notoBengali,
+];
+
 const commitMono = localFont({
   src: [
     {
@@ -42,11 +91,20 @@ interface RootLayoutProps {
 
 export default async function RootLayout({ children }: RootLayoutProps) {
   const hdrs = await headers();
-  const { accent, accentDark, pageTitle, pageDescription } = await getAppConfig(hdrs);
+  const { accent, accentDark, pageTitle, pageDescription, favicon, palette } =
+    await getBranding(hdrs);
 
   const styles = [
     accent ? `:root { --primary: ${accent}; }` : '',
     accentDark ? `.dark { --primary: ${accentDark}; }` : '',
+    `:root {
+      --brand-background-from: ${palette.backgroundFrom};
+      --brand-background-via: ${palette.backgroundVia};
+      --brand-background-to: ${palette.backgroundTo};
+      --brand-button-from: ${palette.buttonFrom};
+      --brand-button-to: ${palette.buttonTo};
+      --brand-ring: ${palette.ring};
+    }`,
   ]
     .filter(Boolean)
     .join('\n');
@@ -57,10 +115,11 @@ export default async function RootLayout({ children }: RootLayoutProps) {
         {styles && <style>{styles}</style>}
         <title>{pageTitle}</title>
         <meta name="description" content={pageDescription} />
+        {favicon && favicon !== '/favicon.ico' && <link rel="icon" href={favicon} />}
         <ApplyThemeScript />
       </head>
       <body
-        className={`${publicSans.variable} ${commitMono.variable} overflow-x-hidden antialiased`}
+        className={`${publicSans.variable} ${commitMono.variable} ${scriptFonts.map((font) => font.variable).join(' ')} overflow-x-hidden antialiased`}
       >
         {children}
         <div className="group fixed bottom-0 left-1/2 z-50 mb-2 -translate-x-1/2">
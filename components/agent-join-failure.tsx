@@ -0,0 +1,112 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Check, MessageSquareWarning, RotateCcw, Unplug, X } from 'lucide-react';
+import useT from '@/hooks/useT';
+import {
+  JOIN_FAILURE_MESSAGES,
+  type JoinFailure,
+  describeJoinFailure,
+  problemReportUrl,
+} from '@/lib/agent-join';
+import { cn } from '@/lib/utils';
+
+const COPIED_DISPLAY_MS = 2_000;
+
+interface AgentJoinFailureProps {
+  failure: JoinFailure;
+  /** Where "report problem" writes to. Without it, the problem details are copied instead. */
+  supportEmail?: string;
+  onRetry: () => void;
+  onClose: () => void;
+  className?: string;
+}
+
+/**
+ * Shown instead of the call when it could not be started, with what went wrong in plain words,
+ * a retry, and a way to send support the details.
+ */
+export function AgentJoinFailure({
+  failure,
+  supportEmail,
+  onRetry,
+  onClose,
+  className,
+  ref,
+}: Pick<React.ComponentProps<'div'>, 'ref'> & AgentJoinFailureProps) {
+  const t = useT();
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timeout = setTimeout(() => setCopied(false), COPIED_DISPLAY_MS);
+    return () => clearTimeout(timeout);
+  }, [copied]);
+
+  const handleCopyDetails = () => {
+    navigator.clipboard
+      .writeText(describeJoinFailure(failure))
+      .then(() => setCopied(true))
+      .catch((error) => console.warn('Failed to copy the problem details:', error));
+  };
+
+  const secondaryButton =
+    'flex items-center justify-center gap-2 rounded-lg border border-white/20 bg-white/10 px-4 py-3 text-sm font-medium transition-colors hover:bg-white/15';
+
+  return (
+    <div
+      ref={ref}
+      role="alertdialog"
+      aria-modal="true"
+      aria-labelledby="join-failure-title"
+      aria-describedby="join-failure-reason"
+      className={cn(
+        'fixed inset-0 z-20 flex flex-col items-center justify-center overflow-y-auto bg-gradient-to-br from-(--brand-background-from) via-(--brand-background-via) to-(--brand-background-to) px-4 py-8 text-gray-200',
+        className
+      )}
+    >
+      <div className="relative flex w-full max-w-md flex-col items-center text-center">
+        <button
+          onClick={onClose}
+          aria-label={t('joinFailure.back')}
+          className="absolute -top-2 right-0 rounded-lg p-2 transition-colors hover:bg-white/10"
+        >
+          <X className="h-5 w-5" />
+        </button>
+
+        <Unplug className="mb-4 h-12 w-12 text-red-300" />
+        <h2 id="join-failure-title" className="mb-2 text-xl font-semibold text-white">
+          {t('joinFailure.title')}
+        </h2>
+        <p id="join-failure-reason" className="mb-8 text-sm text-gray-300">
+          {failure.message ?? t(JOIN_FAILURE_MESSAGES[failure.reason])}
+        </p>
+
+        <div className="flex w-full flex-col gap-3">
+          <button
+            onClick={onRetry}
+            className="flex items-center justify-center gap-2 rounded-lg bg-gradient-to-r from-(--brand-button-from) to-(--brand-button-to) px-6 py-4 text-lg font-semibold tracking-wider text-white shadow-lg transition-all duration-200 hover:brightness-110"
+          >
+            <RotateCcw className="h-5 w-5" />
+            {t('joinFailure.retry')}
+          </button>
+          {supportEmail ? (
+            <a href={problemReportUrl(supportEmail, failure)} className={secondaryButton}>
+              <MessageSquareWarning className="h-4 w-4" />
+              {t('joinFailure.reportProblem')}
+            </a>
+          ) : (
+            <button onClick={handleCopyDetails} className={secondaryButton}>
+              {copied ? (
+                <Check className="h-4 w-4" />
+              ) : (
+                <MessageSquareWarning className="h-4 w-4" />
+              )}
+              {copied ? t('joinFailure.detailsCopied') : t('joinFailure.reportProblem')}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
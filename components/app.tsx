@@ -1,61 +1,236 @@
 'use client';
 
-import { useEffect, useMemo, useState } from 'react';
-import { Room, RoomEvent } from 'livekit-client';
-import { motion } from 'motion/react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { DisconnectReason, Room, RoomEvent } from 'livekit-client';
+import { AnimatePresence, motion } from 'motion/react';
 import { Toaster } from 'sonner';
 import { RoomAudioRenderer, RoomContext, StartAudio } from '@livekit/components-react';
+import type { ConnectionDetails } from '@/app/api/connection-details/route';
+import { AgentJoinFailure } from '@/components/agent-join-failure';
 import { toastAlert } from '@/components/alert-toast';
+import { Preflight, type PreflightResult } from '@/components/preflight';
+import { SessionHistory } from '@/components/session-history';
 import { SessionView } from '@/components/session-view';
 import { Welcome } from '@/components/welcome';
 import useConnectionDetails from '@/hooks/useConnectionDetails';
-import type { AppConfig } from '@/lib/types';
+import usePersistentUserChoices from '@/hooks/usePersistentUserChoices';
+import { LanguageContext } from '@/hooks/useT';
+import { type JoinFailure, type JoinFailureReason, joinFailureFromError } from '@/lib/agent-join';
+import { reportMissingKeys, translate } from '@/lib/i18n';
+import {
+  DEFAULT_LANGUAGE,
+  type Language,
+  getLanguage,
+  languageFontFamily,
+  languageMetadata,
+  resolveLanguages,
+} from '@/lib/languages';
+import { inspectionCaptureOptions } from '@/lib/live-assistant';
+import { MAX_RESUME_ATTEMPTS, getRetryDelay, isRetryableConnectError } from '@/lib/reconnect';
+import {
+  type SessionResumeInfo,
+  clearResumeInfo,
+  loadResumeInfo,
+  saveResumeInfo,
+} from '@/lib/session-resume';
+import type { AppConfig, BrandingProfile, ParticipantMetadata } from '@/lib/types';
+import type { VehicleContext } from '@/lib/vehicle';
 
 // Motion-wrap Welcome
 const MotionWelcome = motion.create(Welcome);
+const MotionSessionHistory = motion.create(SessionHistory);
+const MotionPreflight = motion.create(Preflight);
+const MotionAgentJoinFailure = motion.create(AgentJoinFailure);
+
+// Disconnects caused by the network or a server restart, after which the room is still there
+const RESUMABLE_DISCONNECT_REASONS = new Set([
+  DisconnectReason.UNKNOWN_REASON,
+  DisconnectReason.SERVER_SHUTDOWN,
+  DisconnectReason.STATE_MISMATCH,
+  DisconnectReason.MIGRATION,
+  DisconnectReason.SIGNAL_CLOSE,
+]);
+
+const RESUME_REFRESH_INTERVAL_MS = 60_000;
+const RESUME_REFRESH_MARGIN_MS = 3 * 60_000;
 
 interface AppProps {
   appConfig: AppConfig;
+  /** Branding of the tenant this page was served for. */
+  branding: BrandingProfile;
 }
 
-export function App({ appConfig }: AppProps) {
+export function App({ appConfig, branding }: AppProps) {
   const room = useMemo(() => new Room(), []);
   const [sessionStarted, setSessionStarted] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [preflightOpen, setPreflightOpen] = useState(false);
+  // Why the last call could not be started, shown until the user retries or goes back
+  const [joinFailure, setJoinFailure] = useState<JoinFailure | null>(null);
 
-  const [language, setLanguage] = useState<'en' | 'kn' | 'hi' | 'ta' | null>(null);
+  const languages = useMemo(
+    () => resolveLanguages(appConfig.languages, appConfig.languageOverrides),
+    [appConfig.languages, appConfig.languageOverrides]
+  );
+  const [language, setLanguage] = useState<Language | null>(null);
+  const uiLanguage = useMemo(
+    () => getLanguage(language ?? DEFAULT_LANGUAGE, languages),
+    [language, languages]
+  );
   const [voiceBase, setVoiceBase] = useState<'Voice Assistant' | 'Live Assistant'>(
     'Voice Assistant'
   );
 
-  const handleLanguageChange = (lang: 'en' | 'kn' | 'hi' | 'ta') => {
-    setLanguage(lang);
+  const [vehicle, setVehicle] = useState<VehicleContext | undefined>(undefined);
+  const { inputModeSettings, saveInputModeSettings } = usePersistentUserChoices();
+  // Read when connecting, so switching modes mid-call does not reconnect
+  const inputModeSettingsRef = useRef(inputModeSettings);
+  useEffect(() => {
+    inputModeSettingsRef.current = inputModeSettings;
+  }, [inputModeSettings]);
+  // Also read when connecting: changed mid-call, e.g. with `/language`, they are published as
+  // participant metadata instead
+  const callSettingsRef = useRef({ language, voiceBase, vehicle });
+  useEffect(() => {
+    callSettingsRef.current = { language, voiceBase, vehicle };
+  }, [language, voiceBase, vehicle]);
+
+  // A previous call in this tab that can still be rejoined, e.g. after a reload
+  const [resumable, setResumable] = useState<SessionResumeInfo | null>(null);
+  // The room the next connection attempt should rejoin instead of creating a new one
+  const resumeRef = useRef<SessionResumeInfo | null>(null);
+  const [connectAttempt, setConnectAttempt] = useState(0);
+  // 1-based number of the rejoin attempt in progress, 0 when not rejoining
+  const [resumeAttempt, setResumeAttempt] = useState(0);
+  const retryCountRef = useRef(0);
+  // Set while connecting, when a failed `room.connect()` also emits `Disconnected`; the connect
+  // effect handles those failures itself
+  const attemptInFlightRef = useRef(false);
+  // Connection details fetched by the preflight check, used for the join that follows it
+  const preflightDetailsRef = useRef<ConnectionDetails | null>(null);
+
+  // Render the page in the picked language's script direction and fonts
+  useEffect(() => {
+    const { locale, dir } = uiLanguage;
+    document.documentElement.lang = locale;
+    document.documentElement.dir = dir;
+    document.body.style.fontFamily = languageFontFamily(uiLanguage);
+  }, [uiLanguage]);
+
+  useEffect(() => {
+    setResumable(loadResumeInfo());
+    if (process.env.NODE_ENV !== 'production') reportMissingKeys();
+  }, []);
+
+  const handleStartCall = () => {
+    if (appConfig.isPreflightEnabled) setPreflightOpen(true);
+    else setSessionStarted(true);
+  };
+
+  const handlePreflightJoin = async ({
+    connectionDetails,
+    audioDeviceId,
+    videoDeviceId,
+  }: PreflightResult) => {
+    setPreflightOpen(false);
+    preflightDetailsRef.current = connectionDetails ?? null;
+    // Before connecting this only sets the devices the call's tracks are created with
+    await Promise.all([
+      audioDeviceId && room.switchActiveDevice('audioinput', audioDeviceId, false),
+      videoDeviceId && room.switchActiveDevice('videoinput', videoDeviceId, false),
+    ]).catch((error) => console.warn('Failed to apply the preflight devices:', error));
+    setSessionStarted(true);
+  };
+
+  const handleRetryJoin = () => {
+    setJoinFailure(null);
+    setSessionStarted(true);
+  };
+
+  // Stable, as the session view restarts its join timeout when this changes
+  const handleAgentJoinFailure = useCallback(
+    (reason: JoinFailureReason) => {
+      // The session view leaves the room right after, which ends the session
+      setJoinFailure({ reason, roomName: room.name, at: Date.now() });
+    },
+    [room]
+  );
+
+  const handleResume = () => {
+    const info = loadResumeInfo();
+    setResumable(info);
+    if (!info) return;
+    resumeRef.current = info;
+    retryCountRef.current = 0;
+    setResumeAttempt(1);
+    setLanguage(info.language);
+    setVoiceBase(info.voiceBase);
+    setVehicle(info.vehicle);
+    setSessionStarted(true);
+  };
+
+  const publishMetadata = (metadata: ParticipantMetadata) => {
     if (room.state === 'connected') {
+      let current: Partial<ParticipantMetadata> = {};
       try {
-        room.localParticipant.setMetadata(JSON.stringify({ language: lang, voiceBase }));
-      } catch (e) {
-        console.warn('setMetadata failed:', e);
+        current = JSON.parse(room.localParticipant.metadata || '{}');
+      } catch {
+        // Start from scratch if the existing metadata is not JSON
       }
+      const merged: ParticipantMetadata = { ...current, ...metadata };
+      room.localParticipant.setMetadata(JSON.stringify(merged)).catch((e) => {
+        console.warn('setMetadata failed:', e);
+      });
     }
   };
 
+  const handleLanguageChange = (lang: Language) => {
+    setLanguage(lang);
+    publishMetadata({ ...languageMetadata(getLanguage(lang, languages)), voiceBase, vehicle });
+  };
+
   const handleVoiceBaseChange = (base: 'Voice Assistant' | 'Live Assistant') => {
     setVoiceBase(base);
-    if (room.state === 'connected') {
-      try {
-        room.localParticipant.setMetadata(JSON.stringify({ language, voiceBase: base }));
-      } catch (e) {
-        console.warn('setMetadata (voiceBase) failed:', e);
-      }
-    }
+    if (language)
+      publishMetadata({
+        ...languageMetadata(getLanguage(language, languages)),
+        voiceBase: base,
+        vehicle,
+      });
+  };
+
+  const handleVehicleChange = (value: VehicleContext | undefined) => {
+    setVehicle(value);
+    if (language)
+      publishMetadata({
+        ...languageMetadata(getLanguage(language, languages)),
+        voiceBase,
+        vehicle: value,
+      });
   };
 
   const { fetchConnectionDetails } = useConnectionDetails();
 
   useEffect(() => {
-    const onDisconnected = () => setSessionStarted(false);
+    const onDisconnected = (reason?: DisconnectReason) => {
+      if (attemptInFlightRef.current) return;
+      const info =
+        reason === undefined || RESUMABLE_DISCONNECT_REASONS.has(reason) ? loadResumeInfo() : null;
+      if (info) {
+        // Lost the connection mid-call: rejoin the same room while the session is still valid
+        resumeRef.current = info;
+        retryCountRef.current = 0;
+        setResumeAttempt(1);
+        setConnectAttempt((attempt) => attempt + 1);
+        return;
+      }
+      clearResumeInfo();
+      setResumable(null);
+      setSessionStarted(false);
+    };
     const onMediaDevicesError = (error: Error) => {
       toastAlert({
-        title: 'Encountered an error with your media devices',
+        title: translate(language, 'errors.mediaDevices'),
         description: `${error.name}: ${error.message}`,
       });
     };
@@ -65,52 +240,128 @@ export function App({ appConfig }: AppProps) {
       room.off(RoomEvent.Disconnected, onDisconnected);
       room.off(RoomEvent.MediaDevicesError, onMediaDevicesError);
     };
-  }, [room]);
+  }, [room, language]);
 
   useEffect(() => {
     let aborted = false;
+    let retryTimeout: ReturnType<typeof setTimeout> | undefined;
+    const { language, voiceBase, vehicle } = callSettingsRef.current;
     if (sessionStarted && room.state === 'disconnected' && language) {
-      Promise.all([
-        room.localParticipant.setMicrophoneEnabled(true, undefined, {
+      const prefetched = preflightDetailsRef.current;
+      preflightDetailsRef.current = null;
+      attemptInFlightRef.current = true;
+      // Only a new call starts with the camera on; a rejoin must not turn on one the user turned off
+      const firstJoin = !resumeRef.current;
+      const connectionDetails =
+        prefetched &&
+        !resumeRef.current &&
+        !prefetched.agentPending &&
+        prefetched.expiresAt > Date.now()
+          ? Promise.resolve(prefetched)
+          : fetchConnectionDetails(language, voiceBase, vehicle, resumeRef.current ?? undefined);
+      // In the push/toggle modes the microphone stays closed until the user's first turn, and
+      // nothing is buffered before the agent joins that they never held the key for. A missing or
+      // denied microphone is already shown as a media devices error and should not fail the join
+      room.localParticipant
+        .setMicrophoneEnabled(inputModeSettingsRef.current.mode === 'always-on', undefined, {
           preConnectBuffer: appConfig.isPreConnectBufferEnabled,
-        }),
-        fetchConnectionDetails(language, voiceBase).then(async (connectionDetails) => {
-          await room.connect(connectionDetails.serverUrl, connectionDetails.participantToken);
-        }),
-      ]).catch((error) => {
-        if (aborted) return;
-        toastAlert({
-          title: 'There was an error connecting to the agent',
-          description: `${error.name}: ${error.message}`,
+        })
+        .catch((error) => console.warn('Failed to enable the microphone:', error));
+      connectionDetails
+        .then(async (details) => {
+          await room.connect(details.serverUrl, details.participantToken);
+          if (!aborted) attemptInFlightRef.current = false;
+          saveResumeInfo(details, { language, voiceBase, vehicle });
+          resumeRef.current = null;
+          retryCountRef.current = 0;
+          setResumeAttempt(0);
+          if (firstJoin && appConfig.supportsVideoInput && voiceBase === 'Live Assistant') {
+            // An inspection starts with the camera on. A failure is already shown as a media
+            // devices error and should not end the call
+            room.localParticipant
+              .setCameraEnabled(true, inspectionCaptureOptions())
+              .catch((error) => console.warn('Failed to enable the camera:', error));
+          }
+        })
+        .catch((error) => {
+          if (aborted) return;
+          attemptInFlightRef.current = false;
+          // Each attempt fetches a fresh token, so an expired one is replaced on the next try
+          if (isRetryableConnectError(error) && retryCountRef.current < MAX_RESUME_ATTEMPTS - 1) {
+            const delay = getRetryDelay(retryCountRef.current, error);
+            retryCountRef.current += 1;
+            const rejoining = resumeRef.current !== null;
+            console.warn(
+              `${rejoining ? 'Rejoining' : 'Connecting'} failed, retrying in ${Math.round(delay)}ms:`,
+              error
+            );
+            retryTimeout = setTimeout(() => {
+              if (rejoining) setResumeAttempt(retryCountRef.current + 1);
+              setConnectAttempt((attempt) => attempt + 1);
+            }, delay);
+            return;
+          }
+          retryCountRef.current = 0;
+          if (resumeRef.current) {
+            resumeRef.current = null;
+            setResumeAttempt(0);
+            clearResumeInfo();
+            setResumable(null);
+          }
+          console.error('Failed to start the call:', error);
+          setJoinFailure(joinFailureFromError(error, room.name || undefined));
+          setSessionStarted(false);
         });
-      });
     }
     return () => {
       aborted = true;
+      clearTimeout(retryTimeout);
       room.disconnect();
+      attemptInFlightRef.current = false;
     };
   }, [
     room,
     sessionStarted,
     fetchConnectionDetails,
     appConfig.isPreConnectBufferEnabled,
-    language,
-    voiceBase,
+    appConfig.supportsVideoInput,
+    connectAttempt,
   ]);
 
-  const { startButtonText } = appConfig;
+  // Keep the resume token fresh during long calls, so a drop after the original token's TTL can
+  // still rejoin the same room
+  useEffect(() => {
+    if (!sessionStarted) return;
+    const interval = setInterval(() => {
+      const info = loadResumeInfo();
+      if (!info || room.state !== 'connected') return;
+      if (info.expiresAt - Date.now() > RESUME_REFRESH_MARGIN_MS) return;
+
+      const { language, voiceBase, vehicle } = info;
+      fetchConnectionDetails(language, voiceBase, vehicle, info)
+        .then((details) => saveResumeInfo(details, { language, voiceBase, vehicle }))
+        .catch((error) => console.warn('Failed to refresh session resume token:', error));
+    }, RESUME_REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [room, sessionStarted, fetchConnectionDetails]);
 
   return (
-    <>
+    <LanguageContext.Provider value={uiLanguage}>
       <MotionWelcome
         key="welcome"
-        startButtonText={startButtonText}
-        onStartCall={() => setSessionStarted(true)}
-        disabled={sessionStarted}
+        copy={branding.welcome}
+        onStartCall={handleStartCall}
+        disabled={sessionStarted || preflightOpen || joinFailure !== null}
+        languages={languages}
         language={language}
         onLanguageChange={handleLanguageChange}
         voiceBase={voiceBase}
         onVoiceBaseChange={handleVoiceBaseChange}
+        onOpenHistory={() => setHistoryOpen(true)}
+        resumable={resumable}
+        onResume={handleResume}
+        vehicle={vehicle}
+        onVehicleChange={handleVehicleChange}
         initial={{ opacity: 0 }}
         animate={{ opacity: sessionStarted ? 0 : 1 }}
         transition={{
@@ -120,6 +371,53 @@ export function App({ appConfig }: AppProps) {
         }}
       />
 
+      <AnimatePresence>
+        {historyOpen && !sessionStarted && (
+          <MotionSessionHistory
+            key="session-history"
+            onClose={() => setHistoryOpen(false)}
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.3, ease: 'linear' }}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {preflightOpen && language && !sessionStarted && (
+          <MotionPreflight
+            key="preflight"
+            language={language}
+            voiceBase={voiceBase}
+            vehicle={vehicle}
+            camera={appConfig.supportsVideoInput && voiceBase === 'Live Assistant'}
+            onJoin={handlePreflightJoin}
+            onClose={() => setPreflightOpen(false)}
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.3, ease: 'linear' }}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {joinFailure && !sessionStarted && (
+          <MotionAgentJoinFailure
+            key="agent-join-failure"
+            failure={joinFailure}
+            supportEmail={appConfig.supportEmail}
+            onRetry={handleRetryJoin}
+            onClose={() => setJoinFailure(null)}
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.3, ease: 'linear' }}
+          />
+        )}
+      </AnimatePresence>
+
       <RoomContext.Provider value={room}>
         <RoomAudioRenderer />
         <StartAudio label="Start Audio" />
@@ -140,12 +438,18 @@ export function App({ appConfig }: AppProps) {
               disabled={!sessionStarted}
               sessionStarted={sessionStarted}
               language={language}
+              voiceBase={voiceBase}
+              reconnectAttempt={resumeAttempt}
+              inputModeSettings={inputModeSettings}
+              onInputModeSettingsChange={saveInputModeSettings}
+              onLanguageChange={handleLanguageChange}
+              onAgentJoinFailure={handleAgentJoinFailure}
             />
           )}
         </motion.div>
       </RoomContext.Provider>
 
       <Toaster />
-    </>
+    </LanguageContext.Provider>
   );
 }
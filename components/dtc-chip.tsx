@@ -0,0 +1,124 @@
+'use client';
+
+import * as React from 'react';
+import { CircuitBoard, X } from 'lucide-react';
+import useT from '@/hooks/useT';
+import { type DtcInfo, type DtcSystem, lookupDtc } from '@/lib/dtc';
+import type { MessageKey } from '@/lib/i18n';
+import { cn } from '@/lib/utils';
+
+const SYSTEM_LABELS: Record<DtcSystem, MessageKey> = {
+  powertrain: 'dtc.powertrain',
+  chassis: 'dtc.chassis',
+  body: 'dtc.body',
+  network: 'dtc.network',
+};
+
+const SYSTEM_STYLES: Record<DtcSystem, string> = {
+  powertrain:
+    'border-orange-300 bg-orange-50 text-orange-700 dark:bg-orange-900/30 dark:text-orange-300',
+  chassis:
+    'border-emerald-300 bg-emerald-50 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300',
+  body: 'border-violet-300 bg-violet-50 text-violet-700 dark:bg-violet-900/30 dark:text-violet-300',
+  network: 'border-sky-300 bg-sky-50 text-sky-700 dark:bg-sky-900/30 dark:text-sky-300',
+};
+
+export function DtcCard({ info, className }: { info: DtcInfo; className?: string }) {
+  const t = useT();
+  return (
+    <span
+      className={cn(
+        'bg-background text-foreground block w-72 rounded-lg border p-3 text-left text-sm shadow-lg',
+        className
+      )}
+    >
+      <span className="flex items-center gap-2 font-mono text-base font-bold">
+        <CircuitBoard className="h-4 w-4" />
+        {info.code}
+      </span>
+      <span className="mt-1 block font-medium">{info.description ?? t('dtc.noDescription')}</span>
+      <span className="text-muted-foreground mt-2 grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 text-xs">
+        <span>{t('dtc.system')}</span>
+        <span>{t(SYSTEM_LABELS[info.system])}</span>
+        <span>{t('dtc.type')}</span>
+        <span>{info.classification === 'generic' ? t('dtc.generic') : t('dtc.manufacturer')}</span>
+        {info.subsystem && (
+          <>
+            <span>{t('dtc.area')}</span>
+            <span>{t(info.subsystem)}</span>
+          </>
+        )}
+      </span>
+      {info.classification === 'manufacturer' && (
+        <span className="text-muted-foreground mt-2 block text-xs italic">
+          {t('dtc.manufacturerNote')}
+        </span>
+      )}
+    </span>
+  );
+}
+
+interface DtcChipProps {
+  code: string;
+  className?: string;
+}
+
+/**
+ * Inline chip for an OBD-II trouble code. Clicking it opens a card with the code's description
+ * and classification from the bundled code table.
+ */
+export function DtcChip({ code, className }: DtcChipProps) {
+  const t = useT();
+  const [open, setOpen] = React.useState(false);
+  const containerRef = React.useRef<HTMLSpanElement>(null);
+  const info = React.useMemo(() => lookupDtc(code), [code]);
+
+  React.useEffect(() => {
+    if (!open) return;
+    const onPointerDown = (event: PointerEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setOpen(false);
+    };
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setOpen(false);
+    };
+    document.addEventListener('pointerdown', onPointerDown);
+    document.addEventListener('keydown', onKeyDown);
+    return () => {
+      document.removeEventListener('pointerdown', onPointerDown);
+      document.removeEventListener('keydown', onKeyDown);
+    };
+  }, [open]);
+
+  if (!info) return <>{code}</>;
+
+  return (
+    <span ref={containerRef} className="relative inline-block align-baseline">
+      <button
+        type="button"
+        onClick={() => setOpen((value) => !value)}
+        aria-expanded={open}
+        title={info.description}
+        className={cn(
+          'cursor-pointer rounded-full border px-2 py-0.5 font-mono text-xs font-semibold transition-opacity hover:opacity-80',
+          SYSTEM_STYLES[info.system],
+          className
+        )}
+      >
+        {info.code}
+      </button>
+      {open && (
+        <span className="absolute top-full left-0 z-50 mt-1" role="dialog" aria-label={info.code}>
+          <DtcCard info={info} />
+          <button
+            type="button"
+            onClick={() => setOpen(false)}
+            className="text-muted-foreground hover:text-foreground absolute top-2 right-2 rounded p-1"
+            aria-label={t('dtc.close')}
+          >
+            <X className="h-3.5 w-3.5" />
+          </button>
+        </span>
+      )}
+    </span>
+  );
+}
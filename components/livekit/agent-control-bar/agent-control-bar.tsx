@@ -3,27 +3,56 @@
 import * as React from 'react';
 import { useCallback } from 'react';
 import { Track } from 'livekit-client';
-import { FileText } from 'lucide-react';
+import { FileText, Gauge } from 'lucide-react';
 import { BarVisualizer, useRemoteParticipants } from '@livekit/components-react';
 import { ChatTextIcon, PhoneDisconnectIcon } from '@phosphor-icons/react/dist/ssr';
-import { ChatInput } from '@/components/livekit/chat/chat-input';
+import { ChatInput, type ChatSendOptions } from '@/components/livekit/chat/chat-input';
 import { Button } from '@/components/ui/button';
 import { Toggle } from '@/components/ui/toggle';
+import useT from '@/hooks/useT';
+import type { CaptionStyle } from '@/lib/captions';
+import type { ChatCommand } from '@/lib/chat-commands';
+import { DEFAULT_INPUT_MODE_SETTINGS, type InputModeSettings } from '@/lib/input-mode';
+import { resolveLanguages } from '@/lib/languages';
 import { AppConfig } from '@/lib/types';
 import { cn } from '@/lib/utils';
 import { DeviceSelect } from '../device-select';
+import { LevelMeter } from '../level-meter';
 import { TrackToggle } from '../track-toggle';
+import { CaptionStyleSelect } from './caption-style-select';
 import { UseAgentControlBarProps, useAgentControlBar } from './hooks/use-agent-control-bar';
+import { usePushToTalk } from './hooks/use-push-to-talk';
+import { InputModeSelect } from './input-mode-select';
+import { TalkButton } from './talk-button';
 
 export interface AgentControlBarProps
   extends React.HTMLAttributes<HTMLDivElement>,
     UseAgentControlBarProps {
-  capabilities: Pick<AppConfig, 'supportsChatInput' | 'supportsVideoInput' | 'supportsScreenShare'>;
+  capabilities: Pick<
+    AppConfig,
+    | 'supportsChatInput'
+    | 'supportsVideoInput'
+    | 'supportsScreenShare'
+    | 'attachments'
+    | 'languages'
+    | 'languageOverrides'
+  >;
   onChatOpenChange?: (open: boolean) => void;
-  onSendMessage?: (message: string) => Promise<void>;
+  onSendMessage?: (message: string, options?: ChatSendOptions) => Promise<void>;
+  /** Slash commands the control bar does not run itself, i.e. other than `/report` and `/end`. */
+  onCommand?: (command: ChatCommand) => void;
   onTextOutputToggle?: (open: boolean) => void;
+  /** Whether the report panel is open, when it can also be closed from outside the control bar. */
+  textOutputOpen?: boolean;
   onDisconnect?: () => void;
   onDeviceError?: (error: { source: Track.Source; error: Error }) => void;
+  inputModeSettings?: InputModeSettings;
+  onInputModeSettingsChange?: (settings: InputModeSettings) => void;
+  captionStyle?: CaptionStyle;
+  onCaptionStyleChange?: (style: CaptionStyle) => void;
+  /** Whether the metrics panel is open. The toggle is only shown with `onMetricsOpenChange`. */
+  metricsOpen?: boolean;
+  onMetricsOpenChange?: (open: boolean) => void;
 }
 
 /**
@@ -35,19 +64,34 @@ export function AgentControlBar({
   capabilities,
   className,
   onSendMessage,
+  onCommand,
   onChatOpenChange,
   onTextOutputToggle,
+  textOutputOpen: textOutputOpenProp,
   onDisconnect,
   onDeviceError,
+  inputModeSettings = DEFAULT_INPUT_MODE_SETTINGS,
+  onInputModeSettingsChange,
+  captionStyle = 'off',
+  onCaptionStyleChange,
+  metricsOpen = false,
+  onMetricsOpenChange,
   ...props
 }: AgentControlBarProps) {
+  const t = useT();
   const participants = useRemoteParticipants();
   const [chatOpen, setChatOpen] = React.useState(false);
   const [textOutputOpen, setTextOutputOpen] = React.useState(false);
   const [isSendingMessage, setIsSendingMessage] = React.useState(false);
 
+  // What `/language` may switch to: the languages the deployment offers
+  const languages = React.useMemo(
+    () => resolveLanguages(capabilities.languages, capabilities.languageOverrides),
+    [capabilities.languages, capabilities.languageOverrides]
+  );
+
   const isAgentAvailable = participants.some((p) => p.isAgent);
-  const isInputDisabled = !chatOpen || !isAgentAvailable || isSendingMessage;
+  const isInputDisabled = !chatOpen || !isAgentAvailable;
 
   const [isDisconnecting, setIsDisconnecting] = React.useState(false);
 
@@ -56,8 +100,13 @@ export function AgentControlBar({
     onTextOutputToggle?.(textOutputOpen);
   }, [textOutputOpen, onTextOutputToggle]);
 
+  React.useEffect(() => {
+    if (textOutputOpenProp !== undefined) setTextOutputOpen(textOutputOpenProp);
+  }, [textOutputOpenProp]);
+
   const {
     micTrackRef,
+    microphoneAudioTrack,
     visibleControls,
     cameraToggle,
     microphoneToggle,
@@ -65,15 +114,23 @@ export function AgentControlBar({
     handleAudioDeviceChange,
     handleVideoDeviceChange,
     handleDisconnect,
+    audioProcessing,
+    handleAudioProcessingChange,
   } = useAgentControlBar({
     controls,
     saveUserChoices,
   });
+  const pushToTalk = usePushToTalk(inputModeSettings);
 
-  const handleSendMessage = async (message: string) => {
+  const handleTalkKeyChange = useCallback(
+    (talkKey: string) => onInputModeSettingsChange?.({ ...inputModeSettings, talkKey }),
+    [inputModeSettings, onInputModeSettingsChange]
+  );
+
+  const handleSendMessage = async (message: string, options?: ChatSendOptions) => {
     setIsSendingMessage(true);
     try {
-      await onSendMessage?.(message);
+      await onSendMessage?.(message, options);
     } finally {
       setIsSendingMessage(false);
     }
@@ -86,6 +143,12 @@ export function AgentControlBar({
     onDisconnect?.();
   };
 
+  const handleCommand = (command: ChatCommand) => {
+    if (command.name === 'report') setTextOutputOpen(true);
+    else if (command.name === 'end') onLeave();
+    else onCommand?.(command);
+  };
+
   React.useEffect(() => {
     onChatOpenChange?.(chatOpen);
   }, [chatOpen, onChatOpenChange]);
@@ -105,7 +168,7 @@ export function AgentControlBar({
 
   return (
     <div
-      aria-label="Voice assistant controls"
+      aria-label={t('controls.label')}
       className={cn(
         'bg-background border-bg2 dark:border-separator1 flex flex-col rounded-[31px] border p-3 drop-shadow-md/3',
         className
@@ -113,23 +176,54 @@ export function AgentControlBar({
       {...props}
     >
       {capabilities.supportsChatInput && (
+        // Grid rows animate to the content's height, which grows with attachment previews
         <div
           inert={!chatOpen}
           className={cn(
-            'overflow-hidden transition-[height] duration-300 ease-out',
-            chatOpen ? 'h-[57px]' : 'h-0'
+            'grid transition-[grid-template-rows] duration-300 ease-out',
+            chatOpen ? 'grid-rows-[1fr]' : 'grid-rows-[0fr]'
           )}
         >
-          <div className="flex h-8 w-full">
-            <ChatInput onSend={handleSendMessage} disabled={isInputDisabled} className="w-full" />
+          <div className="min-h-0 overflow-hidden">
+            <div className="flex w-full">
+              <ChatInput
+                onSend={handleSendMessage}
+                onCommand={handleCommand}
+                disabled={isInputDisabled}
+                sending={isSendingMessage}
+                attachmentLimits={capabilities.attachments}
+                languages={languages}
+                className="w-full"
+              />
+            </div>
+            <hr className="border-bg2 my-3" />
           </div>
-          <hr className="border-bg2 my-3" />
         </div>
       )}
 
       <div className="flex flex-row justify-between gap-1">
         <div className="flex gap-1">
-          {visibleControls.microphone && (
+          {visibleControls.microphone && inputModeSettings.mode !== 'always-on' && (
+            <div className="flex items-center gap-1">
+              <TalkButton
+                mode={inputModeSettings.mode}
+                talkKey={inputModeSettings.talkKey}
+                onTalkKeyChange={handleTalkKeyChange}
+                {...pushToTalk}
+              />
+              <DeviceSelect
+                size="sm"
+                kind="audioinput"
+                onMediaDeviceError={onMicrophoneDeviceSelectError}
+                onActiveDeviceChange={handleAudioDeviceChange}
+                audioProcessing={audioProcessing}
+                onAudioProcessingChange={handleAudioProcessingChange}
+                className="hover:text-fg1 focus:text-fg1 hidden md:block"
+              />
+            </div>
+          )}
+
+          {visibleControls.microphone && inputModeSettings.mode === 'always-on' && (
             <div className="flex items-center gap-0">
               <TrackToggle
                 variant="primary"
@@ -160,6 +254,8 @@ export function AgentControlBar({
                 kind="audioinput"
                 onMediaDeviceError={onMicrophoneDeviceSelectError}
                 onActiveDeviceChange={handleAudioDeviceChange}
+                audioProcessing={audioProcessing}
+                onAudioProcessingChange={handleAudioProcessingChange}
                 className={cn([
                   'pl-2',
                   'peer-data-[state=off]/track:text-destructive-foreground',
@@ -171,6 +267,24 @@ export function AgentControlBar({
             </div>
           )}
 
+          {visibleControls.microphone && (
+            <LevelMeter track={microphoneAudioTrack} className="self-center px-1" />
+          )}
+
+          {visibleControls.microphone && onInputModeSettingsChange && (
+            <InputModeSelect
+              mode={inputModeSettings.mode}
+              onModeChange={(mode) => onInputModeSettingsChange({ ...inputModeSettings, mode })}
+            />
+          )}
+
+          {onCaptionStyleChange && (
+            <CaptionStyleSelect
+              captionStyle={captionStyle}
+              onCaptionStyleChange={onCaptionStyleChange}
+            />
+          )}
+
           {capabilities.supportsVideoInput && visibleControls.camera && (
             <div className="flex items-center gap-0">
               <TrackToggle
@@ -215,7 +329,7 @@ export function AgentControlBar({
           {visibleControls.chat && (
             <Toggle
               variant="secondary"
-              aria-label="Toggle chat"
+              aria-label={t('controls.toggleChat')}
               pressed={chatOpen}
               onPressedChange={setChatOpen}
               disabled={!isAgentAvailable}
@@ -228,7 +342,7 @@ export function AgentControlBar({
           {/* Text Output Panel Toggle */}
           <Toggle
             variant="secondary"
-            aria-label="Toggle diagnostic report"
+            aria-label={t('controls.toggleReport')}
             pressed={textOutputOpen}
             onPressedChange={setTextOutputOpen}
             disabled={!isAgentAvailable}
@@ -236,6 +350,18 @@ export function AgentControlBar({
           >
             <FileText className="h-5 w-5" />
           </Toggle>
+
+          {onMetricsOpenChange && (
+            <Toggle
+              variant="secondary"
+              aria-label={t('controls.toggleMetrics')}
+              pressed={metricsOpen}
+              onPressedChange={onMetricsOpenChange}
+              className="aspect-square h-full"
+            >
+              <Gauge className="h-5 w-5" />
+            </Toggle>
+          )}
         </div>
         {visibleControls.leave && (
           <Button
@@ -245,8 +371,8 @@ export function AgentControlBar({
             className="font-mono"
           >
             <PhoneDisconnectIcon weight="bold" />
-            <span className="hidden md:inline">END CALL</span>
-            <span className="inline md:hidden">END</span>
+            <span className="hidden md:inline">{t('controls.endCall')}</span>
+            <span className="inline md:hidden">{t('controls.end')}</span>
           </Button>
         )}
       </div>
@@ -0,0 +1,54 @@
+'use client';
+
+import { ClosedCaptioningIcon } from '@phosphor-icons/react/dist/ssr';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+} from '@/components/ui/select';
+import useT from '@/hooks/useT';
+import { CAPTION_STYLES, type CaptionStyle } from '@/lib/captions';
+import { cn } from '@/lib/utils';
+
+interface CaptionStyleSelectProps {
+  captionStyle: CaptionStyle;
+  onCaptionStyleChange: (style: CaptionStyle) => void;
+  className?: string;
+}
+
+export function CaptionStyleSelect({
+  captionStyle,
+  onCaptionStyleChange,
+  className,
+}: CaptionStyleSelectProps) {
+  const t = useT();
+
+  return (
+    <Select
+      value={captionStyle}
+      onValueChange={(value) => onCaptionStyleChange(value as CaptionStyle)}
+    >
+      <SelectTrigger
+        size="sm"
+        aria-label={t('captions.label')}
+        className={cn(
+          'hover:bg-button-hover focus:bg-button-hover px-2',
+          captionStyle === 'off' && 'text-muted-foreground',
+          className
+        )}
+      >
+        <ClosedCaptioningIcon weight={captionStyle === 'off' ? 'regular' : 'fill'} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectLabel>{t('captions.label')}</SelectLabel>
+        {CAPTION_STYLES.map(({ style, label }) => (
+          <SelectItem key={style} value={style} className="font-mono text-xs">
+            {t(label)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -1,12 +1,14 @@
 import * as React from 'react';
-import { Track } from 'livekit-client';
+import { LocalAudioTrack, Track } from 'livekit-client';
 import {
   type TrackReferenceOrPlaceholder,
   useLocalParticipant,
-  usePersistentUserChoices,
   useRoomContext,
   useTrackToggle,
 } from '@livekit/components-react';
+import useAudioProcessing from '@/hooks/useAudioProcessing';
+import usePersistentUserChoices from '@/hooks/usePersistentUserChoices';
+import { type AudioProcessingSettings, createAudioProcessor } from '@/lib/audio-processing';
 import { usePublishPermissions } from './use-publish-permissions';
 
 export interface ControlBarControls {
@@ -25,6 +27,8 @@ export interface UseAgentControlBarProps {
 
 export interface UseAgentControlBarReturn {
   micTrackRef: TrackReferenceOrPlaceholder;
+  /** The published microphone track, for level metering. */
+  microphoneAudioTrack: LocalAudioTrack | undefined;
   visibleControls: ControlBarControls;
   microphoneToggle: ReturnType<typeof useTrackToggle<Track.Source.Microphone>>;
   cameraToggle: ReturnType<typeof useTrackToggle<Track.Source.Camera>>;
@@ -32,6 +36,8 @@ export interface UseAgentControlBarReturn {
   handleDisconnect: () => void;
   handleAudioDeviceChange: (deviceId: string) => void;
   handleVideoDeviceChange: (deviceId: string) => void;
+  audioProcessing: AudioProcessingSettings;
+  handleAudioProcessingChange: (settings: AudioProcessingSettings) => void;
 }
 
 export function useAgentControlBar(props: UseAgentControlBarProps = {}): UseAgentControlBarReturn {
@@ -79,6 +85,28 @@ export function useAgentControlBar(props: UseAgentControlBarProps = {}): UseAgen
     preventSave: !saveUserChoices,
   });
 
+  const { settings: audioProcessing, saveSettings: handleAudioProcessingChange } =
+    useAudioProcessing({ preventSave: !saveUserChoices });
+
+  const microphoneAudioTrack =
+    microphoneTrack?.track instanceof LocalAudioTrack ? microphoneTrack.track : undefined;
+
+  // Run the published microphone through the noise gate, filter and suppression picked by the user
+  React.useEffect(() => {
+    if (!microphoneAudioTrack) return;
+    let cancelled = false;
+    createAudioProcessor(audioProcessing)
+      .then(async (processor) => {
+        if (cancelled) return processor?.destroy();
+        if (processor) await microphoneAudioTrack.setProcessor(processor);
+        else await microphoneAudioTrack.stopProcessor();
+      })
+      .catch((error) => console.warn('Failed to set up audio processing:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [microphoneAudioTrack, audioProcessing]);
+
   const handleDisconnect = React.useCallback(async () => {
     if (room) {
       await room.disconnect();
@@ -132,6 +160,7 @@ export function useAgentControlBar(props: UseAgentControlBarProps = {}): UseAgen
 
   return {
     micTrackRef,
+    microphoneAudioTrack,
     visibleControls,
     cameraToggle: {
       ...cameraToggle,
@@ -148,5 +177,7 @@ export function useAgentControlBar(props: UseAgentControlBarProps = {}): UseAgen
     handleDisconnect,
     handleAudioDeviceChange,
     handleVideoDeviceChange,
+    audioProcessing,
+    handleAudioProcessingChange,
   };
 }
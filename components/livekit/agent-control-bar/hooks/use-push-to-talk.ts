@@ -0,0 +1,95 @@
+import * as React from 'react';
+import { ConnectionState } from 'livekit-client';
+import { useConnectionState, useRoomContext } from '@livekit/components-react';
+import {
+  INPUT_MODE_ATTRIBUTE,
+  type InputModeSettings,
+  TALKING_ATTRIBUTE,
+  isTypingTarget,
+} from '@/lib/input-mode';
+
+export interface UsePushToTalkReturn {
+  /** Whether the microphone is open for the user's turn. Always true in `always-on` mode. */
+  talking: boolean;
+  startTalking: () => void;
+  stopTalking: () => void;
+  toggleTalking: () => void;
+}
+
+/**
+ * Opens and closes the microphone for the push/toggle-to-talk modes, from the talk key and the
+ * on-screen button, and keeps the agent informed through participant attributes. Muting here does
+ * not touch the saved microphone preference, so always-on calls still start the way the user left
+ * them.
+ */
+export function usePushToTalk({ mode, talkKey }: InputModeSettings): UsePushToTalkReturn {
+  const room = useRoomContext();
+  const connectionState = useConnectionState(room);
+  const connected = connectionState === ConnectionState.Connected;
+  const handsFree = mode === 'always-on';
+  const [talking, setTalking] = React.useState(false);
+  const previousModeRef = React.useRef(mode);
+
+  React.useEffect(() => {
+    setTalking(false);
+  }, [mode]);
+
+  React.useEffect(() => {
+    if (!connected) return;
+    const wasHandsFree = previousModeRef.current === 'always-on';
+    previousModeRef.current = mode;
+    // Leave the mic alone in hands-free mode, unless it was only closed for push/toggle-to-talk
+    if (handsFree && wasHandsFree) return;
+
+    room.localParticipant.setMicrophoneEnabled(handsFree || talking).catch((error) => {
+      console.warn('Failed to switch the microphone for push-to-talk:', error);
+    });
+  }, [room, connected, mode, handsFree, talking]);
+
+  React.useEffect(() => {
+    if (!connected) return;
+    room.localParticipant
+      .setAttributes({
+        [INPUT_MODE_ATTRIBUTE]: mode,
+        [TALKING_ATTRIBUTE]: String(handsFree || talking),
+      })
+      .catch((error) => console.warn('setAttributes failed:', error));
+  }, [room, connected, mode, handsFree, talking]);
+
+  React.useEffect(() => {
+    if (handsFree) return;
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.code !== talkKey || isTypingTarget(event.target)) return;
+      event.preventDefault();
+      if (event.repeat) return;
+      if (mode === 'push-to-talk') setTalking(true);
+      else setTalking((value) => !value);
+    };
+    const onKeyUp = (event: KeyboardEvent) => {
+      if (event.code !== talkKey || isTypingTarget(event.target)) return;
+      // Also keeps a focused button from being clicked by the talk key
+      event.preventDefault();
+      if (mode === 'push-to-talk') setTalking(false);
+    };
+    // The key-up is never seen if the window loses focus while the key is held
+    const onBlur = () => {
+      if (mode === 'push-to-talk') setTalking(false);
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('blur', onBlur);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('blur', onBlur);
+    };
+  }, [handsFree, mode, talkKey]);
+
+  const startTalking = React.useCallback(() => setTalking(true), []);
+  const stopTalking = React.useCallback(() => setTalking(false), []);
+  const toggleTalking = React.useCallback(() => setTalking((value) => !value), []);
+
+  return { talking: handsFree || talking, startTalking, stopTalking, toggleTalking };
+}
@@ -0,0 +1,50 @@
+'use client';
+
+import { HandGrabbingIcon, HandTapIcon, MicrophoneIcon } from '@phosphor-icons/react/dist/ssr';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+} from '@/components/ui/select';
+import useT from '@/hooks/useT';
+import { INPUT_MODES, type InputMode } from '@/lib/input-mode';
+import { cn } from '@/lib/utils';
+
+const MODE_ICONS = {
+  'always-on': MicrophoneIcon,
+  'push-to-talk': HandGrabbingIcon,
+  'toggle-to-talk': HandTapIcon,
+} satisfies Record<InputMode, unknown>;
+
+interface InputModeSelectProps {
+  mode: InputMode;
+  onModeChange: (mode: InputMode) => void;
+  className?: string;
+}
+
+export function InputModeSelect({ mode, onModeChange, className }: InputModeSelectProps) {
+  const t = useT();
+  const Icon = MODE_ICONS[mode];
+
+  return (
+    <Select value={mode} onValueChange={(value) => onModeChange(value as InputMode)}>
+      <SelectTrigger
+        size="sm"
+        aria-label={t('inputMode.label')}
+        className={cn('hover:bg-button-hover focus:bg-button-hover px-2', className)}
+      >
+        <Icon weight="bold" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectLabel>{t('inputMode.label')}</SelectLabel>
+        {INPUT_MODES.map(({ mode: value, label }) => (
+          <SelectItem key={value} value={value} className="font-mono text-xs">
+            {t(label)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,86 @@
+'use client';
+
+import * as React from 'react';
+import { KeyboardIcon, MicrophoneIcon } from '@phosphor-icons/react/dist/ssr';
+import { Button } from '@/components/ui/button';
+import useT from '@/hooks/useT';
+import { type InputMode, describeKey } from '@/lib/input-mode';
+import { cn } from '@/lib/utils';
+import type { UsePushToTalkReturn } from './hooks/use-push-to-talk';
+
+interface TalkButtonProps extends UsePushToTalkReturn {
+  mode: Exclude<InputMode, 'always-on'>;
+  talkKey: string;
+  onTalkKeyChange: (talkKey: string) => void;
+  className?: string;
+}
+
+/** The on-screen talk button, and the key (or foot pedal) that does the same. */
+export function TalkButton({
+  mode,
+  talking,
+  startTalking,
+  stopTalking,
+  toggleTalking,
+  talkKey,
+  onTalkKeyChange,
+  className,
+}: TalkButtonProps) {
+  const t = useT();
+  const [capturingKey, setCapturingKey] = React.useState(false);
+
+  // Take the next key press as the talk key, before the talk key handlers see it
+  React.useEffect(() => {
+    if (!capturingKey) return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+      if (event.code !== 'Escape') onTalkKeyChange(event.code);
+      setCapturingKey(false);
+    };
+    window.addEventListener('keydown', onKeyDown, { capture: true });
+    return () => window.removeEventListener('keydown', onKeyDown, { capture: true });
+  }, [capturingKey, onTalkKeyChange]);
+
+  const holdHandlers =
+    mode === 'push-to-talk'
+      ? {
+          onPointerDown: (event: React.PointerEvent<HTMLButtonElement>) => {
+            // Keep receiving the pointer-up when the finger slides off the button
+            event.currentTarget.setPointerCapture(event.pointerId);
+            startTalking();
+          },
+          onPointerUp: stopTalking,
+          onPointerCancel: stopTalking,
+          onContextMenu: (event: React.MouseEvent) => event.preventDefault(),
+        }
+      : { onClick: toggleTalking };
+
+  let label = talking ? t('inputMode.tapToStop') : t('inputMode.tapToTalk');
+  if (mode === 'push-to-talk') {
+    label = talking ? t('inputMode.talking') : t('inputMode.holdToTalk');
+  }
+
+  return (
+    <div className={cn('flex items-center gap-0', className)}>
+      <Button
+        variant={talking ? 'primary' : 'default'}
+        aria-pressed={talking}
+        className="touch-none rounded-r-none pr-2 pl-3 font-mono select-none"
+        {...holdHandlers}
+      >
+        <MicrophoneIcon weight={talking ? 'fill' : 'bold'} />
+        <span className="hidden md:inline">{label}</span>
+      </Button>
+      <Button
+        variant="default"
+        aria-label={t('inputMode.changeKey', { key: describeKey(talkKey) })}
+        onClick={() => setCapturingKey((value) => !value)}
+        className={cn('rounded-l-none pr-3 pl-2 font-mono', capturingKey && 'animate-pulse')}
+      >
+        <KeyboardIcon weight="bold" />
+        {capturingKey ? t('inputMode.pressKey') : describeKey(talkKey)}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+'use client';
+
+import { AnimatePresence, motion } from 'motion/react';
+import type { Caption, CaptionStyle } from '@/lib/captions';
+import { cn } from '@/lib/utils';
+
+// Words shown at a time; the caption turns to the next page once the last one is heard
+const PAGE_WORDS: Record<Exclude<CaptionStyle, 'off'>, number> = {
+  standard: 16,
+  large: 10,
+  'high-contrast': 10,
+};
+
+const STYLES = {
+  standard: {
+    box: 'bg-background/80 text-lg backdrop-blur-md md:text-xl',
+    upcoming: 'text-muted-foreground',
+    heard: 'text-foreground',
+    active: 'text-(--brand-button-from)',
+  },
+  large: {
+    box: 'bg-background/90 text-2xl font-semibold backdrop-blur-md md:text-4xl',
+    upcoming: 'text-muted-foreground',
+    heard: 'text-foreground',
+    active: 'text-(--brand-button-from)',
+  },
+  'high-contrast': {
+    box: 'border-2 border-white bg-black text-2xl font-bold md:text-4xl',
+    upcoming: 'text-neutral-400',
+    heard: 'text-white',
+    active: 'rounded-sm bg-yellow-300 text-black',
+  },
+} satisfies Record<Exclude<CaptionStyle, 'off'>, Record<string, string>>;
+
+interface CaptionsOverlayProps {
+  caption?: Caption;
+  /** Index of the word being heard, -1 before the first one. */
+  activeIndex: number;
+  captionStyle: Exclude<CaptionStyle, 'off'>;
+  className?: string;
+}
+
+/**
+ * Karaoke-style captions of the agent's speech: words already heard are bright, the one being
+ * heard is highlighted and those still to come are dimmed. Hidden from assistive technology, as
+ * the chat transcript carries the same text.
+ */
+export function CaptionsOverlay({
+  caption,
+  activeIndex,
+  captionStyle,
+  className,
+}: CaptionsOverlayProps) {
+  const styles = STYLES[captionStyle];
+  const pageSize = PAGE_WORDS[captionStyle];
+  const pageStart = Math.floor(Math.max(activeIndex, 0) / pageSize) * pageSize;
+  const words = caption?.words.slice(pageStart, pageStart + pageSize) ?? [];
+
+  return (
+    <div
+      aria-hidden
+      className={cn(
+        'pointer-events-none fixed inset-x-3 bottom-36 z-40 flex justify-center md:bottom-44',
+        className
+      )}
+    >
+      <AnimatePresence>
+        {caption && words.length > 0 && (
+          <motion.p
+            key={caption.id}
+            initial={{ opacity: 0, translateY: 8 }}
+            animate={{ opacity: 1, translateY: 0 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.2, ease: 'easeOut' }}
+            className={cn('max-w-3xl rounded-lg px-4 py-2 text-center shadow-lg', styles.box)}
+          >
+            {words.map((word, index) => {
+              const wordIndex = pageStart + index;
+              return (
+                <span key={wordIndex}>
+                  {index > 0 && ' '}
+                  <span
+                    className={cn(
+                      'transition-colors duration-100',
+                      wordIndex < activeIndex && styles.heard,
+                      wordIndex === activeIndex && styles.active,
+                      wordIndex > activeIndex && styles.upcoming
+                    )}
+                  >
+                    {word.text}
+                  </span>
+                </span>
+              );
+            })}
+          </motion.p>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
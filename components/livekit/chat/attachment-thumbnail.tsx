@@ -0,0 +1,70 @@
+import { useEffect, useState } from 'react';
+import { FileText, X } from 'lucide-react';
+import useT from '@/hooks/useT';
+import { formatFileSize, isImageFile } from '@/lib/attachments';
+import { cn } from '@/lib/utils';
+
+interface AttachmentThumbnailProps {
+  file: File;
+  /** Shows a remove button when set. */
+  onRemove?: () => void;
+  className?: string;
+}
+
+function useObjectUrl(file: File, enabled: boolean) {
+  const [url, setUrl] = useState<string>();
+  useEffect(() => {
+    if (!enabled) return;
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => {
+      URL.revokeObjectURL(objectUrl);
+      setUrl(undefined);
+    };
+  }, [file, enabled]);
+  return url;
+}
+
+/** A picture of an attached image, or the name and size of any other file. */
+export function AttachmentThumbnail({ file, onRemove, className }: AttachmentThumbnailProps) {
+  const t = useT();
+  const isImage = isImageFile(file);
+  const url = useObjectUrl(file, isImage);
+
+  return (
+    <div
+      title={file.name}
+      className={cn(
+        'bg-muted relative flex h-16 flex-shrink-0 items-center overflow-hidden rounded-md border',
+        isImage ? 'w-16' : 'max-w-48 gap-2 px-2',
+        className
+      )}
+    >
+      {isImage ? (
+        url && (
+          <a href={url} target="_blank" rel="noopener noreferrer" className="h-full w-full">
+            <img src={url} alt={file.name} className="h-full w-full object-cover" />
+          </a>
+        )
+      ) : (
+        <>
+          <FileText className="text-muted-foreground h-6 w-6 flex-shrink-0" />
+          <span className="min-w-0 text-xs">
+            <span className="block truncate font-medium">{file.name}</span>
+            <span className="text-muted-foreground block">{formatFileSize(file.size)}</span>
+          </span>
+        </>
+      )}
+      {onRemove && (
+        <button
+          type="button"
+          onClick={onRemove}
+          aria-label={t('attachments.remove', { name: file.name })}
+          className="absolute top-0.5 right-0.5 rounded-full bg-black/60 p-0.5 text-white transition-colors hover:bg-black/80"
+        >
+          <X className="h-3 w-3" />
+        </button>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,10 @@
 import * as React from 'react';
 import type { MessageFormatter, ReceivedChatMessage } from '@livekit/components-react';
+import { Markdown } from '@/components/markdown';
+import useT from '@/hooks/useT';
+import type { SegmentStatus } from '@/lib/transcript';
 import { cn } from '@/lib/utils';
+import { AttachmentThumbnail } from './attachment-thumbnail';
 import { useChatMessage } from './hooks/utils';
 
 export interface ChatEntryProps extends React.HTMLAttributes<HTMLLIElement> {
@@ -12,6 +16,8 @@ export interface ChatEntryProps extends React.HTMLAttributes<HTMLLIElement> {
   hideTimestamp?: boolean;
   /** An optional formatter for the message body. */
   messageFormatter?: MessageFormatter;
+  /** For spoken turns: still being transcribed, complete, or cut off by the user. */
+  status?: SegmentStatus;
 }
 
 export const ChatEntry = ({
@@ -19,18 +25,23 @@ export const ChatEntry = ({
   messageFormatter,
   hideName,
   hideTimestamp,
+  status = 'final',
   className,
   ...props
 }: ChatEntryProps) => {
+  const t = useT();
   const { message, hasBeenEdited, time, locale, name } = useChatMessage(entry, messageFormatter);
 
   const isUser = entry.from?.isLocal ?? false;
   const messageOrigin = isUser ? 'remote' : 'local';
+  const attachedFiles = entry.attachedFiles ?? [];
+  // A message can be just attachments
+  const hasText = typeof message !== 'string' || message.trim().length > 0;
 
   return (
     <li
       data-lk-message-origin={messageOrigin}
-      title={time.toLocaleTimeString(locale, { timeStyle: 'full' })}
+      title={time.toLocaleString(locale, { dateStyle: 'full', timeStyle: 'long' })}
       className={cn('group flex flex-col gap-0.5', className)}
       {...props}
     >
@@ -47,13 +58,36 @@ export const ChatEntry = ({
         </span>
       )}
 
-      <span className={cn('max-w-4/5 rounded-[20px] p-2', isUser ? 'bg-muted ml-auto' : 'mr-auto')}>
-        {typeof message === 'string' ? (
-          <div dangerouslySetInnerHTML={{ __html: message }} />
-        ) : (
-          message
-        )}
-      </span>
+      {attachedFiles.length > 0 && (
+        <div
+          className={cn(
+            'flex max-w-4/5 flex-wrap gap-2',
+            isUser ? 'ml-auto justify-end' : 'mr-auto'
+          )}
+        >
+          {attachedFiles.map((file, index) => (
+            <AttachmentThumbnail key={index} file={file} />
+          ))}
+        </div>
+      )}
+
+      {hasText && (
+        <span
+          aria-busy={status === 'interim'}
+          className={cn(
+            'max-w-4/5 rounded-[20px] p-2',
+            isUser ? 'bg-muted ml-auto' : 'mr-auto',
+            // User speech may still be revised until the transcription is final
+            status === 'interim' && isUser && 'text-muted-foreground italic'
+          )}
+        >
+          {typeof message === 'string' ? <Markdown content={message} /> : message}
+        </span>
+      )}
+
+      {status === 'interrupted' && (
+        <span className="text-muted-foreground mr-auto px-2 text-xs">{t('chat.interrupted')}</span>
+      )}
     </li>
   );
 };
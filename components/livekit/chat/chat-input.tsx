@@ -1,24 +1,198 @@
 import { useEffect, useRef, useState } from 'react';
+import type { SendTextOptions } from 'livekit-client';
+import { Camera, Paperclip } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import useChatComposer from '@/hooks/useChatComposer';
+import useT from '@/hooks/useT';
+import { type AttachmentError, checkAttachments } from '@/lib/attachments';
+import {
+  type ChatCommand,
+  ChatCommandError,
+  commandUsage,
+  parseChatCommand,
+  suggestCommands,
+} from '@/lib/chat-commands';
+import type { Translate } from '@/lib/i18n';
+import type { LanguageDefinition } from '@/lib/languages';
+import type { AttachmentLimits } from '@/lib/types';
 import { cn } from '@/lib/utils';
+import { AttachmentThumbnail } from './attachment-thumbnail';
+
+export type ChatSendOptions = Pick<SendTextOptions, 'attachments' | 'onProgress'>;
 
 interface ChatInputProps extends React.HTMLAttributes<HTMLFormElement> {
-  onSend?: (message: string) => void;
+  onSend?: (message: string, options?: ChatSendOptions) => void | Promise<void>;
+  /** Runs a slash command. Without it, text starting with a slash is sent as a message. */
+  onCommand?: (command: ChatCommand) => void;
   disabled?: boolean;
+  /** A message is on its way; the user can keep typing but not send another one yet. */
+  sending?: boolean;
+  /** Files the user may attach. Attachments are off when unset or not enabled. */
+  attachmentLimits?: AttachmentLimits;
+  /** Languages `/language` may switch to. Defaults to every registered language. */
+  languages?: readonly LanguageDefinition[];
+}
+
+function describeAttachmentError(error: AttachmentError, limits: AttachmentLimits, t: Translate) {
+  switch (error.reason) {
+    case 'type':
+      return t('attachments.typeNotAllowed', { name: error.fileName });
+    case 'size':
+      return t('attachments.tooLarge', { name: error.fileName, max: limits.maxFileSizeMb });
+    case 'count':
+      return t('attachments.tooMany', { max: limits.maxFiles });
+  }
+}
+
+function describeCommandError(error: ChatCommandError, t: Translate) {
+  return error.reason === 'unknown'
+    ? t('commands.unknown', { command: error.command })
+    : t('commands.usage', { usage: commandUsage(error.command) });
 }
 
-export function ChatInput({ onSend, className, disabled, ...props }: ChatInputProps) {
-  const inputRef = useRef<HTMLInputElement>(null);
-  const [message, setMessage] = useState<string>('');
+export function ChatInput({
+  onSend,
+  onCommand,
+  className,
+  disabled,
+  sending = false,
+  attachmentLimits,
+  languages,
+  ...props
+}: ChatInputProps) {
+  const t = useT();
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+  const formRef = useRef<HTMLFormElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const cameraInputRef = useRef<HTMLInputElement>(null);
+  const {
+    text: message,
+    setText: setMessage,
+    recallPrevious,
+    recallNext,
+    commit,
+  } = useChatComposer();
+  const [files, setFiles] = useState<File[]>([]);
+  // Share of the upload done, 0 to 1, while a message with attachments is being sent
+  const [progress, setProgress] = useState<number>();
+  const [error, setError] = useState<string>();
+  const [dragging, setDragging] = useState(false);
+
+  const canAttach = !!attachmentLimits?.enabled && !disabled;
+  const isUploading = progress !== undefined;
+  const isSendDisabled =
+    disabled || sending || isUploading || (message.trim().length === 0 && files.length === 0);
+  const accept = attachmentLimits?.acceptedTypes.join(',');
+  const suggestions = onCommand ? suggestCommands(message) : [];
+
+  const addFiles = (added: File[]) => {
+    if (!attachmentLimits || added.length === 0) return;
+    const { accepted, errors } = checkAttachments(added, files.length, attachmentLimits);
+    setFiles((current) => [...current, ...accepted]);
+    setError(
+      errors.length > 0 ? describeAttachmentError(errors[0], attachmentLimits, t) : undefined
+    );
+  };
+
+  const removeFile = (file: File) => {
+    setFiles((current) => current.filter((attached) => attached !== file));
+    setError(undefined);
+  };
+
+  const runCommand = (text: string) => {
+    if (!onCommand) return false;
+    try {
+      const command = parseChatCommand(text, languages);
+      if (!command) return false;
+      commit(text);
+      setError(undefined);
+      onCommand(command);
+    } catch (commandError) {
+      if (!(commandError instanceof ChatCommandError)) throw commandError;
+      setError(describeCommandError(commandError, t));
+    }
+    return true;
+  };
 
-  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     props.onSubmit?.(e);
-    onSend?.(message);
-    setMessage('');
+    if (isSendDisabled) return;
+    const text = message;
+    if (runCommand(text)) return;
+
+    commit(text);
+    setError(undefined);
+    if (files.length > 0) setProgress(0);
+    try {
+      await onSend?.(
+        text,
+        files.length > 0
+          ? {
+              attachments: files,
+              // Reported as the sum of the text's and each file's progress
+              onProgress: (total) => setProgress(total / (files.length + 1)),
+            }
+          : undefined
+      );
+      setFiles([]);
+    } catch (sendError) {
+      console.warn('Failed to send chat message:', sendError);
+      // Give the message back rather than losing it, unless the user already typed a new one
+      if (!inputRef.current?.value) setMessage(text);
+      setError(t(files.length > 0 ? 'attachments.uploadFailed' : 'chat.sendFailed'));
+    } finally {
+      setProgress(undefined);
+    }
+  };
+
+  const completeCommand = (name: string) => {
+    setMessage(`/${name}${commandUsage(name).includes(' ') ? ' ' : ''}`);
+    inputRef.current?.focus();
   };
 
-  const isDisabled = disabled || message.trim().length === 0;
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const { selectionStart, selectionEnd } = e.currentTarget;
+    // Enter sends and Shift+Enter starts a new line, except while an IME is composing
+    if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      formRef.current?.requestSubmit();
+    } else if (e.key === 'Tab' && suggestions.length > 0) {
+      e.preventDefault();
+      completeCommand(suggestions[0].name);
+    } else if (e.key === 'ArrowUp' && selectionStart === selectionEnd) {
+      // Only from the first line, so the arrows still move the caret in a multiline message
+      if (!message.slice(0, selectionStart).includes('\n') && recallPrevious()) e.preventDefault();
+    } else if (e.key === 'ArrowDown' && selectionStart === selectionEnd) {
+      if (!message.slice(selectionEnd).includes('\n') && recallNext()) e.preventDefault();
+    }
+  };
+
+  const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(e.target.files ?? []));
+    // Allow picking the same file again after removing it
+    e.target.value = '';
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const pasted = Array.from(e.clipboardData.files);
+    if (!canAttach || pasted.length === 0) return;
+    e.preventDefault();
+    addFiles(pasted);
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLFormElement>) => {
+    if (!canAttach || !e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setDragging(true);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLFormElement>) => {
+    if (!canAttach) return;
+    e.preventDefault();
+    setDragging(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
 
   useEffect(() => {
     if (disabled) return;
@@ -26,31 +200,149 @@ export function ChatInput({ onSend, className, disabled, ...props }: ChatInputPr
     inputRef.current?.focus();
   }, [disabled]);
 
+  // Grow with the text up to the max height, then scroll
+  useEffect(() => {
+    const textarea = inputRef.current;
+    if (!textarea) return;
+    textarea.style.height = 'auto';
+    textarea.style.height = `${textarea.scrollHeight}px`;
+  }, [message]);
+
   return (
     <form
       {...props}
+      ref={formRef}
       onSubmit={handleSubmit}
-      className={cn('flex items-center gap-2 rounded-md pl-1 text-sm', className)}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setDragging(false)}
+      onDrop={handleDrop}
+      className={cn(
+        'flex flex-col gap-2 rounded-md text-sm',
+        dragging && 'outline-primary outline-2 outline-dashed',
+        className
+      )}
     >
-      <input
-        autoFocus
-        ref={inputRef}
-        type="text"
-        value={message}
-        disabled={disabled}
-        placeholder="Type something..."
-        onChange={(e) => setMessage(e.target.value)}
-        className="flex-1 focus:outline-none disabled:cursor-not-allowed disabled:opacity-50"
-      />
-      <Button
-        size="sm"
-        type="submit"
-        variant={isDisabled ? 'secondary' : 'primary'}
-        disabled={isDisabled}
-        className="font-mono"
-      >
-        SEND
-      </Button>
+      {suggestions.length > 0 && (
+        <ul aria-label={t('commands.label')} className="space-y-0.5">
+          {suggestions.map(({ name, usage, description }) => (
+            <li key={name}>
+              <button
+                type="button"
+                onClick={() => completeCommand(name)}
+                className="hover:bg-muted flex w-full items-baseline gap-3 rounded-md px-2 py-1 text-left"
+              >
+                <span className="font-mono font-semibold">{usage}</span>
+                <span className="text-muted-foreground truncate text-xs">{t(description)}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {(files.length > 0 || error) && (
+        <div className="space-y-1">
+          {files.length > 0 && (
+            <div className="flex gap-2 overflow-x-auto pb-1">
+              {files.map((file) => (
+                <AttachmentThumbnail
+                  key={`${file.name}-${file.lastModified}-${file.size}`}
+                  file={file}
+                  onRemove={isUploading ? undefined : () => removeFile(file)}
+                />
+              ))}
+            </div>
+          )}
+          {isUploading && (
+            <div
+              role="progressbar"
+              aria-label={t('attachments.uploading')}
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={Math.round(progress * 100)}
+              className="bg-muted h-1 overflow-hidden rounded-full"
+            >
+              <div
+                className="bg-primary h-full transition-[width]"
+                style={{ width: `${progress * 100}%` }}
+              />
+            </div>
+          )}
+          {error && (
+            <p role="alert" className="text-destructive text-xs">
+              {error}
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="flex min-h-8 items-end gap-2 pl-1">
+        {attachmentLimits?.enabled && (
+          <>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept={accept}
+              onChange={handleFileInputChange}
+              className="hidden"
+            />
+            <input
+              ref={cameraInputRef}
+              type="file"
+              accept="image/*"
+              capture="environment"
+              onChange={handleFileInputChange}
+              className="hidden"
+            />
+            <Button
+              type="button"
+              size="icon"
+              variant="ghost"
+              disabled={!canAttach || isUploading}
+              onClick={() => fileInputRef.current?.click()}
+              aria-label={t('attachments.attach')}
+              title={t('attachments.attach')}
+              className="size-8"
+            >
+              <Paperclip />
+            </Button>
+            <Button
+              type="button"
+              size="icon"
+              variant="ghost"
+              disabled={!canAttach || isUploading}
+              onClick={() => cameraInputRef.current?.click()}
+              aria-label={t('attachments.takePhoto')}
+              title={t('attachments.takePhoto')}
+              // Only phones and tablets open the camera from a file input
+              className="hidden size-8 pointer-coarse:inline-flex"
+            >
+              <Camera />
+            </Button>
+          </>
+        )}
+        <textarea
+          autoFocus
+          ref={inputRef}
+          rows={1}
+          value={message}
+          disabled={disabled}
+          placeholder={t('chat.placeholder')}
+          onChange={(e) => setMessage(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onPaste={handlePaste}
+          className="max-h-32 min-w-0 flex-1 resize-none py-1.5 focus:outline-none disabled:cursor-not-allowed disabled:opacity-50"
+        />
+        <Button
+          size="sm"
+          type="submit"
+          variant={isSendDisabled ? 'secondary' : 'primary'}
+          disabled={isSendDisabled}
+          className="font-mono"
+        >
+          {t('chat.send')}
+        </Button>
+      </div>
     </form>
   );
 }
@@ -0,0 +1,79 @@
+'use client';
+
+import { ConnectionQuality } from 'livekit-client';
+import { Loader2, Wifi, WifiHigh, WifiLow, WifiOff } from 'lucide-react';
+import useConnectionHealth from '@/hooks/useConnectionHealth';
+import useT from '@/hooks/useT';
+import type { MessageKey } from '@/lib/i18n';
+import { MAX_RESUME_ATTEMPTS } from '@/lib/reconnect';
+import { cn } from '@/lib/utils';
+
+interface ConnectionStatusProps {
+  /** Rejoin attempt in progress after the room was lost, 0 when not rejoining. */
+  reconnectAttempt?: number;
+  className?: string;
+}
+
+const QUALITY_LABELS: Record<ConnectionQuality, MessageKey> = {
+  [ConnectionQuality.Excellent]: 'connection.excellent',
+  [ConnectionQuality.Good]: 'connection.good',
+  [ConnectionQuality.Poor]: 'connection.poor',
+  [ConnectionQuality.Lost]: 'connection.lost',
+  [ConnectionQuality.Unknown]: 'connection.connected',
+};
+
+/**
+ * Small pill showing whether the call is connected, reconnecting or on a poor link. Stays quiet
+ * while the connection is healthy.
+ */
+export function ConnectionStatus({ reconnectAttempt = 0, className }: ConnectionStatusProps) {
+  const t = useT();
+  const { status, quality, recovered } = useConnectionHealth();
+
+  let tone: 'ok' | 'warning' | 'error';
+  let label: string;
+  let Icon = Wifi;
+  if (reconnectAttempt > 0) {
+    tone = 'error';
+    label = t('connection.rejoining', { attempt: reconnectAttempt, max: MAX_RESUME_ATTEMPTS });
+    Icon = Loader2;
+  } else if (status === 'reconnecting') {
+    tone = 'warning';
+    label = t('connection.reconnecting');
+    Icon = Loader2;
+  } else if (status !== 'connected') {
+    return null;
+  } else if (recovered) {
+    tone = 'ok';
+    label = t('connection.reconnected');
+  } else if (quality === ConnectionQuality.Poor || quality === ConnectionQuality.Lost) {
+    tone = quality === ConnectionQuality.Lost ? 'error' : 'warning';
+    label = t(QUALITY_LABELS[quality]);
+    Icon = quality === ConnectionQuality.Lost ? WifiOff : WifiLow;
+  } else {
+    tone = 'ok';
+    label = t(QUALITY_LABELS[quality]);
+    Icon = quality === ConnectionQuality.Good ? WifiHigh : Wifi;
+  }
+
+  const isSpinning = Icon === Loader2;
+  return (
+    <div
+      role="status"
+      aria-live="polite"
+      title={label}
+      className={cn(
+        'flex items-center gap-1.5 rounded-full border px-2.5 py-1 text-xs font-medium',
+        tone === 'ok' && 'text-muted-foreground border-transparent',
+        tone === 'warning' &&
+          'border-amber-300 bg-amber-50 text-amber-700 dark:border-amber-700 dark:bg-amber-900/30 dark:text-amber-200',
+        tone === 'error' &&
+          'border-red-300 bg-red-50 text-red-700 dark:border-red-700 dark:bg-red-900/30 dark:text-red-200',
+        className
+      )}
+    >
+      <Icon className={cn('h-3.5 w-3.5', isSpinning && 'animate-spin')} />
+      <span className={cn(tone === 'ok' && !recovered && 'sr-only')}>{label}</span>
+    </div>
+  );
+}
@@ -3,13 +3,22 @@
 import { cva } from 'class-variance-authority';
 import { LocalAudioTrack, LocalVideoTrack } from 'livekit-client';
 import { useMaybeRoomContext, useMediaDeviceSelect } from '@livekit/components-react';
+import { CheckSquareIcon, SquareIcon } from '@phosphor-icons/react/dist/ssr';
 import {
   Select,
   SelectContent,
   SelectItem,
+  SelectLabel,
+  SelectSeparator,
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
+import useT from '@/hooks/useT';
+import {
+  AUDIO_PROCESSING_TOGGLES,
+  type AudioProcessingSettings,
+  type AudioProcessingToggle,
+} from '@/lib/audio-processing';
 import { cn } from '@/lib/utils';
 
 type DeviceSelectProps = React.ComponentProps<typeof SelectTrigger> & {
@@ -21,8 +30,14 @@ type DeviceSelectProps = React.ComponentProps<typeof SelectTrigger> & {
   onActiveDeviceChange?: (deviceId: string) => void;
   onDeviceListChange?: (devices: MediaDeviceInfo[]) => void;
   variant?: 'default' | 'small';
+  /** Shown as toggles below the microphones when `kind` is `audioinput`. */
+  audioProcessing?: AudioProcessingSettings;
+  onAudioProcessingChange?: (settings: AudioProcessingSettings) => void;
 };
 
+// Select items can only pick a value, so processing toggles get values no device id can have
+const PROCESSING_VALUE_PREFIX = 'processing:';
+
 const selectVariants = cva(
   [
     'w-full rounded-full px-3 py-2 text-sm cursor-pointer',
@@ -46,11 +61,14 @@ export function DeviceSelect({
   track,
   requestPermissions,
   onMediaDeviceError,
+  audioProcessing,
+  onAudioProcessingChange,
   // initialSelection,
-  // onActiveDeviceChange,
+  onActiveDeviceChange,
   // onDeviceListChange,
   ...props
 }: DeviceSelectProps) {
+  const t = useT();
   const size = props.size || 'default';
 
   const room = useMaybeRoomContext();
@@ -61,8 +79,22 @@ export function DeviceSelect({
     requestPermissions,
     onError: onMediaDeviceError,
   });
+  const showProcessing = kind === 'audioinput' && audioProcessing && onAudioProcessingChange;
+
+  const handleValueChange = (value: string) => {
+    if (!value.startsWith(PROCESSING_VALUE_PREFIX)) {
+      setActiveMediaDevice(value)
+        .then(() => onActiveDeviceChange?.(value))
+        .catch((error) => onMediaDeviceError?.(error));
+      return;
+    }
+    if (!audioProcessing) return;
+    const key = value.slice(PROCESSING_VALUE_PREFIX.length) as AudioProcessingToggle;
+    onAudioProcessingChange?.({ ...audioProcessing, [key]: !audioProcessing[key] });
+  };
+
   return (
-    <Select value={activeDeviceId} onValueChange={setActiveMediaDevice}>
+    <Select value={activeDeviceId} onValueChange={handleValueChange}>
       <SelectTrigger className={cn(selectVariants({ size }), props.className)}>
         {size !== 'sm' && (
           <SelectValue className="font-mono text-sm" placeholder={`Select a ${kind}`} />
@@ -74,6 +106,25 @@ export function DeviceSelect({
             {device.label}
           </SelectItem>
         ))}
+        {showProcessing && (
+          <>
+            <SelectSeparator />
+            <SelectLabel>{t('audioProcessing.label')}</SelectLabel>
+            {AUDIO_PROCESSING_TOGGLES.map(({ key, label }) => {
+              const Icon = audioProcessing[key] ? CheckSquareIcon : SquareIcon;
+              return (
+                <SelectItem
+                  key={key}
+                  value={`${PROCESSING_VALUE_PREFIX}${key}`}
+                  className="font-mono text-xs"
+                >
+                  <Icon weight="bold" />
+                  {t(label)}
+                </SelectItem>
+              );
+            })}
+          </>
+        )}
       </SelectContent>
     </Select>
   );
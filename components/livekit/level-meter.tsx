@@ -0,0 +1,48 @@
+'use client';
+
+import { LocalAudioTrack } from 'livekit-client';
+import { useTrackVolume } from '@livekit/components-react';
+import useT from '@/hooks/useT';
+import { cn } from '@/lib/utils';
+
+const SEGMENTS = 8;
+// Normal speech reads around 0.3–0.5; scale it so talking fills most of the meter
+const VOLUME_GAIN = 1.8;
+
+interface LevelMeterProps {
+  track: LocalAudioTrack | undefined;
+  className?: string;
+}
+
+/** Live microphone input level, so the user can see whether they are being picked up. */
+export function LevelMeter({ track, className }: LevelMeterProps) {
+  const t = useT();
+  const volume = useTrackVolume(track);
+  const level = Math.min(1, volume * VOLUME_GAIN);
+  const lit = Math.round(level * SEGMENTS);
+
+  return (
+    <div
+      role="meter"
+      aria-label={t('audioProcessing.inputLevel')}
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={Math.round(level * 100)}
+      className={cn('flex h-4 items-end gap-px', className)}
+    >
+      {Array.from({ length: SEGMENTS }, (_, index) => (
+        <span
+          key={index}
+          style={{ height: `${((index + 1) / SEGMENTS) * 100}%` }}
+          className={cn(
+            'w-1 rounded-full transition-colors duration-75',
+            index >= lit && 'bg-muted',
+            index < lit && index < SEGMENTS - 3 && 'bg-green-500',
+            index < lit && index >= SEGMENTS - 3 && index < SEGMENTS - 1 && 'bg-yellow-500',
+            index < lit && index === SEGMENTS - 1 && 'bg-red-500'
+          )}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+'use client';
+
+import { Camera, Check, Loader2, ScanEye, X } from 'lucide-react';
+import { AnimatePresence, motion } from 'motion/react';
+import { toastAlert } from '@/components/alert-toast';
+import useLiveAssistant from '@/hooks/useLiveAssistant';
+import useT from '@/hooks/useT';
+import { cn } from '@/lib/utils';
+
+interface LiveAssistantOverlayProps {
+  className?: string;
+}
+
+/**
+ * Inspection controls drawn over the full-screen camera: the agent's current prompt at the top
+ * and a button that sends the agent a still frame.
+ */
+export function LiveAssistantOverlay({ className }: LiveAssistantOverlayProps) {
+  const t = useT();
+  const { prompt, dismissPrompt, canSnapshot, snapshotState, sendSnapshot } = useLiveAssistant();
+
+  const handleSnapshot = () => {
+    sendSnapshot().catch((error) => {
+      toastAlert({
+        title: t('liveAssistant.snapshotFailed'),
+        description: `${error.name}: ${error.message}`,
+      });
+    });
+  };
+
+  let snapshotIcon = <Camera className="h-6 w-6" />;
+  let snapshotLabel = t('liveAssistant.snapshot');
+  if (snapshotState === 'sending') {
+    snapshotIcon = <Loader2 className="h-6 w-6 animate-spin" />;
+    snapshotLabel = t('liveAssistant.snapshotSending');
+  } else if (snapshotState === 'sent') {
+    snapshotIcon = <Check className="h-6 w-6" />;
+    snapshotLabel = t('liveAssistant.snapshotSent');
+  }
+
+  return (
+    <div className={cn('pointer-events-none fixed inset-0 z-50', className)}>
+      <AnimatePresence>
+        {prompt && (
+          <motion.div
+            key={prompt.id}
+            role="status"
+            aria-live="assertive"
+            initial={{ opacity: 0, translateY: -16 }}
+            animate={{ opacity: 1, translateY: 0 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.3, ease: 'easeOut' }}
+            className="pointer-events-auto absolute inset-x-3 top-36 mx-auto flex max-w-xl items-start gap-3 rounded-lg bg-black/70 px-4 py-3 text-white shadow-lg backdrop-blur-md md:top-40"
+          >
+            <ScanEye className="mt-0.5 h-5 w-5 flex-shrink-0 text-(--brand-button-from)" />
+            <p className="flex-1 text-base font-medium md:text-lg">{prompt.text}</p>
+            <button
+              onClick={dismissPrompt}
+              aria-label={t('liveAssistant.dismissPrompt')}
+              className="-m-1 rounded-md p-1 transition-colors hover:bg-white/15"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {canSnapshot && (
+        <button
+          onClick={handleSnapshot}
+          disabled={snapshotState !== 'idle'}
+          aria-label={snapshotLabel}
+          title={snapshotLabel}
+          className="pointer-events-auto absolute right-4 bottom-36 flex h-14 w-14 items-center justify-center rounded-full border-4 border-white/80 bg-black/50 text-white shadow-lg backdrop-blur-md transition-all hover:bg-black/70 disabled:cursor-default md:right-12 md:bottom-44"
+        >
+          {snapshotIcon}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -84,9 +84,11 @@ export function useLocalTrackRef(source: Track.Source) {
 
 interface MediaTilesProps {
   chatOpen: boolean;
+  /** Show the camera across the whole stage with the agent small on top, for Live Assistant. */
+  fullScreenCamera?: boolean;
 }
 
-export function MediaTiles({ chatOpen }: MediaTilesProps) {
+export function MediaTiles({ chatOpen, fullScreenCamera = false }: MediaTilesProps) {
   const {
     state: agentState,
     audioTrack: agentAudioTrack,
@@ -97,18 +99,21 @@ export function MediaTiles({ chatOpen }: MediaTilesProps) {
 
   const isCameraEnabled = cameraTrack && !cameraTrack.publication.isMuted;
   const isScreenShareEnabled = screenShareTrack && !screenShareTrack.publication.isMuted;
-  const hasSecondTile = isCameraEnabled || isScreenShareEnabled;
+  // The chat transcript needs the stage, so the camera shrinks back to a tile while it is open
+  const isCameraFullScreen = fullScreenCamera && !!isCameraEnabled && !chatOpen;
+  const hasSecondTile = (isCameraEnabled && !isCameraFullScreen) || isScreenShareEnabled;
+  const agentCompact = chatOpen || isCameraFullScreen;
 
   // Delay is dynamic, but the shape & 'type' literal remain correct.
   const transition: Transition = {
     ...baseTransition,
-    delay: chatOpen ? 0 : 0.15, // delay on close
+    delay: agentCompact ? 0 : 0.15, // delay on close
   };
 
   const agentAnimate: MotionProps['animate'] = {
     ...animationProps.animate,
     // When chat is closed, scale up the agent tile
-    scale: chatOpen ? 1 : 3,
+    scale: agentCompact ? 1 : 3,
     transition,
   };
 
@@ -124,6 +129,20 @@ export function MediaTiles({ chatOpen }: MediaTilesProps) {
 
   return (
     <div className="pointer-events-none fixed inset-x-0 top-8 bottom-32 z-50 md:top-12 md:bottom-40">
+      {/* full-screen camera */}
+      <AnimatePresence>
+        {cameraTrack && isCameraFullScreen && (
+          <MotionVideoTile
+            key="camera"
+            layoutId="camera"
+            {...animationProps}
+            trackRef={cameraTrack}
+            transition={{ ...transition }}
+            cover
+            className="absolute inset-0 rounded-none md:mx-auto md:max-w-4xl md:rounded-lg"
+          />
+        )}
+      </AnimatePresence>
       <div className="relative mx-auto h-full max-w-2xl px-4 md:px-0">
         <div className={cn(classNames.grid)}>
           {/* agent */}
@@ -131,9 +150,9 @@ export function MediaTiles({ chatOpen }: MediaTilesProps) {
             className={cn([
               'grid',
               // 'bg-[hotpink]', // for debugging
-              !chatOpen && classNames.agentChatClosed,
-              chatOpen && hasSecondTile && classNames.agentChatOpenWithSecondTile,
-              chatOpen && !hasSecondTile && classNames.agentChatOpenWithoutSecondTile,
+              !agentCompact && classNames.agentChatClosed,
+              agentCompact && hasSecondTile && classNames.agentChatOpenWithSecondTile,
+              agentCompact && !hasSecondTile && classNames.agentChatOpenWithoutSecondTile,
             ])}
           >
             <AnimatePresence mode="popLayout">
@@ -147,7 +166,7 @@ export function MediaTiles({ chatOpen }: MediaTilesProps) {
                   transition={agentLayoutTransition}
                   state={agentState}
                   audioTrack={agentAudioTrack}
-                  className={cn(chatOpen ? 'h-[90px]' : 'h-auto w-full')}
+                  className={cn(agentCompact ? 'h-[90px]' : 'h-auto w-full')}
                 />
               )}
               {isAvatar && (
@@ -160,7 +179,7 @@ export function MediaTiles({ chatOpen }: MediaTilesProps) {
                   transition={avatarLayoutTransition}
                   videoTrack={agentVideoTrack}
                   className={cn(
-                    chatOpen ? 'h-[90px] [&>video]:h-[90px] [&>video]:w-auto' : 'h-auto w-full'
+                    agentCompact ? 'h-[90px] [&>video]:h-[90px] [&>video]:w-auto' : 'h-auto w-full'
                   )}
                 />
               )}
@@ -170,13 +189,13 @@ export function MediaTiles({ chatOpen }: MediaTilesProps) {
           <div
             className={cn([
               'grid',
-              chatOpen && classNames.secondTileChatOpen,
-              !chatOpen && classNames.secondTileChatClosed,
+              agentCompact && classNames.secondTileChatOpen,
+              !agentCompact && classNames.secondTileChatClosed,
             ])}
           >
             {/* camera */}
             <AnimatePresence>
-              {cameraTrack && isCameraEnabled && (
+              {cameraTrack && isCameraEnabled && !isCameraFullScreen && (
                 <MotionVideoTile
                   key="camera"
                   layout="position"
@@ -0,0 +1,288 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Braces, Gauge, X } from 'lucide-react';
+import { AnimatePresence, motion } from 'motion/react';
+import type { AgentState } from '@livekit/components-react';
+import useT from '@/hooks/useT';
+import {
+  type MetricsEvent,
+  TURN_METRICS,
+  type TurnMetricName,
+  type TurnMetrics,
+  computeTurns,
+  exportMetrics,
+  formatDuration,
+  stateSpans,
+  summarizeMetric,
+} from '@/lib/agent-metrics';
+import { cn } from '@/lib/utils';
+
+const STATE_COLORS: Record<AgentState, string> = {
+  disconnected: 'bg-red-500',
+  connecting: 'bg-neutral-400',
+  initializing: 'bg-slate-500',
+  listening: 'bg-blue-500',
+  thinking: 'bg-amber-500',
+  speaking: 'bg-emerald-500',
+};
+
+const METRIC_COLORS: Record<TurnMetricName, string> = {
+  endOfTurnMs: 'fill-slate-400',
+  responseLatencyMs: 'fill-blue-500',
+  reportDeliveryMs: 'fill-emerald-500',
+};
+
+function StateTimeline({ events, now }: { events: MetricsEvent[]; now: number }) {
+  const spans = stateSpans(events);
+  if (spans.length === 0) return null;
+  const start = spans[0].start;
+  const total = Math.max(now - start, 1);
+
+  return (
+    <div className="space-y-2">
+      <div className="bg-muted flex h-6 overflow-hidden rounded-md">
+        {spans.map((span) => {
+          const duration = (span.end ?? now) - span.start;
+          return (
+            <div
+              key={span.start}
+              title={`${span.state} · ${formatDuration(duration)}`}
+              className={cn('h-full', STATE_COLORS[span.state])}
+              style={{ width: `${(duration / total) * 100}%` }}
+            />
+          );
+        })}
+      </div>
+      <ul className="text-muted-foreground flex flex-wrap gap-x-4 gap-y-1 font-mono text-xs">
+        {(Object.keys(STATE_COLORS) as AgentState[])
+          .filter((state) => spans.some((span) => span.state === state))
+          .map((state) => (
+            <li key={state} className="flex items-center gap-1.5">
+              <span className={cn('size-2.5 rounded-sm', STATE_COLORS[state])} />
+              {state}
+            </li>
+          ))}
+      </ul>
+    </div>
+  );
+}
+
+const CHART_HEIGHT = 160;
+const AXIS_WIDTH = 48;
+const GROUP_WIDTH = 36;
+
+function TurnChart({ turns }: { turns: TurnMetrics[] }) {
+  const values = turns.flatMap((turn) => TURN_METRICS.map(({ name }) => turn[name] ?? 0));
+  // Round the scale up to a whole half second so the grid lines read well
+  const scale = Math.max(500, Math.ceil(Math.max(...values) / 500) * 500);
+  const barWidth = (GROUP_WIDTH - 8) / TURN_METRICS.length;
+  const width = AXIS_WIDTH + turns.length * GROUP_WIDTH;
+  const y = (value: number) => CHART_HEIGHT - (value / scale) * CHART_HEIGHT;
+
+  return (
+    <div className="overflow-x-auto">
+      <svg
+        width={width}
+        height={CHART_HEIGHT + 20}
+        viewBox={`0 -4 ${width} ${CHART_HEIGHT + 24}`}
+        className="text-muted-foreground font-mono text-[10px]"
+      >
+        {[0, 0.25, 0.5, 0.75, 1].map((tick) => (
+          <g key={tick}>
+            <line
+              x1={AXIS_WIDTH}
+              x2={width}
+              y1={y(scale * tick)}
+              y2={y(scale * tick)}
+              className="stroke-border"
+            />
+            <text
+              x={AXIS_WIDTH - 6}
+              y={y(scale * tick)}
+              textAnchor="end"
+              dominantBaseline="middle"
+              fill="currentColor"
+            >
+              {formatDuration(scale * tick)}
+            </text>
+          </g>
+        ))}
+        {turns.map((turn, index) => {
+          const groupX = AXIS_WIDTH + index * GROUP_WIDTH + 4;
+          return (
+            <g key={turn.turn}>
+              {TURN_METRICS.map(({ name }, metricIndex) => {
+                const value = turn[name];
+                if (value === undefined) return null;
+                return (
+                  <rect
+                    key={name}
+                    x={groupX + metricIndex * barWidth}
+                    y={y(value)}
+                    width={barWidth - 1}
+                    height={CHART_HEIGHT - y(value)}
+                    className={METRIC_COLORS[name]}
+                  >
+                    <title>{`#${turn.turn} ${name}: ${formatDuration(value)}`}</title>
+                  </rect>
+                );
+              })}
+              <text
+                x={groupX + (GROUP_WIDTH - 8) / 2}
+                y={CHART_HEIGHT + 14}
+                textAnchor="middle"
+                fill="currentColor"
+              >
+                {turn.turn}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+}
+
+interface MetricsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  events: MetricsEvent[];
+  roomName?: string;
+  className?: string;
+}
+
+/**
+ * Developer and operations view of the call: a timeline of the agent's states, latencies per
+ * turn and their percentiles, and an export of the same as JSON.
+ */
+export function MetricsPanel({ isOpen, onClose, events, roomName, className }: MetricsPanelProps) {
+  const t = useT();
+  const [now, setNow] = useState(() => Date.now());
+  const turns = useMemo(() => computeTurns(events), [events]);
+
+  // Keep the current state's span growing while the panel is open
+  useEffect(() => {
+    if (!isOpen) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1_000);
+    return () => clearInterval(interval);
+  }, [isOpen]);
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-40 bg-black/50"
+            onClick={onClose}
+          />
+
+          {/* Panel */}
+          <motion.div
+            initial={{ x: '100%' }}
+            animate={{ x: 0 }}
+            exit={{ x: '100%' }}
+            transition={{ type: 'spring', damping: 25, stiffness: 200 }}
+            className={cn(
+              'bg-background fixed top-0 right-0 z-50 flex h-full w-full max-w-2xl flex-col border-l shadow-2xl',
+              className
+            )}
+          >
+            <div className="bg-muted/30 flex flex-shrink-0 items-center justify-between border-b p-4">
+              <div className="flex items-center gap-2">
+                <Gauge className="h-5 w-5 text-blue-600" />
+                <h2 className="text-lg font-semibold">{t('metrics.title')}</h2>
+              </div>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => exportMetrics(events, roomName)}
+                  disabled={events.length === 0}
+                  aria-label={t('metrics.export')}
+                  title={t('metrics.export')}
+                  className="hover:bg-muted rounded-lg p-2 transition-colors disabled:cursor-not-allowed disabled:opacity-40"
+                >
+                  <Braces className="h-5 w-5" />
+                </button>
+                <button
+                  onClick={onClose}
+                  className="hover:bg-muted rounded-lg p-2 transition-colors"
+                  aria-label={t('metrics.close')}
+                >
+                  <X className="h-5 w-5" />
+                </button>
+              </div>
+            </div>
+
+            <div className="flex-1 space-y-8 overflow-y-auto p-6">
+              <section className="space-y-3">
+                <h3 className="font-semibold">{t('metrics.timeline')}</h3>
+                <StateTimeline events={events} now={now} />
+              </section>
+
+              <section className="space-y-3">
+                <h3 className="font-semibold">{t('metrics.turns')}</h3>
+                {turns.length === 0 ? (
+                  <p className="text-muted-foreground text-sm">{t('metrics.noTurns')}</p>
+                ) : (
+                  <>
+                    <TurnChart turns={turns} />
+                    <table className="w-full text-sm">
+                      <thead className="text-muted-foreground text-left text-xs">
+                        <tr>
+                          <th className="py-1 font-medium">{t('metrics.metric')}</th>
+                          <th className="py-1 text-right font-medium">p50</th>
+                          <th className="py-1 text-right font-medium">p95</th>
+                          <th className="py-1 text-right font-medium">{t('metrics.mean')}</th>
+                          <th className="py-1 text-right font-medium">{t('metrics.max')}</th>
+                          <th className="py-1 text-right font-medium">n</th>
+                        </tr>
+                      </thead>
+                      <tbody className="font-mono">
+                        {TURN_METRICS.map(({ name, label }) => {
+                          const summary = summarizeMetric(turns, name);
+                          return (
+                            <tr key={name} className="border-t">
+                              <td className="flex items-center gap-2 py-1.5 font-sans">
+                                <svg className="size-2.5" viewBox="0 0 10 10">
+                                  <rect
+                                    width="10"
+                                    height="10"
+                                    rx="2"
+                                    className={METRIC_COLORS[name]}
+                                  />
+                                </svg>
+                                {t(label)}
+                              </td>
+                              {summary ? (
+                                <>
+                                  <td className="text-right">{formatDuration(summary.p50)}</td>
+                                  <td className="text-right">{formatDuration(summary.p95)}</td>
+                                  <td className="text-right">{formatDuration(summary.mean)}</td>
+                                  <td className="text-right">{formatDuration(summary.max)}</td>
+                                  <td className="text-right">{summary.count}</td>
+                                </>
+                              ) : (
+                                <td colSpan={5} className="text-muted-foreground text-right">
+                                  –
+                                </td>
+                              )}
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </>
+                )}
+              </section>
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
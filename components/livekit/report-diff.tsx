@@ -0,0 +1,76 @@
+'use client';
+
+import { useMemo } from 'react';
+import useT from '@/hooks/useT';
+import { type DiffLine, diffLines, toSideBySide } from '@/lib/text-diff';
+import { cn } from '@/lib/utils';
+
+const LINE_STYLES: Record<DiffLine['type'], string> = {
+  equal: 'text-gray-700 dark:text-gray-300',
+  removed: 'bg-red-50 text-red-800 dark:bg-red-900/30 dark:text-red-200',
+  added: 'bg-emerald-50 text-emerald-800 dark:bg-emerald-900/30 dark:text-emerald-200',
+};
+
+function DiffCell({ line }: { line?: DiffLine }) {
+  const t = useT();
+  if (!line) return <div className="bg-muted/40 min-h-6" />;
+  return (
+    <div
+      className={cn('min-h-6 px-2 py-0.5 break-words whitespace-pre-wrap', LINE_STYLES[line.type])}
+    >
+      {line.type === 'removed' && <span className="sr-only">{t('report.diffRemoved')} </span>}
+      {line.type === 'added' && <span className="sr-only">{t('report.diffAdded')} </span>}
+      {line.text}
+    </div>
+  );
+}
+
+interface ReportDiffProps {
+  before: string;
+  after: string;
+  beforeLabel: string;
+  afterLabel: string;
+  className?: string;
+}
+
+/**
+ * Side-by-side, line-based comparison of two report versions. Blank lines are ignored so
+ * reflowed paragraphs do not show up as changes.
+ */
+export function ReportDiff({ before, after, beforeLabel, afterLabel, className }: ReportDiffProps) {
+  const rows = useMemo(() => {
+    const withoutBlankLines = (text: string) =>
+      text
+        .split('\n')
+        .map((line) => line.trimEnd())
+        .filter(Boolean)
+        .join('\n');
+    return toSideBySide(diffLines(withoutBlankLines(before), withoutBlankLines(after)));
+  }, [before, after]);
+
+  const t = useT();
+  const changed = rows.some(({ left, right }) => left?.type !== 'equal' || right?.type !== 'equal');
+
+  return (
+    <div className={cn('overflow-hidden rounded-lg border text-sm', className)}>
+      <div className="bg-muted/50 grid grid-cols-2 border-b text-xs font-semibold">
+        <div className="border-r px-2 py-1.5">{beforeLabel}</div>
+        <div className="px-2 py-1.5">{afterLabel}</div>
+      </div>
+      {changed ? (
+        <div className="grid grid-cols-2 font-mono text-xs">
+          {rows.map(({ left, right }, index) => (
+            <div key={index} className="contents">
+              <div className="border-r">
+                <DiffCell line={left} />
+              </div>
+              <DiffCell line={right} />
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-muted-foreground p-4 text-center">{t('report.identical')}</p>
+      )}
+    </div>
+  );
+}
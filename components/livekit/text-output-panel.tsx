@@ -1,73 +1,175 @@
 'use client';
 
 import React from 'react';
-import { ExternalLink, FileText, Play, X } from 'lucide-react';
+import type { Components } from 'react-markdown';
+import {
+  Braces,
+  ExternalLink,
+  FileCode,
+  FileDown,
+  FileText,
+  GitCompare,
+  History,
+  Play,
+  X,
+} from 'lucide-react';
 import { AnimatePresence, motion } from 'motion/react';
+import { toastAlert } from '@/components/alert-toast';
+import { ReportDiff } from '@/components/livekit/report-diff';
+import { Markdown } from '@/components/markdown';
+import useT, { useLocale } from '@/hooks/useT';
+import type { ReportVersion } from '@/lib/agent-protocol';
+import type { MessageKey } from '@/lib/i18n/catalogs/en';
+import { sanitizeUrl } from '@/lib/markdown';
+import { type ReportExportFormat, type ReportMetadata, exportReport } from '@/lib/report-export';
 import { cn } from '@/lib/utils';
 
+const YOUTUBE_URL_PATTERN =
+  /^https?:\/\/(?:www\.)?(?:youtube\.com\/watch\?v=|youtu\.be\/)([a-zA-Z0-9_-]+)/i;
+
+function YouTubeLink({ href, children }: React.ComponentProps<'a'>) {
+  const t = useT();
+  const safeHref = href ? sanitizeUrl(href) : '';
+  const videoId = safeHref.match(YOUTUBE_URL_PATTERN)?.[1];
+  if (!videoId) {
+    return (
+      <a
+        href={safeHref || undefined}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="font-medium break-all text-blue-600 underline hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+      >
+        {children}
+      </a>
+    );
+  }
+
+  return (
+    <a
+      href={safeHref}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="group my-4 flex items-center space-x-3 rounded-lg border border-red-200 bg-red-50 p-3 dark:border-red-800 dark:bg-red-900/20"
+    >
+      <span className="relative flex-shrink-0">
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img
+          src={`https://img.youtube.com/vi/${videoId}/mqdefault.jpg`}
+          alt="YouTube Thumbnail"
+          className="h-15 w-20 rounded object-cover transition-shadow group-hover:shadow-lg"
+        />
+        <span className="absolute inset-0 flex items-center justify-center rounded bg-black/20 transition-all group-hover:bg-black/30">
+          <Play className="h-6 w-6 text-white" fill="currentColor" />
+        </span>
+      </span>
+      <span className="min-w-0 flex-1">
+        <span className="block text-sm font-medium text-red-600 transition-colors group-hover:text-red-700 dark:text-red-400 dark:group-hover:text-red-300">
+          🎥 {t('report.watchVideo')}
+        </span>
+        <span className="block truncate text-xs text-gray-500 dark:text-gray-400">{safeHref}</span>
+      </span>
+    </a>
+  );
+}
+
+const youTubeLinkComponents: Components = { a: YouTubeLink };
+
+// Content should already be properly decoded from backend, but handle any remaining issues
+function toMarkdown(content: string) {
+  return (
+    content
+      .replace(/\\n/g, '\n')
+      .replace(/\\u2022/g, '•')
+      .replace(/\\"/g, '"')
+      .replace(/\\\\/g, '\\')
+      // Section headers such as **Potential Root Causes:** on their own line
+      .replace(/^\*\*([^*\n]+):\*\*\s*$/gm, '### $1')
+  );
+}
+
+function formatReportTime(timestamp: number, locale: string) {
+  return new Date(timestamp).toLocaleTimeString(locale, { timeStyle: 'medium' });
+}
+
 interface TextOutputPanelProps {
   isOpen: boolean;
   onClose: () => void;
-  textContent: string; // May be plain text OR JSON string containing {content, web_sources, youtube_videos}
+  /** Every report received in the session, oldest first. The latest one is shown by default. */
+  reports: ReportVersion[];
+  /** Session details included in exported files. Export actions are hidden without it. */
+  metadata?: ReportMetadata;
   className?: string;
 }
 
+const EXPORT_ACTIONS: { format: ReportExportFormat; label: MessageKey; Icon: typeof FileDown }[] = [
+  { format: 'pdf', label: 'report.exportPdf', Icon: FileDown },
+  { format: 'markdown', label: 'report.exportMarkdown', Icon: FileCode },
+  { format: 'json', label: 'report.exportJson', Icon: Braces },
+];
+
 export const TextOutputPanel: React.FC<TextOutputPanelProps> = ({
   isOpen,
   onClose,
-  textContent,
+  reports,
+  metadata,
   className,
 }) => {
-  // Parse text content to extract structured information
-  const parseStructured = (raw: string) => {
+  const t = useT();
+  const locale = useLocale();
+  const [selectedId, setSelectedId] = React.useState<string | null>(null);
+  const [comparing, setComparing] = React.useState(false);
+  const [baseId, setBaseId] = React.useState<string | null>(null);
+  const [exporting, setExporting] = React.useState<ReportExportFormat | null>(null);
+
+  // Follow the latest report until the mechanic picks an earlier one
+  const pickedIndex = reports.findIndex((version) => version.id === selectedId);
+  const selectedIndex = pickedIndex === -1 ? reports.length - 1 : pickedIndex;
+  const selected = reports.at(selectedIndex);
+  const report = selected?.report ?? null;
+  const isLatest = selectedIndex === reports.length - 1;
+
+  // Compare against the chosen base, defaulting to the version before the selected one
+  const pickedBaseIndex = reports.findIndex((version) => version.id === baseId);
+  const baseIndex =
+    pickedBaseIndex !== -1 && pickedBaseIndex !== selectedIndex
+      ? pickedBaseIndex
+      : selectedIndex > 0
+        ? selectedIndex - 1
+        : 1;
+  const base = reports.length > 1 ? reports.at(baseIndex) : undefined;
+  const showDiff = comparing && !!selected && !!base;
+
+  const handleExport = async (format: ReportExportFormat) => {
+    if (!report || !metadata) return;
+    setExporting(format);
     try {
-      const parsed = JSON.parse(raw);
-      // Handle the new structured format with text_output
-      if (parsed && parsed.content && typeof parsed.content === 'string') {
-        return {
-          mainContent: parsed.content,
-          webSources: Array.isArray(parsed.web_sources) ? parsed.web_sources : [],
-          youtubeVideos: Array.isArray(parsed.youtube_videos) ? parsed.youtube_videos : [],
-          structured: true,
-        };
-      }
-      // Handle legacy format
-      if (parsed && parsed.text_output && typeof parsed.text_output.content === 'string') {
-        return {
-          mainContent: parsed.text_output.content,
-          webSources: Array.isArray(parsed.text_output.web_sources)
-            ? parsed.text_output.web_sources
-            : [],
-          youtubeVideos: Array.isArray(parsed.text_output.youtube_videos)
-            ? parsed.text_output.youtube_videos
-            : [],
-          structured: true,
-        };
-      }
-    } catch {
-      // Ignore parsing errors
+      await exportReport(report, metadata, format);
+    } catch (error) {
+      console.error('Failed to export diagnostic report:', error);
+      toastAlert({
+        title: t('report.exportFailed'),
+        description: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      setExporting(null);
     }
-    return null;
   };
 
-  const legacyParse = (content: string) => {
-    if (!content) return { mainContent: '', webSources: [], youtubeVideos: [], structured: false };
-    return { mainContent: content, webSources: [], youtubeVideos: [], structured: false };
+  const parsed = {
+    mainContent: report?.content ?? '',
+    webSources: report?.web_sources ?? [],
+    youtubeVideos: report?.youtube_videos ?? [],
   };
 
-  const parsed = parseStructured(textContent) || legacyParse(textContent);
-
   // Debug: Log what we received from backend
   console.log('=== TextOutputPanel Debug Start ===');
-  console.log('1. Raw textContent length:', textContent?.length);
-  console.log('2. Parsed data:', {
+  console.log('1. Parsed data:', {
     hasContent: !!parsed.mainContent,
     contentLength: parsed.mainContent?.length,
     webSourcesCount: parsed.webSources?.length,
     youtubeVideosCount: parsed.youtubeVideos?.length,
-    structured: parsed.structured,
   });
-  console.log('3. Raw youtube_videos array:', parsed.youtubeVideos);
+  console.log('2. Raw youtube_videos array:', parsed.youtubeVideos);
 
   // Sanitize youtube video objects (remove stray HTML fragments)
   interface RawVideo {
@@ -191,92 +293,6 @@ export const TextOutputPanel: React.FC<TextOutputPanelProps> = ({
   console.log('11. About to render - youtubeVideos count:', youtubeVideos.length);
   console.log('12. Conditional check will pass?', youtubeVideos.length > 0);
 
-  // Format main content with better structure for diagnostic reports
-  const formatMainContent = (content: string, hasStructuredVideos: boolean = false) => {
-    // Content should already be properly decoded from backend, but handle any remaining issues
-    let decodedContent = content;
-
-    // Handle any remaining escaped sequences (fallback)
-    decodedContent = decodedContent
-      .replace(/\\n/g, '\n')
-      .replace(/\\u2022/g, '•')
-      .replace(/\\"/g, '"')
-      .replace(/\\\\/g, '\\');
-
-    let formattedContent = decodedContent
-      // Format section headers (Category, Potential Root Causes, etc.)
-      .replace(
-        /\*\*([^*]+):\*\*/g,
-        '<h3 class="text-lg font-bold text-blue-600 dark:text-blue-400 mt-6 mb-3 border-b border-blue-200 dark:border-blue-800 pb-2">$1</h3>'
-      )
-      // Format single line category descriptions
-      .replace(
-        /\*\*Category:\*\*\s*([^\n]+)/g,
-        '<div class="bg-blue-50 dark:bg-blue-900/20 p-3 rounded-lg mb-4"><strong class="text-blue-700 dark:text-blue-300">Category:</strong> <span class="text-gray-800 dark:text-gray-200">$1</span></div>'
-      )
-      // Format bullet points with better styling
-      .replace(
-        /^• (.+)$/gm,
-        '<div class="flex items-start mb-3 p-2 hover:bg-gray-50 dark:hover:bg-gray-800/50 rounded"><span class="text-blue-500 mr-3 mt-1 text-lg">•</span><span class="text-gray-800 dark:text-gray-200 leading-relaxed">$1</span></div>'
-      );
-
-    // Only process YouTube URLs in content if we don't have structured YouTube videos
-    if (!hasStructuredVideos) {
-      formattedContent = formattedContent
-        // Convert YouTube URLs to clickable thumbnails with special styling (do this before general URL conversion)
-        .replace(
-          /https?:\/\/(?:www\.)?(?:youtube\.com\/watch\?v=|youtu\.be\/)([a-zA-Z0-9_-]+)(?:\S*)/gi,
-          (match, videoId) => {
-            return `<div class="my-4 p-3 bg-red-50 dark:bg-red-900/20 rounded-lg border border-red-200 dark:border-red-800">
-              <a href="${match}" target="_blank" rel="noopener noreferrer" class="block group">
-                <div class="flex items-center space-x-3">
-                  <div class="relative flex-shrink-0">
-                    <img src="https://img.youtube.com/vi/${videoId}/mqdefault.jpg" 
-                         alt="YouTube Thumbnail" 
-                         class="w-20 h-15 object-cover rounded group-hover:shadow-lg transition-shadow"
-                         onerror="this.src='https://img.youtube.com/vi/default/default.jpg'"/>
-                    <div class="absolute inset-0 flex items-center justify-center bg-black bg-opacity-20 rounded group-hover:bg-opacity-30 transition-all">
-                      <svg class="w-6 h-6 text-white" fill="currentColor" viewBox="0 0 24 24">
-                        <path d="M8 5v14l11-7z"/>
-                      </svg>
-                    </div>
-                  </div>
-                  <div class="min-w-0 flex-1">
-                    <p class="text-sm font-medium text-red-600 dark:text-red-400 group-hover:text-red-700 dark:group-hover:text-red-300 transition-colors">
-                      🎥 Watch Diagnostic Video
-                    </p>
-                    <p class="text-xs text-gray-500 dark:text-gray-400 truncate">${match}</p>
-                  </div>
-                </div>
-              </a>
-            </div>`;
-          }
-        );
-    }
-
-    // Always process regular URLs (but skip YouTube URLs if we have structured videos)
-    if (hasStructuredVideos) {
-      // Skip YouTube URLs when processing regular URLs
-      formattedContent = formattedContent.replace(
-        /(https?:\/\/(?!(?:www\.)?(?:youtube\.com\/watch\?v=|youtu\.be\/))(?:[-\w.])+(?:\:[0-9]+)?(?:\/(?:[\w\/_.])*)?(?:\?(?:[\w&=%.-])*)?(?:\#(?:[\w.-])*)?)/gi,
-        '<a href="$1" target="_blank" rel="noopener noreferrer" class="inline-flex items-center text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 underline font-medium break-all"><svg class="w-3 h-3 mr-1 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14"></path></svg>$1</a>'
-      );
-    } else {
-      // Process all URLs normally
-      formattedContent = formattedContent.replace(
-        /(https?:\/\/(?:[-\w.])+(?:\:[0-9]+)?(?:\/(?:[\w\/_.])*)?(?:\?(?:[\w&=%.-])*)?(?:\#(?:[\w.-])*)?)/gi,
-        '<a href="$1" target="_blank" rel="noopener noreferrer" class="inline-flex items-center text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 underline font-medium break-all"><svg class="w-3 h-3 mr-1 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14"></path></svg>$1</a>'
-      );
-    }
-
-    return (
-      formattedContent
-        // Convert line breaks
-        .replace(/\n\n/g, '<div class="my-4"></div>')
-        .replace(/\n/g, '<br>')
-    );
-  };
-
   return (
     <AnimatePresence>
       {isOpen && (
@@ -305,66 +321,194 @@ export const TextOutputPanel: React.FC<TextOutputPanelProps> = ({
             <div className="bg-muted/30 flex flex-shrink-0 items-center justify-between border-b p-4">
               <div className="flex items-center gap-2">
                 <FileText className="h-5 w-5 text-blue-600" />
-                <h2 className="text-lg font-semibold">Diagnostic Report</h2>
+                <h2 className="text-lg font-semibold">{t('report.title')}</h2>
+              </div>
+              <div className="flex items-center gap-1">
+                {metadata &&
+                  EXPORT_ACTIONS.map(({ format, label, Icon }) => (
+                    <button
+                      key={format}
+                      onClick={() => handleExport(format)}
+                      disabled={!report?.content || exporting !== null}
+                      className="hover:bg-muted rounded-lg p-2 transition-colors disabled:cursor-not-allowed disabled:opacity-40"
+                      aria-label={t(label)}
+                      title={t(label)}
+                    >
+                      <Icon className={cn('h-5 w-5', exporting === format && 'animate-pulse')} />
+                    </button>
+                  ))}
+                <button
+                  onClick={onClose}
+                  className="hover:bg-muted rounded-lg p-2 transition-colors"
+                  aria-label={t('report.close')}
+                  title={t('report.close')}
+                >
+                  <X className="h-5 w-5" />
+                </button>
               </div>
-              <button
-                onClick={onClose}
-                className="hover:bg-muted rounded-lg p-2 transition-colors"
-                aria-label="Close diagnostic report"
-                title="Close diagnostic report"
-              >
-                <X className="h-5 w-5" />
-              </button>
             </div>
 
+            {/* Report timeline */}
+            {reports.length > 1 && (
+              <div className="flex flex-shrink-0 items-center gap-2 border-b px-4 py-2">
+                <History className="text-muted-foreground h-4 w-4 flex-shrink-0" />
+                <ol className="flex flex-1 gap-1 overflow-x-auto" aria-label={t('report.versions')}>
+                  {reports.map((version, index) => (
+                    <li key={version.id}>
+                      <button
+                        onClick={() =>
+                          setSelectedId(index === reports.length - 1 ? null : version.id)
+                        }
+                        aria-current={index === selectedIndex}
+                        className={cn(
+                          'flex flex-col items-start rounded-md px-2 py-1 text-xs whitespace-nowrap transition-colors',
+                          index === selectedIndex
+                            ? 'bg-blue-600 text-white'
+                            : 'hover:bg-muted text-muted-foreground'
+                        )}
+                      >
+                        <span className="font-semibold">
+                          {index === reports.length - 1
+                            ? t('report.versionLatest', { number: index + 1 })
+                            : t('report.version', { number: index + 1 })}
+                        </span>
+                        <span className="font-mono">
+                          {formatReportTime(version.receivedAt, locale)}
+                        </span>
+                      </button>
+                    </li>
+                  ))}
+                </ol>
+                <button
+                  onClick={() => setComparing((value) => !value)}
+                  aria-pressed={comparing}
+                  className={cn(
+                    'flex flex-shrink-0 items-center gap-1 rounded-lg px-2 py-1.5 text-xs font-medium transition-colors',
+                    comparing ? 'bg-muted text-foreground' : 'hover:bg-muted text-muted-foreground'
+                  )}
+                  title={t('report.compareTitle')}
+                >
+                  <GitCompare className="h-4 w-4" />
+                  {t('report.compare')}
+                </button>
+              </div>
+            )}
+
             {/* Content - Made scrollable */}
             <div className="diagnostic-scroll flex-1 overflow-y-auto">
               <div className="space-y-6 p-6">
+                {!isLatest && !showDiff && (
+                  <div className="flex items-center justify-between gap-2 rounded-lg border border-amber-300 bg-amber-50 px-3 py-2 text-sm text-amber-800 dark:border-amber-700 dark:bg-amber-900/20 dark:text-amber-200">
+                    <span>
+                      {t('report.viewingEarlier', {
+                        number: selectedIndex + 1,
+                        total: reports.length,
+                        time: selected ? formatReportTime(selected.receivedAt, locale) : '',
+                      })}
+                    </span>
+                    <button
+                      onClick={() => setSelectedId(null)}
+                      className="font-medium whitespace-nowrap underline"
+                    >
+                      {t('report.showLatest')}
+                    </button>
+                  </div>
+                )}
+
+                {/* Side-by-side comparison */}
+                {showDiff && selected && base && (
+                  <div className="space-y-3">
+                    <label className="flex items-center gap-2 text-sm">
+                      <span className="text-muted-foreground">
+                        {t('report.compareWith', { number: selectedIndex + 1 })}
+                      </span>
+                      <select
+                        value={base.id}
+                        onChange={(e) => setBaseId(e.target.value)}
+                        className="bg-background rounded-md border px-2 py-1"
+                      >
+                        {reports.map((version, index) =>
+                          index === selectedIndex ? null : (
+                            <option key={version.id} value={version.id}>
+                              {t('report.versionWithTime', {
+                                number: index + 1,
+                                time: formatReportTime(version.receivedAt, locale),
+                              })}
+                            </option>
+                          )
+                        )}
+                      </select>
+                    </label>
+                    <ReportDiff
+                      before={toMarkdown(base.report.content)}
+                      after={toMarkdown(selected.report.content)}
+                      beforeLabel={t('report.diffLabel', {
+                        number: baseIndex + 1,
+                        time: formatReportTime(base.receivedAt, locale),
+                      })}
+                      afterLabel={t('report.diffLabel', {
+                        number: selectedIndex + 1,
+                        time: formatReportTime(selected.receivedAt, locale),
+                      })}
+                    />
+                  </div>
+                )}
+
                 {/* Main Content - Diagnostic Report */}
-                {cleanMainContent && (
+                {!showDiff && cleanMainContent && (
                   <div className="rounded-lg border border-gray-200 bg-gradient-to-br from-gray-50 to-gray-100 p-6 dark:border-gray-700 dark:from-gray-900 dark:to-gray-800">
-                    <div
-                      dangerouslySetInnerHTML={{
-                        __html: formatMainContent(cleanMainContent, youtubeVideos.length > 0),
-                      }}
-                      className="diagnostic-content"
+                    <Markdown
+                      content={toMarkdown(cleanMainContent)}
+                      // Only turn YouTube links into cards when there are no structured videos
+                      components={youtubeVideos.length > 0 ? undefined : youTubeLinkComponents}
+                      className="diagnostic-content text-base text-gray-800 dark:text-gray-200"
                     />
                   </div>
                 )}
 
                 {/* Web Sources */}
-                {webSources.length > 0 && (
+                {!showDiff && webSources.length > 0 && (
                   <div className="rounded-lg bg-blue-50 p-4 dark:bg-blue-900/20">
                     <h3 className="mb-3 flex items-center text-lg font-semibold text-blue-600 dark:text-blue-400">
                       <ExternalLink className="mr-2 h-5 w-5" />
-                      Web Sources
+                      {t('report.webSources')}
                     </h3>
                     <div className="space-y-3">
-                      {webSources.map((source: { title: string; url: string }, index: number) => (
-                        <div key={index} className="border-l-2 border-blue-300 pl-3">
-                          <a
-                            href={source.url}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="block font-medium text-blue-600 underline transition-colors hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
-                          >
-                            {source.title}
-                          </a>
-                          <p className="mt-1 truncate text-xs text-gray-500 dark:text-gray-400">
-                            {source.url}
-                          </p>
-                        </div>
-                      ))}
+                      {webSources.map((source: { title: string; url: string }, index: number) => {
+                        // Sources come from the agent, so only safe links are clickable
+                        const href = sanitizeUrl(source.url ?? '');
+                        return (
+                          <div key={index} className="border-l-2 border-blue-300 pl-3">
+                            {href ? (
+                              <a
+                                href={href}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="block font-medium text-blue-600 underline transition-colors hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                              >
+                                {source.title}
+                              </a>
+                            ) : (
+                              <p className="font-medium text-gray-800 dark:text-gray-200">
+                                {source.title}
+                              </p>
+                            )}
+                            <p className="mt-1 truncate text-xs text-gray-500 dark:text-gray-400">
+                              {source.url}
+                            </p>
+                          </div>
+                        );
+                      })}
                     </div>
                   </div>
                 )}
 
                 {/* YouTube Videos */}
-                {youtubeVideos.length > 0 && (
+                {!showDiff && youtubeVideos.length > 0 && (
                   <div className="rounded-lg bg-red-50 p-4 dark:bg-red-900/20">
                     <h3 className="mb-3 flex items-center text-lg font-semibold text-red-600 dark:text-red-400">
                       <Play className="mr-2 h-5 w-5" />
-                      Diagnostic Videos ({youtubeVideos.length})
+                      {t('report.videos', { count: youtubeVideos.length })}
                     </h3>
                     <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
                       {youtubeVideos.map(
@@ -376,62 +520,79 @@ export const TextOutputPanel: React.FC<TextOutputPanelProps> = ({
                             video_id?: string;
                           },
                           index: number
-                        ) => (
-                          <div
-                            key={index}
-                            className="overflow-hidden rounded-lg border border-gray-200 bg-white shadow-sm dark:border-gray-700 dark:bg-gray-800"
-                          >
-                            <a
-                              href={video.url}
-                              target="_blank"
-                              rel="noopener noreferrer"
-                              className="group block"
-                              onClick={(e) => {
-                                // Validate URL before opening
-                                if (!video.url || !video.url.includes('youtube')) {
-                                  e.preventDefault();
-                                  console.error('Invalid YouTube URL:', video.url);
-                                  alert('Invalid YouTube URL. Please check the video link.');
-                                }
-                              }}
+                        ) => {
+                          const href = sanitizeUrl(video.url ?? '');
+                          if (!href) {
+                            return (
+                              <div
+                                key={index}
+                                className="rounded-lg border border-gray-200 bg-white p-3 text-sm font-medium text-gray-900 shadow-sm dark:border-gray-700 dark:bg-gray-800 dark:text-gray-100"
+                              >
+                                {video.title}
+                              </div>
+                            );
+                          }
+                          return (
+                            <div
+                              key={index}
+                              className="overflow-hidden rounded-lg border border-gray-200 bg-white shadow-sm dark:border-gray-700 dark:bg-gray-800"
                             >
-                              <div className="relative aspect-[16/9] bg-gray-100 dark:bg-gray-700">
-                                {/* eslint-disable-next-line @next/next/no-img-element */}
-                                <img
-                                  src={
-                                    video.thumbnail &&
-                                    !video.thumbnail.includes('default/default.jpg')
-                                      ? video.thumbnail
-                                      : video.video_id
-                                        ? `https://img.youtube.com/vi/${video.video_id}/mqdefault.jpg`
-                                        : 'https://img.youtube.com/vi/default/mqdefault.jpg'
+                              <a
+                                href={href}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="group block"
+                                onClick={(e) => {
+                                  // Validate URL before opening
+                                  if (!href.includes('youtube')) {
+                                    e.preventDefault();
+                                    console.error('Invalid YouTube URL:', video.url);
+                                    alert(t('report.invalidVideo'));
                                   }
-                                  alt={video.title}
-                                  className="h-full w-full object-cover transition-transform duration-200 group-hover:scale-105"
-                                  onError={(e) => {
-                                    const target = e.target as HTMLImageElement;
-                                    // Try alternative thumbnail URLs if the primary fails
-                                    if (video.video_id && !target.src.includes('hqdefault')) {
-                                      target.src = `https://img.youtube.com/vi/${video.video_id}/hqdefault.jpg`;
-                                    } else {
-                                      target.src = 'https://img.youtube.com/vi/default/default.jpg';
+                                }}
+                              >
+                                <div className="relative aspect-[16/9] bg-gray-100 dark:bg-gray-700">
+                                  {/* eslint-disable-next-line @next/next/no-img-element */}
+                                  <img
+                                    src={
+                                      video.thumbnail &&
+                                      !video.thumbnail.includes('default/default.jpg')
+                                        ? video.thumbnail
+                                        : video.video_id
+                                          ? `https://img.youtube.com/vi/${video.video_id}/mqdefault.jpg`
+                                          : 'https://img.youtube.com/vi/default/mqdefault.jpg'
                                     }
-                                  }}
-                                />
-                                <div className="absolute inset-0 flex items-center justify-center bg-black/30 opacity-0 transition-opacity group-hover:opacity-100">
-                                  <div className="flex h-12 w-12 items-center justify-center rounded-full bg-red-600 shadow-lg">
-                                    <Play className="ml-1 h-6 w-6 text-white" fill="currentColor" />
+                                    alt={video.title}
+                                    className="h-full w-full object-cover transition-transform duration-200 group-hover:scale-105"
+                                    onError={(e) => {
+                                      const target = e.target as HTMLImageElement;
+                                      // Try alternative thumbnail URLs if the primary fails
+                                      if (video.video_id && !target.src.includes('hqdefault')) {
+                                        target.src = `https://img.youtube.com/vi/${video.video_id}/hqdefault.jpg`;
+                                      } else {
+                                        target.src =
+                                          'https://img.youtube.com/vi/default/default.jpg';
+                                      }
+                                    }}
+                                  />
+                                  <div className="absolute inset-0 flex items-center justify-center bg-black/30 opacity-0 transition-opacity group-hover:opacity-100">
+                                    <div className="flex h-12 w-12 items-center justify-center rounded-full bg-red-600 shadow-lg">
+                                      <Play
+                                        className="ml-1 h-6 w-6 text-white"
+                                        fill="currentColor"
+                                      />
+                                    </div>
                                   </div>
                                 </div>
-                              </div>
-                              <div className="p-3">
-                                <p className="line-clamp-2 text-sm font-medium text-gray-900 transition-colors group-hover:text-red-600 dark:text-gray-100 dark:group-hover:text-red-400">
-                                  {video.title}
-                                </p>
-                              </div>
-                            </a>
-                          </div>
-                        )
+                                <div className="p-3">
+                                  <p className="line-clamp-2 text-sm font-medium text-gray-900 transition-colors group-hover:text-red-600 dark:text-gray-100 dark:group-hover:text-red-400">
+                                    {video.title}
+                                  </p>
+                                </div>
+                              </a>
+                            </div>
+                          );
+                        }
                       )}
                     </div>
                   </div>
@@ -5,18 +5,24 @@ import { cn } from '@/lib/utils';
 
 const MotionVideoTrack = motion.create(VideoTrack);
 
+interface VideoTileProps {
+  /** Crop the video to fill the tile instead of sizing the tile to the video. */
+  cover?: boolean;
+}
+
 export const VideoTile = ({
   trackRef,
+  cover = false,
   className,
   ref,
-}: React.ComponentProps<'div'> & React.ComponentProps<typeof VideoTrack>) => {
+}: React.ComponentProps<'div'> & React.ComponentProps<typeof VideoTrack> & VideoTileProps) => {
   return (
     <div ref={ref} className={cn('bg-muted overflow-hidden rounded-md', className)}>
       <MotionVideoTrack
         trackRef={trackRef}
         width={trackRef?.publication.dimensions?.width ?? 0}
         height={trackRef?.publication.dimensions?.height ?? 0}
-        className={cn('h-full w-auto')}
+        className={cn(cover ? 'h-full w-full object-cover' : 'h-full w-auto')}
       />
     </div>
   );
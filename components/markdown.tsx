@@ -0,0 +1,139 @@
+import * as React from 'react';
+import ReactMarkdown, { type Components, type ExtraProps, type Options } from 'react-markdown';
+import rehypeRaw from 'rehype-raw';
+import rehypeSanitize from 'rehype-sanitize';
+import remarkGfm from 'remark-gfm';
+import { DtcChip } from '@/components/dtc-chip';
+import { MARKDOWN_SANITIZE_SCHEMA, normalizeAgentMarkdown, sanitizeUrl } from '@/lib/markdown';
+import rehypeDtc from '@/lib/rehype-dtc';
+import { cn } from '@/lib/utils';
+
+type ElementProps = React.HTMLAttributes<HTMLElement> & ExtraProps;
+
+// react-markdown passes the hast `node` to every component; keep it out of the DOM attributes
+function withoutNode<P extends ExtraProps>(props: P): Omit<P, 'node'> {
+  const rest = { ...props };
+  delete rest.node;
+  return rest;
+}
+
+function styled(tag: keyof React.JSX.IntrinsicElements, baseClassName: string) {
+  function StyledElement(props: ElementProps) {
+    const { className, ...rest } = withoutNode(props);
+    return React.createElement(tag, { ...rest, className: cn(baseClassName, className) });
+  }
+  StyledElement.displayName = `Markdown.${tag}`;
+  return StyledElement;
+}
+
+const Table = styled('table', 'w-full border-collapse text-sm');
+
+const baseComponents: Components = {
+  h1: styled('h1', 'mt-4 mb-2 text-xl font-bold'),
+  h2: styled('h2', 'mt-4 mb-2 text-lg font-bold'),
+  h3: styled(
+    'h3',
+    'mt-6 mb-3 border-b border-blue-200 pb-2 text-lg font-bold text-blue-600 dark:border-blue-800 dark:text-blue-400'
+  ),
+  h4: styled('h4', 'mt-3 mb-1 font-semibold'),
+  p: styled('p', 'my-2 leading-relaxed first:mt-0 last:mb-0'),
+  strong: styled('strong', 'font-semibold'),
+  ul: styled('ul', 'my-2 list-disc space-y-1 pl-6'),
+  ol: styled('ol', 'my-2 list-decimal space-y-1 pl-6'),
+  li: styled('li', 'leading-relaxed [&>ol]:my-1 [&>ul]:my-1'),
+  blockquote: styled('blockquote', 'text-muted-foreground my-2 border-l-2 pl-3 italic'),
+  hr: styled('hr', 'my-4'),
+  table: (props) => (
+    <div className="my-3 overflow-x-auto">
+      <Table {...props} />
+    </div>
+  ),
+  th: styled('th', 'bg-muted border px-2 py-1 text-left font-semibold'),
+  td: styled('td', 'border px-2 py-1 align-top'),
+  pre: styled('pre', 'bg-muted my-3 overflow-x-auto rounded-lg p-3 font-mono text-xs'),
+  code: styled('code', 'bg-muted rounded px-1 font-mono text-[0.9em]'),
+  a: (props) => {
+    const { className, href, children, ...rest } = withoutNode(props);
+    const safeHref = href ? sanitizeUrl(href) : '';
+    // Links that fail the allow-list keep their text but lose the anchor
+    if (!safeHref) return <span className={className}>{children}</span>;
+    return (
+      <a
+        href={safeHref}
+        target="_blank"
+        rel="noopener noreferrer"
+        className={cn(
+          'break-words text-blue-600 underline transition-colors hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300',
+          className
+        )}
+        {...rest}
+      >
+        {children}
+      </a>
+    );
+  },
+  img: (props) => {
+    const { className, src, alt, ...rest } = withoutNode(props);
+    const safeSrc = typeof src === 'string' ? sanitizeUrl(src, 'image') : '';
+    if (!safeSrc) return alt ? <span className={className}>{alt}</span> : null;
+    return (
+      // eslint-disable-next-line @next/next/no-img-element
+      <img
+        src={safeSrc}
+        alt={alt ?? ''}
+        loading="lazy"
+        className={cn('my-2 h-auto max-w-full rounded-lg shadow-sm', className)}
+        {...rest}
+      />
+    );
+  },
+  span: (props) => {
+    const { children, ...rest } = withoutNode(props);
+    // Added by rehype-dtc after sanitisation, so agent HTML cannot forge it
+    const dtc = (rest as Record<string, unknown>)['data-dtc'];
+    if (typeof dtc === 'string') return <DtcChip code={dtc} />;
+    return <span {...rest}>{children}</span>;
+  },
+};
+
+const remarkPlugins = [remarkGfm];
+const rehypePlugins: Options['rehypePlugins'] = [
+  rehypeRaw,
+  [rehypeSanitize, MARKDOWN_SANITIZE_SCHEMA],
+];
+const rehypePluginsWithDtc: Options['rehypePlugins'] = [...rehypePlugins, rehypeDtc];
+
+export interface MarkdownProps {
+  /** Markdown source. May contain inline HTML, which is sanitised before rendering. */
+  content: string;
+  /** Overrides for individual elements, merged over the default styling. */
+  components?: Components;
+  /** Render OBD-II trouble codes (P0301, U0100…) as interactive chips. Defaults to true. */
+  detectDtcs?: boolean;
+  className?: string;
+}
+
+/**
+ * Renders agent-authored Markdown (GFM tables, task-free lists, code, links and images) as React
+ * elements. Never uses `dangerouslySetInnerHTML`: embedded HTML goes through rehype-sanitize and
+ * every link or image URL must pass the protocol allow-list in `lib/markdown.ts`.
+ */
+export function Markdown({ content, components, detectDtcs = true, className }: MarkdownProps) {
+  const mergedComponents = React.useMemo(
+    () => ({ ...baseComponents, ...components }),
+    [components]
+  );
+
+  return (
+    <div className={cn('text-sm break-words', className)}>
+      <ReactMarkdown
+        remarkPlugins={remarkPlugins}
+        rehypePlugins={detectDtcs ? rehypePluginsWithDtc : rehypePlugins}
+        components={mergedComponents}
+        urlTransform={(url, key) => sanitizeUrl(url, key === 'src' ? 'image' : 'link')}
+      >
+        {normalizeAgentMarkdown(content)}
+      </ReactMarkdown>
+    </div>
+  );
+}
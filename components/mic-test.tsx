@@ -0,0 +1,48 @@
+'use client';
+
+import { Mic, Square, Volume2 } from 'lucide-react';
+import { LevelMeter } from '@/components/livekit/level-meter';
+import useMicTest from '@/hooks/useMicTest';
+import useT from '@/hooks/useT';
+
+interface MicTestProps {
+  disabled?: boolean;
+}
+
+/** Records a few seconds from the microphone and plays them back, before a call is started. */
+export function MicTest({ disabled }: MicTestProps) {
+  const t = useT();
+  const { state, track, error, start, stop } = useMicTest();
+
+  let icon = <Mic className="h-4 w-4 flex-shrink-0" />;
+  let label = t('micTest.start');
+  if (state === 'recording') {
+    icon = <Square className="h-4 w-4 flex-shrink-0 fill-current text-red-400" />;
+    label = t('micTest.recording');
+  } else if (state === 'playing') {
+    icon = <Volume2 className="h-4 w-4 flex-shrink-0" />;
+    label = t('micTest.playing');
+  }
+
+  return (
+    <div>
+      <button
+        onClick={state === 'idle' ? start : stop}
+        disabled={disabled}
+        aria-live="polite"
+        className="flex w-full items-center justify-between rounded-lg border border-white/20 bg-white/10 px-4 py-3 text-left text-sm font-medium text-gray-200 shadow-lg backdrop-blur-md transition-all duration-200 hover:bg-white/15 disabled:cursor-not-allowed disabled:opacity-50"
+      >
+        <span className="flex min-w-0 items-center gap-2">
+          {icon}
+          <span className="truncate">{label}</span>
+        </span>
+        {state === 'recording' && <LevelMeter track={track} />}
+      </button>
+      {error && (
+        <p role="alert" className="mt-2 text-left text-xs text-red-300">
+          {t('micTest.failed')}: {error.message}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,295 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { type LocalVideoTrack, facingModeFromLocalTrack } from 'livekit-client';
+import {
+  CheckCircle2,
+  CircleSlash,
+  Loader2,
+  Mic,
+  RotateCcw,
+  Video,
+  VideoOff,
+  X,
+  XCircle,
+} from 'lucide-react';
+import { useTrackVolume } from '@livekit/components-react';
+import type { ConnectionDetails } from '@/app/api/connection-details/route';
+import { DeviceSelect } from '@/components/livekit/device-select';
+import { LevelMeter } from '@/components/livekit/level-meter';
+import type { VoiceBase } from '@/hooks/useConnectionDetails';
+import usePersistentUserChoices from '@/hooks/usePersistentUserChoices';
+import usePreflight from '@/hooks/usePreflight';
+import useT from '@/hooks/useT';
+import type { MessageKey, Translate } from '@/lib/i18n';
+import type { Language } from '@/lib/languages';
+import {
+  PREFLIGHT_CHECK_IDS,
+  type PreflightCheck,
+  type PreflightCheckId,
+  ServerCheckError,
+} from '@/lib/preflight';
+import { cn } from '@/lib/utils';
+import type { VehicleContext } from '@/lib/vehicle';
+
+// Anything above this counts as the microphone picking up the user
+const HEARD_VOLUME = 0.15;
+
+const CHECK_LABELS: Record<PreflightCheckId, MessageKey> = {
+  microphone: 'preflight.microphone',
+  camera: 'preflight.camera',
+  connectionDetails: 'preflight.connectionDetails',
+  server: 'preflight.server',
+};
+
+/** What the user joins with after the checks. */
+export interface PreflightResult {
+  /** Connection details fetched for the check, if it got that far. */
+  connectionDetails?: ConnectionDetails;
+  audioDeviceId?: string;
+  videoDeviceId?: string;
+}
+
+interface PreflightProps {
+  language: Language;
+  voiceBase: VoiceBase;
+  vehicle?: VehicleContext;
+  /** Whether the call will use the camera. */
+  camera: boolean;
+  onJoin: (result: PreflightResult) => void;
+  onClose: () => void;
+  className?: string;
+}
+
+function describeFailure(id: PreflightCheckId, error: Error, t: Translate) {
+  if (id === 'microphone' || id === 'camera') {
+    if (error.name === 'NotAllowedError') return t('preflight.permissionDenied');
+    if (error.name === 'NotFoundError') return t('preflight.deviceNotFound');
+    if (error.name === 'NotReadableError') return t('preflight.deviceInUse');
+  }
+  if (error instanceof ServerCheckError) {
+    return error.reason === 'rejected'
+      ? t('preflight.serverRejected')
+      : t('preflight.serverUnreachable');
+  }
+  return error.message;
+}
+
+function CheckRow({
+  id,
+  check,
+  hint,
+}: {
+  id: PreflightCheckId;
+  check: PreflightCheck;
+  hint?: string;
+}) {
+  const t = useT();
+
+  let icon = <Loader2 className="h-5 w-5 animate-spin text-gray-400" />;
+  let detail = hint ?? t('preflight.checking');
+  if (check.status === 'passed') {
+    icon = <CheckCircle2 className="h-5 w-5 text-green-400" />;
+    detail =
+      check.latencyMs !== undefined
+        ? t('preflight.latency', { ms: check.latencyMs })
+        : (hint ?? t('preflight.passed'));
+  } else if (check.status === 'failed') {
+    icon = <XCircle className="h-5 w-5 text-red-400" />;
+    detail = describeFailure(id, check.error, t);
+  } else if (check.status === 'skipped') {
+    icon = <CircleSlash className="h-5 w-5 text-gray-500" />;
+    detail = id === 'camera' ? t('preflight.cameraNotUsed') : t('preflight.skipped');
+  }
+
+  return (
+    <li className="flex items-start gap-3 py-3">
+      <span className="mt-0.5 flex-shrink-0">{icon}</span>
+      <span className="min-w-0 text-left">
+        <span className="block text-sm font-medium text-white">{t(CHECK_LABELS[id])}</span>
+        <span
+          className={cn(
+            'block text-xs',
+            check.status === 'failed' ? 'text-red-300' : 'text-gray-400'
+          )}
+        >
+          {detail}
+        </span>
+      </span>
+    </li>
+  );
+}
+
+function CameraPreview({ track }: { track: LocalVideoTrack | undefined }) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    const element = videoRef.current;
+    if (!track || !element) return;
+    track.attach(element);
+    return () => {
+      track.detach(element);
+    };
+  }, [track]);
+
+  // Mirror the front camera like a mirror would, but not the rear camera pointed at the vehicle
+  const mirrored = !!track && facingModeFromLocalTrack(track).facingMode !== 'environment';
+
+  return (
+    <div className="relative aspect-video w-full overflow-hidden rounded-lg bg-black/40">
+      {track ? (
+        <video
+          ref={videoRef}
+          muted
+          playsInline
+          className={cn('h-full w-full object-cover', mirrored && '-scale-x-100')}
+        />
+      ) : (
+        <VideoOff className="absolute inset-0 m-auto h-8 w-8 text-gray-500" />
+      )}
+    </div>
+  );
+}
+
+/**
+ * Checks the microphone, camera and network before joining, so permission and connectivity
+ * problems show up here instead of as an error toast once the call has started.
+ */
+export function Preflight({
+  language,
+  voiceBase,
+  vehicle,
+  camera,
+  onJoin,
+  onClose,
+  className,
+  ref,
+}: Pick<React.ComponentProps<'div'>, 'ref'> & PreflightProps) {
+  const t = useT();
+  const { userChoices, saveAudioInputDeviceId, saveVideoInputDeviceId } =
+    usePersistentUserChoices();
+  const [audioDeviceId, setAudioDeviceId] = useState(userChoices.audioDeviceId);
+  const [videoDeviceId, setVideoDeviceId] = useState(userChoices.videoDeviceId);
+  const { checks, microphoneTrack, cameraTrack, connectionDetails, retry } = usePreflight({
+    language,
+    voiceBase,
+    vehicle,
+    camera,
+    audioDeviceId,
+    videoDeviceId,
+  });
+
+  // Not a pass/fail check: a quiet room is fine, but it is good to know the mic hears the user
+  const volume = useTrackVolume(microphoneTrack);
+  const [heard, setHeard] = useState(false);
+  useEffect(() => {
+    if (volume > HEARD_VOLUME) setHeard(true);
+  }, [volume]);
+  useEffect(() => setHeard(false), [microphoneTrack]);
+
+  const running = PREFLIGHT_CHECK_IDS.some((id) => checks[id].status === 'running');
+  const anyFailed = PREFLIGHT_CHECK_IDS.some((id) => checks[id].status === 'failed');
+
+  const handleAudioDeviceChange = (deviceId: string) => {
+    setAudioDeviceId(deviceId);
+    saveAudioInputDeviceId(deviceId);
+  };
+  const handleVideoDeviceChange = (deviceId: string) => {
+    setVideoDeviceId(deviceId);
+    saveVideoInputDeviceId(deviceId);
+  };
+
+  return (
+    <div
+      ref={ref}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="preflight-title"
+      className={cn(
+        'fixed inset-0 z-20 flex flex-col items-center overflow-y-auto bg-gradient-to-br from-(--brand-background-from) via-(--brand-background-via) to-(--brand-background-to) px-4 py-8 text-gray-200',
+        className
+      )}
+    >
+      <div className="flex w-full max-w-2xl flex-col">
+        <div className="mb-6 flex items-center justify-between">
+          <h2 id="preflight-title" className="text-xl font-semibold text-white">
+            {t('preflight.title')}
+          </h2>
+          <button
+            onClick={onClose}
+            aria-label={t('preflight.back')}
+            className="rounded-lg p-2 transition-colors hover:bg-white/10"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="grid gap-6 md:grid-cols-2">
+          <div className="space-y-4">
+            {camera && (
+              <>
+                <CameraPreview track={cameraTrack} />
+                {cameraTrack && (
+                  <div className="flex items-center gap-2 text-sm">
+                    <Video className="h-4 w-4 flex-shrink-0" />
+                    <DeviceSelect
+                      kind="videoinput"
+                      track={cameraTrack}
+                      onActiveDeviceChange={handleVideoDeviceChange}
+                      className="min-w-0 flex-1"
+                    />
+                  </div>
+                )}
+              </>
+            )}
+            {microphoneTrack && (
+              <div className="flex items-center gap-2 text-sm">
+                <Mic className="h-4 w-4 flex-shrink-0" />
+                <DeviceSelect
+                  kind="audioinput"
+                  track={microphoneTrack}
+                  onActiveDeviceChange={handleAudioDeviceChange}
+                  className="min-w-0 flex-1"
+                />
+                <LevelMeter track={microphoneTrack} />
+              </div>
+            )}
+          </div>
+
+          <ul className="divide-y divide-white/10 rounded-lg border border-white/20 bg-white/10 px-4 backdrop-blur-md">
+            {PREFLIGHT_CHECK_IDS.map((id) => (
+              <CheckRow
+                key={id}
+                id={id}
+                check={checks[id]}
+                hint={
+                  id === 'microphone' && checks.microphone.status === 'passed'
+                    ? t(heard ? 'preflight.micHeard' : 'preflight.speakNow')
+                    : undefined
+                }
+              />
+            ))}
+          </ul>
+        </div>
+
+        <div className="mt-8 flex flex-col gap-3 sm:flex-row-reverse">
+          <button
+            onClick={() => onJoin({ connectionDetails, audioDeviceId, videoDeviceId })}
+            disabled={running}
+            className="flex flex-1 items-center justify-center rounded-lg bg-gradient-to-r from-(--brand-button-from) to-(--brand-button-to) px-6 py-4 text-lg font-semibold tracking-wider text-white shadow-lg transition-all duration-200 hover:brightness-110 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {anyFailed ? t('preflight.joinAnyway') : t('preflight.join')}
+          </button>
+          <button
+            onClick={retry}
+            disabled={running}
+            className="flex items-center justify-center gap-2 rounded-lg border border-white/20 bg-white/10 px-4 py-3 text-sm font-medium transition-colors hover:bg-white/15 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            <RotateCcw className="h-4 w-4" />
+            {t('preflight.retry')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { ArrowLeft, FileText, Paperclip, Search, Trash2, X } from 'lucide-react';
+import { TextOutputPanel } from '@/components/livekit/text-output-panel';
+import { Markdown } from '@/components/markdown';
+import useT, { useLocale } from '@/hooks/useT';
+import { formatFileSize } from '@/lib/attachments';
+import {
+  type StoredSession,
+  deleteSession,
+  getSessionReports,
+  listSessions,
+  sessionMatchesQuery,
+} from '@/lib/session-store';
+import { cn } from '@/lib/utils';
+
+interface SessionHistoryProps {
+  onClose: () => void;
+  className?: string;
+}
+
+function formatSessionDate(timestamp: number, locale: string) {
+  return new Date(timestamp).toLocaleString(locale, {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  });
+}
+
+function sessionPreview(session: StoredSession) {
+  const firstUserMessage = session.messages.find((message) => message.role === 'user');
+  return (firstUserMessage ?? session.messages[0])?.text ?? '';
+}
+
+function SessionDetail({ session, onBack }: { session: StoredSession; onBack: () => void }) {
+  const t = useT();
+  const locale = useLocale();
+  const [reportOpen, setReportOpen] = useState(false);
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex items-center justify-between gap-2 border-b border-white/10 pb-4">
+        <button
+          onClick={onBack}
+          className="flex items-center gap-2 rounded-lg px-2 py-1 text-sm text-gray-300 hover:bg-white/10"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          {t('history.back')}
+        </button>
+        <span className="text-sm text-gray-400">
+          {formatSessionDate(session.startedAt, locale)}
+        </span>
+        <button
+          onClick={() => setReportOpen(true)}
+          disabled={!session.report}
+          className="flex items-center gap-2 rounded-lg px-2 py-1 text-sm text-gray-300 hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-40"
+        >
+          <FileText className="h-4 w-4" />
+          {t('history.report')}
+        </button>
+      </div>
+
+      <ul className="flex-1 space-y-3 overflow-y-auto py-4">
+        {session.messages.map((message) => (
+          <li
+            key={message.id}
+            className={cn(
+              'max-w-4/5 rounded-[20px] p-3 text-left',
+              message.role === 'user' ? 'ml-auto bg-white/15 text-white' : 'mr-auto text-gray-200'
+            )}
+          >
+            <Markdown content={message.text} />
+            {message.attachments?.map((attachment, index) => (
+              <span key={index} className="mt-1 flex items-center gap-1 text-xs text-gray-400">
+                <Paperclip className="h-3 w-3 flex-shrink-0" />
+                <span className="truncate">
+                  {attachment.name} ({formatFileSize(attachment.size)})
+                </span>
+              </span>
+            ))}
+            <span className="mt-1 block font-mono text-xs text-gray-500">
+              {new Date(message.timestamp).toLocaleTimeString(locale, { timeStyle: 'short' })}
+            </span>
+          </li>
+        ))}
+      </ul>
+
+      <TextOutputPanel
+        isOpen={reportOpen}
+        onClose={() => setReportOpen(false)}
+        reports={getSessionReports(session)}
+        metadata={{
+          language: session.language,
+          voiceBase: session.voiceBase,
+          roomName: session.roomName,
+          sessionStartedAt: session.startedAt,
+        }}
+        className="text-left"
+      />
+    </div>
+  );
+}
+
+/**
+ * Lists past sessions from the local session store. Sessions can be searched by transcript or
+ * report text, reopened read-only, and deleted.
+ */
+export function SessionHistory({
+  onClose,
+  className,
+  ref,
+}: Pick<React.ComponentProps<'div'>, 'ref'> & SessionHistoryProps) {
+  const t = useT();
+  const locale = useLocale();
+  const [sessions, setSessions] = useState<StoredSession[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    listSessions()
+      .then((result) => {
+        if (!cancelled) setSessions(result);
+      })
+      .catch((e: unknown) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : String(e));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const filteredSessions = useMemo(
+    () => (sessions ?? []).filter((session) => sessionMatchesQuery(session, query)),
+    [sessions, query]
+  );
+
+  const selectedSession = sessions?.find((session) => session.id === selectedId);
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm(t('history.confirmDelete'))) return;
+    try {
+      await deleteSession(id);
+      setSessions((current) => current?.filter((session) => session.id !== id) ?? null);
+    } catch (e) {
+      console.error('Failed to delete session:', e);
+    }
+  };
+
+  return (
+    <div
+      ref={ref}
+      className={cn(
+        'fixed inset-0 z-20 flex flex-col items-center bg-gradient-to-br from-purple-900 via-blue-900 to-slate-900 px-4 py-8 text-gray-200',
+        className
+      )}
+    >
+      <div className="flex h-full w-full max-w-2xl flex-col">
+        <div className="mb-6 flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-white">{t('history.title')}</h2>
+          <button
+            onClick={onClose}
+            className="rounded-lg p-2 transition-colors hover:bg-white/10"
+            aria-label={t('history.close')}
+            title={t('history.close')}
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {selectedSession ? (
+          <SessionDetail session={selectedSession} onBack={() => setSelectedId(null)} />
+        ) : (
+          <>
+            <label className="mb-4 flex items-center gap-2 rounded-lg border border-white/20 bg-white/10 px-4 py-3 backdrop-blur-md">
+              <Search className="h-4 w-4 text-gray-400" />
+              <input
+                type="search"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder={t('history.search')}
+                className="flex-1 bg-transparent text-sm placeholder:text-gray-400 focus:outline-none"
+              />
+            </label>
+
+            {error && <p className="text-sm text-red-300">{t('history.loadFailed', { error })}</p>}
+            {!error && sessions === null && (
+              <p className="text-sm text-gray-400">{t('history.loading')}</p>
+            )}
+            {sessions !== null && filteredSessions.length === 0 && (
+              <p className="text-sm text-gray-400">
+                {sessions.length === 0 ? t('history.empty') : t('history.noMatches')}
+              </p>
+            )}
+
+            <ul className="flex-1 space-y-2 overflow-y-auto">
+              {filteredSessions.map((session) => (
+                <li
+                  key={session.id}
+                  className="flex items-center gap-2 rounded-lg border border-white/10 bg-white/5 transition-colors hover:bg-white/10"
+                >
+                  <button
+                    onClick={() => setSelectedId(session.id)}
+                    className="min-w-0 flex-1 px-4 py-3 text-left"
+                  >
+                    <span className="flex items-center gap-2 text-sm font-medium text-white">
+                      {formatSessionDate(session.startedAt, locale)}
+                      <span className="rounded bg-white/10 px-1.5 py-0.5 font-mono text-xs uppercase">
+                        {session.language}
+                      </span>
+                      <span className="text-xs text-gray-400">{session.voiceBase}</span>
+                      {session.report && <FileText className="h-3.5 w-3.5 text-cyan-300" />}
+                    </span>
+                    <span className="mt-1 block truncate text-sm text-gray-400">
+                      {sessionPreview(session)}
+                    </span>
+                  </button>
+                  <button
+                    onClick={() => handleDelete(session.id)}
+                    className="mr-2 rounded-lg p-2 text-gray-400 transition-colors hover:bg-white/10 hover:text-red-300"
+                    aria-label={t('history.delete')}
+                    title={t('history.delete')}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,21 +1,32 @@
 'use client';
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { AnimatePresence, motion } from 'motion/react';
-import {
-  type AgentState,
-  type ReceivedChatMessage,
-  useRoomContext,
-  useVoiceAssistant,
-} from '@livekit/components-react';
-import { toastAlert } from '@/components/alert-toast';
+import { type AgentState, useRoomContext, useVoiceAssistant } from '@livekit/components-react';
 import { AgentControlBar } from '@/components/livekit/agent-control-bar/agent-control-bar';
+import { CaptionsOverlay } from '@/components/livekit/captions-overlay';
 import { ChatEntry } from '@/components/livekit/chat/chat-entry';
+import type { ChatSendOptions } from '@/components/livekit/chat/chat-input';
 import { ChatMessageView } from '@/components/livekit/chat/chat-message-view';
+import { ConnectionStatus } from '@/components/livekit/connection-status';
+import { LiveAssistantOverlay } from '@/components/livekit/live-assistant-overlay';
 import { MediaTiles } from '@/components/livekit/media-tiles';
+import { MetricsPanel } from '@/components/livekit/metrics-panel';
 import { TextOutputPanel } from '@/components/livekit/text-output-panel';
+import useAgentMetrics from '@/hooks/useAgentMetrics';
+import useCaptionStyle from '@/hooks/useCaptionStyle';
+import useCaptions from '@/hooks/useCaptions';
 import useChatAndTranscription from '@/hooks/useChatAndTranscription';
+import type { VoiceBase } from '@/hooks/useConnectionDetails';
 import { useDebugMode } from '@/hooks/useDebug';
+import useSessionRecorder from '@/hooks/useSessionRecorder';
+import useT from '@/hooks/useT';
+import type { JoinFailureReason } from '@/lib/agent-join';
+import { decodeAgentMessage, findReportHistory, getChatText } from '@/lib/agent-protocol';
+import type { ChatCommand } from '@/lib/chat-commands';
+import type { InputModeSettings } from '@/lib/input-mode';
+import type { Language } from '@/lib/languages';
+import type { TranscriptMessage } from '@/lib/transcript';
 import type { AppConfig } from '@/lib/types';
 import { cn } from '@/lib/utils';
 
@@ -28,160 +39,181 @@ export interface SessionViewProps {
   disabled: boolean;
   sessionStarted: boolean;
   /** UI language for labels/subtitles/etc. */
-  language: 'en' | 'kn' | 'hi' | 'ta';
+  language: Language;
+  voiceBase: VoiceBase;
+  /** Rejoin attempt in progress after the connection was lost, 0 when not rejoining. */
+  reconnectAttempt?: number;
+  inputModeSettings: InputModeSettings;
+  onInputModeSettingsChange: (settings: InputModeSettings) => void;
+  /** Switches the UI and agent language, e.g. from the `/language` chat command. */
+  onLanguageChange?: (language: Language) => void;
+  /** Called when the agent did not join or get ready in time; the room is left right after. */
+  onAgentJoinFailure?: (reason: JoinFailureReason) => void;
 }
 
 /** Full props including native <main> attributes */
 export type SessionViewComponentProps = React.ComponentProps<'main'> & SessionViewProps;
 
 export const SessionView = React.forwardRef<HTMLElement, SessionViewComponentProps>(
-  ({ appConfig, disabled, sessionStarted, ...mainProps }, ref) => {
+  (
+    {
+      appConfig,
+      disabled,
+      sessionStarted,
+      language,
+      voiceBase,
+      reconnectAttempt = 0,
+      inputModeSettings,
+      onInputModeSettingsChange,
+      onLanguageChange,
+      onAgentJoinFailure,
+      ...mainProps
+    },
+    ref
+  ) => {
+    const t = useT();
     const { state: agentState } = useVoiceAssistant();
     const [chatOpen, setChatOpen] = useState(false);
     const [textOutputOpen, setTextOutputOpen] = useState(false);
+    const [metricsOpen, setMetricsOpen] = useState(false);
     const { messages, send } = useChatAndTranscription();
     const room = useRoomContext();
+    const { captionStyle, saveCaptionStyle } = useCaptionStyle();
 
     useDebugMode({
       // FIX: NODE_ENV (not NODE_END)
       enabled: process.env.NODE_ENV !== 'production',
     });
 
-    async function handleSendMessage(message: string) {
-      await send(message);
+    async function handleSendMessage(message: string, options?: ChatSendOptions) {
+      recordUserMessage();
+      await send(message, options);
     }
 
-    // Get the latest diagnostic structured content from messages
-    // Priority: 1) TEXT_ONLY chunks, 2) VOICE|||TEXT format, 3) Legacy full JSON
-    const getLatestTextContent = (): string => {
-      // Collect assistant (remote) messages only
-      const assistantMessages = messages.filter(
-        (m) => !m.from?.isLocal && typeof m.message === 'string'
-      );
-      if (!assistantMessages.length) return '';
-
-      // 1. Check for TEXT_ONLY: chunk in stream (new format)
-      for (let i = assistantMessages.length - 1; i >= 0; i--) {
-        const raw = assistantMessages[i].message as string;
-        if (raw.startsWith('TEXT_ONLY:')) {
-          const payload = raw.slice('TEXT_ONLY:'.length).trim();
-          try {
-            const parsed = JSON.parse(payload);
-            // Ensure it's the expected text_output structure
-            if (parsed && typeof parsed.content === 'string') {
-              console.log('📋 Using TEXT_ONLY chunk from stream');
-              return JSON.stringify(parsed);
-            }
-          } catch {
-            return payload; // fallback raw diagnostic text
-          }
-        }
+    function handleCommand(command: ChatCommand) {
+      if (command.name === 'language') {
+        onLanguageChange?.(command.language);
+      } else if (command.name === 'dtc') {
+        handleSendMessage(t('commands.dtcMessage', { code: command.code })).catch((error) => {
+          console.warn('Failed to send trouble code:', error);
+        });
       }
+    }
 
-      // 2. Backward compatibility: VOICE:...|||TEXT:{json}
-      for (let i = assistantMessages.length - 1; i >= 0; i--) {
-        const raw = assistantMessages[i].message as string;
-        const voiceTextMatch = raw.match(/^VOICE:([\s\S]*?)\|\|\|TEXT:([\s\S]*)$/);
-        if (voiceTextMatch) {
-          const textSegment = voiceTextMatch[2];
-          try {
-            const parsedText = JSON.parse(textSegment);
-            if (parsedText && typeof parsedText.content === 'string') {
-              console.log('📋 Using VOICE|||TEXT fallback format');
-              return JSON.stringify(parsedText);
-            }
-          } catch {
-            return textSegment;
-          }
-        }
-      }
+    // Malformed messages already warned about, as every new message decodes them all again
+    const warnedMessageIdsRef = useRef(new Set<string>());
 
-      // 3. Legacy direct structured JSON with text_output wrapper
-      for (let i = assistantMessages.length - 1; i >= 0; i--) {
-        const raw = assistantMessages[i].message as string;
-        try {
-          const parsed = JSON.parse(raw);
-          if (parsed && parsed.text_output && typeof parsed.text_output.content === 'string') {
-            console.log('📋 Using legacy text_output format');
-            return JSON.stringify(parsed.text_output);
+    // Decode every payload once; the chat transcript and the report panel both read from this
+    const decodedMessages = useMemo(
+      () =>
+        messages.map((entry) => {
+          const result = decodeAgentMessage(entry.message);
+          // A payload still streaming in is incomplete, not malformed
+          if (
+            !result.ok &&
+            entry.status !== 'interim' &&
+            !warnedMessageIdsRef.current.has(entry.id)
+          ) {
+            warnedMessageIdsRef.current.add(entry.id);
+            console.warn('Malformed agent message, showing as plain text:', result.error);
           }
-        } catch {
-          /* ignore */
-        }
-      }
+          return { entry, message: result.message };
+        }),
+      [messages]
+    );
 
-      return '';
-    };
+    // Only remote (agent) messages can carry a diagnostic report, and only once fully received: a
+    // payload still streaming in would decode as a partial report
+    const reports = useMemo(
+      () =>
+        findReportHistory(
+          decodedMessages
+            .filter(({ entry }) => !entry.from?.isLocal && entry.status !== 'interim')
+            .map(({ entry, message }) => ({ id: entry.id, timestamp: entry.timestamp, message }))
+        ),
+      [decodedMessages]
+    );
 
-    // Derive chat display messages (show voice_output if structured JSON)
-    const displayMessages = messages
-      .filter((m) => {
-        // Filter out raw diagnostic chunks (TEXT_ONLY:) from chat display
-        if (typeof m.message === 'string' && m.message.startsWith('TEXT_ONLY:')) return false;
-        return true;
-      })
-      .map((m) => {
-        if (typeof m.message === 'string') {
-          // New streaming: voice summary already isolated (no change needed)
-          // Backward compatibility: collapse VOICE|||TEXT to voice portion
-          const match = m.message.match(/^VOICE:([\s\S]*?)\|\|\|TEXT:[\s\S]*$/);
-          if (match) {
-            return { ...m, message: match[1].trim() };
-          }
-          // Legacy full JSON structure
-          try {
-            const parsed = JSON.parse(m.message);
-            if (parsed && parsed.voice_output && parsed.text_output) {
-              return { ...m, message: parsed.voice_output };
-            }
-          } catch {
-            /* ignore */
-          }
-        }
-        return m;
-      });
+    // Derive chat display messages: voice summary for structured payloads, report-only chunks hidden
+    const displayMessages = useMemo(
+      () =>
+        decodedMessages.flatMap(({ entry, message }) => {
+          const text = getChatText(message);
+          if (text === null) return [];
+          return [text === entry.message ? entry : { ...entry, message: text }];
+        }),
+      [decodedMessages]
+    );
+
+    // The history only keeps what was actually said, not speech still being transcribed
+    const settledMessages = useMemo(
+      () => displayMessages.filter((message) => message.status !== 'interim'),
+      [displayMessages]
+    );
+
+    const { caption, activeIndex } = useCaptions(
+      displayMessages,
+      captionStyle !== 'off' && sessionStarted
+    );
+
+    const { events: metricsEvents, recordUserMessage } = useAgentMetrics({
+      sessionStarted,
+      reports,
+    });
+
+    useSessionRecorder({
+      sessionStarted,
+      language,
+      voiceBase,
+      roomName: room.name,
+      messages: settledMessages,
+      reports,
+    });
 
     useEffect(() => {
-      if (sessionStarted) {
+      // While rejoining, the agent is expected to be unavailable
+      if (sessionStarted && reconnectAttempt === 0) {
         const timeout = setTimeout(() => {
           if (!isAgentAvailable(agentState)) {
-            const reason =
-              agentState === 'connecting'
-                ? 'Agent did not join the room. '
-                : 'Agent connected but did not complete initializing. ';
-
-            toastAlert({
-              title: 'Session ended',
-              description: (
-                <p className="w-full">
-                  {reason}
-                  <a
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    href="https://docs.livekit.io/agents/start/voice-ai/"
-                    className="whitespace-nowrap underline"
-                  >
-                    See quickstart guide
-                  </a>
-                  .
-                </p>
-              ),
-            });
+            onAgentJoinFailure?.(
+              agentState === 'connecting' ? 'agent-did-not-join' : 'agent-did-not-initialize'
+            );
             room.disconnect();
           }
-        }, 10_000);
+        }, appConfig.agentJoinTimeoutSeconds * 1000);
 
         return () => clearTimeout(timeout);
       }
-    }, [agentState, sessionStarted, room]);
+    }, [
+      agentState,
+      sessionStarted,
+      reconnectAttempt,
+      room,
+      appConfig.agentJoinTimeoutSeconds,
+      onAgentJoinFailure,
+    ]);
 
-    const { supportsChatInput, supportsVideoInput, supportsScreenShare } = appConfig;
-    const capabilities = { supportsChatInput, supportsVideoInput, supportsScreenShare };
+    const {
+      supportsChatInput,
+      supportsVideoInput,
+      supportsScreenShare,
+      attachments,
+      languages,
+      languageOverrides,
+    } = appConfig;
+    const capabilities = {
+      supportsChatInput,
+      supportsVideoInput,
+      supportsScreenShare,
+      attachments,
+      languages,
+      languageOverrides,
+    };
+    const isLiveAssistant = supportsVideoInput && voiceBase === 'Live Assistant';
 
     return (
       <main
         ref={ref}
-        // you can consume `language` here for localized strings if needed
         {...mainProps}
         inert={disabled}
         className={cn(!chatOpen && 'max-h-svh overflow-hidden', mainProps.className)}
@@ -194,7 +226,7 @@ export const SessionView = React.forwardRef<HTMLElement, SessionViewComponentPro
         >
           <div className="space-y-3 whitespace-pre-wrap">
             <AnimatePresence>
-              {displayMessages.map((message: ReceivedChatMessage) => (
+              {displayMessages.map((message: TranscriptMessage) => (
                 <motion.div
                   key={message.id}
                   initial={{ opacity: 0, height: 0 }}
@@ -202,7 +234,7 @@ export const SessionView = React.forwardRef<HTMLElement, SessionViewComponentPro
                   exit={{ opacity: 1, height: 'auto', translateY: 0.001 }}
                   transition={{ duration: 0.5, ease: 'easeOut' }}
                 >
-                  <ChatEntry hideName entry={message} />
+                  <ChatEntry hideName entry={message} status={message.status} />
                 </motion.div>
               ))}
             </AnimatePresence>
@@ -210,11 +242,30 @@ export const SessionView = React.forwardRef<HTMLElement, SessionViewComponentPro
         </ChatMessageView>
 
         <div className="bg-background fixed top-0 right-0 left-0 h-32 md:h-36">
+          {sessionStarted && (
+            <ConnectionStatus
+              reconnectAttempt={reconnectAttempt}
+              className="absolute top-3 left-3 z-10"
+            />
+          )}
           {/* skrim */}
           <div className="from-background absolute bottom-0 left-0 h-12 w-full translate-y-full bg-gradient-to-b to-transparent" />
         </div>
 
-        <MediaTiles chatOpen={chatOpen} />
+        <MediaTiles chatOpen={chatOpen} fullScreenCamera={isLiveAssistant} />
+
+        {isLiveAssistant && sessionStarted && <LiveAssistantOverlay />}
+
+        {/* The open chat already shows the same words */}
+        {captionStyle !== 'off' && !chatOpen && (
+          <CaptionsOverlay
+            caption={caption}
+            activeIndex={activeIndex}
+            captionStyle={captionStyle}
+            // Clear of the Live Assistant shutter button
+            className={cn(isLiveAssistant && 'right-20 md:right-28')}
+          />
+        )}
 
         <div className="bg-background fixed right-0 bottom-0 left-0 z-50 px-3 pt-2 pb-3 md:px-12 md:pb-12">
           <motion.div
@@ -245,8 +296,7 @@ export const SessionView = React.forwardRef<HTMLElement, SessionViewComponentPro
                   )}
                 >
                   <p className="animate-text-shimmer inline-block !bg-clip-text text-sm font-semibold text-transparent">
-                    {/* you can localize this using `language` */}
-                    Agent is listening, ask it a question
+                    {t('session.agentListening')}
                   </p>
                 </motion.div>
               )}
@@ -256,6 +306,14 @@ export const SessionView = React.forwardRef<HTMLElement, SessionViewComponentPro
                 onChatOpenChange={setChatOpen}
                 onTextOutputToggle={setTextOutputOpen}
                 onSendMessage={handleSendMessage}
+                onCommand={handleCommand}
+                textOutputOpen={textOutputOpen}
+                inputModeSettings={inputModeSettings}
+                onInputModeSettingsChange={onInputModeSettingsChange}
+                captionStyle={captionStyle}
+                onCaptionStyleChange={saveCaptionStyle}
+                metricsOpen={metricsOpen}
+                onMetricsOpenChange={appConfig.isMetricsPanelEnabled ? setMetricsOpen : undefined}
               />
             </div>
             {/* skrim */}
@@ -267,8 +325,18 @@ export const SessionView = React.forwardRef<HTMLElement, SessionViewComponentPro
         <TextOutputPanel
           isOpen={textOutputOpen}
           onClose={() => setTextOutputOpen(false)}
-          textContent={getLatestTextContent()}
+          reports={reports}
+          metadata={{ language, voiceBase, roomName: room.name || undefined }}
         />
+
+        {appConfig.isMetricsPanelEnabled && (
+          <MetricsPanel
+            isOpen={metricsOpen}
+            onClose={() => setMetricsOpen(false)}
+            events={metricsEvents}
+            roomName={room.name || undefined}
+          />
+        )}
       </main>
     );
   }
@@ -1,27 +1,38 @@
 'use client';
 
 import { useState } from 'react';
+import {
+  DEFAULT_LANGUAGE,
+  LANGUAGES,
+  type Language,
+  type LanguageDefinition,
+} from '@/lib/languages';
 import { Button } from './button';
 
-const languages = [
-  { code: 'en', label: 'English' },
-  { code: 'hi', label: 'Hindi' },
-  { code: 'kn', label: 'Kannada' },
-];
+interface LanguageSelectorProps {
+  /** Languages to offer, in order. Defaults to every registered language. */
+  languages?: readonly LanguageDefinition[];
+  onSelect: (lang: Language) => void;
+}
 
-export default function LanguageSelector({ onSelect }: { onSelect: (lang: string) => void }) {
-  const [selected, setSelected] = useState('en');
+export default function LanguageSelector({
+  languages = LANGUAGES,
+  onSelect,
+}: LanguageSelectorProps) {
+  const [selected, setSelected] = useState<Language>(DEFAULT_LANGUAGE);
 
-  const handleClick = (lang: string) => {
+  const handleClick = (lang: Language) => {
     setSelected(lang);
     onSelect(lang);
   };
 
   return (
-    <div className="flex items-center gap-2">
+    <div className="flex flex-wrap items-center gap-2">
       {languages.map((lang) => (
         <Button
           key={lang.code}
+          lang={lang.locale}
+          dir={lang.dir}
           onClick={() => handleClick(lang.code)}
           variant={selected === lang.code ? 'default' : 'outline'}
         >
@@ -0,0 +1,231 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Car, X } from 'lucide-react';
+import useT from '@/hooks/useT';
+import type { MessageKey, MessageValues } from '@/lib/i18n';
+import { cn } from '@/lib/utils';
+import {
+  type VehicleContext,
+  decodeModelYear,
+  isNorthAmericanVin,
+  normalizeVin,
+  parseVehicleContext,
+  validateVin,
+} from '@/lib/vehicle';
+
+type VehicleFormState = Record<keyof VehicleContext, string>;
+
+function toFormState(value?: VehicleContext): VehicleFormState {
+  return {
+    vin: value?.vin ?? '',
+    make: value?.make ?? '',
+    model: value?.model ?? '',
+    year: value?.year?.toString() ?? '',
+    mileage: value?.mileage?.toString() ?? '',
+    engineCode: value?.engineCode ?? '',
+    symptoms: value?.symptoms ?? '',
+  };
+}
+
+/** One-line description of a vehicle, e.g. "2019 Maruti Swift". */
+export function describeVehicle(vehicle?: VehicleContext) {
+  if (!vehicle) return '';
+  const name = [vehicle.year, vehicle.make, vehicle.model].filter(Boolean).join(' ');
+  return name || vehicle.vin || '';
+}
+
+interface VinHint {
+  tone: 'error' | 'warning' | 'info';
+  message: MessageKey;
+  values?: MessageValues;
+}
+
+function vinMessage(vin: string): VinHint | null {
+  const normalized = normalizeVin(vin);
+  if (!normalized) return null;
+
+  const result = validateVin(normalized);
+  switch (result.issue) {
+    case 'length':
+      return normalized.length < 17 ? null : { tone: 'error', message: 'vehicle.vinLength' };
+    case 'characters':
+      return { tone: 'error', message: 'vehicle.vinCharacters' };
+    case 'checksum':
+      return isNorthAmericanVin(normalized)
+        ? { tone: 'error', message: 'vehicle.vinChecksum' }
+        : { tone: 'warning', message: 'vehicle.vinChecksumWarning' };
+  }
+  const modelYear = decodeModelYear(normalized);
+  // As a string, so the year is not formatted with a thousands separator
+  return modelYear
+    ? { tone: 'info', message: 'vehicle.modelYear', values: { year: String(modelYear) } }
+    : null;
+}
+
+const inputClassName =
+  'w-full rounded-lg border border-white/20 bg-white/10 px-3 py-2 text-sm text-white placeholder:text-gray-400 focus:border-cyan-400 focus:outline-none';
+
+interface VehicleContextFormProps {
+  value?: VehicleContext;
+  onSubmit: (value: VehicleContext | undefined) => void;
+  onClose: () => void;
+}
+
+/**
+ * Collects optional vehicle details that are sent to the agent as participant metadata.
+ */
+export function VehicleContextForm({ value, onSubmit, onClose }: VehicleContextFormProps) {
+  const t = useT();
+  const [form, setForm] = useState<VehicleFormState>(() => toFormState(value));
+
+  const vinHint = useMemo(() => vinMessage(form.vin), [form.vin]);
+  const decodedYear = useMemo(() => decodeModelYear(form.vin), [form.vin]);
+  const vinBlocksSubmit =
+    !!normalizeVin(form.vin) && (vinHint?.tone === 'error' || normalizeVin(form.vin).length < 17);
+
+  const update =
+    (key: keyof VehicleFormState) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+      setForm((current) => ({ ...current, [key]: e.target.value }));
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (vinBlocksSubmit) return;
+    onSubmit(parseVehicleContext(form));
+  };
+
+  const handleClear = () => {
+    setForm(toFormState());
+    onSubmit(undefined);
+  };
+
+  return (
+    <div className="fixed inset-0 z-30 flex items-center justify-center bg-black/60 p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="max-h-full w-full max-w-md space-y-4 overflow-y-auto rounded-xl border border-white/20 bg-slate-900/95 p-6 text-left text-gray-200 shadow-2xl"
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+            <Car className="h-5 w-5" />
+            {t('vehicle.title')}
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-lg p-2 transition-colors hover:bg-white/10"
+            aria-label={t('vehicle.close')}
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <label className="block space-y-1">
+          <span className="text-xs font-medium text-gray-400 uppercase">{t('vehicle.vin')}</span>
+          <input
+            value={form.vin}
+            onChange={update('vin')}
+            maxLength={17}
+            autoCapitalize="characters"
+            spellCheck={false}
+            placeholder={t('vehicle.vinPlaceholder')}
+            className={cn(inputClassName, 'font-mono uppercase')}
+          />
+          {vinHint && (
+            <span
+              className={cn(
+                'block text-xs',
+                vinHint.tone === 'error' && 'text-red-300',
+                vinHint.tone === 'warning' && 'text-amber-300',
+                vinHint.tone === 'info' && 'text-cyan-300'
+              )}
+            >
+              {t(vinHint.message, vinHint.values)}
+            </span>
+          )}
+        </label>
+
+        <div className="grid grid-cols-2 gap-3">
+          <label className="block space-y-1">
+            <span className="text-xs font-medium text-gray-400 uppercase">{t('vehicle.make')}</span>
+            <input value={form.make} onChange={update('make')} className={inputClassName} />
+          </label>
+          <label className="block space-y-1">
+            <span className="text-xs font-medium text-gray-400 uppercase">
+              {t('vehicle.model')}
+            </span>
+            <input value={form.model} onChange={update('model')} className={inputClassName} />
+          </label>
+          <label className="block space-y-1">
+            <span className="text-xs font-medium text-gray-400 uppercase">{t('vehicle.year')}</span>
+            <input
+              type="number"
+              inputMode="numeric"
+              value={form.year}
+              onChange={update('year')}
+              placeholder={decodedYear?.toString()}
+              className={inputClassName}
+            />
+          </label>
+          <label className="block space-y-1">
+            <span className="text-xs font-medium text-gray-400 uppercase">
+              {t('vehicle.mileage')}
+            </span>
+            <input
+              type="number"
+              inputMode="numeric"
+              min={0}
+              value={form.mileage}
+              onChange={update('mileage')}
+              className={inputClassName}
+            />
+          </label>
+        </div>
+
+        <label className="block space-y-1">
+          <span className="text-xs font-medium text-gray-400 uppercase">
+            {t('vehicle.engineCode')}
+          </span>
+          <input
+            value={form.engineCode}
+            onChange={update('engineCode')}
+            spellCheck={false}
+            className={cn(inputClassName, 'font-mono')}
+          />
+        </label>
+
+        <label className="block space-y-1">
+          <span className="text-xs font-medium text-gray-400 uppercase">
+            {t('vehicle.symptoms')}
+          </span>
+          <textarea
+            value={form.symptoms}
+            onChange={update('symptoms')}
+            rows={3}
+            maxLength={1000}
+            placeholder={t('vehicle.symptomsPlaceholder')}
+            className={cn(inputClassName, 'resize-none')}
+          />
+        </label>
+
+        <div className="flex gap-3 pt-2">
+          <button
+            type="button"
+            onClick={handleClear}
+            className="flex-1 rounded-lg border border-white/20 px-4 py-3 text-sm font-medium text-gray-300 transition-colors hover:bg-white/10"
+          >
+            {t('vehicle.clear')}
+          </button>
+          <button
+            type="submit"
+            disabled={vinBlocksSubmit}
+            className="flex-1 rounded-lg bg-gradient-to-r from-purple-400 to-indigo-500 px-4 py-3 text-sm font-semibold text-white transition-all hover:from-purple-500 hover:to-indigo-600 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {t('vehicle.save')}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -1,33 +1,52 @@
 import { useState } from 'react';
-import { Camera, ChevronDown, Mic } from 'lucide-react';
+import { Camera, Car, ChevronDown, History, Mic, RotateCcw } from 'lucide-react';
+import { MicTest } from '@/components/mic-test';
+import { VehicleContextForm, describeVehicle } from '@/components/vehicle-context-form';
+import useT from '@/hooks/useT';
+import { localize } from '@/lib/i18n';
+import type { Language, LanguageDefinition } from '@/lib/languages';
+import type { SessionResumeInfo } from '@/lib/session-resume';
+import type { WelcomeCopy } from '@/lib/types';
+import type { VehicleContext } from '@/lib/vehicle';
 
 interface WelcomeProps {
   disabled: boolean;
-  startButtonText: string;
+  /** Tenant branding for the welcome screen. */
+  copy: WelcomeCopy;
   onStartCall: () => void;
-  language: 'en' | 'kn' | 'hi' | 'ta' | null; // allow null
-  onLanguageChange: (lang: 'en' | 'kn' | 'hi' | 'ta') => void;
+  /** Languages to offer, in order. */
+  languages: LanguageDefinition[];
+  language: Language | null;
+  onLanguageChange: (lang: Language) => void;
   voiceBase: 'Voice Assistant' | 'Live Assistant';
   onVoiceBaseChange: (base: 'Voice Assistant' | 'Live Assistant') => void;
+  onOpenHistory?: () => void;
+  /** A previous call in this tab that can still be rejoined. */
+  resumable?: SessionResumeInfo | null;
+  onResume?: () => void;
+  vehicle?: VehicleContext;
+  onVehicleChange?: (vehicle: VehicleContext | undefined) => void;
 }
 
 export const Welcome = ({
   disabled,
+  copy,
   onStartCall,
+  languages,
   language,
   onLanguageChange,
   voiceBase,
   onVoiceBaseChange,
+  onOpenHistory,
+  resumable,
+  onResume,
+  vehicle,
+  onVehicleChange,
   ref,
 }: React.ComponentProps<'div'> & WelcomeProps) => {
+  const t = useT();
   const [isLanguageDropdownOpen, setIsLanguageDropdownOpen] = useState(false);
-
-  const languages = [
-    { code: 'en', label: 'English' },
-    { code: 'kn', label: 'ಕನ್ನಡ' },
-    { code: 'hi', label: 'हिंदी' },
-    { code: 'ta', label: 'தமிழ்' },
-  ];
+  const [isVehicleFormOpen, setIsVehicleFormOpen] = useState(false);
 
   const selectedLang = languages.find((l) => l.code === language);
 
@@ -35,8 +54,15 @@ export const Welcome = ({
     <div
       ref={ref}
       inert={disabled}
-      className="fixed inset-0 z-10 mx-auto flex h-svh flex-col items-center justify-center bg-gradient-to-br from-purple-900 via-blue-900 to-slate-900 text-center"
+      className="fixed inset-0 z-10 mx-auto flex h-svh flex-col items-center justify-center bg-gradient-to-br from-(--brand-background-from) via-(--brand-background-via) to-(--brand-background-to) text-center"
     >
+      {copy.background && (
+        <div
+          className="absolute inset-0 bg-cover bg-center opacity-40"
+          style={{ backgroundImage: `url(${JSON.stringify(copy.background)})` }}
+        />
+      )}
+
       {/* Background ambient glow */}
       <div className="absolute inset-0 bg-gradient-to-r from-blue-500/10 via-purple-500/10 to-cyan-500/10 blur-3xl"></div>
 
@@ -52,11 +78,11 @@ export const Welcome = ({
 
               {/* Main ring with rotation */}
               <div className="absolute inset-4 animate-spin rounded-full border-4 border-transparent bg-transparent [animation-duration:8s]">
-                <div className="h-full w-full rounded-full bg-gradient-to-r from-blue-500 via-cyan-400 to-purple-500 opacity-80 blur-sm"></div>
+                <div className="h-full w-full rounded-full bg-gradient-to-r from-(--brand-button-to) via-(--brand-ring) to-(--brand-button-from) opacity-80 blur-sm"></div>
               </div>
 
               {/* Sharp ring overlay */}
-              <div className="absolute inset-6 rounded-full border-2 border-cyan-400 opacity-90 shadow-lg shadow-cyan-400/50"></div>
+              <div className="absolute inset-6 rounded-full border-2 border-(--brand-ring) opacity-90 shadow-lg shadow-(color:--brand-ring)/50"></div>
 
               {/* Inner subtle glow */}
               <div className="absolute inset-8 rounded-full bg-gradient-to-r from-blue-400 via-cyan-300 to-blue-500 opacity-10"></div>
@@ -64,11 +90,11 @@ export const Welcome = ({
 
             {/* Content inside the ring */}
             <div className="relative z-10 text-center">
-              {/* Allion.ai Branding */}
+              {/* Product Branding */}
               <div className="-mt-4 text-center">
                 <div className="flex items-center justify-center">
                   <span className="ml-4 text-4xl font-bold tracking-wide text-white">
-                    Allion.ai
+                    {copy.title}
                   </span>
                 </div>
               </div>
@@ -77,13 +103,7 @@ export const Welcome = ({
         </div>
 
         <h1 className="mb-12 text-lg font-medium text-gray-200 drop-shadow-sm">
-          {language === 'kn'
-            ? 'ಮೆಕ್ಯಾನಿಕ್‌ನ ವಿಶ್ವಾಸಾರ್ಹ ಸಹ-ಪೈಲಟ್'
-            : language === 'hi'
-              ? 'मैकेनिक का विश्वसनीय सह-पायलट'
-              : language === 'ta'
-                ? 'மேக்கானிக்கிற்கான நம்பத்தகுந்த துணை விமானி'
-                : "Mechanic's Trusted Co-Pilot"}
+          {localize(copy.tagline, language) ?? t('welcome.tagline')}
         </h1>
 
         {/* Main Content */}
@@ -95,7 +115,7 @@ export const Welcome = ({
               className="flex w-full items-center justify-between rounded-lg border border-white/20 bg-white/10 px-4 py-4 text-left font-medium text-gray-200 shadow-lg backdrop-blur-md transition-all duration-200 hover:bg-white/15"
               disabled={disabled}
             >
-              {selectedLang ? selectedLang.label : 'Select Language'}
+              {selectedLang ? selectedLang.label : t('welcome.selectLanguage')}
               <ChevronDown
                 className={`h-5 w-5 transition-transform duration-200 ${
                   isLanguageDropdownOpen ? 'rotate-180' : ''
@@ -108,8 +128,10 @@ export const Welcome = ({
                 {languages.map((lang) => (
                   <button
                     key={lang.code}
+                    lang={lang.locale}
+                    dir={lang.dir}
                     onClick={() => {
-                      onLanguageChange(lang.code as 'en' | 'kn' | 'hi' | 'ta');
+                      onLanguageChange(lang.code);
                       setIsLanguageDropdownOpen(false);
                     }}
                     className="w-full px-4 py-3 text-left text-gray-600 transition-colors first:rounded-t-lg last:rounded-b-lg hover:bg-gray-50"
@@ -132,13 +154,7 @@ export const Welcome = ({
                   : 'text-gray-600 hover:text-gray-800'
               } ${!language ? 'cursor-not-allowed' : ''}`}
             >
-              {language === 'kn'
-                ? 'ಧ್ವನಿ ಸಹಾಯಕ'
-                : language === 'hi'
-                  ? 'ध्वनि सहायक'
-                  : language === 'ta'
-                    ? 'குரல் உதவியாளர்'
-                    : 'VOICE ASSISTANT'}
+              {t('welcome.voiceAssistant')}
             </button>
             <button
               onClick={() => onVoiceBaseChange('Live Assistant')}
@@ -149,39 +165,82 @@ export const Welcome = ({
                   : 'text-gray-600 hover:text-gray-800'
               } ${!language ? 'cursor-not-allowed' : ''}`}
             >
-              {language === 'kn'
-                ? 'ಲೈವ್ ಸಹಾಯಕ'
-                : language === 'hi'
-                  ? 'लाइव सहायक'
-                  : language === 'ta'
-                    ? 'நேரடி உதவியாளர்'
-                    : 'LIVE ASSISTANT'}
+              {t('welcome.liveAssistant')}
             </button>
           </div>
 
+          {/* Vehicle Context */}
+          {onVehicleChange && (
+            <button
+              onClick={() => setIsVehicleFormOpen(true)}
+              disabled={disabled}
+              className="flex w-full items-center justify-between rounded-lg border border-white/20 bg-white/10 px-4 py-3 text-left text-sm font-medium text-gray-200 shadow-lg backdrop-blur-md transition-all duration-200 hover:bg-white/15 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              <span className="flex min-w-0 items-center gap-2">
+                <Car className="h-4 w-4 flex-shrink-0" />
+                <span className="truncate">
+                  {describeVehicle(vehicle) || t('welcome.vehicleDetails')}
+                </span>
+              </span>
+              {vehicle?.vin && (
+                <span className="ml-2 font-mono text-xs text-gray-400">{vehicle.vin}</span>
+              )}
+            </button>
+          )}
+
+          {/* Microphone Test */}
+          <MicTest disabled={disabled} />
+
           {/* Start Call Button */}
           <button
             onClick={onStartCall}
             disabled={!language || disabled}
-            className="flex w-full transform items-center justify-center space-x-3 rounded-lg bg-gradient-to-r from-purple-400 to-indigo-500 px-6 py-4 text-lg font-semibold tracking-wider text-white shadow-lg transition-all duration-200 hover:scale-105 hover:from-purple-500 hover:to-indigo-600 disabled:transform-none disabled:cursor-not-allowed disabled:opacity-50 disabled:hover:from-purple-400"
+            className="flex w-full transform items-center justify-center space-x-3 rounded-lg bg-gradient-to-r from-(--brand-button-from) to-(--brand-button-to) px-6 py-4 text-lg font-semibold tracking-wider text-white shadow-lg transition-all duration-200 hover:scale-105 hover:brightness-110 disabled:transform-none disabled:cursor-not-allowed disabled:opacity-50 disabled:hover:brightness-100"
           >
             {voiceBase === 'Voice Assistant' ? (
               <Mic className="h-5 w-5" />
             ) : (
               <Camera className="h-5 w-5" />
             )}
-            <span>
-              {language === 'kn'
-                ? 'ಕರೆ ಪ್ರಾರಂಭಿಸಿ'
-                : language === 'hi'
-                  ? 'कॉल शुरू करें'
-                  : language === 'ta'
-                    ? 'அழைப்பை தொடங்குக'
-                    : 'Start Call'}
-            </span>
+            <span>{localize(copy.startButton, language) ?? t('welcome.startCall')}</span>
           </button>
+
+          {/* Resume Previous Call */}
+          {resumable && onResume && (
+            <button
+              onClick={onResume}
+              disabled={disabled}
+              className="flex w-full items-center justify-center space-x-2 rounded-lg border border-cyan-400/40 bg-cyan-400/10 px-4 py-3 text-sm font-medium text-cyan-100 transition-colors hover:bg-cyan-400/20 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              <RotateCcw className="h-4 w-4" />
+              <span>{t('welcome.resumeCall')}</span>
+            </button>
+          )}
+
+          {/* Session History */}
+          {onOpenHistory && (
+            <button
+              onClick={onOpenHistory}
+              disabled={disabled}
+              className="flex w-full items-center justify-center space-x-2 rounded-lg px-4 py-2 text-sm font-medium text-gray-300 transition-colors hover:bg-white/10 hover:text-white disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              <History className="h-4 w-4" />
+              <span>{t('welcome.pastSessions')}</span>
+            </button>
+          )}
         </div>
       </div>
+
+      {isVehicleFormOpen && onVehicleChange && (
+        <VehicleContextForm
+          value={vehicle}
+          onSubmit={(value) => {
+            onVehicleChange(value);
+            setIsVehicleFormOpen(false);
+          }}
+          onClose={() => setIsVehicleFormOpen(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useIsSpeaking, useLocalParticipant, useVoiceAssistant } from '@livekit/components-react';
+import type { MetricsEvent } from '@/lib/agent-metrics';
+import type { ReportVersion } from '@/lib/agent-protocol';
+
+interface UseAgentMetricsOptions {
+  sessionStarted: boolean;
+  /** Fully received reports only, so a report is recorded when its last chunk arrives. */
+  reports: ReportVersion[];
+}
+
+/**
+ * Records what the agent metrics are derived from for the current call: agent state changes, the
+ * end of each user turn, the agent's audio starting and reports arriving. Recording starts over
+ * with each call. Call `recordUserMessage` when the user sends a chat message.
+ */
+export default function useAgentMetrics({ sessionStarted, reports }: UseAgentMetricsOptions) {
+  const { state, agent } = useVoiceAssistant();
+  const { localParticipant } = useLocalParticipant();
+  const isUserSpeaking = useIsSpeaking(localParticipant);
+  const isAgentSpeaking = useIsSpeaking(agent);
+  const [events, setEvents] = useState<MetricsEvent[]>([]);
+  const seenReportsRef = useRef(new Set<string>());
+  // Read when a call starts; reports arriving mid-call are recorded below
+  const reportsRef = useRef(reports);
+  useEffect(() => {
+    reportsRef.current = reports;
+  }, [reports]);
+
+  const record = useCallback((event: MetricsEvent) => {
+    setEvents((current) => [...current, event]);
+  }, []);
+
+  useEffect(() => {
+    if (!sessionStarted) return;
+    setEvents([]);
+    // Reports already there belong to an earlier call
+    seenReportsRef.current = new Set(reportsRef.current.map(({ id }) => id));
+  }, [sessionStarted]);
+
+  useEffect(() => {
+    if (sessionStarted) record({ type: 'state', state, at: Date.now() });
+  }, [sessionStarted, state, record]);
+
+  // Only when the user goes quiet, not while they have yet to say anything
+  const wasUserSpeakingRef = useRef(false);
+  useEffect(() => {
+    if (sessionStarted && wasUserSpeakingRef.current && !isUserSpeaking) {
+      record({ type: 'user-done', at: Date.now() });
+    }
+    wasUserSpeakingRef.current = isUserSpeaking;
+  }, [sessionStarted, isUserSpeaking, record]);
+
+  useEffect(() => {
+    if (sessionStarted && isAgentSpeaking) record({ type: 'agent-audio', at: Date.now() });
+  }, [sessionStarted, isAgentSpeaking, record]);
+
+  useEffect(() => {
+    if (!sessionStarted) return;
+    for (const { id } of reports) {
+      if (seenReportsRef.current.has(id)) continue;
+      seenReportsRef.current.add(id);
+      record({ type: 'report', id, at: Date.now() });
+    }
+  }, [sessionStarted, reports, record]);
+
+  const recordUserMessage = useCallback(() => {
+    if (sessionStarted) record({ type: 'user-done', at: Date.now() });
+  }, [sessionStarted, record]);
+
+  return { events, recordUserMessage };
+}
@@ -0,0 +1,34 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  type AudioProcessingSettings,
+  DEFAULT_AUDIO_PROCESSING_SETTINGS,
+  loadAudioProcessingSettings,
+  saveAudioProcessingSettings,
+} from '@/lib/audio-processing';
+
+/**
+ * Microphone processing settings, remembered across visits like the other user choices. Pass
+ * `preventSave` to keep changes for this page only.
+ */
+export default function useAudioProcessing({
+  preventSave = false,
+}: { preventSave?: boolean } = {}) {
+  const [settings, setSettings] = useState<AudioProcessingSettings>(
+    DEFAULT_AUDIO_PROCESSING_SETTINGS
+  );
+
+  // localStorage is only there once mounted in the browser
+  useEffect(() => {
+    setSettings(loadAudioProcessingSettings());
+  }, []);
+
+  const saveSettings = useCallback(
+    (next: AudioProcessingSettings) => {
+      setSettings(next);
+      if (!preventSave) saveAudioProcessingSettings(next);
+    },
+    [preventSave]
+  );
+
+  return { settings, saveSettings };
+}
@@ -0,0 +1,19 @@
+import { useCallback, useEffect, useState } from 'react';
+import { type CaptionStyle, loadCaptionStyle, saveCaptionStyle } from '@/lib/captions';
+
+/** The caption style, remembered across visits on this device. Captions are off by default. */
+export default function useCaptionStyle() {
+  const [captionStyle, setCaptionStyle] = useState<CaptionStyle>('off');
+
+  // localStorage is only there once mounted in the browser
+  useEffect(() => {
+    setCaptionStyle(loadCaptionStyle());
+  }, []);
+
+  const saveStyle = useCallback((style: CaptionStyle) => {
+    setCaptionStyle(style);
+    saveCaptionStyle(style);
+  }, []);
+
+  return { captionStyle, saveCaptionStyle: saveStyle };
+}
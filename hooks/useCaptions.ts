@@ -0,0 +1,72 @@
+import { useEffect, useRef, useState } from 'react';
+import { useVoiceAssistant } from '@livekit/components-react';
+import { type Caption, activeWordIndex, readCaptionClock, updateCaption } from '@/lib/captions';
+import type { TranscriptMessage } from '@/lib/transcript';
+
+// How long a caption stays up once the agent is done with it, or stopped making progress
+const LINGER_MS = 3_000;
+
+/**
+ * Caption of what the agent is saying, and which of its words is being heard, following the
+ * agent's audio as it plays. Captions start with speech that is still streaming in, so turning
+ * them on mid-call does not replay the last turn.
+ */
+export default function useCaptions(messages: TranscriptMessage[], enabled: boolean) {
+  const { audioTrack } = useVoiceAssistant();
+  const [caption, setCaption] = useState<Caption>();
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const trackRef = useRef(audioTrack);
+  trackRef.current = audioTrack;
+
+  let latest: TranscriptMessage | undefined;
+  for (let i = messages.length - 1; i >= 0 && !latest; i--) {
+    const message = messages[i];
+    if (!message.from?.isLocal && message.source === 'transcription') latest = message;
+  }
+  const latestId = latest?.id;
+  const latestText = latest?.message ?? '';
+  const isStreaming = latest?.status === 'interim';
+  const isStreamingRef = useRef(isStreaming);
+  isStreamingRef.current = isStreaming;
+
+  useEffect(() => {
+    if (!enabled || !latestId) return;
+    setCaption((current) => {
+      if (current?.id !== latestId && !isStreamingRef.current) return current;
+      const clock = readCaptionClock(trackRef.current?.publication.track?.rtpTimestamp);
+      return updateCaption(current, latestId, latestText, clock);
+    });
+  }, [enabled, latestId, latestText]);
+
+  useEffect(() => {
+    if (!enabled) setCaption(undefined);
+  }, [enabled]);
+
+  useEffect(() => {
+    if (!caption) {
+      setActiveIndex(-1);
+      return;
+    }
+    let frame: number;
+    let index = -1;
+    let progressAt = performance.now();
+    const tick = () => {
+      const clock = readCaptionClock(trackRef.current?.publication.track?.rtpTimestamp);
+      const next = activeWordIndex(caption, clock);
+      if (next !== index) {
+        index = next;
+        progressAt = performance.now();
+        setActiveIndex(next);
+      }
+      if (!isStreamingRef.current && performance.now() - progressAt > LINGER_MS) {
+        setCaption(undefined);
+        return;
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    tick();
+    return () => cancelAnimationFrame(frame);
+  }, [caption]);
+
+  return { caption, activeIndex };
+}
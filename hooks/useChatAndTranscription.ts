@@ -1,25 +1,66 @@
-import { useMemo } from 'react';
+import { useEffect, useMemo, useReducer } from 'react';
+import { RoomEvent } from 'livekit-client';
+import { useChat, useRoomContext } from '@livekit/components-react';
 import {
-  type ReceivedChatMessage,
-  type TextStreamData,
-  useChat,
-  useRoomContext,
-  useTranscriptions,
-} from '@livekit/components-react';
-import { transcriptionToChatMessage } from '@/lib/utils';
+  EMPTY_TRANSCRIPT,
+  TRANSCRIPTION_TOPIC,
+  type TranscriptMessage,
+  mergeTranscript,
+  transcriptReducer,
+} from '@/lib/transcript';
 
+/**
+ * The conversation so far: spoken turns as they are transcribed, including the user's speech
+ * before it is final, and typed chat messages. Only one component may use it at a time, as the
+ * transcription topic can only have one handler.
+ */
 export default function useChatAndTranscription() {
-  const transcriptions: TextStreamData[] = useTranscriptions();
   const chat = useChat();
   const room = useRoomContext();
+  const [transcript, dispatch] = useReducer(transcriptReducer, EMPTY_TRANSCRIPT);
 
-  const mergedTranscriptions = useMemo(() => {
-    const merged: Array<ReceivedChatMessage> = [
-      ...transcriptions.map((transcription) => transcriptionToChatMessage(transcription, room)),
-      ...chat.chatMessages,
-    ];
-    return merged.sort((a, b) => a.timestamp - b.timestamp);
-  }, [transcriptions, chat.chatMessages, room]);
+  useEffect(() => {
+    room.registerTextStreamHandler(TRANSCRIPTION_TOPIC, async (reader, participantInfo) => {
+      const { id: streamId, attributes, timestamp } = reader.info;
+      const isLocal = participantInfo.identity === room.localParticipant.identity;
+      dispatch({
+        type: 'stream-opened',
+        streamId,
+        attributes,
+        role: isLocal ? 'user' : 'assistant',
+        participantIdentity: participantInfo.identity,
+        timestamp,
+      });
+      let text = '';
+      try {
+        for await (const chunk of reader) {
+          text += chunk;
+          dispatch({ type: 'stream-text', streamId, text });
+        }
+      } catch (error) {
+        console.warn('Transcription stream ended early:', error);
+      } finally {
+        dispatch({ type: 'stream-closed', streamId });
+      }
+    });
 
-  return { messages: mergedTranscriptions, send: chat.send };
+    const handleDisconnected = () => dispatch({ type: 'reset' });
+    room.on(RoomEvent.Disconnected, handleDisconnected);
+    return () => {
+      room.unregisterTextStreamHandler(TRANSCRIPTION_TOPIC);
+      room.off(RoomEvent.Disconnected, handleDisconnected);
+    };
+  }, [room]);
+
+  const messages: TranscriptMessage[] = useMemo(
+    () =>
+      mergeTranscript(transcript.segments, chat.chatMessages, (identity) =>
+        identity === room.localParticipant.identity
+          ? room.localParticipant
+          : room.remoteParticipants.get(identity)
+      ),
+    [transcript.segments, chat.chatMessages, room]
+  );
+
+  return { messages, send: chat.send };
 }
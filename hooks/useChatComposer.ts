@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  MAX_COMPOSER_HISTORY,
+  loadComposerDraft,
+  loadComposerHistory,
+  saveComposerDraft,
+  saveComposerHistory,
+} from '@/lib/chat-composer';
+
+/**
+ * Text of the chat composer with a persisted draft, and shell-style recall of sent messages:
+ * `recallPrevious` and `recallNext` step through them, and stepping past the newest one brings
+ * back what was being typed.
+ */
+export default function useChatComposer() {
+  const [text, setTextState] = useState('');
+  const historyRef = useRef<string[]>([]);
+  // Position in the history while recalling, `null` while editing the draft
+  const indexRef = useRef<number | null>(null);
+  const draftRef = useRef('');
+
+  // sessionStorage is only there once mounted in the browser
+  useEffect(() => {
+    historyRef.current = loadComposerHistory();
+    draftRef.current = loadComposerDraft();
+    setTextState(draftRef.current);
+  }, []);
+
+  const setText = useCallback((value: string) => {
+    indexRef.current = null;
+    draftRef.current = value;
+    setTextState(value);
+    saveComposerDraft(value);
+  }, []);
+
+  const recall = useCallback((index: number | null) => {
+    indexRef.current = index;
+    setTextState(index === null ? draftRef.current : historyRef.current[index]);
+  }, []);
+
+  /** Returns false when there is nothing older to recall. */
+  const recallPrevious = useCallback(() => {
+    const history = historyRef.current;
+    const index = indexRef.current ?? history.length;
+    if (index === 0) return false;
+    recall(index - 1);
+    return true;
+  }, [recall]);
+
+  /** Returns false when already back at the draft. */
+  const recallNext = useCallback(() => {
+    const index = indexRef.current;
+    if (index === null) return false;
+    recall(index + 1 < historyRef.current.length ? index + 1 : null);
+    return true;
+  }, [recall]);
+
+  /** Records a sent message and starts a new, empty draft. */
+  const commit = useCallback(
+    (value: string) => {
+      const history = historyRef.current;
+      if (value.trim() && history.at(-1) !== value) {
+        historyRef.current = [...history, value].slice(-MAX_COMPOSER_HISTORY);
+        saveComposerHistory(historyRef.current);
+      }
+      setText('');
+    },
+    [setText]
+  );
+
+  return { text, setText, recallPrevious, recallNext, commit };
+}
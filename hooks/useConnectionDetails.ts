@@ -1,14 +1,38 @@
 import { useCallback } from 'react';
 import type { ConnectionDetails } from '@/app/api/connection-details/route';
+import { ApiError, readApiError } from '@/lib/api-error';
+import { translate } from '@/lib/i18n';
+import type { Language } from '@/lib/languages';
+import type { ResumeTarget } from '@/lib/session-resume';
+import type { VehicleContext } from '@/lib/vehicle';
 
-export type Language = 'en' | 'kn' | 'hi' | 'ta';
 export type VoiceBase = 'Voice Assistant' | 'Live Assistant';
+
+function connectErrorMessage(error: ApiError, language: Language) {
+  switch (error.code) {
+    case 'unauthorized':
+      return translate(language, 'errors.unauthorized');
+    case 'invalid_resume':
+      return translate(language, 'errors.invalidResume');
+    case 'rate_limited':
+      return translate(language, 'errors.rateLimited', { seconds: error.retryAfter ?? 60 });
+    case 'agent_dispatch_failed':
+      return translate(language, 'errors.agentDispatch');
+    default:
+      return translate(language, 'errors.connectionDetails');
+  }
+}
+
 export default function useConnectionDetails() {
   // Pass the selected language to the token endpoint
   const fetchConnectionDetails = useCallback(
     async (
       language: Language = 'en',
-      voiceBase: VoiceBase = 'Voice Assistant'
+      voiceBase: VoiceBase = 'Voice Assistant',
+      vehicle?: VehicleContext,
+      resume?: ResumeTarget,
+      /** For a preflight check, which should not dispatch an agent. */
+      preflight = false
     ): Promise<ConnectionDetails> => {
       const url = new URL(
         process.env.NEXT_PUBLIC_CONN_DETAILS_ENDPOINT ?? '/api/connection-details',
@@ -16,15 +40,31 @@ export default function useConnectionDetails() {
       );
       url.searchParams.set('language', language);
       url.searchParams.set('voiceBase', voiceBase);
+      if (vehicle) url.searchParams.set('vehicle', JSON.stringify(vehicle));
+      if (resume) {
+        url.searchParams.set('roomName', resume.roomName);
+        url.searchParams.set('resumeToken', resume.resumeToken);
+      }
+      if (preflight) url.searchParams.set('preflight', 'true');
 
+      let res: Response;
       try {
-        const res = await fetch(url.toString(), { method: 'GET', cache: 'no-store' });
-        if (!res.ok) throw new Error(await res.text());
-        return (await res.json()) as ConnectionDetails;
+        res = await fetch(url.toString(), { method: 'GET', cache: 'no-store' });
       } catch (error) {
         console.error('Error fetching connection details:', error);
-        throw new Error('Error fetching connection details!');
+        throw new Error(translate(language, 'errors.connectionDetails'));
+      }
+
+      if (!res.ok) {
+        const error = await readApiError(res);
+        console.error('Error fetching connection details:', error);
+        throw new ApiError(res.status, {
+          code: error.code,
+          message: connectErrorMessage(error, language),
+          retryAfter: error.retryAfter,
+        });
       }
+      return (await res.json()) as ConnectionDetails;
     },
     []
   );
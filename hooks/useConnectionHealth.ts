@@ -0,0 +1,75 @@
+import { useEffect, useState } from 'react';
+import { ConnectionQuality, ConnectionState, type Participant, RoomEvent } from 'livekit-client';
+import { useRoomContext } from '@livekit/components-react';
+
+export type ConnectionHealthStatus = 'connecting' | 'connected' | 'reconnecting' | 'disconnected';
+
+export interface ConnectionHealth {
+  status: ConnectionHealthStatus;
+  /** Quality of the local participant's link as reported by the server. */
+  quality: ConnectionQuality;
+  /** True for a short while after the connection came back. */
+  recovered: boolean;
+}
+
+const RECOVERED_DISPLAY_MS = 3_000;
+
+function toStatus(state: ConnectionState): ConnectionHealthStatus {
+  switch (state) {
+    case ConnectionState.Connected:
+      return 'connected';
+    case ConnectionState.Connecting:
+      return 'connecting';
+    case ConnectionState.Reconnecting:
+    case ConnectionState.SignalReconnecting:
+      return 'reconnecting';
+    default:
+      return 'disconnected';
+  }
+}
+
+/**
+ * Tracks the room connection: LiveKit's own reconnects (`Reconnecting`/`Reconnected`) and the
+ * local participant's connection quality.
+ */
+export default function useConnectionHealth(): ConnectionHealth {
+  const room = useRoomContext();
+  const [status, setStatus] = useState(() => toStatus(room.state));
+  const [quality, setQuality] = useState(room.localParticipant.connectionQuality);
+  const [recovered, setRecovered] = useState(false);
+
+  useEffect(() => {
+    let recoveredTimeout: ReturnType<typeof setTimeout> | undefined;
+
+    const onStateChanged = (state: ConnectionState) => setStatus(toStatus(state));
+    const onReconnecting = () => {
+      clearTimeout(recoveredTimeout);
+      setRecovered(false);
+      setStatus('reconnecting');
+    };
+    const onReconnected = () => {
+      setStatus('connected');
+      setRecovered(true);
+      recoveredTimeout = setTimeout(() => setRecovered(false), RECOVERED_DISPLAY_MS);
+    };
+    const onQualityChanged = (value: ConnectionQuality, participant: Participant) => {
+      if (participant.isLocal) setQuality(value);
+    };
+
+    room.on(RoomEvent.ConnectionStateChanged, onStateChanged);
+    room.on(RoomEvent.Reconnecting, onReconnecting);
+    room.on(RoomEvent.SignalReconnecting, onReconnecting);
+    room.on(RoomEvent.Reconnected, onReconnected);
+    room.on(RoomEvent.ConnectionQualityChanged, onQualityChanged);
+    return () => {
+      clearTimeout(recoveredTimeout);
+      room.off(RoomEvent.ConnectionStateChanged, onStateChanged);
+      room.off(RoomEvent.Reconnecting, onReconnecting);
+      room.off(RoomEvent.SignalReconnecting, onReconnecting);
+      room.off(RoomEvent.Reconnected, onReconnected);
+      room.off(RoomEvent.ConnectionQualityChanged, onQualityChanged);
+    };
+  }, [room]);
+
+  return { status, quality, recovered };
+}
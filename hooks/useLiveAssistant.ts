@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Track } from 'livekit-client';
+import { useLocalParticipant, useRoomContext, useVoiceAssistant } from '@livekit/components-react';
+import {
+  type LivePrompt,
+  PROMPT_TOPIC,
+  SNAPSHOT_TOPIC,
+  captureSnapshot,
+  parsePrompt,
+} from '@/lib/live-assistant';
+
+export type SnapshotState = 'idle' | 'sending' | 'sent';
+
+const SENT_DISPLAY_MS = 2_000;
+
+/**
+ * Live Assistant side of the session: the prompt the agent wants on screen, and sending the
+ * agent a still frame from the camera. Only one component may use it at a time, as the prompt
+ * topic can only have one handler.
+ */
+export default function useLiveAssistant() {
+  const room = useRoomContext();
+  const { localParticipant, isCameraEnabled } = useLocalParticipant();
+  const { agent } = useVoiceAssistant();
+  const [prompt, setPrompt] = useState<LivePrompt | null>(null);
+  const [snapshotState, setSnapshotState] = useState<SnapshotState>('idle');
+
+  useEffect(() => {
+    room.registerTextStreamHandler(PROMPT_TOPIC, async (reader) => {
+      const text = await reader.readAll();
+      setPrompt(parsePrompt(reader.info.id, text));
+    });
+    return () => {
+      room.unregisterTextStreamHandler(PROMPT_TOPIC);
+      setPrompt(null);
+    };
+  }, [room]);
+
+  useEffect(() => {
+    if (!prompt?.durationMs) return;
+    const timeout = setTimeout(() => setPrompt(null), prompt.durationMs);
+    return () => clearTimeout(timeout);
+  }, [prompt]);
+
+  useEffect(() => {
+    if (snapshotState !== 'sent') return;
+    const timeout = setTimeout(() => setSnapshotState('idle'), SENT_DISPLAY_MS);
+    return () => clearTimeout(timeout);
+  }, [snapshotState]);
+
+  const dismissPrompt = useCallback(() => setPrompt(null), []);
+
+  const sendSnapshot = useCallback(async () => {
+    const track = localParticipant.getTrackPublication(Track.Source.Camera)?.track;
+    if (!track) throw new Error('The camera is off');
+
+    setSnapshotState('sending');
+    try {
+      const file = await captureSnapshot(track.mediaStreamTrack);
+      await localParticipant.sendFile(file, {
+        topic: SNAPSHOT_TOPIC,
+        mimeType: file.type,
+        destinationIdentities: agent ? [agent.identity] : undefined,
+      });
+      setSnapshotState('sent');
+    } catch (error) {
+      setSnapshotState('idle');
+      throw error;
+    }
+  }, [localParticipant, agent]);
+
+  return {
+    prompt,
+    dismissPrompt,
+    canSnapshot: isCameraEnabled,
+    snapshotState,
+    sendSnapshot,
+  };
+}
@@ -0,0 +1,97 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { type LocalAudioTrack, createLocalAudioTrack } from 'livekit-client';
+import usePersistentUserChoices from '@/hooks/usePersistentUserChoices';
+import { createAudioProcessor, loadAudioProcessingSettings } from '@/lib/audio-processing';
+
+const RECORDING_MS = 4000;
+
+export type MicTestState = 'idle' | 'recording' | 'playing';
+
+/**
+ * Records a few seconds from the saved microphone, with the saved audio processing applied, and
+ * plays it back, so the user can hear what the agent will hear before starting a call. Noise
+ * suppression is left out because it needs a LiveKit Cloud connection.
+ */
+export default function useMicTest() {
+  const { userChoices } = usePersistentUserChoices({ preventSave: true });
+  const [state, setState] = useState<MicTestState>('idle');
+  const [track, setTrack] = useState<LocalAudioTrack>();
+  const [error, setError] = useState<Error>();
+  const cleanupRef = useRef<() => void>(undefined);
+
+  const stop = useCallback(() => {
+    cleanupRef.current?.();
+    cleanupRef.current = undefined;
+    setTrack(undefined);
+    setState('idle');
+  }, []);
+
+  useEffect(() => stop, [stop]);
+
+  const start = useCallback(async () => {
+    stop();
+    setError(undefined);
+    setState('recording');
+
+    let stopped = false;
+    let micTrack: LocalAudioTrack | undefined;
+    let audioContext: AudioContext | undefined;
+    let recordingTimeout: ReturnType<typeof setTimeout> | undefined;
+    let playback: HTMLAudioElement | undefined;
+    let playbackUrl: string | undefined;
+
+    const releaseMic = () => {
+      clearTimeout(recordingTimeout);
+      const mic = micTrack;
+      mic?.stopProcessor().finally(() => mic.stop());
+      audioContext?.close();
+      micTrack = undefined;
+      audioContext = undefined;
+      setTrack(undefined);
+    };
+    cleanupRef.current = () => {
+      stopped = true;
+      releaseMic();
+      playback?.pause();
+      if (playbackUrl) URL.revokeObjectURL(playbackUrl);
+    };
+
+    try {
+      micTrack = await createLocalAudioTrack({ deviceId: userChoices.audioDeviceId });
+      audioContext = new AudioContext();
+      micTrack.setAudioContext(audioContext);
+      const processor = await createAudioProcessor({
+        ...loadAudioProcessingSettings(),
+        noiseSuppression: false,
+      });
+      if (processor) await micTrack.setProcessor(processor);
+      if (stopped) return releaseMic();
+      setTrack(micTrack);
+
+      const chunks: Blob[] = [];
+      const recorder = new MediaRecorder(
+        new MediaStream([processor?.processedTrack ?? micTrack.mediaStreamTrack])
+      );
+      recorder.ondataavailable = (event) => chunks.push(event.data);
+      recorder.onstop = () => {
+        releaseMic();
+        if (stopped) return;
+        playbackUrl = URL.createObjectURL(new Blob(chunks, { type: recorder.mimeType }));
+        playback = new Audio(playbackUrl);
+        playback.onended = stop;
+        setState('playing');
+        playback.play().catch((playbackError) => {
+          setError(playbackError);
+          stop();
+        });
+      };
+      recorder.start();
+      recordingTimeout = setTimeout(() => recorder.stop(), RECORDING_MS);
+    } catch (testError) {
+      setError(testError instanceof Error ? testError : new Error(String(testError)));
+      stop();
+    }
+  }, [stop, userChoices.audioDeviceId]);
+
+  return { state, track, error, start, stop };
+}
@@ -0,0 +1,78 @@
+import { useCallback, useMemo, useState } from 'react';
+import type { InputModeSettings } from '@/lib/input-mode';
+import {
+  DEFAULT_USER_CHOICES,
+  type UserChoices,
+  loadUserChoices,
+  saveUserChoices,
+} from '@/lib/user-choices';
+
+interface UsePersistentUserChoicesOptions {
+  /** Used for choices that were never saved, or when loading fails. */
+  defaults?: Partial<UserChoices>;
+  /** Keep changes for this page only. */
+  preventSave?: boolean;
+  /** Start from `defaults` instead of the saved choices. */
+  preventLoad?: boolean;
+}
+
+/**
+ * LiveKit's `usePersistentUserChoices`, extended with the input mode and talk key. Every change
+ * is saved over the stored choices, so the instances used by the preflight, the control bar and
+ * the app keep each other's changes.
+ */
+export default function usePersistentUserChoices({
+  defaults,
+  preventSave = false,
+  preventLoad = false,
+}: UsePersistentUserChoicesOptions = {}) {
+  const [userChoices, setUserChoices] = useState<UserChoices>(() =>
+    preventLoad ? { ...DEFAULT_USER_CHOICES, ...defaults } : loadUserChoices(defaults)
+  );
+
+  const save = useCallback(
+    (changes: Partial<UserChoices>) => {
+      setUserChoices((prev) => ({ ...prev, ...changes }));
+      if (!preventSave) saveUserChoices(changes);
+    },
+    [preventSave]
+  );
+
+  const saveAudioInputEnabled = useCallback(
+    (audioEnabled: boolean) => save({ audioEnabled }),
+    [save]
+  );
+  const saveVideoInputEnabled = useCallback(
+    (videoEnabled: boolean) => save({ videoEnabled }),
+    [save]
+  );
+  const saveAudioInputDeviceId = useCallback(
+    (audioDeviceId: string) => save({ audioDeviceId }),
+    [save]
+  );
+  const saveVideoInputDeviceId = useCallback(
+    (videoDeviceId: string) => save({ videoDeviceId }),
+    [save]
+  );
+  const saveUsername = useCallback((username: string) => save({ username }), [save]);
+  const saveInputModeSettings = useCallback(
+    ({ mode, talkKey }: InputModeSettings) => save({ inputMode: mode, talkKey }),
+    [save]
+  );
+
+  const inputModeSettings = useMemo<InputModeSettings>(
+    () => ({ mode: userChoices.inputMode, talkKey: userChoices.talkKey }),
+    [userChoices.inputMode, userChoices.talkKey]
+  );
+
+  return {
+    userChoices,
+    inputModeSettings,
+    saveAudioInputEnabled,
+    saveVideoInputEnabled,
+    saveAudioInputDeviceId,
+    saveVideoInputDeviceId,
+    saveUsername,
+    saveInputModeSettings,
+  };
+}
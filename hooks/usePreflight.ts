@@ -0,0 +1,141 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  type LocalAudioTrack,
+  type LocalVideoTrack,
+  createLocalAudioTrack,
+  createLocalVideoTrack,
+} from 'livekit-client';
+import type { ConnectionDetails } from '@/app/api/connection-details/route';
+import useConnectionDetails, { type VoiceBase } from '@/hooks/useConnectionDetails';
+import type { Language } from '@/lib/languages';
+import { inspectionCaptureOptions } from '@/lib/live-assistant';
+import {
+  type PreflightCheck,
+  type PreflightCheckId,
+  type PreflightChecks,
+  checkServer,
+} from '@/lib/preflight';
+import type { VehicleContext } from '@/lib/vehicle';
+
+interface UsePreflightOptions {
+  language: Language;
+  voiceBase: VoiceBase;
+  vehicle?: VehicleContext;
+  /** Whether the call will use the camera. The camera check is skipped otherwise. */
+  camera: boolean;
+  /** Devices to open. `DeviceSelect` switches the open tracks in place, so only retries read these. */
+  audioDeviceId?: string;
+  videoDeviceId?: string;
+}
+
+const RUNNING: PreflightCheck = { status: 'running' };
+const SKIPPED: PreflightCheck = { status: 'skipped' };
+
+function failed(error: unknown): PreflightCheck {
+  return { status: 'failed', error: error instanceof Error ? error : new Error(String(error)) };
+}
+
+/**
+ * Opens the microphone and camera for a preview, and fetches connection details and checks the
+ * LiveKit server can be reached with them. The connection details can be used to join the call
+ * afterwards, so the check does not cost an extra token.
+ */
+export default function usePreflight({
+  language,
+  voiceBase,
+  vehicle,
+  camera,
+  audioDeviceId,
+  videoDeviceId,
+}: UsePreflightOptions) {
+  const { fetchConnectionDetails } = useConnectionDetails();
+  const devicesRef = useRef({ audioDeviceId, videoDeviceId });
+  const [checks, setChecks] = useState<PreflightChecks>({
+    microphone: RUNNING,
+    camera: camera ? RUNNING : SKIPPED,
+    connectionDetails: RUNNING,
+    server: RUNNING,
+  });
+  const [microphoneTrack, setMicrophoneTrack] = useState<LocalAudioTrack>();
+  const [cameraTrack, setCameraTrack] = useState<LocalVideoTrack>();
+  const [connectionDetails, setConnectionDetails] = useState<ConnectionDetails>();
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    devicesRef.current = { audioDeviceId, videoDeviceId };
+  }, [audioDeviceId, videoDeviceId]);
+
+  const updateCheck = useCallback((id: PreflightCheckId, check: PreflightCheck) => {
+    setChecks((current) => ({ ...current, [id]: check }));
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    const tracks: (LocalAudioTrack | LocalVideoTrack)[] = [];
+    const { audioDeviceId, videoDeviceId } = devicesRef.current;
+
+    updateCheck('microphone', RUNNING);
+    createLocalAudioTrack({ deviceId: audioDeviceId }).then(
+      (track) => {
+        tracks.push(track);
+        if (cancelled) return track.stop();
+        setMicrophoneTrack(track);
+        updateCheck('microphone', { status: 'passed' });
+      },
+      (error) => !cancelled && updateCheck('microphone', failed(error))
+    );
+
+    updateCheck('camera', camera ? RUNNING : SKIPPED);
+    if (camera) {
+      createLocalVideoTrack(inspectionCaptureOptions(videoDeviceId)).then(
+        (track) => {
+          tracks.push(track);
+          if (cancelled) return track.stop();
+          setCameraTrack(track);
+          updateCheck('camera', { status: 'passed' });
+        },
+        (error) => !cancelled && updateCheck('camera', failed(error))
+      );
+    }
+
+    return () => {
+      cancelled = true;
+      tracks.forEach((track) => track.stop());
+      setMicrophoneTrack(undefined);
+      setCameraTrack(undefined);
+    };
+  }, [attempt, camera, updateCheck]);
+
+  useEffect(() => {
+    let cancelled = false;
+    updateCheck('connectionDetails', RUNNING);
+    updateCheck('server', RUNNING);
+    setConnectionDetails(undefined);
+
+    fetchConnectionDetails(language, voiceBase, vehicle, undefined, true)
+      .then(async (details) => {
+        if (cancelled) return;
+        setConnectionDetails(details);
+        updateCheck('connectionDetails', { status: 'passed' });
+        try {
+          const latencyMs = await checkServer(details.serverUrl, details.participantToken);
+          if (!cancelled) updateCheck('server', { status: 'passed', latencyMs });
+        } catch (error) {
+          if (!cancelled) updateCheck('server', failed(error));
+        }
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        updateCheck('connectionDetails', failed(error));
+        updateCheck('server', SKIPPED);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [attempt, language, voiceBase, vehicle, fetchConnectionDetails, updateCheck]);
+
+  const retry = useCallback(() => setAttempt((value) => value + 1), []);
+
+  return { checks, microphoneTrack, cameraTrack, connectionDetails, retry };
+}
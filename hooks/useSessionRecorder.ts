@@ -0,0 +1,101 @@
+import { useEffect, useRef } from 'react';
+import type { ReceivedChatMessage } from '@livekit/components-react';
+import type { ReportVersion } from '@/lib/agent-protocol';
+import type { Language } from '@/lib/languages';
+import { type StoredSession, saveSession } from '@/lib/session-store';
+import type { VoiceBase } from './useConnectionDetails';
+
+const SAVE_DEBOUNCE_MS = 1_000;
+
+interface UseSessionRecorderOptions {
+  sessionStarted: boolean;
+  language: Language;
+  voiceBase: VoiceBase;
+  roomName?: string;
+  /** Chat-ready messages, i.e. after agent payloads have been decoded. */
+  messages: ReceivedChatMessage[];
+  /** Report versions received so far, oldest first. */
+  reports: ReportVersion[];
+}
+
+function persist(session: StoredSession) {
+  saveSession(session).catch((error) => {
+    console.warn('Failed to save session history:', error);
+  });
+}
+
+/**
+ * Continuously writes the current session to the local session store so transcripts and reports
+ * survive the end of the call. Sessions without any messages are never stored.
+ */
+export default function useSessionRecorder({
+  sessionStarted,
+  language,
+  voiceBase,
+  roomName,
+  messages,
+  reports,
+}: UseSessionRecorderOptions) {
+  const sessionRef = useRef<StoredSession | null>(null);
+  // The pending debounced write, which must not land after the final one
+  const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  // Read when a call starts; changes mid-call update the existing record below
+  const settingsRef = useRef({ language, voiceBase });
+  useEffect(() => {
+    settingsRef.current = { language, voiceBase };
+  }, [language, voiceBase]);
+
+  // Open a new record when a call starts, and close it when the call ends
+  useEffect(() => {
+    if (!sessionStarted) return;
+
+    sessionRef.current = {
+      id: crypto.randomUUID(),
+      startedAt: Date.now(),
+      ...settingsRef.current,
+      messages: [],
+      report: null,
+      reports: [],
+    };
+
+    return () => {
+      const session = sessionRef.current;
+      sessionRef.current = null;
+      clearTimeout(saveTimeoutRef.current);
+      if (session && session.messages.length > 0) {
+        persist({ ...session, endedAt: Date.now() });
+      }
+    };
+  }, [sessionStarted]);
+
+  useEffect(() => {
+    const session = sessionRef.current;
+    if (!session) return;
+
+    session.language = language;
+    session.voiceBase = voiceBase;
+    session.roomName = roomName || session.roomName;
+    // Like messages, only keep reports received after this call started
+    const sessionReports = reports.filter((version) => version.receivedAt >= session.startedAt);
+    if (sessionReports.length > 0) {
+      session.reports = sessionReports;
+      session.report = sessionReports[sessionReports.length - 1].report;
+    }
+    // The room is reused between calls, so skip anything left over from a previous one
+    const sessionMessages = messages.filter((message) => message.timestamp >= session.startedAt);
+    if (sessionMessages.length > 0) {
+      session.messages = sessionMessages.map((message) => ({
+        id: message.id,
+        timestamp: message.timestamp,
+        role: message.from?.isLocal ? 'user' : 'assistant',
+        text: message.message,
+        attachments: message.attachedFiles?.map(({ name, type, size }) => ({ name, type, size })),
+      }));
+    }
+
+    if (session.messages.length === 0) return;
+
+    saveTimeoutRef.current = setTimeout(() => persist({ ...session }), SAVE_DEBOUNCE_MS);
+    return () => clearTimeout(saveTimeoutRef.current);
+  }, [messages, reports, language, voiceBase, roomName]);
+}
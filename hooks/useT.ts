@@ -0,0 +1,17 @@
+import { createContext, useContext, useMemo } from 'react';
+import { DEFAULT_LANGUAGE, type Translate, createTranslator } from '@/lib/i18n';
+import { type LanguageDefinition, getLanguage } from '@/lib/languages';
+
+/** The UI language, provided by `App` from the language picked on the welcome screen. */
+export const LanguageContext = createContext<LanguageDefinition>(getLanguage(DEFAULT_LANGUAGE));
+
+/** Translation function for the current UI language. */
+export default function useT(): Translate {
+  const { code, locale } = useContext(LanguageContext);
+  return useMemo(() => createTranslator(code, locale), [code, locale]);
+}
+
+/** BCP 47 locale for the current UI language, for `Intl` date and number formatting. */
+export function useLocale() {
+  return useContext(LanguageContext).locale;
+}
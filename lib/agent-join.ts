@@ -0,0 +1,71 @@
+import { ApiError } from './api-error';
+import type { MessageKey } from './i18n';
+
+/**
+ * Why a call could not be started:
+ * - `agent-did-not-join`: connected, but no agent came into the room in time
+ * - `agent-did-not-initialize`: the agent joined but did not get ready in time
+ * - `dispatch-failed`: the server could not send an agent to the room
+ * - `connect-failed`: the connection details or the room could not be reached
+ */
+export type JoinFailureReason =
+  | 'agent-did-not-join'
+  | 'agent-did-not-initialize'
+  | 'dispatch-failed'
+  | 'connect-failed';
+
+export const JOIN_FAILURE_MESSAGES: Record<JoinFailureReason, MessageKey> = {
+  'agent-did-not-join': 'joinFailure.agentDidNotJoin',
+  'agent-did-not-initialize': 'joinFailure.agentDidNotInitialize',
+  'dispatch-failed': 'joinFailure.dispatchFailed',
+  'connect-failed': 'joinFailure.connectFailed',
+};
+
+export interface JoinFailure {
+  reason: JoinFailureReason;
+  /** Shown instead of the reason's own text, e.g. an already translated API error. */
+  message?: string;
+  /** Technical details for a problem report. */
+  detail?: string;
+  roomName?: string;
+  /** In epoch milliseconds. */
+  at: number;
+}
+
+export function joinFailureFromError(error: unknown, roomName?: string): JoinFailure {
+  const at = Date.now();
+  if (error instanceof ApiError) {
+    return {
+      reason: error.code === 'agent_dispatch_failed' ? 'dispatch-failed' : 'connect-failed',
+      message: error.message,
+      detail: `${error.name} ${error.status} ${error.code}`,
+      roomName,
+      at,
+    };
+  }
+  const detail = error instanceof Error ? `${error.name}: ${error.message}` : String(error);
+  return { reason: 'connect-failed', detail, roomName, at };
+}
+
+/** Plain-text summary of a failure for support, in English whatever the UI language. */
+export function describeJoinFailure(failure: JoinFailure) {
+  return [
+    `Reason: ${failure.reason}`,
+    failure.detail && `Details: ${failure.detail}`,
+    failure.roomName && `Room: ${failure.roomName}`,
+    `Time: ${new Date(failure.at).toISOString()}`,
+    `Page: ${window.location.href}`,
+    `Browser: ${navigator.userAgent}`,
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+export function problemReportUrl(email: string, failure: JoinFailure) {
+  const params = new URLSearchParams({
+    subject: `Could not start a call (${failure.reason})`,
+    body: describeJoinFailure(failure),
+  });
+  // URLSearchParams encodes spaces as "+", which mail clients show literally
+  return `mailto:${email}?${params.toString().replace(/\+/g, '%20')}`;
+}
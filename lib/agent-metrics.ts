@@ -0,0 +1,182 @@
+import type { AgentState } from '@livekit/components-react';
+import type { MessageKey } from './i18n';
+import { downloadBlob } from './utils';
+
+/**
+ * What the metrics are derived from, each stamped with the local time it was observed, in epoch
+ * milliseconds:
+ * - `state`: the agent changed state
+ * - `user-done`: the user stopped speaking, as detected in the browser, or sent a chat message
+ * - `agent-audio`: the agent's audio started being heard
+ * - `report`: a diagnostic report arrived in full
+ */
+export type MetricsEvent =
+  | { type: 'state'; state: AgentState; at: number }
+  | { type: 'user-done'; at: number }
+  | { type: 'agent-audio'; at: number }
+  | { type: 'report'; id: string; at: number };
+
+export interface StateSpan {
+  state: AgentState;
+  start: number;
+  /** Unset for the current state. */
+  end?: number;
+}
+
+/** One user turn answered by the agent, starting when the agent began thinking. */
+export interface TurnMetrics {
+  /** From 1. */
+  turn: number;
+  userDoneAt?: number;
+  thinkingAt: number;
+  speakingAt?: number;
+  firstAudioAt?: number;
+  reportAt?: number;
+  /** End of the user's turn to the agent deciding it was over. */
+  endOfTurnMs?: number;
+  /** End of the user's turn to the agent's first audio being heard. */
+  responseLatencyMs?: number;
+  /** End of the user's turn to a diagnostic report arriving. */
+  reportDeliveryMs?: number;
+}
+
+export type TurnMetricName = 'endOfTurnMs' | 'responseLatencyMs' | 'reportDeliveryMs';
+
+export const TURN_METRICS: { name: TurnMetricName; label: MessageKey }[] = [
+  { name: 'endOfTurnMs', label: 'metrics.endOfTurn' },
+  { name: 'responseLatencyMs', label: 'metrics.responseLatency' },
+  { name: 'reportDeliveryMs', label: 'metrics.reportDelivery' },
+];
+
+export interface MetricSummary {
+  count: number;
+  mean: number;
+  p50: number;
+  p95: number;
+  max: number;
+}
+
+export function stateSpans(events: MetricsEvent[]): StateSpan[] {
+  const spans: StateSpan[] = [];
+  for (const event of events) {
+    if (event.type !== 'state') continue;
+    const current = spans.at(-1);
+    if (current?.state === event.state) continue;
+    if (current) current.end = event.at;
+    spans.push({ state: event.state, start: event.at });
+  }
+  return spans;
+}
+
+/**
+ * Splits the session into turns at each time the agent started thinking. A turn's user input is
+ * the last one since the previous turn started, so a greeting or a reply the user did not prompt
+ * has no end-of-turn or response latency.
+ */
+export function computeTurns(events: MetricsEvent[]): TurnMetrics[] {
+  const turns: TurnMetrics[] = [];
+  let userDoneAt: number | undefined;
+  let previousState: AgentState | undefined;
+
+  for (const event of events) {
+    const turn = turns.at(-1);
+    switch (event.type) {
+      case 'user-done':
+        userDoneAt = event.at;
+        break;
+      case 'state':
+        if (event.state === 'thinking' && previousState !== 'thinking') {
+          turns.push({ turn: turns.length + 1, userDoneAt, thinkingAt: event.at });
+          userDoneAt = undefined;
+        } else if (event.state === 'speaking' && turn && turn.speakingAt === undefined) {
+          turn.speakingAt = event.at;
+        }
+        previousState = event.state;
+        break;
+      case 'agent-audio':
+        if (turn && turn.firstAudioAt === undefined) turn.firstAudioAt = event.at;
+        break;
+      case 'report':
+        if (turn && turn.reportAt === undefined) turn.reportAt = event.at;
+        break;
+    }
+  }
+
+  return turns.map((turn) => {
+    const since = (at?: number) =>
+      turn.userDoneAt !== undefined && at !== undefined ? at - turn.userDoneAt : undefined;
+    return {
+      ...turn,
+      endOfTurnMs: since(turn.thinkingAt),
+      responseLatencyMs: since(turn.firstAudioAt ?? turn.speakingAt),
+      reportDeliveryMs: since(turn.reportAt),
+    };
+  });
+}
+
+function percentile(sorted: number[], p: number) {
+  const index = Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1);
+  return sorted[Math.max(index, 0)];
+}
+
+export function summarizeMetric(turns: TurnMetrics[], name: TurnMetricName) {
+  const values = turns
+    .map((turn) => turn[name])
+    .filter((value): value is number => value !== undefined)
+    .sort((a, b) => a - b);
+  if (values.length === 0) return undefined;
+  return {
+    count: values.length,
+    mean: Math.round(values.reduce((sum, value) => sum + value, 0) / values.length),
+    p50: percentile(values, 50),
+    p95: percentile(values, 95),
+    max: values[values.length - 1],
+  } satisfies MetricSummary;
+}
+
+export interface MetricsExport {
+  version: 1;
+  exportedAt: string;
+  roomName?: string;
+  /** When recording started, in epoch milliseconds. */
+  startedAt?: number;
+  states: StateSpan[];
+  turns: TurnMetrics[];
+  summary: Partial<Record<TurnMetricName, MetricSummary>>;
+}
+
+export function buildMetricsExport(
+  events: MetricsEvent[],
+  roomName: string | undefined
+): MetricsExport {
+  const turns = computeTurns(events);
+  const summary: MetricsExport['summary'] = {};
+  for (const { name } of TURN_METRICS) {
+    const metric = summarizeMetric(turns, name);
+    if (metric) summary[name] = metric;
+  }
+  return {
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    roomName,
+    startedAt: events[0]?.at,
+    states: stateSpans(events),
+    turns,
+    summary,
+  };
+}
+
+export function metricsFileName(data: MetricsExport) {
+  const stamp = data.exportedAt.slice(0, 16).replace(/[-:]/g, '').replace('T', '-');
+  return `agent-metrics-${stamp}.json`;
+}
+
+export function exportMetrics(events: MetricsEvent[], roomName: string | undefined) {
+  const data = buildMetricsExport(events, roomName);
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  downloadBlob(blob, metricsFileName(data));
+}
+
+export function formatDuration(ms: number) {
+  return ms < 1_000 ? `${Math.round(ms)} ms` : `${(ms / 1_000).toFixed(2)} s`;
+}
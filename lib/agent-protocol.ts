@@ -0,0 +1,331 @@
+import type { WebSource, YouTubeVideo } from './types';
+
+/**
+ * Highest agent payload version this client understands. Payloads without a `version` field are
+ * treated as version 1, which covers every format the backend sent before versioning existed.
+ */
+export const AGENT_PROTOCOL_VERSION = 1;
+
+const TEXT_ONLY_PREFIX = 'TEXT_ONLY:';
+const VOICE_TEXT_PATTERN = /^VOICE:([\s\S]*?)\|\|\|TEXT:([\s\S]*)$/;
+
+export interface DiagnosticReport {
+  content: string;
+  web_sources: WebSource[];
+  youtube_videos: YouTubeVideo[];
+  has_external_sources?: boolean;
+}
+
+interface AgentMessageBase {
+  version: number;
+  raw: string;
+}
+
+/** Direct JSON payload: `{ "voice_output": "...", "text_output": { "content": "..." } }` */
+export interface StructuredAgentMessage extends AgentMessageBase {
+  kind: 'structured';
+  voice: string;
+  report: DiagnosticReport;
+}
+
+/** Legacy `VOICE:<spoken summary>|||TEXT:<report json or text>` payload */
+export interface VoiceTextAgentMessage extends AgentMessageBase {
+  kind: 'voice-text';
+  voice: string;
+  report: DiagnosticReport;
+}
+
+/** Streamed `TEXT_ONLY:<report json or text>` chunk, never shown in the chat transcript */
+export interface TextOnlyAgentMessage extends AgentMessageBase {
+  kind: 'text-only';
+  report: DiagnosticReport;
+}
+
+/** Anything else: regular chat text or user speech */
+export interface PlainAgentMessage extends AgentMessageBase {
+  kind: 'plain';
+  text: string;
+}
+
+export type AgentMessage =
+  | StructuredAgentMessage
+  | VoiceTextAgentMessage
+  | TextOnlyAgentMessage
+  | PlainAgentMessage;
+
+export type AgentMessageKind = AgentMessage['kind'];
+
+export type AgentProtocolErrorCode = 'invalid_json' | 'invalid_shape' | 'unsupported_version';
+
+export class AgentProtocolError extends Error {
+  readonly code: AgentProtocolErrorCode;
+  /** Dotted path to the offending field, e.g. `text_output.web_sources[2].url` */
+  readonly path: string;
+
+  constructor(code: AgentProtocolErrorCode, path: string, message: string) {
+    super(path ? `${path}: ${message}` : message);
+    this.name = 'AgentProtocolError';
+    this.code = code;
+    this.path = path;
+  }
+}
+
+export type DecodeResult =
+  | { ok: true; message: AgentMessage }
+  | { ok: false; message: AgentMessage; error: AgentProtocolError };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function joinPath(base: string, key: string | number) {
+  if (typeof key === 'number') return `${base}[${key}]`;
+  return base ? `${base}.${key}` : key;
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== 'string') {
+    throw new AgentProtocolError('invalid_shape', path, `expected string, got ${typeof value}`);
+  }
+  return value;
+}
+
+function validateVersion(value: unknown, path: string): number {
+  if (value === undefined) return 1;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+    throw new AgentProtocolError('invalid_shape', path, 'expected a positive integer');
+  }
+  if (value > AGENT_PROTOCOL_VERSION) {
+    throw new AgentProtocolError(
+      'unsupported_version',
+      path,
+      `version ${value} is newer than supported version ${AGENT_PROTOCOL_VERSION}`
+    );
+  }
+  return value;
+}
+
+function validateWebSource(value: unknown, path: string): WebSource {
+  if (!isRecord(value)) {
+    throw new AgentProtocolError('invalid_shape', path, 'expected object');
+  }
+  return {
+    url: expectString(value.url, joinPath(path, 'url')),
+    title: expectString(value.title ?? value.url, joinPath(path, 'title')),
+  };
+}
+
+function validateYouTubeVideo(value: unknown, path: string): YouTubeVideo {
+  if (!isRecord(value)) {
+    throw new AgentProtocolError('invalid_shape', path, 'expected object');
+  }
+  return {
+    url: expectString(value.url, joinPath(path, 'url')),
+    title: typeof value.title === 'string' ? value.title : '',
+    thumbnail: typeof value.thumbnail === 'string' ? value.thumbnail : '',
+    video_id: typeof value.video_id === 'string' ? value.video_id : '',
+  };
+}
+
+function validateList<T>(
+  value: unknown,
+  path: string,
+  validateItem: (item: unknown, path: string) => T
+): T[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    throw new AgentProtocolError('invalid_shape', path, 'expected array');
+  }
+  return value.map((item, index) => validateItem(item, joinPath(path, index)));
+}
+
+/**
+ * Validates a `text_output` object and normalizes optional lists to empty arrays.
+ * Throws an {@link AgentProtocolError} describing the first invalid field.
+ */
+export function validateReport(value: unknown, path = ''): DiagnosticReport {
+  if (!isRecord(value)) {
+    throw new AgentProtocolError('invalid_shape', path, 'expected object');
+  }
+  const report: DiagnosticReport = {
+    content: expectString(value.content, joinPath(path, 'content')),
+    web_sources: validateList(value.web_sources, joinPath(path, 'web_sources'), validateWebSource),
+    youtube_videos: validateList(
+      value.youtube_videos,
+      joinPath(path, 'youtube_videos'),
+      validateYouTubeVideo
+    ),
+  };
+  if (typeof value.has_external_sources === 'boolean') {
+    report.has_external_sources = value.has_external_sources;
+  }
+  return report;
+}
+
+function textReport(content: string): DiagnosticReport {
+  return { content, web_sources: [], youtube_videos: [] };
+}
+
+function plain(raw: string): PlainAgentMessage {
+  return { kind: 'plain', version: 1, raw, text: raw };
+}
+
+/**
+ * Plain message for a payload that failed validation: its spoken part when there is one, and never
+ * the protocol prefix.
+ */
+function fallback(raw: string): PlainAgentMessage {
+  if (raw.startsWith(TEXT_ONLY_PREFIX)) {
+    return { ...plain(raw), text: raw.slice(TEXT_ONLY_PREFIX.length).trim() };
+  }
+  const voiceText = raw.match(VOICE_TEXT_PATTERN);
+  if (voiceText) return { ...plain(raw), text: voiceText[1].trim() };
+
+  const parsed = tryParseJson(raw);
+  if (parsed.ok && isRecord(parsed.value) && typeof parsed.value.voice_output === 'string') {
+    return { ...plain(raw), text: parsed.value.voice_output };
+  }
+  return plain(raw);
+}
+
+function tryParseJson(raw: string): { ok: true; value: unknown } | { ok: false } {
+  try {
+    return { ok: true, value: JSON.parse(raw) };
+  } catch {
+    return { ok: false };
+  }
+}
+
+/**
+ * Decodes a report segment that may be either a JSON `text_output` object or free text. Free text
+ * is accepted as the report content, which matches what the backend sends for short answers.
+ */
+function decodeReportSegment(
+  segment: string,
+  path: string
+): { version: number; report: DiagnosticReport } {
+  const parsed = tryParseJson(segment);
+  if (!parsed.ok || !isRecord(parsed.value)) {
+    return { version: 1, report: textReport(segment.trim()) };
+  }
+  return {
+    version: validateVersion(parsed.value.version, joinPath(path, 'version')),
+    report: validateReport(parsed.value, path),
+  };
+}
+
+function decodeOrThrow(raw: string): AgentMessage {
+  if (raw.startsWith(TEXT_ONLY_PREFIX)) {
+    const payload = raw.slice(TEXT_ONLY_PREFIX.length).trim();
+    return { kind: 'text-only', raw, ...decodeReportSegment(payload, 'TEXT_ONLY') };
+  }
+
+  const voiceText = raw.match(VOICE_TEXT_PATTERN);
+  if (voiceText) {
+    return {
+      kind: 'voice-text',
+      raw,
+      voice: voiceText[1].trim(),
+      ...decodeReportSegment(voiceText[2], 'TEXT'),
+    };
+  }
+
+  const parsed = tryParseJson(raw);
+  if (!parsed.ok || !isRecord(parsed.value)) {
+    return plain(raw);
+  }
+
+  const value = parsed.value;
+  if (!('voice_output' in value) && !('text_output' in value)) {
+    // JSON that is not an agent envelope (e.g. a user typing `{}`) is just text.
+    return plain(raw);
+  }
+
+  return {
+    kind: 'structured',
+    version: validateVersion(value.version, 'version'),
+    raw,
+    voice: expectString(value.voice_output, 'voice_output'),
+    report: validateReport(value.text_output, 'text_output'),
+  };
+}
+
+/**
+ * Single entry point for interpreting any text the agent (or the local user) sends over the
+ * transcription and chat streams. Never throws: payloads that look like an agent format but fail
+ * validation fall back to a plain message without the protocol framing, and report why through
+ * `error`.
+ */
+export function decodeAgentMessage(raw: string): DecodeResult {
+  try {
+    return { ok: true, message: decodeOrThrow(raw) };
+  } catch (error) {
+    const protocolError =
+      error instanceof AgentProtocolError
+        ? error
+        : new AgentProtocolError('invalid_json', '', String(error));
+    return { ok: false, message: fallback(raw), error: protocolError };
+  }
+}
+
+/** Text to show in the chat transcript, or `null` when the message is report-only. */
+export function getChatText(message: AgentMessage): string | null {
+  switch (message.kind) {
+    case 'structured':
+    case 'voice-text':
+      return message.voice;
+    case 'text-only':
+      return null;
+    case 'plain':
+      return message.text;
+  }
+}
+
+/** The diagnostic report carried by a message, if any. */
+export function getReport(message: AgentMessage): DiagnosticReport | null {
+  return message.kind === 'plain' ? null : message.report;
+}
+
+// Report sources in order of preference, for a report sent in several formats: streamed TEXT_ONLY
+// chunks supersede the older VOICE|||TEXT envelope, which supersedes the legacy direct JSON payload.
+const REPORT_PRIORITY: AgentMessageKind[] = ['text-only', 'voice-text', 'structured'];
+
+/** One diagnostic report received during a session. */
+export interface ReportVersion {
+  /** Id of the chat message that carried the report. */
+  id: string;
+  receivedAt: number;
+  report: DiagnosticReport;
+}
+
+/**
+ * Every report received in a session, oldest first, whatever payload format carried it. When the
+ * same report arrives in more than one format, e.g. as TEXT_ONLY and in a VOICE|||TEXT envelope, it
+ * is listed once, from the most preferred format. A report repeated without changes in the same
+ * format is only kept once.
+ */
+export function findReportHistory(
+  messages: { id: string; timestamp: number; message: AgentMessage }[]
+): ReportVersion[] {
+  const history: (ReportVersion & { kind: AgentMessageKind })[] = [];
+  for (const { id, timestamp, message } of messages) {
+    const report = getReport(message);
+    if (!report) continue;
+
+    const { kind } = message;
+    const last = history.at(-1);
+    if (last?.kind === kind && last.report.content === report.content) continue;
+
+    const sameReport = history.find(
+      (entry) => entry.kind !== kind && entry.report.content === report.content
+    );
+    if (sameReport) {
+      if (REPORT_PRIORITY.indexOf(kind) < REPORT_PRIORITY.indexOf(sameReport.kind)) {
+        Object.assign(sameReport, { id, kind, report });
+      }
+      continue;
+    }
+    history.push({ id, receivedAt: timestamp, report, kind });
+  }
+  return history.map(({ id, receivedAt, report }) => ({ id, receivedAt, report }));
+}
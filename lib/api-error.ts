@@ -0,0 +1,57 @@
+export type ApiErrorCode =
+  | 'unauthorized'
+  | 'rate_limited'
+  | 'invalid_resume'
+  | 'not_found'
+  | 'server_misconfigured'
+  | 'agent_dispatch_failed'
+  | 'internal_error';
+
+/** JSON body of every non-2xx response from the app's API routes. */
+export interface ApiErrorBody {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+    /** Seconds to wait before retrying, mirrored from the `Retry-After` header. */
+    retryAfter?: number;
+  };
+}
+
+/** An API error response decoded on the client. */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: ApiErrorCode;
+  readonly retryAfter?: number;
+
+  constructor(status: number, body: ApiErrorBody['error']) {
+    super(body.message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = body.code;
+    this.retryAfter = body.retryAfter;
+  }
+}
+
+/**
+ * Builds an {@link ApiError} from a failed response. Falls back to the status text when the body
+ * is not a structured error, e.g. when a proxy in front of the app answered.
+ */
+export async function readApiError(res: Response): Promise<ApiError> {
+  const text = await res.text();
+  try {
+    const body = JSON.parse(text) as Partial<ApiErrorBody>;
+    if (body.error && typeof body.error.message === 'string') {
+      return new ApiError(res.status, body.error);
+    }
+  } catch {
+    // Not JSON; handled below
+  }
+
+  const retryAfter = Number(res.headers.get('retry-after')) || undefined;
+  return new ApiError(res.status, {
+    code:
+      res.status === 401 ? 'unauthorized' : res.status === 429 ? 'rate_limited' : 'internal_error',
+    message: text || res.statusText,
+    retryAfter,
+  });
+}
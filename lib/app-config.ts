@@ -0,0 +1,312 @@
+import { cache } from 'react';
+import { APP_CONFIG_DEFAULTS } from '@/app-config';
+import {
+  type Schema,
+  type SchemaIssue,
+  array,
+  atLeast,
+  boolean,
+  matches,
+  number,
+  object,
+  oneOf,
+  optional,
+  partial,
+  record,
+  string,
+  stringList,
+} from './config-schema';
+import { LOCALE_PATTERN } from './languages';
+import type { AppConfig, SandboxConfig } from './types';
+
+export const CONFIG_ENDPOINT = process.env.NEXT_PUBLIC_APP_CONFIG_ENDPOINT;
+export const SANDBOX_ID = process.env.SANDBOX_ID;
+
+const CACHE_TTL_MS = Number(process.env.APP_CONFIG_CACHE_TTL ?? 60) * 1000;
+// Retry a failing config endpoint sooner, but not on every request
+const FAILURE_CACHE_TTL_MS = Math.min(CACHE_TTL_MS, 10_000);
+
+// Shorter than any agent takes to join, so such an override would fail every call
+const MIN_AGENT_JOIN_TIMEOUT_SECONDS = 5;
+
+// Colours end up in a <style> tag, so only allow characters that cannot close the rule
+const color = () => matches(/^[#\w\s(),.%/-]+$/, 'CSS colour');
+
+const paletteSchema = object({
+  backgroundFrom: color(),
+  backgroundVia: color(),
+  backgroundTo: color(),
+  buttonFrom: color(),
+  buttonTo: color(),
+  ring: color(),
+});
+
+const welcomeSchema = object({
+  title: string(),
+  tagline: optional(record(string())),
+  startButton: optional(record(string())),
+  background: optional(string()),
+});
+
+const brandingSchema = object({
+  companyUrl: optional(string()),
+  favicon: optional(string()),
+  openGraphImage: optional(string()),
+  palette: paletteSchema,
+  welcome: welcomeSchema,
+});
+
+const brandingOverridesSchema = object({
+  companyUrl: optional(string()),
+  favicon: optional(string()),
+  openGraphImage: optional(string()),
+  pageTitle: optional(string()),
+  pageDescription: optional(string()),
+  companyName: optional(string()),
+  logo: optional(string()),
+  logoDark: optional(string()),
+  accent: optional(color()),
+  accentDark: optional(color()),
+  palette: optional(partial(paletteSchema)),
+  welcome: optional(partial(welcomeSchema)),
+});
+
+const attachmentsSchema = object({
+  enabled: boolean(),
+  maxFileSizeMb: number(),
+  maxFiles: number(),
+  acceptedTypes: stringList(),
+});
+
+const languageOverrideSchema = partial(
+  object({
+    label: string(),
+    englishName: string(),
+    locale: matches(LOCALE_PATTERN, 'BCP 47 locale such as "gu-IN"'),
+    dir: oneOf(['ltr', 'rtl']),
+    // Font families end up in the page's `font-family`, e.g. `var(--font-noto-gujarati)`
+    fonts: array(matches(/^[\w\s(),'"-]+$/, 'font family')),
+    ttsVoice: string(),
+  })
+);
+
+const tenantSchema = object({
+  branding: string(),
+  hosts: optional(stringList()),
+  pathPrefix: optional(matches(/^\/[\w-]+$/, 'path prefix such as "/acme"')),
+  sandboxIds: optional(stringList()),
+});
+
+/** Schema for each `AppConfig` key a remote config may override. */
+const APP_CONFIG_SCHEMA: { [K in keyof AppConfig]-?: Schema<NonNullable<AppConfig[K]>> } = {
+  pageTitle: string(),
+  pageDescription: string(),
+  companyName: string(),
+
+  supportsChatInput: boolean(),
+  supportsVideoInput: boolean(),
+  supportsScreenShare: boolean(),
+  isPreConnectBufferEnabled: boolean(),
+  isPreflightEnabled: boolean(),
+  isMetricsPanelEnabled: boolean(),
+  agentJoinTimeoutSeconds: atLeast(MIN_AGENT_JOIN_TIMEOUT_SECONDS),
+  supportEmail: optional(string()),
+  languages: stringList(),
+  languageOverrides: record(languageOverrideSchema),
+  attachments: attachmentsSchema,
+
+  logo: string(),
+  startButtonText: string(),
+  accent: optional(color()),
+  logoDark: optional(string()),
+  accentDark: optional(color()),
+
+  branding: brandingSchema,
+  brandings: record(brandingOverridesSchema),
+  tenants: array(tenantSchema),
+};
+
+export interface AppConfigDiagnostics {
+  source: 'defaults' | 'remote';
+  sandboxId?: string;
+  /** When the remote config was fetched, in epoch milliseconds. */
+  fetchedAt?: number;
+  /** Keys from the remote config that were not applied, and why. */
+  rejected: SchemaIssue[];
+  /** Why the remote config could not be used at all; the defaults were served instead. */
+  error?: string;
+}
+
+export interface AppConfigResult {
+  config: AppConfig;
+  diagnostics: AppConfigDiagnostics;
+}
+
+/** Sandbox entries are `{ type, value }` pairs; plain JSON values are accepted as well. */
+function unwrapEntry(entry: SandboxConfig[string] | unknown): unknown {
+  if (
+    typeof entry === 'object' &&
+    entry !== null &&
+    !Array.isArray(entry) &&
+    'type' in entry &&
+    'value' in entry
+  ) {
+    return entry.value;
+  }
+  return entry;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function deepMerge(base: unknown, override: unknown): unknown {
+  if (!isPlainObject(base) || !isPlainObject(override)) return override;
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] = deepMerge(base[key], value);
+  }
+  return merged;
+}
+
+/**
+ * Applies a remote config on top of the defaults. Every key is validated against its schema;
+ * unknown keys and invalid values are left out and reported. Nested objects are merged with
+ * their defaults, so a remote config only needs to send the properties it changes.
+ */
+export function mergeAppConfig(
+  defaults: AppConfig,
+  remote: unknown
+): { config: AppConfig; rejected: SchemaIssue[] } {
+  const rejected: SchemaIssue[] = [];
+  if (!isPlainObject(remote)) {
+    rejected.push({ path: '', reason: 'expected an object of config entries' });
+    return { config: defaults, rejected };
+  }
+
+  const config: Record<string, unknown> = { ...defaults };
+  for (const [key, entry] of Object.entries(remote)) {
+    if (entry === null) continue;
+    if (!(key in APP_CONFIG_SCHEMA)) {
+      rejected.push({ path: key, reason: 'unknown key' });
+      continue;
+    }
+
+    const schema = APP_CONFIG_SCHEMA[key as keyof AppConfig] as Schema<unknown>;
+    const parsed = schema.parse(deepMerge(config[key], unwrapEntry(entry)), key, rejected);
+    if (parsed !== undefined) config[key] = parsed;
+  }
+  return { config: config as unknown as AppConfig, rejected };
+}
+
+function logDiagnostics({ sandboxId, rejected, error }: AppConfigDiagnostics) {
+  if (error) {
+    console.error(`[app-config] Using defaults, sandbox "${sandboxId ?? ''}" failed: ${error}`);
+  }
+  if (rejected.length > 0) {
+    console.warn(
+      `[app-config] Ignored ${rejected.length} value(s) from sandbox "${sandboxId ?? ''}":\n` +
+        rejected.map(({ path, reason }) => `  ${path || '(root)'}: ${reason}`).join('\n')
+    );
+  }
+}
+
+async function fetchAppConfig(endpoint: string, sandboxId: string): Promise<AppConfigResult> {
+  const fetchedAt = Date.now();
+  try {
+    const response = await fetch(endpoint, {
+      cache: 'no-store',
+      headers: { 'X-Sandbox-ID': sandboxId },
+    });
+    if (!response.ok) {
+      throw new Error(`${endpoint} responded with ${response.status} ${response.statusText}`);
+    }
+
+    const { config, rejected } = mergeAppConfig(APP_CONFIG_DEFAULTS, await response.json());
+    return { config, diagnostics: { source: 'remote', sandboxId, fetchedAt, rejected } };
+  } catch (error) {
+    return {
+      config: APP_CONFIG_DEFAULTS,
+      diagnostics: {
+        source: 'defaults',
+        sandboxId,
+        fetchedAt,
+        rejected: [],
+        error: error instanceof Error ? error.message : String(error),
+      },
+    };
+  }
+}
+
+// Sandbox ids can come from a request header, so only well-formed ones, and only those listed in
+// `APP_CONFIG_SANDBOX_IDS` when it is set, are fetched and cached
+const SANDBOX_ID_PATTERN = /^[\w-]{1,64}$/;
+const ALLOWED_SANDBOX_IDS = process.env.APP_CONFIG_SANDBOX_IDS
+  ? new Set(process.env.APP_CONFIG_SANDBOX_IDS.split(',').map((id) => id.trim()))
+  : null;
+const MAX_CACHED_SANDBOXES = 100;
+
+type CachedResponse = { expiresAt: number; result: Promise<AppConfigResult> };
+const responseCache = new Map<string, CachedResponse>();
+
+function cacheResponse(sandboxId: string, entry: CachedResponse) {
+  responseCache.delete(sandboxId);
+  if (responseCache.size >= MAX_CACHED_SANDBOXES) {
+    const now = Date.now();
+    for (const [id, { expiresAt }] of responseCache) {
+      if (expiresAt <= now) responseCache.delete(id);
+    }
+    // Map keeps insertion order, so this drops the entry written longest ago
+    if (responseCache.size >= MAX_CACHED_SANDBOXES) {
+      responseCache.delete(responseCache.keys().next().value!);
+    }
+  }
+  responseCache.set(sandboxId, entry);
+}
+
+/**
+ * The effective config and how it was put together. Remote configs are cached per sandbox for
+ * `APP_CONFIG_CACHE_TTL` seconds (default 60), for up to 100 sandboxes; concurrent requests share
+ * one fetch.
+ */
+export async function loadAppConfig(headers: Headers): Promise<AppConfigResult> {
+  if (!CONFIG_ENDPOINT) {
+    return { config: APP_CONFIG_DEFAULTS, diagnostics: { source: 'defaults', rejected: [] } };
+  }
+
+  const sandboxId = SANDBOX_ID ?? headers.get('x-sandbox-id') ?? '';
+  if (!sandboxId) {
+    return {
+      config: APP_CONFIG_DEFAULTS,
+      diagnostics: { source: 'defaults', rejected: [], error: 'Sandbox ID is required' },
+    };
+  }
+  if (
+    !SANDBOX_ID_PATTERN.test(sandboxId) ||
+    (ALLOWED_SANDBOX_IDS && !ALLOWED_SANDBOX_IDS.has(sandboxId))
+  ) {
+    return {
+      config: APP_CONFIG_DEFAULTS,
+      diagnostics: { source: 'defaults', rejected: [], error: 'Unknown sandbox ID' },
+    };
+  }
+
+  const cached = responseCache.get(sandboxId);
+  if (cached && cached.expiresAt > Date.now()) return cached.result;
+
+  const result = fetchAppConfig(CONFIG_ENDPOINT, sandboxId).then((value) => {
+    logDiagnostics(value.diagnostics);
+    const ttl = value.diagnostics.error ? FAILURE_CACHE_TTL_MS : CACHE_TTL_MS;
+    cacheResponse(sandboxId, { expiresAt: Date.now() + ttl, result: Promise.resolve(value) });
+    return value;
+  });
+  // Until the fetch settles, later requests wait for it instead of starting their own
+  cacheResponse(sandboxId, { expiresAt: Infinity, result });
+  return result;
+}
+
+// https://react.dev/reference/react/cache#caveats
+// > React will invalidate the cache for all memoized functions for each server request.
+export const getAppConfig = cache(
+  async (headers: Headers): Promise<AppConfig> => (await loadAppConfig(headers)).config
+);
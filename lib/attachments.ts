@@ -0,0 +1,60 @@
+import type { AttachmentLimits } from './types';
+
+/** `type`: not an accepted file type; `size`: over the size limit; `count`: one file too many. */
+export type AttachmentErrorReason = 'type' | 'size' | 'count';
+
+export class AttachmentError extends Error {
+  readonly reason: AttachmentErrorReason;
+  readonly fileName: string;
+
+  constructor(reason: AttachmentErrorReason, fileName: string) {
+    super(`${fileName}: ${reason} not allowed`);
+    this.name = 'AttachmentError';
+    this.reason = reason;
+    this.fileName = fileName;
+  }
+}
+
+/** Matches a file against `accept`-style entries: exact MIME types, `type/*` or `.ext`. */
+export function isAcceptedType(file: File, acceptedTypes: string[]) {
+  if (acceptedTypes.length === 0) return true;
+  const mimeType = file.type.toLowerCase();
+  const name = file.name.toLowerCase();
+  return acceptedTypes.some((accepted) => {
+    const entry = accepted.trim().toLowerCase();
+    if (entry.startsWith('.')) return name.endsWith(entry);
+    if (entry.endsWith('/*')) return mimeType.startsWith(entry.slice(0, -1));
+    return mimeType === entry;
+  });
+}
+
+/**
+ * Splits newly added files into those that can be attached and errors for the rest. Files already
+ * attached to the message count towards `maxFiles`.
+ */
+export function checkAttachments(files: File[], attachedCount: number, limits: AttachmentLimits) {
+  const accepted: File[] = [];
+  const errors: AttachmentError[] = [];
+  for (const file of files) {
+    if (!isAcceptedType(file, limits.acceptedTypes)) {
+      errors.push(new AttachmentError('type', file.name));
+    } else if (file.size > limits.maxFileSizeMb * 1024 * 1024) {
+      errors.push(new AttachmentError('size', file.name));
+    } else if (attachedCount + accepted.length >= limits.maxFiles) {
+      errors.push(new AttachmentError('count', file.name));
+    } else {
+      accepted.push(file);
+    }
+  }
+  return { accepted, errors };
+}
+
+export function isImageFile(file: Pick<File, 'type'>) {
+  return file.type.startsWith('image/');
+}
+
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
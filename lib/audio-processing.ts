@@ -0,0 +1,211 @@
+import type { AudioProcessorOptions, Room, Track, TrackProcessor } from 'livekit-client';
+import type { MessageKey } from './i18n';
+
+export type AudioProcessor = TrackProcessor<Track.Kind.Audio, AudioProcessorOptions>;
+
+/** Local processing applied to the microphone before it is published. */
+export interface AudioProcessingSettings {
+  /** Cut rumble from compressors and idling engines below `highPassFrequency` (Hz). */
+  highPassFilter: boolean;
+  highPassFrequency: number;
+  /** Silence the microphone while its level stays below `noiseGateThreshold` (dBFS). */
+  noiseGate: boolean;
+  noiseGateThreshold: number;
+  /** Krisp noise suppression. Only works when connected to LiveKit Cloud. */
+  noiseSuppression: boolean;
+}
+
+export type AudioProcessingToggle = 'highPassFilter' | 'noiseGate' | 'noiseSuppression';
+
+export const AUDIO_PROCESSING_TOGGLES: { key: AudioProcessingToggle; label: MessageKey }[] = [
+  { key: 'highPassFilter', label: 'audioProcessing.highPassFilter' },
+  { key: 'noiseGate', label: 'audioProcessing.noiseGate' },
+  { key: 'noiseSuppression', label: 'audioProcessing.noiseSuppression' },
+];
+
+export const DEFAULT_AUDIO_PROCESSING_SETTINGS: AudioProcessingSettings = {
+  highPassFilter: true,
+  highPassFrequency: 120,
+  noiseGate: false,
+  noiseGateThreshold: -50,
+  noiseSuppression: false,
+};
+
+// Stored next to `usePersistentUserChoices`, which would overwrite fields of its own key
+const STORAGE_KEY = 'lk-user-choices-audio-processing';
+
+export function loadAudioProcessingSettings(): AudioProcessingSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    const settings = { ...DEFAULT_AUDIO_PROCESSING_SETTINGS };
+    for (const key of Object.keys(settings) as (keyof AudioProcessingSettings)[]) {
+      if (typeof stored[key] === typeof settings[key]) {
+        (settings as Record<string, unknown>)[key] = stored[key];
+      }
+    }
+    return settings;
+  } catch {
+    return DEFAULT_AUDIO_PROCESSING_SETTINGS;
+  }
+}
+
+export function saveAudioProcessingSettings(settings: AudioProcessingSettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Failed to save audio processing settings:', error);
+  }
+}
+
+const NOISE_GATE_PROCESSOR = 'allion-noise-gate';
+
+// Runs on the audio thread, so the gate keeps working while the tab is in the background.
+// Opens within ~5ms of the level crossing the threshold, and closes smoothly once it has stayed
+// below for the hold time, so word endings are not clipped.
+const NOISE_GATE_WORKLET = `
+const HOLD_SECONDS = 0.25;
+const ATTACK = 1 - Math.exp(-1 / (sampleRate * 0.005));
+const RELEASE = 1 - Math.exp(-1 / (sampleRate * 0.08));
+
+class NoiseGate extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [{ name: 'threshold', defaultValue: -50, maxValue: 0 }];
+  }
+
+  gain = 0;
+  openUntil = 0;
+
+  process([input], [output], { threshold }) {
+    if (!input || input.length === 0) return true;
+    const samples = input[0];
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+    const level = 10 * Math.log10(sum / samples.length + 1e-12);
+    if (level > threshold[0]) this.openUntil = currentTime + HOLD_SECONDS;
+
+    const target = currentTime < this.openUntil ? 1 : 0;
+    const rate = target > this.gain ? ATTACK : RELEASE;
+    for (let i = 0; i < samples.length; i++) {
+      this.gain += (target - this.gain) * rate;
+      for (let channel = 0; channel < output.length; channel++) {
+        output[channel][i] = (input[channel] ?? samples)[i] * this.gain;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('${NOISE_GATE_PROCESSOR}', NoiseGate);
+`;
+
+const noiseGateModules = new WeakMap<BaseAudioContext, Promise<void>>();
+
+function loadNoiseGate(audioContext: BaseAudioContext) {
+  let loading = noiseGateModules.get(audioContext);
+  if (!loading) {
+    const url = URL.createObjectURL(new Blob([NOISE_GATE_WORKLET], { type: 'text/javascript' }));
+    loading = audioContext.audioWorklet.addModule(url).finally(() => URL.revokeObjectURL(url));
+    noiseGateModules.set(audioContext, loading);
+  }
+  return loading;
+}
+
+/** High-pass filter and noise gate, as a Web Audio graph between the mic and the published track. */
+export function createFilterProcessor(settings: AudioProcessingSettings): AudioProcessor {
+  let nodes: AudioNode[] = [];
+
+  const processor: AudioProcessor = {
+    name: 'allion-audio-filter',
+    async init({ track, audioContext }) {
+      const chain: AudioNode[] = [audioContext.createMediaStreamSource(new MediaStream([track]))];
+      if (settings.highPassFilter) {
+        chain.push(
+          new BiquadFilterNode(audioContext, {
+            type: 'highpass',
+            frequency: settings.highPassFrequency,
+          })
+        );
+      }
+      if (settings.noiseGate) {
+        await loadNoiseGate(audioContext);
+        chain.push(
+          new AudioWorkletNode(audioContext, NOISE_GATE_PROCESSOR, {
+            parameterData: { threshold: settings.noiseGateThreshold },
+          })
+        );
+      }
+      const destination = audioContext.createMediaStreamDestination();
+      chain.push(destination);
+      for (let i = 1; i < chain.length; i++) chain[i - 1].connect(chain[i]);
+
+      nodes = chain;
+      processor.processedTrack = destination.stream.getAudioTracks()[0];
+    },
+    async restart(opts) {
+      await processor.destroy();
+      await processor.init(opts);
+    },
+    async destroy() {
+      nodes.forEach((node) => node.disconnect());
+      nodes = [];
+      processor.processedTrack?.stop();
+      processor.processedTrack = undefined;
+    },
+  };
+  return processor;
+}
+
+/** Runs processors one after another, each on the output of the one before. */
+export function chainProcessors(processors: AudioProcessor[]): AudioProcessor {
+  const run = async (opts: AudioProcessorOptions, step: 'init' | 'restart') => {
+    let track = opts.track;
+    for (const processor of processors) {
+      await processor[step]({ ...opts, track });
+      track = processor.processedTrack ?? track;
+    }
+    chain.processedTrack = track;
+  };
+
+  const chain: AudioProcessor = {
+    name: processors.map((processor) => processor.name).join('+'),
+    init: (opts) => run(opts, 'init'),
+    restart: (opts) => run(opts, 'restart'),
+    async destroy() {
+      await Promise.all(processors.map((processor) => processor.destroy()));
+      chain.processedTrack = undefined;
+    },
+    async onPublish(room: Room) {
+      await Promise.all(processors.map((processor) => processor.onPublish?.(room)));
+    },
+    async onUnpublish() {
+      await Promise.all(processors.map((processor) => processor.onUnpublish?.()));
+    },
+  };
+  return chain;
+}
+
+/**
+ * The processor for the given settings, or `undefined` if they turn all processing off. Noise
+ * suppression runs first, so the gate measures the level of what is left after it.
+ */
+export async function createAudioProcessor(
+  settings: AudioProcessingSettings
+): Promise<AudioProcessor | undefined> {
+  const processors: AudioProcessor[] = [];
+  if (settings.noiseSuppression) {
+    const { KrispNoiseFilter, isKrispNoiseFilterSupported } = await import(
+      '@livekit/krisp-noise-filter'
+    );
+    if (isKrispNoiseFilterSupported()) {
+      processors.push(KrispNoiseFilter());
+    } else {
+      console.warn('Noise suppression is not supported in this browser');
+    }
+  }
+  if (settings.highPassFilter || settings.noiseGate) {
+    processors.push(createFilterProcessor(settings));
+  }
+
+  if (processors.length <= 1) return processors[0];
+  return chainProcessors(processors);
+}
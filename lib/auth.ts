@@ -0,0 +1,187 @@
+import { type JWTPayload, type JWTVerifyResult, createRemoteJWKSet, jwtVerify } from 'jose';
+
+/** The person requesting a LiveKit token, as established by an {@link AuthProvider}. */
+export interface AuthUser {
+  /** Stable id from the identity provider, e.g. the JWT `sub` claim. */
+  id: string;
+  displayName: string;
+  workshopId?: string;
+  technicianId?: string;
+}
+
+export interface AuthProvider {
+  readonly name: string;
+  /** Resolves the user behind a request, or `null` when it carries no valid credentials. */
+  authenticate(req: Request): Promise<AuthUser | null>;
+}
+
+/** Thrown when the configured provider cannot be used, as opposed to a request failing auth. */
+export class AuthConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthConfigError';
+  }
+}
+
+const DEFAULT_COOKIE_NAME = 'allion_session';
+
+function readCookie(req: Request, name: string): string | undefined {
+  const header = req.headers.get('cookie');
+  if (!header) return undefined;
+  for (const part of header.split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key !== name) continue;
+    try {
+      return decodeURIComponent(value.join('='));
+    } catch {
+      // A malformed cookie is treated as missing, so the request gets a 401 rather than a 500
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+function readBearerToken(req: Request): string | undefined {
+  const match = req.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i);
+  return match?.[1].trim();
+}
+
+function stringClaim(payload: JWTPayload, claim: string): string | undefined {
+  const value = payload[claim];
+  if (typeof value === 'string' && value.trim()) return value.trim();
+  if (typeof value === 'number') return String(value);
+  return undefined;
+}
+
+export interface JwtAuthOptions {
+  /** JWKS endpoint used to verify asymmetrically signed tokens. */
+  jwksUrl?: string;
+  /** Shared secret for HMAC-signed tokens. Used when no JWKS URL is set. */
+  secret?: string;
+  issuer?: string;
+  audience?: string;
+  /** Name of the signed session cookie checked when there is no `Authorization` header. */
+  cookieName?: string;
+  workshopClaim?: string;
+  technicianClaim?: string;
+}
+
+/**
+ * Accepts a JWT either as a bearer token or in a signed session cookie, verified against a JWKS
+ * endpoint or a shared secret.
+ */
+export function createJwtAuthProvider({
+  jwksUrl,
+  secret,
+  issuer,
+  audience,
+  cookieName = DEFAULT_COOKIE_NAME,
+  workshopClaim = 'workshop_id',
+  technicianClaim = 'technician_id',
+}: JwtAuthOptions): AuthProvider {
+  let verify: (token: string) => Promise<JWTVerifyResult>;
+  if (jwksUrl) {
+    // Keys are fetched lazily and cached by jose
+    const jwks = createRemoteJWKSet(new URL(jwksUrl));
+    verify = (token) => jwtVerify(token, jwks, { issuer, audience });
+  } else if (secret) {
+    const key = new TextEncoder().encode(secret);
+    verify = (token) => jwtVerify(token, key, { issuer, audience });
+  } else {
+    throw new AuthConfigError('AUTH_JWKS_URL or AUTH_JWT_SECRET must be set for JWT auth');
+  }
+
+  return {
+    name: 'jwt',
+    async authenticate(req) {
+      const token = readBearerToken(req) ?? readCookie(req, cookieName);
+      if (!token) return null;
+
+      try {
+        const { payload } = await verify(token);
+        if (!payload.sub) return null;
+
+        return {
+          id: payload.sub,
+          displayName:
+            stringClaim(payload, 'name') ??
+            stringClaim(payload, 'preferred_username') ??
+            stringClaim(payload, 'email') ??
+            payload.sub,
+          workshopId: stringClaim(payload, workshopClaim),
+          technicianId: stringClaim(payload, technicianClaim),
+        };
+      } catch (error) {
+        console.warn('Rejected auth token:', error instanceof Error ? error.message : error);
+        return null;
+      }
+    },
+  };
+}
+
+/**
+ * Development-only provider that signs every request in as the same local user, so the app can
+ * be run without an identity provider.
+ */
+export function createStubAuthProvider(user: Partial<AuthUser> = {}): AuthProvider {
+  if (process.env.NODE_ENV === 'production') {
+    throw new AuthConfigError('The stub auth provider cannot be used in production');
+  }
+
+  const stubUser: AuthUser = {
+    id: user.id ?? 'local-dev-user',
+    displayName: user.displayName ?? 'Local Developer',
+    workshopId: user.workshopId ?? 'local-workshop',
+    technicianId: user.technicianId ?? 'local-technician',
+  };
+  return {
+    name: 'stub',
+    authenticate: async () => stubUser,
+  };
+}
+
+let provider: AuthProvider | undefined;
+
+/**
+ * The provider selected by `AUTH_PROVIDER` (`jwt` or `stub`). Without it, development builds
+ * fall back to the stub and production builds refuse to hand out tokens.
+ */
+export function getAuthProvider(): AuthProvider {
+  if (provider) return provider;
+
+  const name =
+    process.env.AUTH_PROVIDER ?? (process.env.NODE_ENV === 'production' ? undefined : 'stub');
+  switch (name) {
+    case 'jwt':
+      provider = createJwtAuthProvider({
+        jwksUrl: process.env.AUTH_JWKS_URL || undefined,
+        secret: process.env.AUTH_JWT_SECRET || undefined,
+        issuer: process.env.AUTH_JWT_ISSUER || undefined,
+        audience: process.env.AUTH_JWT_AUDIENCE || undefined,
+        cookieName: process.env.AUTH_SESSION_COOKIE || undefined,
+        workshopClaim: process.env.AUTH_WORKSHOP_CLAIM || undefined,
+        technicianClaim: process.env.AUTH_TECHNICIAN_CLAIM || undefined,
+      });
+      break;
+    case 'stub':
+      provider = createStubAuthProvider({
+        id: process.env.AUTH_STUB_USER_ID || undefined,
+        displayName: process.env.AUTH_STUB_DISPLAY_NAME || undefined,
+      });
+      break;
+    default:
+      throw new AuthConfigError(
+        name ? `Unknown AUTH_PROVIDER "${name}"` : 'AUTH_PROVIDER is not configured'
+      );
+  }
+  return provider;
+}
+
+/**
+ * LiveKit participant identity for a user. Stable across sessions so the agent and logs can tell
+ * returning technicians apart. The id is percent-encoded rather than stripped of unusual
+ * characters, so two users never share an identity and the agent can decode the id back.
+ */
+export function participantIdentity(user: AuthUser) {
+  return `technician_${encodeURIComponent(user.id)}`;
+}
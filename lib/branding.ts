@@ -0,0 +1,81 @@
+import { cache } from 'react';
+import { SANDBOX_ID, getAppConfig } from './app-config';
+import type { AppConfig, BrandingProfile, TenantRule } from './types';
+
+/** Request header carrying the requested pathname, set by `middleware.ts`. */
+export const PATHNAME_HEADER = 'x-pathname';
+
+/** What a tenant rule can match a request on. */
+export interface TenantRequest {
+  host?: string;
+  pathname?: string;
+  sandboxId?: string;
+}
+
+export function tenantRequestFromHeaders(headers: Headers): TenantRequest {
+  const host = headers.get('x-forwarded-host') ?? headers.get('host') ?? undefined;
+  return {
+    // Ports are not part of a tenant's host name
+    host: host?.split(',')[0].trim().replace(/:\d+$/, '').toLowerCase(),
+    pathname: headers.get(PATHNAME_HEADER) ?? undefined,
+    sandboxId: SANDBOX_ID ?? headers.get('x-sandbox-id') ?? undefined,
+  };
+}
+
+function matchesHost(pattern: string, host: string) {
+  const normalized = pattern.toLowerCase();
+  if (normalized.startsWith('*.')) return host.endsWith(normalized.slice(1));
+  return host === normalized;
+}
+
+function matchesPath(prefix: string, pathname: string) {
+  return pathname === prefix || pathname.startsWith(`${prefix}/`);
+}
+
+/** The first rule matching the request by sandbox id, host name or path prefix. */
+export function findTenant(tenants: TenantRule[], request: TenantRequest): TenantRule | undefined {
+  const { host, pathname, sandboxId } = request;
+  return tenants.find(
+    (rule) =>
+      (!!sandboxId && !!rule.sandboxIds?.includes(sandboxId)) ||
+      (!!host && !!rule.hosts?.some((pattern) => matchesHost(pattern, host))) ||
+      (!!pathname && !!rule.pathPrefix && matchesPath(rule.pathPrefix, pathname))
+  );
+}
+
+/** The default branding from the config, with the profile of the matching tenant applied. */
+export function resolveBranding(config: AppConfig, request: TenantRequest): BrandingProfile {
+  const base: BrandingProfile = {
+    id: 'default',
+    pageTitle: config.pageTitle,
+    pageDescription: config.pageDescription,
+    companyName: config.companyName,
+    logo: config.logo,
+    logoDark: config.logoDark,
+    accent: config.accent,
+    accentDark: config.accentDark,
+    ...config.branding,
+  };
+
+  const tenant = findTenant(config.tenants, request);
+  if (!tenant) return base;
+
+  const overrides = config.brandings[tenant.branding];
+  if (!overrides) {
+    console.warn(`Tenant rule refers to unknown branding "${tenant.branding}"`);
+    return base;
+  }
+  return {
+    ...base,
+    ...overrides,
+    id: tenant.branding,
+    palette: { ...base.palette, ...overrides.palette },
+    welcome: { ...base.welcome, ...overrides.welcome },
+  };
+}
+
+/** Branding for the current request. */
+export const getBranding = cache(async (headers: Headers): Promise<BrandingProfile> => {
+  const config = await getAppConfig(headers);
+  return resolveBranding(config, tenantRequestFromHeaders(headers));
+});
@@ -0,0 +1,131 @@
+import type { MessageKey } from './i18n';
+
+/**
+ * How captions of the agent's speech are shown:
+ * - `off`: not shown
+ * - `standard`: regular size over a translucent background
+ * - `large`: large bold text, readable from across the bay
+ * - `high-contrast`: large text on solid black, the spoken word on yellow
+ */
+export type CaptionStyle = 'off' | 'standard' | 'large' | 'high-contrast';
+
+export const CAPTION_STYLES: { style: CaptionStyle; label: MessageKey }[] = [
+  { style: 'off', label: 'captions.off' },
+  { style: 'standard', label: 'captions.standard' },
+  { style: 'large', label: 'captions.large' },
+  { style: 'high-contrast', label: 'captions.highContrast' },
+];
+
+const STORAGE_KEY = 'captions-style';
+
+function isCaptionStyle(value: unknown): value is CaptionStyle {
+  return CAPTION_STYLES.some(({ style }) => style === value);
+}
+
+export function loadCaptionStyle(): CaptionStyle {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return isCaptionStyle(stored) ? stored : 'off';
+  } catch {
+    return 'off';
+  }
+}
+
+export function saveCaptionStyle(style: CaptionStyle) {
+  try {
+    localStorage.setItem(STORAGE_KEY, style);
+  } catch (error) {
+    console.warn('Failed to save caption style:', error);
+  }
+}
+
+// Agent audio is Opus, whose RTP clock runs at 48 kHz
+const RTP_CLOCK_RATE = 48_000;
+// Text synchronized with speech arrives with the audio packet it belongs to, which the jitter
+// buffer then holds for roughly this long before it is heard
+const PLAYOUT_DELAY_S = 0.1;
+// Words that arrive together, from an agent that does not synchronize its text, are spread out
+// at about this pace so the highlight still moves at speaking speed
+const WORD_SPACING_S = 0.3;
+
+/**
+ * A point in time on both clocks captions are timed against. `mediaTime` follows the agent's
+ * audio as it is played out, in seconds, and stands still while nothing is playing; it is unset
+ * when the browser does not report the timestamp of played-out audio.
+ */
+export interface CaptionClock {
+  mediaTime?: number;
+  /** `performance.now()` in seconds. */
+  now: number;
+}
+
+export function readCaptionClock(rtpTimestamp: number | undefined): CaptionClock {
+  return {
+    mediaTime: rtpTimestamp ? rtpTimestamp / RTP_CLOCK_RATE : undefined,
+    now: performance.now() / 1000,
+  };
+}
+
+export interface CaptionWord {
+  text: string;
+  /** Playback position of the agent's audio when the word arrived, 0 without `mediaTime`. */
+  receivedAtMediaTimestamp: number;
+  receivedAt: number;
+  /** When the word is heard, on the caption's clock. */
+  startTime: number;
+}
+
+export interface Caption {
+  /** The transcript segment the words come from. */
+  id: string;
+  words: CaptionWord[];
+  /** Timed against the audio's `mediaTime` rather than `now`, decided by its first word. */
+  synced: boolean;
+}
+
+export function captionTime(caption: Caption, clock: CaptionClock) {
+  return caption.synced ? (clock.mediaTime ?? 0) : clock.now;
+}
+
+/**
+ * Brings a caption up to date with the text of its segment so far. Words already there keep
+ * their timing, as a word cut in two by a chunk boundary only grows. A new word is heard once its
+ * audio has played out, or, while earlier words are still waiting their turn, one spacing after
+ * the word before it.
+ */
+export function updateCaption(
+  caption: Caption | undefined,
+  id: string,
+  text: string,
+  clock: CaptionClock
+): Caption {
+  const current =
+    caption?.id === id ? caption : { id, words: [], synced: clock.mediaTime !== undefined };
+  const arrivedAt = captionTime(current, clock);
+  const heardAt = arrivedAt + (current.synced ? PLAYOUT_DELAY_S : 0);
+
+  const words: CaptionWord[] = [];
+  for (const [index, token] of text.split(/\s+/).filter(Boolean).entries()) {
+    const existing = current.words[index];
+    if (existing) {
+      words.push(existing.text === token ? existing : { ...existing, text: token });
+      continue;
+    }
+    const previous = words.at(-1);
+    const queuedAfter =
+      previous && previous.startTime >= heardAt ? previous.startTime + WORD_SPACING_S : 0;
+    words.push({
+      text: token,
+      receivedAtMediaTimestamp: clock.mediaTime ?? 0,
+      receivedAt: clock.now,
+      startTime: Math.max(heardAt, queuedAfter),
+    });
+  }
+  return { ...current, words };
+}
+
+/** Index of the word being spoken, -1 before the first one. */
+export function activeWordIndex(caption: Caption, clock: CaptionClock) {
+  const time = captionTime(caption, clock);
+  return caption.words.findLastIndex((word) => word.startTime <= time);
+}
@@ -0,0 +1,87 @@
+import { isDtc } from './dtc';
+import type { MessageKey } from './i18n';
+import { LANGUAGES, type Language, type LanguageDefinition, isLanguage } from './languages';
+
+export type ChatCommand =
+  | { name: 'report' }
+  | { name: 'dtc'; code: string }
+  | { name: 'language'; language: Language }
+  | { name: 'end' };
+
+export type ChatCommandName = ChatCommand['name'];
+
+export const CHAT_COMMANDS: { name: ChatCommandName; usage: string; description: MessageKey }[] = [
+  { name: 'report', usage: '/report', description: 'commands.report' },
+  { name: 'dtc', usage: '/dtc <code>', description: 'commands.dtc' },
+  { name: 'language', usage: '/language <code>', description: 'commands.language' },
+  { name: 'end', usage: '/end', description: 'commands.end' },
+];
+
+/** `unknown`: no such command; `usage`: an argument is missing or invalid. */
+export type ChatCommandErrorReason = 'unknown' | 'usage';
+
+export class ChatCommandError extends Error {
+  readonly reason: ChatCommandErrorReason;
+  /** The command as typed, without the slash. */
+  readonly command: string;
+
+  constructor(reason: ChatCommandErrorReason, command: string, message: string) {
+    super(message);
+    this.name = 'ChatCommandError';
+    this.reason = reason;
+    this.command = command;
+  }
+}
+
+// A slash followed by a word; "/ text" or a path like "//x" is sent as a message
+const COMMAND_PATTERN = /^\/([a-z]+)(?:\s+([\s\S]*))?$/i;
+
+/** Usage of the command, for error messages and suggestions. */
+export function commandUsage(name: string) {
+  return CHAT_COMMANDS.find((command) => command.name === name)?.usage ?? `/${name}`;
+}
+
+/** Commands whose name starts with what has been typed after the slash so far. */
+export function suggestCommands(text: string) {
+  const match = text.match(/^\/([a-z]*)$/i);
+  if (!match) return [];
+  const prefix = match[1].toLowerCase();
+  return CHAT_COMMANDS.filter(({ name }) => name.startsWith(prefix));
+}
+
+/**
+ * Reads a slash command from the composer text. Returns `null` for a regular message and throws
+ * a {@link ChatCommandError} for an unknown command or a missing or invalid argument, such as a
+ * language that is not in `languages`.
+ */
+export function parseChatCommand(
+  text: string,
+  languages: readonly LanguageDefinition[] = LANGUAGES
+): ChatCommand | null {
+  const match = text.trim().match(COMMAND_PATTERN);
+  if (!match) return null;
+  const name = match[1].toLowerCase();
+  const argument = match[2]?.trim() ?? '';
+
+  switch (name) {
+    case 'report':
+    case 'end':
+      return { name };
+    case 'dtc': {
+      const code = argument.toUpperCase();
+      if (!isDtc(code)) {
+        throw new ChatCommandError('usage', name, `Expected a trouble code, got "${argument}"`);
+      }
+      return { name, code };
+    }
+    case 'language': {
+      const language = argument.toLowerCase();
+      if (!isLanguage(language, languages)) {
+        throw new ChatCommandError('usage', name, `Expected a language code, got "${argument}"`);
+      }
+      return { name, language };
+    }
+    default:
+      throw new ChatCommandError('unknown', name, `Unknown command /${name}`);
+  }
+}
@@ -0,0 +1,42 @@
+// Kept per tab in sessionStorage, so a draft survives closing the chat, a rejoin or a reload but
+// is not offered in another tab or on a shared workshop computer the next day
+const DRAFT_KEY = 'chat-composer-draft';
+const HISTORY_KEY = 'chat-composer-history';
+
+/** Most sent messages kept for recall with the up arrow. */
+export const MAX_COMPOSER_HISTORY = 50;
+
+export function loadComposerDraft() {
+  try {
+    return sessionStorage.getItem(DRAFT_KEY) ?? '';
+  } catch {
+    return '';
+  }
+}
+
+export function saveComposerDraft(text: string) {
+  try {
+    if (text) sessionStorage.setItem(DRAFT_KEY, text);
+    else sessionStorage.removeItem(DRAFT_KEY);
+  } catch (error) {
+    console.warn('Failed to save chat draft:', error);
+  }
+}
+
+/** Sent messages, oldest first. */
+export function loadComposerHistory(): string[] {
+  try {
+    const stored = JSON.parse(sessionStorage.getItem(HISTORY_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter((entry) => typeof entry === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveComposerHistory(history: string[]) {
+  try {
+    sessionStorage.setItem(HISTORY_KEY, JSON.stringify(history.slice(-MAX_COMPOSER_HISTORY)));
+  } catch (error) {
+    console.warn('Failed to save chat history:', error);
+  }
+}
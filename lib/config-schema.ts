@@ -0,0 +1,204 @@
+/** Why a value, or part of it, was left out of the parsed config. */
+export interface SchemaIssue {
+  /** Dotted path of the rejected value, e.g. `languages.2` or `branding.logo`. */
+  path: string;
+  reason: string;
+}
+
+/**
+ * Validates untrusted JSON against an expected shape. Invalid parts are dropped and reported
+ * rather than failing the whole value, so one bad entry in a remote config does not discard the
+ * rest of it.
+ */
+export interface Schema<T> {
+  readonly description: string;
+  /** Returns the valid part of `value`, or `undefined` if nothing of it could be kept. */
+  parse(value: unknown, path: string, issues: SchemaIssue[]): T | undefined;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+function describeValue(value: unknown) {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function primitive<T>(description: string, check: (value: unknown) => value is T): Schema<T> {
+  return {
+    description,
+    parse(value, path, issues) {
+      if (check(value)) return value;
+      issues.push({ path, reason: `expected ${description}, got ${describeValue(value)}` });
+      return undefined;
+    },
+  };
+}
+
+export function string(): Schema<string> {
+  return primitive('string', (value): value is string => typeof value === 'string');
+}
+
+export function number(): Schema<number> {
+  return primitive(
+    'number',
+    (value): value is number => typeof value === 'number' && Number.isFinite(value)
+  );
+}
+
+/** A number, raised to `min` (and reported) when below it. */
+export function atLeast(min: number): Schema<number> {
+  const schema = number();
+  return {
+    description: `number of at least ${min}`,
+    parse(value, path, issues) {
+      const parsed = schema.parse(value, path, issues);
+      if (parsed === undefined || parsed >= min) return parsed;
+      issues.push({ path, reason: `${parsed} is below the minimum of ${min}, using ${min}` });
+      return min;
+    },
+  };
+}
+
+export function boolean(): Schema<boolean> {
+  return primitive('boolean', (value): value is boolean => typeof value === 'boolean');
+}
+
+export function matches(pattern: RegExp, description: string): Schema<string> {
+  return primitive(
+    description,
+    (value): value is string => typeof value === 'string' && pattern.test(value)
+  );
+}
+
+export function oneOf<const T extends string>(values: readonly T[]): Schema<T> {
+  return primitive(
+    values.map((value) => `"${value}"`).join(' | '),
+    (value): value is T =>
+      typeof value === 'string' && (values as readonly string[]).includes(value)
+  );
+}
+
+/** Invalid items are dropped, the rest of the array is kept. */
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return {
+    description: `${item.description}[]`,
+    parse(value, path, issues) {
+      if (!Array.isArray(value)) {
+        issues.push({ path, reason: `expected array, got ${describeValue(value)}` });
+        return undefined;
+      }
+      return value.flatMap((entry, index) => {
+        const parsed = item.parse(entry, `${path}.${index}`, issues);
+        return parsed === undefined ? [] : [parsed];
+      });
+    },
+  };
+}
+
+/** Like {@link array} of strings, but also accepts a comma-separated string. */
+export function stringList(): Schema<string[]> {
+  const list = array(string());
+  return {
+    description: list.description,
+    parse(value, path, issues) {
+      if (typeof value === 'string') {
+        return value
+          .split(',')
+          .map((entry) => entry.trim())
+          .filter(Boolean);
+      }
+      return list.parse(value, path, issues);
+    },
+  };
+}
+
+/** A string-keyed map with values of one type, e.g. a set of named brandings. */
+export function record<T>(value: Schema<T>): Schema<Record<string, T>> {
+  return {
+    description: `Record<string, ${value.description}>`,
+    parse(input, path, issues) {
+      if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+        issues.push({ path, reason: `expected object, got ${describeValue(input)}` });
+        return undefined;
+      }
+      const result: Record<string, T> = {};
+      for (const [key, entry] of Object.entries(input)) {
+        const parsed = value.parse(entry, `${path}.${key}`, issues);
+        if (parsed !== undefined) result[key] = parsed;
+      }
+      return result;
+    },
+  };
+}
+
+type Shape = Record<string, Schema<unknown>>;
+
+type Optional<T> = Schema<T> & { readonly optional: true };
+
+type ObjectOf<S extends Shape> = {
+  [K in keyof S as S[K] extends Optional<unknown> ? never : K]: Infer<S[K]>;
+} & {
+  [K in keyof S as S[K] extends Optional<unknown> ? K : never]?: Infer<S[K]>;
+};
+
+/** Marks an object property as optional. Missing and `null` values are accepted. */
+export function optional<T>(schema: Schema<T>): Optional<T> {
+  return {
+    description: `${schema.description} | undefined`,
+    optional: true,
+    parse(value, path, issues) {
+      if (value === undefined || value === null) return undefined;
+      return schema.parse(value, path, issues);
+    },
+  };
+}
+
+function isOptional(schema: Schema<unknown>): schema is Optional<unknown> {
+  return 'optional' in schema && schema.optional === true;
+}
+
+/**
+ * An object with known properties. Unknown properties and invalid values are dropped with an
+ * issue; the object itself is rejected only if a required property ends up missing.
+ */
+export function object<S extends Shape>(shape: S): Schema<ObjectOf<S>> & { shape: S } {
+  return {
+    description: 'object',
+    shape,
+    parse(value, path, issues) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({ path, reason: `expected object, got ${describeValue(value)}` });
+        return undefined;
+      }
+
+      const input = value as Record<string, unknown>;
+      const result: Record<string, unknown> = {};
+      for (const key of Object.keys(input)) {
+        if (!(key in shape)) issues.push({ path: joinPath(path, key), reason: 'unknown key' });
+      }
+      for (const [key, schema] of Object.entries(shape)) {
+        const parsed = schema.parse(input[key], joinPath(path, key), issues);
+        if (parsed !== undefined) result[key] = parsed;
+        else if (!isOptional(schema)) return undefined;
+      }
+      return result as ObjectOf<S>;
+    },
+  };
+}
+
+/** The same object with every property optional, for partial overrides. */
+export function partial<S extends Shape>(schema: { shape: S }) {
+  return object(
+    Object.fromEntries(
+      Object.entries(schema.shape).map(([key, value]) => [
+        key,
+        isOptional(value) ? value : optional(value),
+      ])
+    ) as { [K in keyof S]: Optional<Infer<S[K]>> }
+  );
+}
+
+export function joinPath(path: string, key: string) {
+  return path ? `${path}.${key}` : key;
+}
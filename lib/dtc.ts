@@ -0,0 +1,81 @@
+import DTC_DESCRIPTIONS from './dtc-codes.json';
+import type { MessageKey } from './i18n';
+
+export type DtcSystem = 'powertrain' | 'chassis' | 'body' | 'network';
+
+export type DtcClassification = 'generic' | 'manufacturer';
+
+export interface DtcInfo {
+  code: string;
+  system: DtcSystem;
+  classification: DtcClassification;
+  /** Message key of the functional area for powertrain codes, from the third character. */
+  subsystem?: MessageKey;
+  /** Standard SAE J2012 description when the code is in the bundled table. */
+  description?: string;
+}
+
+const SYSTEMS: Record<string, DtcSystem> = {
+  P: 'powertrain',
+  C: 'chassis',
+  B: 'body',
+  U: 'network',
+};
+
+const POWERTRAIN_SUBSYSTEMS: Record<string, MessageKey> = {
+  '0': 'dtc.subsystem.fuelAirEmissions',
+  '1': 'dtc.subsystem.fuelAir',
+  '2': 'dtc.subsystem.injectorCircuit',
+  '3': 'dtc.subsystem.ignition',
+  '4': 'dtc.subsystem.emissionControls',
+  '5': 'dtc.subsystem.speedIdle',
+  '6': 'dtc.subsystem.computer',
+  '7': 'dtc.subsystem.transmission',
+  '8': 'dtc.subsystem.transmission',
+  '9': 'dtc.subsystem.transmission',
+  A: 'dtc.subsystem.hybrid',
+  B: 'dtc.subsystem.hybrid',
+  C: 'dtc.subsystem.hybrid',
+};
+
+/**
+ * Matches OBD-II codes such as P0301 or U0100 as whole words, in any case since transcripts and
+ * chat messages often have them in lower case. Uppercase matches before looking them up.
+ */
+export const DTC_PATTERN = /\b[PCBU][0-3][0-9A-F]{3}\b/gi;
+
+function classify(code: string): DtcClassification {
+  const letter = code[0];
+  const group = code[1];
+  if (group === '0') return 'generic';
+  if (group === '1') return 'manufacturer';
+  if (group === '2') return letter === 'P' ? 'generic' : 'manufacturer';
+  // Group 3: P3000–P33FF are manufacturer controlled, P3400–P3FFF and B3/C3/U3 are reserved by SAE
+  if (letter === 'P') return /^[0-3]$/.test(code[2]) ? 'manufacturer' : 'generic';
+  return 'generic';
+}
+
+export function isDtc(value: string) {
+  return new RegExp(`^${DTC_PATTERN.source}$`).test(value.toUpperCase());
+}
+
+export function lookupDtc(value: string): DtcInfo | undefined {
+  const code = value.trim().toUpperCase();
+  if (!isDtc(code)) return undefined;
+
+  const info: DtcInfo = {
+    code,
+    system: SYSTEMS[code[0]],
+    classification: classify(code),
+    description: (DTC_DESCRIPTIONS as Record<string, string>)[code],
+  };
+  if (info.system === 'powertrain') {
+    info.subsystem = POWERTRAIN_SUBSYSTEMS[code[2]];
+  }
+  return info;
+}
+
+/** Unique codes in order of first appearance. */
+export function findDtcs(text: string): string[] {
+  return Array.from(new Set((text.match(DTC_PATTERN) ?? []).map((code) => code.toUpperCase())));
+}
@@ -0,0 +1,217 @@
+import type { Catalog } from '../types';
+
+export const bn: Catalog = {
+  'welcome.tagline': 'মেকানিকের বিশ্বস্ত সহ-পাইলট',
+  'welcome.selectLanguage': 'ভাষা নির্বাচন করুন',
+  'welcome.voiceAssistant': 'ভয়েস সহকারী',
+  'welcome.liveAssistant': 'লাইভ সহকারী',
+  'welcome.vehicleDetails': 'গাড়ির বিবরণ (ঐচ্ছিক)',
+  'welcome.startCall': 'কল শুরু করুন',
+  'welcome.resumeCall': 'আগের কল আবার শুরু করুন',
+  'welcome.pastSessions': 'আগের সেশন',
+
+  'session.agentListening': 'এজেন্ট শুনছে, একটি প্রশ্ন করুন',
+
+  'joinFailure.title': 'কল শুরু করা যায়নি',
+  'joinFailure.agentDidNotJoin':
+    'অ্যাসিস্ট্যান্ট সময়মতো কলে যোগ দেয়নি। এটি ব্যস্ত বা অফলাইন থাকতে পারে।',
+  'joinFailure.agentDidNotInitialize':
+    'অ্যাসিস্ট্যান্ট যোগ দিয়েছে, কিন্তু সময়মতো প্রস্তুত হয়নি।',
+  'joinFailure.dispatchFailed': 'এই কলের জন্য অ্যাসিস্ট্যান্ট চালু করা যায়নি।',
+  'joinFailure.connectFailed': 'কলে সংযোগ করা যায়নি। আপনার ইন্টারনেট সংযোগ পরীক্ষা করুন।',
+  'joinFailure.retry': 'আবার চেষ্টা করুন',
+  'joinFailure.reportProblem': 'সমস্যা জানান',
+  'joinFailure.detailsCopied': 'সমস্যার বিবরণ কপি হয়েছে',
+  'joinFailure.back': 'ফিরে যান',
+
+  'history.title': 'আগের সেশন',
+  'history.close': 'সেশনের ইতিহাস বন্ধ করুন',
+  'history.search': 'ট্রান্সক্রিপ্ট ও রিপোর্ট খুঁজুন...',
+  'history.loading': 'লোড হচ্ছে...',
+  'history.loadFailed': 'সেশন লোড করা যায়নি: {error}',
+  'history.empty': 'এখনও কোনো সেশন রেকর্ড হয়নি।',
+  'history.noMatches': 'মিলে যাওয়া কোনো সেশন নেই।',
+  'history.delete': 'সেশন মুছুন',
+  'history.confirmDelete': 'এই সেশন মুছবেন? এটি আর ফেরানো যাবে না।',
+  'history.back': 'ফিরে যান',
+  'history.report': 'রিপোর্ট',
+
+  'vehicle.title': 'গাড়ির বিবরণ',
+  'vehicle.close': 'গাড়ির বিবরণ বন্ধ করুন',
+  'vehicle.vin': 'VIN',
+  'vehicle.vinPlaceholder': '১৭ অক্ষরের VIN',
+  'vehicle.vinLength': 'VIN-এ ঠিক ১৭টি অক্ষর থাকে।',
+  'vehicle.vinCharacters': 'শুধু A–Z (I, O, Q ছাড়া) এবং 0–9 চলবে।',
+  'vehicle.vinChecksum': 'চেক ডিজিট মিলছে না। VIN আবার যাচাই করুন।',
+  'vehicle.vinChecksumWarning': 'চেক ডিজিট মিলছে না। উত্তর আমেরিকার বাইরে এটি সাধারণ।',
+  'vehicle.modelYear': 'মডেল বছর {year}',
+  'vehicle.make': 'নির্মাতা',
+  'vehicle.model': 'মডেল',
+  'vehicle.year': 'বছর',
+  'vehicle.mileage': 'মাইলেজ (কিমি)',
+  'vehicle.engineCode': 'ইঞ্জিন কোড',
+  'vehicle.symptoms': 'জানানো লক্ষণ',
+  'vehicle.symptomsPlaceholder': 'যেমন ঠান্ডায় অসমান আইডল, চেক ইঞ্জিন লাইট জ্বলছে',
+  'vehicle.clear': 'মুছে দিন',
+  'vehicle.save': 'সংরক্ষণ করুন',
+
+  'dtc.noDescription': 'অফলাইন কোড টেবিলে কোনো বিবরণ নেই।',
+  'dtc.system': 'সিস্টেম',
+  'dtc.type': 'ধরন',
+  'dtc.area': 'অংশ',
+  'dtc.powertrain': 'পাওয়ারট্রেন',
+  'dtc.chassis': 'চেসিস',
+  'dtc.body': 'বডি',
+  'dtc.network': 'নেটওয়ার্ক ও গাড়ির সংযোগ',
+  'dtc.subsystem.fuelAirEmissions': 'জ্বালানি, বায়ু মিটারিং ও সহায়ক নির্গমন নিয়ন্ত্রণ',
+  'dtc.subsystem.fuelAir': 'জ্বালানি ও বায়ু মিটারিং',
+  'dtc.subsystem.injectorCircuit': 'জ্বালানি ও বায়ু মিটারিং (ইনজেক্টর সার্কিট)',
+  'dtc.subsystem.ignition': 'ইগনিশন সিস্টেম বা মিসফায়ার',
+  'dtc.subsystem.emissionControls': 'সহায়ক নির্গমন নিয়ন্ত্রণ',
+  'dtc.subsystem.speedIdle': 'গাড়ির গতি, আইডল নিয়ন্ত্রণ ও সহায়ক ইনপুট',
+  'dtc.subsystem.computer': 'কম্পিউটার ও আউটপুট সার্কিট',
+  'dtc.subsystem.transmission': 'ট্রান্সমিশন',
+  'dtc.subsystem.hybrid': 'হাইব্রিড প্রপালশন',
+  'dtc.generic': 'সাধারণ (SAE)',
+  'dtc.manufacturer': 'নির্মাতা-নির্দিষ্ট',
+  'dtc.manufacturerNote': 'অর্থ নির্মাতা অনুযায়ী বদলায়; OEM সার্ভিস তথ্য দিয়ে নিশ্চিত করুন।',
+  'dtc.close': 'বন্ধ করুন',
+
+  'controls.label': 'ভয়েস সহকারীর নিয়ন্ত্রণ',
+  'controls.toggleChat': 'চ্যাট দেখান/লুকান',
+  'controls.toggleReport': 'ডায়াগনস্টিক রিপোর্ট দেখান/লুকান',
+  'controls.toggleMetrics': 'এজেন্ট মেট্রিক্স দেখান/লুকান',
+  'controls.endCall': 'কল শেষ করুন',
+  'controls.end': 'শেষ',
+  'chat.placeholder': 'কিছু লিখুন...',
+  'chat.send': 'পাঠান',
+  'chat.sendFailed': 'বার্তা পাঠানো যায়নি, আবার চেষ্টা করুন',
+  'chat.interrupted': 'বাধা দেওয়া হয়েছে',
+
+  'attachments.attach': 'ফাইল সংযুক্ত করুন',
+  'attachments.takePhoto': 'ছবি তুলুন',
+  'attachments.remove': '{name} সরান',
+  'attachments.uploading': 'সংযুক্তি আপলোড হচ্ছে',
+  'attachments.uploadFailed': 'সংযুক্তি পাঠানো যায়নি, আবার চেষ্টা করুন',
+  'attachments.typeNotAllowed': '{name} সমর্থিত ফাইলের ধরন নয়',
+  'attachments.tooLarge': '{name} {max} MB-এর চেয়ে বড়',
+  'attachments.tooMany': 'আপনি সর্বোচ্চ {max}টি ফাইল সংযুক্ত করতে পারেন',
+
+  'commands.label': 'কমান্ড',
+  'commands.report': 'ডায়াগনস্টিক রিপোর্ট খুলুন',
+  'commands.dtc': 'ট্রাবল কোড সম্পর্কে এজেন্টকে জিজ্ঞাসা করুন',
+  'commands.language': 'ভাষা পরিবর্তন করুন',
+  'commands.end': 'কল শেষ করুন',
+  'commands.unknown': 'অজানা কমান্ড /{command}',
+  'commands.usage': 'ব্যবহার: {usage}',
+  'commands.dtcMessage': 'ট্রাবল কোড {code} নির্ণয়ে সাহায্য করুন',
+
+  'inputMode.label': 'ইনপুট মোড',
+  'inputMode.alwaysOn': 'সবসময় চালু',
+  'inputMode.pushToTalk': 'চেপে কথা বলুন',
+  'inputMode.toggleToTalk': 'ট্যাপ করে কথা বলুন',
+  'inputMode.holdToTalk': 'চেপে ধরে কথা বলুন',
+  'inputMode.talking': 'কথা বলছেন...',
+  'inputMode.tapToTalk': 'কথা বলতে ট্যাপ করুন',
+  'inputMode.tapToStop': 'থামাতে ট্যাপ করুন',
+  'inputMode.changeKey': 'কথা বলার কী পরিবর্তন করুন ({key})',
+  'inputMode.pressKey': 'একটি কী চাপুন...',
+
+  'audioProcessing.label': 'অডিও প্রক্রিয়াকরণ',
+  'audioProcessing.highPassFilter': 'নিচু গুড়গুড় শব্দ কাটুন',
+  'audioProcessing.noiseGate': 'নয়েজ গেট',
+  'audioProcessing.noiseSuppression': 'শব্দ দমন',
+  'audioProcessing.inputLevel': 'মাইক্রোফোনের মাত্রা',
+  'micTest.start': 'মাইক্রোফোন পরীক্ষা করুন',
+  'micTest.recording': 'রেকর্ড হচ্ছে, কিছু বলুন...',
+  'micTest.playing': 'আপনার রেকর্ডিং চলছে',
+  'micTest.failed': 'মাইক্রোফোন পরীক্ষা ব্যর্থ হয়েছে',
+
+  'preflight.title': 'যোগ দেওয়ার আগে',
+  'preflight.microphone': 'মাইক্রোফোন',
+  'preflight.camera': 'ক্যামেরা',
+  'preflight.connectionDetails': 'সেশন অ্যাক্সেস',
+  'preflight.server': 'কল সার্ভার',
+  'preflight.checking': 'পরীক্ষা করা হচ্ছে...',
+  'preflight.passed': 'ঠিক আছে',
+  'preflight.skipped': 'পরীক্ষা করা হয়নি',
+  'preflight.cameraNotUsed': 'ভয়েস কলে ব্যবহার হয় না',
+  'preflight.speakNow': 'মাত্রা পরীক্ষা করতে কিছু বলুন',
+  'preflight.micHeard': 'আপনার কণ্ঠ শোনা যাচ্ছে',
+  'preflight.latency': '{ms} ms-এ পৌঁছানো যায়',
+  'preflight.permissionDenied': 'অ্যাক্সেস আটকানো হয়েছে। ব্রাউজারের সাইট সেটিংসে অনুমতি দিন।',
+  'preflight.deviceNotFound': 'কোনো ডিভাইস পাওয়া যায়নি',
+  'preflight.deviceInUse': 'ডিভাইসটি অন্য অ্যাপ ব্যবহার করছে',
+  'preflight.serverRejected': 'সার্ভার এই সেশন গ্রহণ করেনি',
+  'preflight.serverUnreachable': 'এই নেটওয়ার্ক থেকে সার্ভারে পৌঁছানো যায়নি',
+  'preflight.join': 'কলে যোগ দিন',
+  'preflight.joinAnyway': 'তবুও যোগ দিন',
+  'preflight.retry': 'আবার পরীক্ষা করুন',
+  'preflight.back': 'পিছনে',
+  'liveAssistant.snapshot': 'এজেন্টকে স্ন্যাপশট পাঠান',
+  'liveAssistant.snapshotSending': 'স্ন্যাপশট পাঠানো হচ্ছে…',
+  'liveAssistant.snapshotSent': 'স্ন্যাপশট পাঠানো হয়েছে',
+  'liveAssistant.snapshotFailed': 'স্ন্যাপশট পাঠানো যায়নি',
+  'liveAssistant.dismissPrompt': 'বন্ধ করুন',
+
+  'captions.label': 'ক্যাপশন',
+  'captions.off': 'বন্ধ',
+  'captions.standard': 'সাধারণ',
+  'captions.large': 'বড় লেখা',
+  'captions.highContrast': 'উচ্চ কনট্রাস্ট',
+
+  'metrics.title': 'এজেন্ট মেট্রিক্স',
+  'metrics.export': 'মেট্রিক্স JSON হিসেবে রপ্তানি করুন',
+  'metrics.close': 'এজেন্ট মেট্রিক্স বন্ধ করুন',
+  'metrics.timeline': 'অবস্থার সময়রেখা',
+  'metrics.turns': 'প্রতি পালার বিলম্ব',
+  'metrics.noTurns': 'এখনও কোনো পালা নেই। এজেন্ট উত্তর দিলে মেট্রিক্স দেখা যাবে।',
+  'metrics.metric': 'মেট্রিক',
+  'metrics.mean': 'গড়',
+  'metrics.max': 'সর্বোচ্চ',
+  'metrics.endOfTurn': 'পালা শেষ শনাক্তকরণ',
+  'metrics.responseLatency': 'কথা শেষ থেকে প্রথম শব্দ পর্যন্ত',
+  'metrics.reportDelivery': 'রিপোর্ট সরবরাহ',
+
+  'connection.rejoining': 'আবার সংযোগ করা হচ্ছে ({attempt}/{max})...',
+  'connection.reconnecting': 'আবার সংযোগ করা হচ্ছে...',
+  'connection.reconnected': 'আবার সংযুক্ত হয়েছে',
+  'connection.excellent': 'চমৎকার সংযোগ',
+  'connection.good': 'ভালো সংযোগ',
+  'connection.poor': 'দুর্বল সংযোগ',
+  'connection.lost': 'সংযোগ বিচ্ছিন্ন',
+  'connection.connected': 'সংযুক্ত',
+
+  'report.title': 'ডায়াগনস্টিক রিপোর্ট',
+  'report.close': 'ডায়াগনস্টিক রিপোর্ট বন্ধ করুন',
+  'report.exportPdf': 'PDF হিসেবে এক্সপোর্ট করুন',
+  'report.exportMarkdown': 'Markdown হিসেবে এক্সপোর্ট করুন',
+  'report.exportJson': 'JSON হিসেবে এক্সপোর্ট করুন',
+  'report.exportFailed': 'ডায়াগনস্টিক রিপোর্ট এক্সপোর্ট করা যায়নি',
+  'report.versions': 'রিপোর্টের সংস্করণ',
+  'report.version': 'রিপোর্ট {number}',
+  'report.versionLatest': 'রিপোর্ট {number} (সর্বশেষ)',
+  'report.versionWithTime': 'রিপোর্ট {number} ({time})',
+  'report.compare': 'তুলনা করুন',
+  'report.compareTitle': 'অন্য একটি রিপোর্টের সাথে তুলনা করুন',
+  'report.compareWith': 'রিপোর্ট {number}-এর তুলনা করুন',
+  'report.viewingEarlier': '{total}টির মধ্যে রিপোর্ট {number} দেখছেন, {time}-এ পাওয়া গেছে।',
+  'report.showLatest': 'সর্বশেষটি দেখান',
+  'report.identical': 'এই রিপোর্টগুলো একই রকম।',
+  'report.diffLabel': 'রিপোর্ট {number} · {time}',
+  'report.diffRemoved': 'সরানো হয়েছে:',
+  'report.diffAdded': 'যোগ করা হয়েছে:',
+  'report.webSources': 'ওয়েব উৎস',
+  'report.videos': 'ডায়াগনস্টিক ভিডিও ({count})',
+  'report.watchVideo': 'ডায়াগনস্টিক ভিডিও দেখুন',
+  'report.invalidVideo': 'অবৈধ YouTube URL। অনুগ্রহ করে ভিডিও লিঙ্কটি পরীক্ষা করুন।',
+
+  'errors.mediaDevices': 'আপনার মিডিয়া ডিভাইসে একটি ত্রুটি হয়েছে',
+  'errors.unauthorized': 'আপনি সাইন ইন করেননি। অনুগ্রহ করে সাইন ইন করে আবার চেষ্টা করুন।',
+  'errors.invalidResume': 'আগের সেশনের মেয়াদ শেষ হয়েছে। অনুগ্রহ করে নতুন কল শুরু করুন।',
+  'errors.rateLimited':
+    'অনেক বেশি চেষ্টা। অনুগ্রহ করে {seconds} সেকেন্ড অপেক্ষা করে আবার চেষ্টা করুন।',
+  'errors.connectionDetails': 'সংযোগের বিবরণ আনতে ত্রুটি!',
+  'errors.agentDispatch':
+    'এই কলের জন্য অ্যাসিস্ট্যান্ট চালু করা যায়নি। কিছুক্ষণ পরে আবার চেষ্টা করুন।',
+};
@@ -0,0 +1,239 @@
+/**
+ * Source catalog. Every message key is defined here; other languages may leave keys out and fall
+ * back to English (see the missing-key report in `lib/i18n`).
+ */
+export const en = {
+  // Welcome
+  'welcome.tagline': "Mechanic's Trusted Co-Pilot",
+  'welcome.selectLanguage': 'Select Language',
+  'welcome.voiceAssistant': 'VOICE ASSISTANT',
+  'welcome.liveAssistant': 'LIVE ASSISTANT',
+  'welcome.vehicleDetails': 'Vehicle details (optional)',
+  'welcome.startCall': 'Start Call',
+  'welcome.resumeCall': 'Resume previous call',
+  'welcome.pastSessions': 'Past Sessions',
+
+  // Session
+  'session.agentListening': 'Agent is listening, ask it a question',
+
+  // Join failure
+  'joinFailure.title': 'Could not start the call',
+  'joinFailure.agentDidNotJoin':
+    'The assistant did not join the call in time. It may be busy or offline.',
+  'joinFailure.agentDidNotInitialize': 'The assistant joined but did not get ready in time.',
+  'joinFailure.dispatchFailed': 'The assistant could not be started for this call.',
+  'joinFailure.connectFailed': 'Could not connect to the call. Check your internet connection.',
+  'joinFailure.retry': 'Try again',
+  'joinFailure.reportProblem': 'Report problem',
+  'joinFailure.detailsCopied': 'Problem details copied',
+  'joinFailure.back': 'Back',
+
+  // Session history
+  'history.title': 'Past sessions',
+  'history.close': 'Close session history',
+  'history.search': 'Search transcripts and reports...',
+  'history.loading': 'Loading...',
+  'history.loadFailed': 'Could not load sessions: {error}',
+  'history.empty': 'No sessions recorded yet.',
+  'history.noMatches': 'No matching sessions.',
+  'history.delete': 'Delete session',
+  'history.confirmDelete': 'Delete this session? This cannot be undone.',
+  'history.back': 'Back',
+  'history.report': 'Report',
+
+  // Vehicle details
+  'vehicle.title': 'Vehicle details',
+  'vehicle.close': 'Close vehicle details',
+  'vehicle.vin': 'VIN',
+  'vehicle.vinPlaceholder': '17-character VIN',
+  'vehicle.vinLength': 'A VIN has exactly 17 characters.',
+  'vehicle.vinCharacters': 'Only A–Z (except I, O, Q) and 0–9 are allowed.',
+  'vehicle.vinChecksum': 'Check digit does not match. Please re-check the VIN.',
+  'vehicle.vinChecksumWarning': 'Check digit does not match. This is common outside North America.',
+  'vehicle.modelYear': 'Model year {year}',
+  'vehicle.make': 'Make',
+  'vehicle.model': 'Model',
+  'vehicle.year': 'Year',
+  'vehicle.mileage': 'Mileage (km)',
+  'vehicle.engineCode': 'Engine code',
+  'vehicle.symptoms': 'Reported symptoms',
+  'vehicle.symptomsPlaceholder': 'e.g. rough idle when cold, check engine light on',
+  'vehicle.clear': 'Clear',
+  'vehicle.save': 'Save',
+
+  // Trouble codes
+  'dtc.noDescription': 'No description in the offline code table.',
+  'dtc.system': 'System',
+  'dtc.type': 'Type',
+  'dtc.area': 'Area',
+  'dtc.powertrain': 'Powertrain',
+  'dtc.chassis': 'Chassis',
+  'dtc.body': 'Body',
+  'dtc.network': 'Network & vehicle integration',
+  'dtc.subsystem.fuelAirEmissions': 'Fuel, air metering and auxiliary emission controls',
+  'dtc.subsystem.fuelAir': 'Fuel and air metering',
+  'dtc.subsystem.injectorCircuit': 'Fuel and air metering (injector circuit)',
+  'dtc.subsystem.ignition': 'Ignition system or misfire',
+  'dtc.subsystem.emissionControls': 'Auxiliary emission controls',
+  'dtc.subsystem.speedIdle': 'Vehicle speed, idle control and auxiliary inputs',
+  'dtc.subsystem.computer': 'Computer and output circuits',
+  'dtc.subsystem.transmission': 'Transmission',
+  'dtc.subsystem.hybrid': 'Hybrid propulsion',
+  'dtc.generic': 'Generic (SAE)',
+  'dtc.manufacturer': 'Manufacturer-specific',
+  'dtc.manufacturerNote': 'Meaning varies by manufacturer; confirm with OEM service information.',
+  'dtc.close': 'Close',
+
+  // Control bar and chat
+  'controls.label': 'Voice assistant controls',
+  'controls.toggleChat': 'Toggle chat',
+  'controls.toggleReport': 'Toggle diagnostic report',
+  'controls.toggleMetrics': 'Toggle agent metrics',
+  'controls.endCall': 'END CALL',
+  'controls.end': 'END',
+  'chat.placeholder': 'Type something...',
+  'chat.send': 'SEND',
+  'chat.sendFailed': 'Could not send the message, please try again',
+  'chat.interrupted': 'Interrupted',
+
+  // Attachments
+  'attachments.attach': 'Attach files',
+  'attachments.takePhoto': 'Take a photo',
+  'attachments.remove': 'Remove {name}',
+  'attachments.uploading': 'Uploading attachments',
+  'attachments.uploadFailed': 'Could not send the attachments, please try again',
+  'attachments.typeNotAllowed': '{name} is not a supported file type',
+  'attachments.tooLarge': '{name} is larger than {max} MB',
+  'attachments.tooMany': 'You can attach up to {max} files',
+
+  // Chat commands
+  'commands.label': 'Commands',
+  'commands.report': 'Open the diagnostic report',
+  'commands.dtc': 'Ask the agent about a trouble code',
+  'commands.language': 'Switch the language',
+  'commands.end': 'End the call',
+  'commands.unknown': 'Unknown command /{command}',
+  'commands.usage': 'Usage: {usage}',
+  'commands.dtcMessage': 'Help me diagnose trouble code {code}',
+
+  // Input mode
+  'inputMode.label': 'Input mode',
+  'inputMode.alwaysOn': 'Always on',
+  'inputMode.pushToTalk': 'Push to talk',
+  'inputMode.toggleToTalk': 'Toggle to talk',
+  'inputMode.holdToTalk': 'Hold to talk',
+  'inputMode.talking': 'Talking...',
+  'inputMode.tapToTalk': 'Tap to talk',
+  'inputMode.tapToStop': 'Tap to stop',
+  'inputMode.changeKey': 'Change talk key ({key})',
+  'inputMode.pressKey': 'Press a key...',
+
+  // Audio
+  'audioProcessing.label': 'Audio processing',
+  'audioProcessing.highPassFilter': 'Cut low rumble',
+  'audioProcessing.noiseGate': 'Noise gate',
+  'audioProcessing.noiseSuppression': 'Noise suppression',
+  'audioProcessing.inputLevel': 'Microphone level',
+  'micTest.start': 'Test microphone',
+  'micTest.recording': 'Recording, say something...',
+  'micTest.playing': 'Playing back your recording',
+  'micTest.failed': 'Microphone test failed',
+
+  // Preflight
+  'preflight.title': 'Before you join',
+  'preflight.microphone': 'Microphone',
+  'preflight.camera': 'Camera',
+  'preflight.connectionDetails': 'Session access',
+  'preflight.server': 'Call server',
+  'preflight.checking': 'Checking...',
+  'preflight.passed': 'OK',
+  'preflight.skipped': 'Not checked',
+  'preflight.cameraNotUsed': 'Not used in voice calls',
+  'preflight.speakNow': 'Say something to check the level',
+  'preflight.micHeard': 'Your voice is coming through',
+  'preflight.latency': 'Reachable in {ms} ms',
+  'preflight.permissionDenied': "Access was blocked. Allow it in the browser's site settings.",
+  'preflight.deviceNotFound': 'No device found',
+  'preflight.deviceInUse': 'The device is in use by another app',
+  'preflight.serverRejected': 'The server did not accept this session',
+  'preflight.serverUnreachable': 'The server could not be reached from this network',
+  'preflight.join': 'JOIN CALL',
+  'preflight.joinAnyway': 'JOIN ANYWAY',
+  'preflight.retry': 'Check again',
+  'preflight.back': 'Back',
+
+  // Live Assistant
+  'liveAssistant.snapshot': 'Send a snapshot to the agent',
+  'liveAssistant.snapshotSending': 'Sending snapshot…',
+  'liveAssistant.snapshotSent': 'Snapshot sent',
+  'liveAssistant.snapshotFailed': 'Could not send the snapshot',
+  'liveAssistant.dismissPrompt': 'Dismiss',
+
+  // Captions
+  'captions.label': 'Captions',
+  'captions.off': 'Off',
+  'captions.standard': 'Standard',
+  'captions.large': 'Large text',
+  'captions.highContrast': 'High contrast',
+
+  // Agent metrics panel
+  'metrics.title': 'Agent metrics',
+  'metrics.export': 'Export metrics as JSON',
+  'metrics.close': 'Close agent metrics',
+  'metrics.timeline': 'State timeline',
+  'metrics.turns': 'Latency per turn',
+  'metrics.noTurns': 'No turns yet. Metrics appear once the agent answers.',
+  'metrics.metric': 'Metric',
+  'metrics.mean': 'Mean',
+  'metrics.max': 'Max',
+  'metrics.endOfTurn': 'End of turn detection',
+  'metrics.responseLatency': 'End of speech to first audio',
+  'metrics.reportDelivery': 'Report delivery',
+
+  // Connection
+  'connection.rejoining': 'Reconnecting ({attempt}/{max})...',
+  'connection.reconnecting': 'Reconnecting...',
+  'connection.reconnected': 'Reconnected',
+  'connection.excellent': 'Excellent connection',
+  'connection.good': 'Good connection',
+  'connection.poor': 'Poor connection',
+  'connection.lost': 'Connection lost',
+  'connection.connected': 'Connected',
+
+  // Diagnostic report panel
+  'report.title': 'Diagnostic Report',
+  'report.close': 'Close diagnostic report',
+  'report.exportPdf': 'Export as PDF',
+  'report.exportMarkdown': 'Export as Markdown',
+  'report.exportJson': 'Export as JSON',
+  'report.exportFailed': 'Could not export the diagnostic report',
+  'report.versions': 'Report versions',
+  'report.version': 'Report {number}',
+  'report.versionLatest': 'Report {number} (latest)',
+  'report.versionWithTime': 'Report {number} ({time})',
+  'report.compare': 'Compare',
+  'report.compareTitle': 'Compare with another report',
+  'report.compareWith': 'Compare report {number} with',
+  'report.viewingEarlier': 'Viewing report {number} of {total}, received at {time}.',
+  'report.showLatest': 'Show latest',
+  'report.identical': 'These reports are identical.',
+  'report.diffLabel': 'Report {number} · {time}',
+  'report.diffRemoved': 'Removed:',
+  'report.diffAdded': 'Added:',
+  'report.webSources': 'Web Sources',
+  'report.videos': '{count, plural, one {Diagnostic Video (#)} other {Diagnostic Videos (#)}}',
+  'report.watchVideo': 'Watch Diagnostic Video',
+  'report.invalidVideo': 'Invalid YouTube URL. Please check the video link.',
+
+  // Errors and toasts
+  'errors.mediaDevices': 'Encountered an error with your media devices',
+  'errors.unauthorized': 'You are not signed in. Please sign in and try again.',
+  'errors.invalidResume': 'The previous session has expired. Please start a new call.',
+  'errors.rateLimited':
+    '{seconds, plural, one {Too many attempts. Please wait # second and try again.} other {Too many attempts. Please wait # seconds and try again.}}',
+  'errors.connectionDetails': 'Error fetching connection details!',
+  'errors.agentDispatch':
+    'The assistant could not be started for this call. Please try again in a moment.',
+} satisfies Record<string, string>;
+
+export type MessageKey = keyof typeof en;
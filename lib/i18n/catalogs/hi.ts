@@ -0,0 +1,216 @@
+import type { Catalog } from '../types';
+
+export const hi: Catalog = {
+  'welcome.tagline': 'मैकेनिक का विश्वसनीय सह-पायलट',
+  'welcome.selectLanguage': 'भाषा चुनें',
+  'welcome.voiceAssistant': 'ध्वनि सहायक',
+  'welcome.liveAssistant': 'लाइव सहायक',
+  'welcome.vehicleDetails': 'वाहन विवरण (वैकल्पिक)',
+  'welcome.startCall': 'कॉल शुरू करें',
+  'welcome.resumeCall': 'पिछली कॉल फिर से शुरू करें',
+  'welcome.pastSessions': 'पिछले सत्र',
+
+  'session.agentListening': 'एजेंट सुन रहा है, कोई प्रश्न पूछें',
+
+  'joinFailure.title': 'कॉल शुरू नहीं हो सकी',
+  'joinFailure.agentDidNotJoin':
+    'असिस्टेंट समय पर कॉल में शामिल नहीं हुआ। हो सकता है वह व्यस्त या ऑफ़लाइन हो।',
+  'joinFailure.agentDidNotInitialize': 'असिस्टेंट शामिल हुआ, लेकिन समय पर तैयार नहीं हुआ।',
+  'joinFailure.dispatchFailed': 'इस कॉल के लिए असिस्टेंट शुरू नहीं हो सका।',
+  'joinFailure.connectFailed': 'कॉल से कनेक्ट नहीं हो सका। अपना इंटरनेट कनेक्शन जाँचें।',
+  'joinFailure.retry': 'फिर से कोशिश करें',
+  'joinFailure.reportProblem': 'समस्या की रिपोर्ट करें',
+  'joinFailure.detailsCopied': 'समस्या का विवरण कॉपी हो गया',
+  'joinFailure.back': 'वापस',
+
+  'history.title': 'पिछले सत्र',
+  'history.close': 'सत्र इतिहास बंद करें',
+  'history.search': 'ट्रांसक्रिप्ट और रिपोर्ट खोजें...',
+  'history.loading': 'लोड हो रहा है...',
+  'history.loadFailed': 'सत्र लोड नहीं हो सके: {error}',
+  'history.empty': 'अभी तक कोई सत्र रिकॉर्ड नहीं हुआ है।',
+  'history.noMatches': 'कोई मिलता-जुलता सत्र नहीं।',
+  'history.delete': 'सत्र हटाएँ',
+  'history.confirmDelete': 'यह सत्र हटाएँ? इसे वापस नहीं किया जा सकता।',
+  'history.back': 'वापस',
+  'history.report': 'रिपोर्ट',
+
+  'vehicle.title': 'वाहन विवरण',
+  'vehicle.close': 'वाहन विवरण बंद करें',
+  'vehicle.vin': 'VIN',
+  'vehicle.vinPlaceholder': '17 अक्षरों का VIN',
+  'vehicle.vinLength': 'VIN में ठीक 17 अक्षर होते हैं।',
+  'vehicle.vinCharacters': 'केवल A–Z (I, O, Q को छोड़कर) और 0–9 की अनुमति है।',
+  'vehicle.vinChecksum': 'चेक डिजिट मेल नहीं खाता। कृपया VIN दोबारा जाँचें।',
+  'vehicle.vinChecksumWarning': 'चेक डिजिट मेल नहीं खाता। उत्तरी अमेरिका के बाहर यह आम है।',
+  'vehicle.modelYear': 'मॉडल वर्ष {year}',
+  'vehicle.make': 'निर्माता',
+  'vehicle.model': 'मॉडल',
+  'vehicle.year': 'वर्ष',
+  'vehicle.mileage': 'माइलेज (कि.मी.)',
+  'vehicle.engineCode': 'इंजन कोड',
+  'vehicle.symptoms': 'बताए गए लक्षण',
+  'vehicle.symptomsPlaceholder': 'जैसे ठंडे में खुरदरा आइडल, चेक इंजन लाइट जली हुई',
+  'vehicle.clear': 'साफ़ करें',
+  'vehicle.save': 'सहेजें',
+
+  'dtc.noDescription': 'ऑफ़लाइन कोड तालिका में कोई विवरण नहीं है।',
+  'dtc.system': 'सिस्टम',
+  'dtc.type': 'प्रकार',
+  'dtc.area': 'क्षेत्र',
+  'dtc.powertrain': 'पावरट्रेन',
+  'dtc.chassis': 'चेसिस',
+  'dtc.body': 'बॉडी',
+  'dtc.network': 'नेटवर्क और वाहन एकीकरण',
+  'dtc.subsystem.fuelAirEmissions': 'ईंधन, वायु मीटरिंग और सहायक उत्सर्जन नियंत्रण',
+  'dtc.subsystem.fuelAir': 'ईंधन और वायु मीटरिंग',
+  'dtc.subsystem.injectorCircuit': 'ईंधन और वायु मीटरिंग (इंजेक्टर सर्किट)',
+  'dtc.subsystem.ignition': 'इग्निशन सिस्टम या मिसफायर',
+  'dtc.subsystem.emissionControls': 'सहायक उत्सर्जन नियंत्रण',
+  'dtc.subsystem.speedIdle': 'वाहन गति, आइडल नियंत्रण और सहायक इनपुट',
+  'dtc.subsystem.computer': 'कंप्यूटर और आउटपुट सर्किट',
+  'dtc.subsystem.transmission': 'ट्रांसमिशन',
+  'dtc.subsystem.hybrid': 'हाइब्रिड प्रणोदन',
+  'dtc.generic': 'सामान्य (SAE)',
+  'dtc.manufacturer': 'निर्माता-विशिष्ट',
+  'dtc.manufacturerNote': 'अर्थ निर्माता के अनुसार बदलता है; OEM सर्विस जानकारी से पुष्टि करें।',
+  'dtc.close': 'बंद करें',
+
+  'controls.label': 'ध्वनि सहायक नियंत्रण',
+  'controls.toggleChat': 'चैट दिखाएँ/छिपाएँ',
+  'controls.toggleReport': 'निदान रिपोर्ट दिखाएँ/छिपाएँ',
+  'controls.toggleMetrics': 'एजेंट मेट्रिक्स दिखाएँ/छिपाएँ',
+  'controls.endCall': 'कॉल समाप्त करें',
+  'controls.end': 'समाप्त',
+  'chat.placeholder': 'कुछ लिखें...',
+  'chat.send': 'भेजें',
+  'chat.sendFailed': 'संदेश नहीं भेजा जा सका, कृपया फिर से प्रयास करें',
+  'chat.interrupted': 'बीच में रोका गया',
+
+  'attachments.attach': 'फ़ाइलें संलग्न करें',
+  'attachments.takePhoto': 'फ़ोटो लें',
+  'attachments.remove': '{name} हटाएँ',
+  'attachments.uploading': 'संलग्न फ़ाइलें अपलोड हो रही हैं',
+  'attachments.uploadFailed': 'संलग्न फ़ाइलें नहीं भेजी जा सकीं, कृपया फिर से प्रयास करें',
+  'attachments.typeNotAllowed': '{name} समर्थित फ़ाइल प्रकार नहीं है',
+  'attachments.tooLarge': '{name} {max} MB से बड़ी है',
+  'attachments.tooMany': 'आप अधिकतम {max} फ़ाइलें संलग्न कर सकते हैं',
+
+  'commands.label': 'कमांड',
+  'commands.report': 'डायग्नोस्टिक रिपोर्ट खोलें',
+  'commands.dtc': 'किसी ट्रबल कोड के बारे में एजेंट से पूछें',
+  'commands.language': 'भाषा बदलें',
+  'commands.end': 'कॉल समाप्त करें',
+  'commands.unknown': 'अज्ञात कमांड /{command}',
+  'commands.usage': 'उपयोग: {usage}',
+  'commands.dtcMessage': 'ट्रबल कोड {code} का निदान करने में मेरी मदद करें',
+
+  'inputMode.label': 'इनपुट मोड',
+  'inputMode.alwaysOn': 'हमेशा चालू',
+  'inputMode.pushToTalk': 'दबाकर बोलें',
+  'inputMode.toggleToTalk': 'टैप करके बोलें',
+  'inputMode.holdToTalk': 'दबाए रखकर बोलें',
+  'inputMode.talking': 'बोल रहे हैं...',
+  'inputMode.tapToTalk': 'बोलने के लिए टैप करें',
+  'inputMode.tapToStop': 'रोकने के लिए टैप करें',
+  'inputMode.changeKey': 'बोलने की कुंजी बदलें ({key})',
+  'inputMode.pressKey': 'कोई कुंजी दबाएँ...',
+
+  'audioProcessing.label': 'ऑडियो प्रोसेसिंग',
+  'audioProcessing.highPassFilter': 'धीमी गड़गड़ाहट हटाएँ',
+  'audioProcessing.noiseGate': 'नॉइज़ गेट',
+  'audioProcessing.noiseSuppression': 'शोर दमन',
+  'audioProcessing.inputLevel': 'माइक्रोफ़ोन स्तर',
+  'micTest.start': 'माइक्रोफ़ोन जाँचें',
+  'micTest.recording': 'रिकॉर्ड हो रहा है, कुछ बोलें...',
+  'micTest.playing': 'आपकी रिकॉर्डिंग चल रही है',
+  'micTest.failed': 'माइक्रोफ़ोन जाँच विफल रही',
+
+  'preflight.title': 'जुड़ने से पहले',
+  'preflight.microphone': 'माइक्रोफ़ोन',
+  'preflight.camera': 'कैमरा',
+  'preflight.connectionDetails': 'सत्र पहुँच',
+  'preflight.server': 'कॉल सर्वर',
+  'preflight.checking': 'जाँच हो रही है...',
+  'preflight.passed': 'ठीक है',
+  'preflight.skipped': 'जाँचा नहीं गया',
+  'preflight.cameraNotUsed': 'वॉइस कॉल में उपयोग नहीं होता',
+  'preflight.speakNow': 'स्तर जाँचने के लिए कुछ बोलें',
+  'preflight.micHeard': 'आपकी आवाज़ आ रही है',
+  'preflight.latency': '{ms} ms में पहुँचा जा सकता है',
+  'preflight.permissionDenied': 'पहुँच अवरुद्ध है। ब्राउज़र की साइट सेटिंग में अनुमति दें।',
+  'preflight.deviceNotFound': 'कोई डिवाइस नहीं मिला',
+  'preflight.deviceInUse': 'डिवाइस किसी अन्य ऐप द्वारा उपयोग में है',
+  'preflight.serverRejected': 'सर्वर ने यह सत्र स्वीकार नहीं किया',
+  'preflight.serverUnreachable': 'इस नेटवर्क से सर्वर तक नहीं पहुँचा जा सका',
+  'preflight.join': 'कॉल से जुड़ें',
+  'preflight.joinAnyway': 'फिर भी जुड़ें',
+  'preflight.retry': 'फिर से जाँचें',
+  'preflight.back': 'वापस',
+  'liveAssistant.snapshot': 'एजेंट को स्नैपशॉट भेजें',
+  'liveAssistant.snapshotSending': 'स्नैपशॉट भेजा जा रहा है…',
+  'liveAssistant.snapshotSent': 'स्नैपशॉट भेजा गया',
+  'liveAssistant.snapshotFailed': 'स्नैपशॉट नहीं भेजा जा सका',
+  'liveAssistant.dismissPrompt': 'हटाएँ',
+
+  'captions.label': 'कैप्शन',
+  'captions.off': 'बंद',
+  'captions.standard': 'सामान्य',
+  'captions.large': 'बड़ा टेक्स्ट',
+  'captions.highContrast': 'उच्च कंट्रास्ट',
+
+  'metrics.title': 'एजेंट मेट्रिक्स',
+  'metrics.export': 'मेट्रिक्स को JSON के रूप में निर्यात करें',
+  'metrics.close': 'एजेंट मेट्रिक्स बंद करें',
+  'metrics.timeline': 'स्थिति समयरेखा',
+  'metrics.turns': 'प्रति टर्न विलंब',
+  'metrics.noTurns': 'अभी कोई टर्न नहीं। एजेंट के जवाब देने पर मेट्रिक्स दिखेंगे।',
+  'metrics.metric': 'मेट्रिक',
+  'metrics.mean': 'औसत',
+  'metrics.max': 'अधिकतम',
+  'metrics.endOfTurn': 'टर्न समाप्ति पहचान',
+  'metrics.responseLatency': 'बोलना खत्म होने से पहली आवाज़ तक',
+  'metrics.reportDelivery': 'रिपोर्ट डिलीवरी',
+
+  'connection.rejoining': 'फिर से जुड़ रहे हैं ({attempt}/{max})...',
+  'connection.reconnecting': 'फिर से जुड़ रहे हैं...',
+  'connection.reconnected': 'फिर से जुड़ गए',
+  'connection.excellent': 'उत्कृष्ट कनेक्शन',
+  'connection.good': 'अच्छा कनेक्शन',
+  'connection.poor': 'कमज़ोर कनेक्शन',
+  'connection.lost': 'कनेक्शन टूट गया',
+  'connection.connected': 'जुड़े हुए',
+
+  'report.title': 'निदान रिपोर्ट',
+  'report.close': 'निदान रिपोर्ट बंद करें',
+  'report.exportPdf': 'PDF के रूप में निर्यात करें',
+  'report.exportMarkdown': 'Markdown के रूप में निर्यात करें',
+  'report.exportJson': 'JSON के रूप में निर्यात करें',
+  'report.exportFailed': 'निदान रिपोर्ट निर्यात नहीं हो सकी',
+  'report.versions': 'रिपोर्ट संस्करण',
+  'report.version': 'रिपोर्ट {number}',
+  'report.versionLatest': 'रिपोर्ट {number} (नवीनतम)',
+  'report.versionWithTime': 'रिपोर्ट {number} ({time})',
+  'report.compare': 'तुलना करें',
+  'report.compareTitle': 'किसी अन्य रिपोर्ट से तुलना करें',
+  'report.compareWith': 'रिपोर्ट {number} की तुलना करें',
+  'report.viewingEarlier': '{total} में से रिपोर्ट {number} देख रहे हैं, {time} पर प्राप्त।',
+  'report.showLatest': 'नवीनतम दिखाएँ',
+  'report.identical': 'ये रिपोर्ट एक जैसी हैं।',
+  'report.diffLabel': 'रिपोर्ट {number} · {time}',
+  'report.diffRemoved': 'हटाया गया:',
+  'report.diffAdded': 'जोड़ा गया:',
+  'report.webSources': 'वेब स्रोत',
+  'report.videos': 'निदान वीडियो ({count})',
+  'report.watchVideo': 'निदान वीडियो देखें',
+  'report.invalidVideo': 'अमान्य YouTube URL. कृपया वीडियो लिंक जाँचें।',
+
+  'errors.mediaDevices': 'आपके मीडिया उपकरणों में त्रुटि आई',
+  'errors.unauthorized': 'आपने साइन इन नहीं किया है। कृपया साइन इन करके फिर से प्रयास करें।',
+  'errors.invalidResume': 'पिछला सत्र समाप्त हो चुका है। कृपया नई कॉल शुरू करें।',
+  'errors.rateLimited':
+    'बहुत अधिक प्रयास। कृपया {seconds} सेकंड प्रतीक्षा करें और फिर से प्रयास करें।',
+  'errors.connectionDetails': 'कनेक्शन विवरण प्राप्त करने में त्रुटि!',
+  'errors.agentDispatch':
+    'इस कॉल के लिए असिस्टेंट शुरू नहीं हो सका। कृपया थोड़ी देर बाद फिर से कोशिश करें।',
+};
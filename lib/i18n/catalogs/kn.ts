@@ -0,0 +1,219 @@
+import type { Catalog } from '../types';
+
+export const kn: Catalog = {
+  'welcome.tagline': 'ಮೆಕ್ಯಾನಿಕ್‌ನ ವಿಶ್ವಾಸಾರ್ಹ ಸಹ-ಪೈಲಟ್',
+  'welcome.selectLanguage': 'ಭಾಷೆಯನ್ನು ಆಯ್ಕೆಮಾಡಿ',
+  'welcome.voiceAssistant': 'ಧ್ವನಿ ಸಹಾಯಕ',
+  'welcome.liveAssistant': 'ಲೈವ್ ಸಹಾಯಕ',
+  'welcome.vehicleDetails': 'ವಾಹನದ ವಿವರಗಳು (ಐಚ್ಛಿಕ)',
+  'welcome.startCall': 'ಕರೆ ಪ್ರಾರಂಭಿಸಿ',
+  'welcome.resumeCall': 'ಹಿಂದಿನ ಕರೆಯನ್ನು ಮುಂದುವರಿಸಿ',
+  'welcome.pastSessions': 'ಹಿಂದಿನ ಸೆಷನ್‌ಗಳು',
+
+  'session.agentListening': 'ಏಜೆಂಟ್ ಕೇಳುತ್ತಿದೆ, ಪ್ರಶ್ನೆ ಕೇಳಿ',
+
+  'joinFailure.title': 'ಕರೆಯನ್ನು ಪ್ರಾರಂಭಿಸಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ',
+  'joinFailure.agentDidNotJoin':
+    'ಸಹಾಯಕ ಸಮಯಕ್ಕೆ ಸರಿಯಾಗಿ ಕರೆಗೆ ಸೇರಲಿಲ್ಲ. ಅದು ಕಾರ್ಯನಿರತವಾಗಿರಬಹುದು ಅಥವಾ ಆಫ್‌ಲೈನ್‌ನಲ್ಲಿರಬಹುದು.',
+  'joinFailure.agentDidNotInitialize': 'ಸಹಾಯಕ ಸೇರಿತು ಆದರೆ ಸಮಯಕ್ಕೆ ಸರಿಯಾಗಿ ಸಿದ್ಧವಾಗಲಿಲ್ಲ.',
+  'joinFailure.dispatchFailed': 'ಈ ಕರೆಗಾಗಿ ಸಹಾಯಕವನ್ನು ಪ್ರಾರಂಭಿಸಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ.',
+  'joinFailure.connectFailed':
+    'ಕರೆಗೆ ಸಂಪರ್ಕಿಸಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ. ನಿಮ್ಮ ಇಂಟರ್ನೆಟ್ ಸಂಪರ್ಕವನ್ನು ಪರಿಶೀಲಿಸಿ.',
+  'joinFailure.retry': 'ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ',
+  'joinFailure.reportProblem': 'ಸಮಸ್ಯೆಯನ್ನು ವರದಿ ಮಾಡಿ',
+  'joinFailure.detailsCopied': 'ಸಮಸ್ಯೆಯ ವಿವರಗಳನ್ನು ನಕಲಿಸಲಾಗಿದೆ',
+  'joinFailure.back': 'ಹಿಂದೆ',
+
+  'history.title': 'ಹಿಂದಿನ ಸೆಷನ್‌ಗಳು',
+  'history.close': 'ಸೆಷನ್ ಇತಿಹಾಸವನ್ನು ಮುಚ್ಚಿ',
+  'history.search': 'ಪ್ರತಿಲೇಖನಗಳು ಮತ್ತು ವರದಿಗಳನ್ನು ಹುಡುಕಿ...',
+  'history.loading': 'ಲೋಡ್ ಆಗುತ್ತಿದೆ...',
+  'history.loadFailed': 'ಸೆಷನ್‌ಗಳನ್ನು ಲೋಡ್ ಮಾಡಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ: {error}',
+  'history.empty': 'ಇನ್ನೂ ಯಾವುದೇ ಸೆಷನ್ ದಾಖಲಾಗಿಲ್ಲ.',
+  'history.noMatches': 'ಹೊಂದುವ ಸೆಷನ್‌ಗಳಿಲ್ಲ.',
+  'history.delete': 'ಸೆಷನ್ ಅಳಿಸಿ',
+  'history.confirmDelete': 'ಈ ಸೆಷನ್ ಅಳಿಸಬೇಕೇ? ಇದನ್ನು ರದ್ದುಗೊಳಿಸಲು ಸಾಧ್ಯವಿಲ್ಲ.',
+  'history.back': 'ಹಿಂದೆ',
+  'history.report': 'ವರದಿ',
+
+  'vehicle.title': 'ವಾಹನದ ವಿವರಗಳು',
+  'vehicle.close': 'ವಾಹನದ ವಿವರಗಳನ್ನು ಮುಚ್ಚಿ',
+  'vehicle.vin': 'VIN',
+  'vehicle.vinPlaceholder': '17 ಅಕ್ಷರಗಳ VIN',
+  'vehicle.vinLength': 'VIN ನಲ್ಲಿ ನಿಖರವಾಗಿ 17 ಅಕ್ಷರಗಳಿರುತ್ತವೆ.',
+  'vehicle.vinCharacters': 'A–Z (I, O, Q ಹೊರತುಪಡಿಸಿ) ಮತ್ತು 0–9 ಮಾತ್ರ ಅನುಮತಿಸಲಾಗಿದೆ.',
+  'vehicle.vinChecksum': 'ಚೆಕ್ ಅಂಕೆ ಹೊಂದಿಕೆಯಾಗುತ್ತಿಲ್ಲ. ದಯವಿಟ್ಟು VIN ಅನ್ನು ಮತ್ತೆ ಪರಿಶೀಲಿಸಿ.',
+  'vehicle.vinChecksumWarning': 'ಚೆಕ್ ಅಂಕೆ ಹೊಂದಿಕೆಯಾಗುತ್ತಿಲ್ಲ. ಉತ್ತರ ಅಮೆರಿಕದ ಹೊರಗೆ ಇದು ಸಾಮಾನ್ಯ.',
+  'vehicle.modelYear': 'ಮಾದರಿ ವರ್ಷ {year}',
+  'vehicle.make': 'ತಯಾರಕ',
+  'vehicle.model': 'ಮಾದರಿ',
+  'vehicle.year': 'ವರ್ಷ',
+  'vehicle.mileage': 'ಓಡಿದ ದೂರ (ಕಿ.ಮೀ)',
+  'vehicle.engineCode': 'ಎಂಜಿನ್ ಕೋಡ್',
+  'vehicle.symptoms': 'ವರದಿಯಾದ ಲಕ್ಷಣಗಳು',
+  'vehicle.symptomsPlaceholder': 'ಉದಾ. ತಣ್ಣಗಿರುವಾಗ ಅಸ್ಥಿರ ಐಡಲ್, ಚೆಕ್ ಎಂಜಿನ್ ಲೈಟ್ ಆನ್',
+  'vehicle.clear': 'ತೆರವುಗೊಳಿಸಿ',
+  'vehicle.save': 'ಉಳಿಸಿ',
+
+  'dtc.noDescription': 'ಆಫ್‌ಲೈನ್ ಕೋಡ್ ಪಟ್ಟಿಯಲ್ಲಿ ವಿವರಣೆ ಇಲ್ಲ.',
+  'dtc.system': 'ವ್ಯವಸ್ಥೆ',
+  'dtc.type': 'ಪ್ರಕಾರ',
+  'dtc.area': 'ಭಾಗ',
+  'dtc.powertrain': 'ಪವರ್‌ಟ್ರೇನ್',
+  'dtc.chassis': 'ಚಾಸಿಸ್',
+  'dtc.body': 'ಬಾಡಿ',
+  'dtc.network': 'ನೆಟ್‌ವರ್ಕ್ ಮತ್ತು ವಾಹನ ಸಂಯೋಜನೆ',
+  'dtc.subsystem.fuelAirEmissions': 'ಇಂಧನ, ಗಾಳಿ ಮಾಪನ ಮತ್ತು ಸಹಾಯಕ ಹೊರಸೂಸುವಿಕೆ ನಿಯಂತ್ರಣಗಳು',
+  'dtc.subsystem.fuelAir': 'ಇಂಧನ ಮತ್ತು ಗಾಳಿ ಮಾಪನ',
+  'dtc.subsystem.injectorCircuit': 'ಇಂಧನ ಮತ್ತು ಗಾಳಿ ಮಾಪನ (ಇಂಜೆಕ್ಟರ್ ಸರ್ಕ್ಯೂಟ್)',
+  'dtc.subsystem.ignition': 'ಇಗ್ನಿಷನ್ ವ್ಯವಸ್ಥೆ ಅಥವಾ ಮಿಸ್‌ಫೈರ್',
+  'dtc.subsystem.emissionControls': 'ಸಹಾಯಕ ಹೊರಸೂಸುವಿಕೆ ನಿಯಂತ್ರಣಗಳು',
+  'dtc.subsystem.speedIdle': 'ವಾಹನದ ವೇಗ, ಐಡಲ್ ನಿಯಂತ್ರಣ ಮತ್ತು ಸಹಾಯಕ ಇನ್‌ಪುಟ್‌ಗಳು',
+  'dtc.subsystem.computer': 'ಕಂಪ್ಯೂಟರ್ ಮತ್ತು ಔಟ್‌ಪುಟ್ ಸರ್ಕ್ಯೂಟ್‌ಗಳು',
+  'dtc.subsystem.transmission': 'ಟ್ರಾನ್ಸ್‌ಮಿಷನ್',
+  'dtc.subsystem.hybrid': 'ಹೈಬ್ರಿಡ್ ಪ್ರೊಪಲ್ಷನ್',
+  'dtc.generic': 'ಸಾಮಾನ್ಯ (SAE)',
+  'dtc.manufacturer': 'ತಯಾರಕ-ನಿರ್ದಿಷ್ಟ',
+  'dtc.manufacturerNote': 'ಅರ್ಥ ತಯಾರಕರ ಪ್ರಕಾರ ಬದಲಾಗುತ್ತದೆ; OEM ಸೇವಾ ಮಾಹಿತಿಯೊಂದಿಗೆ ಖಚಿತಪಡಿಸಿ.',
+  'dtc.close': 'ಮುಚ್ಚಿ',
+
+  'controls.label': 'ಧ್ವನಿ ಸಹಾಯಕ ನಿಯಂತ್ರಣಗಳು',
+  'controls.toggleChat': 'ಚಾಟ್ ತೋರಿಸು/ಮರೆಮಾಡು',
+  'controls.toggleReport': 'ರೋಗನಿರ್ಣಯ ವರದಿ ತೋರಿಸು/ಮರೆಮಾಡು',
+  'controls.toggleMetrics': 'ಏಜೆಂಟ್ ಮೆಟ್ರಿಕ್ಸ್ ತೋರಿಸಿ/ಮರೆಮಾಡಿ',
+  'controls.endCall': 'ಕರೆ ಮುಗಿಸಿ',
+  'controls.end': 'ಮುಗಿಸಿ',
+  'chat.placeholder': 'ಏನಾದರೂ ಟೈಪ್ ಮಾಡಿ...',
+  'chat.send': 'ಕಳುಹಿಸಿ',
+  'chat.sendFailed': 'ಸಂದೇಶ ಕಳುಹಿಸಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ, ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ',
+  'chat.interrupted': 'ಅಡ್ಡಿಪಡಿಸಲಾಗಿದೆ',
+
+  'attachments.attach': 'ಫೈಲ್‌ಗಳನ್ನು ಲಗತ್ತಿಸಿ',
+  'attachments.takePhoto': 'ಫೋಟೋ ತೆಗೆಯಿರಿ',
+  'attachments.remove': '{name} ತೆಗೆದುಹಾಕಿ',
+  'attachments.uploading': 'ಲಗತ್ತುಗಳನ್ನು ಅಪ್‌ಲೋಡ್ ಮಾಡಲಾಗುತ್ತಿದೆ',
+  'attachments.uploadFailed': 'ಲಗತ್ತುಗಳನ್ನು ಕಳುಹಿಸಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ, ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ',
+  'attachments.typeNotAllowed': '{name} ಬೆಂಬಲಿತ ಫೈಲ್ ಪ್ರಕಾರವಲ್ಲ',
+  'attachments.tooLarge': '{name} {max} MB ಗಿಂತ ದೊಡ್ಡದಾಗಿದೆ',
+  'attachments.tooMany': 'ನೀವು {max} ಫೈಲ್‌ಗಳವರೆಗೆ ಲಗತ್ತಿಸಬಹುದು',
+
+  'commands.label': 'ಆಜ್ಞೆಗಳು',
+  'commands.report': 'ರೋಗನಿರ್ಣಯ ವರದಿಯನ್ನು ತೆರೆಯಿರಿ',
+  'commands.dtc': 'ದೋಷ ಕೋಡ್ ಬಗ್ಗೆ ಏಜೆಂಟ್‌ಗೆ ಕೇಳಿ',
+  'commands.language': 'ಭಾಷೆ ಬದಲಿಸಿ',
+  'commands.end': 'ಕರೆ ಕೊನೆಗೊಳಿಸಿ',
+  'commands.unknown': 'ಅಜ್ಞಾತ ಆಜ್ಞೆ /{command}',
+  'commands.usage': 'ಬಳಕೆ: {usage}',
+  'commands.dtcMessage': 'ದೋಷ ಕೋಡ್ {code} ಅನ್ನು ಪತ್ತೆಹಚ್ಚಲು ಸಹಾಯ ಮಾಡಿ',
+
+  'inputMode.label': 'ಇನ್‌ಪುಟ್ ಮೋಡ್',
+  'inputMode.alwaysOn': 'ಯಾವಾಗಲೂ ಆನ್',
+  'inputMode.pushToTalk': 'ಒತ್ತಿ ಮಾತನಾಡಿ',
+  'inputMode.toggleToTalk': 'ಟ್ಯಾಪ್ ಮಾಡಿ ಮಾತನಾಡಿ',
+  'inputMode.holdToTalk': 'ಒತ್ತಿ ಹಿಡಿದು ಮಾತನಾಡಿ',
+  'inputMode.talking': 'ಮಾತನಾಡುತ್ತಿದ್ದೀರಿ...',
+  'inputMode.tapToTalk': 'ಮಾತನಾಡಲು ಟ್ಯಾಪ್ ಮಾಡಿ',
+  'inputMode.tapToStop': 'ನಿಲ್ಲಿಸಲು ಟ್ಯಾಪ್ ಮಾಡಿ',
+  'inputMode.changeKey': 'ಮಾತನಾಡುವ ಕೀ ಬದಲಿಸಿ ({key})',
+  'inputMode.pressKey': 'ಒಂದು ಕೀ ಒತ್ತಿ...',
+
+  'audioProcessing.label': 'ಆಡಿಯೊ ಸಂಸ್ಕರಣೆ',
+  'audioProcessing.highPassFilter': 'ಕಡಿಮೆ ಗುಡುಗು ಶಬ್ದ ಕತ್ತರಿಸಿ',
+  'audioProcessing.noiseGate': 'ನಾಯ್ಸ್ ಗೇಟ್',
+  'audioProcessing.noiseSuppression': 'ಶಬ್ದ ನಿಗ್ರಹ',
+  'audioProcessing.inputLevel': 'ಮೈಕ್ರೊಫೋನ್ ಮಟ್ಟ',
+  'micTest.start': 'ಮೈಕ್ರೊಫೋನ್ ಪರೀಕ್ಷಿಸಿ',
+  'micTest.recording': 'ರೆಕಾರ್ಡ್ ಆಗುತ್ತಿದೆ, ಏನಾದರೂ ಹೇಳಿ...',
+  'micTest.playing': 'ನಿಮ್ಮ ರೆಕಾರ್ಡಿಂಗ್ ಪ್ಲೇ ಆಗುತ್ತಿದೆ',
+  'micTest.failed': 'ಮೈಕ್ರೊಫೋನ್ ಪರೀಕ್ಷೆ ವಿಫಲವಾಗಿದೆ',
+
+  'preflight.title': 'ಸೇರುವ ಮೊದಲು',
+  'preflight.microphone': 'ಮೈಕ್ರೊಫೋನ್',
+  'preflight.camera': 'ಕ್ಯಾಮೆರಾ',
+  'preflight.connectionDetails': 'ಸೆಷನ್ ಪ್ರವೇಶ',
+  'preflight.server': 'ಕರೆ ಸರ್ವರ್',
+  'preflight.checking': 'ಪರಿಶೀಲಿಸಲಾಗುತ್ತಿದೆ...',
+  'preflight.passed': 'ಸರಿ',
+  'preflight.skipped': 'ಪರಿಶೀಲಿಸಲಾಗಿಲ್ಲ',
+  'preflight.cameraNotUsed': 'ಧ್ವನಿ ಕರೆಗಳಲ್ಲಿ ಬಳಸುವುದಿಲ್ಲ',
+  'preflight.speakNow': 'ಮಟ್ಟ ಪರಿಶೀಲಿಸಲು ಏನಾದರೂ ಹೇಳಿ',
+  'preflight.micHeard': 'ನಿಮ್ಮ ಧ್ವನಿ ಕೇಳಿಸುತ್ತಿದೆ',
+  'preflight.latency': '{ms} ms ನಲ್ಲಿ ತಲುಪಬಹುದು',
+  'preflight.permissionDenied':
+    'ಪ್ರವೇಶವನ್ನು ನಿರ್ಬಂಧಿಸಲಾಗಿದೆ. ಬ್ರೌಸರ್‌ನ ಸೈಟ್ ಸೆಟ್ಟಿಂಗ್‌ಗಳಲ್ಲಿ ಅನುಮತಿಸಿ.',
+  'preflight.deviceNotFound': 'ಯಾವುದೇ ಸಾಧನ ಕಂಡುಬಂದಿಲ್ಲ',
+  'preflight.deviceInUse': 'ಸಾಧನವನ್ನು ಬೇರೆ ಆ್ಯಪ್ ಬಳಸುತ್ತಿದೆ',
+  'preflight.serverRejected': 'ಸರ್ವರ್ ಈ ಸೆಷನ್ ಅನ್ನು ಸ್ವೀಕರಿಸಲಿಲ್ಲ',
+  'preflight.serverUnreachable': 'ಈ ನೆಟ್‌ವರ್ಕ್‌ನಿಂದ ಸರ್ವರ್ ತಲುಪಲಾಗಲಿಲ್ಲ',
+  'preflight.join': 'ಕರೆಗೆ ಸೇರಿ',
+  'preflight.joinAnyway': 'ಹಾಗೆಯೇ ಸೇರಿ',
+  'preflight.retry': 'ಮತ್ತೆ ಪರಿಶೀಲಿಸಿ',
+  'preflight.back': 'ಹಿಂದೆ',
+  'liveAssistant.snapshot': 'ಏಜೆಂಟ್‌ಗೆ ಸ್ನ್ಯಾಪ್‌ಶಾಟ್ ಕಳುಹಿಸಿ',
+  'liveAssistant.snapshotSending': 'ಸ್ನ್ಯಾಪ್‌ಶಾಟ್ ಕಳುಹಿಸಲಾಗುತ್ತಿದೆ…',
+  'liveAssistant.snapshotSent': 'ಸ್ನ್ಯಾಪ್‌ಶಾಟ್ ಕಳುಹಿಸಲಾಗಿದೆ',
+  'liveAssistant.snapshotFailed': 'ಸ್ನ್ಯಾಪ್‌ಶಾಟ್ ಕಳುಹಿಸಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ',
+  'liveAssistant.dismissPrompt': 'ಮುಚ್ಚಿ',
+
+  'captions.label': 'ಶೀರ್ಷಿಕೆಗಳು',
+  'captions.off': 'ಆಫ್',
+  'captions.standard': 'ಸಾಮಾನ್ಯ',
+  'captions.large': 'ದೊಡ್ಡ ಅಕ್ಷರ',
+  'captions.highContrast': 'ಹೆಚ್ಚಿನ ಕಾಂಟ್ರಾಸ್ಟ್',
+
+  'metrics.title': 'ಏಜೆಂಟ್ ಮೆಟ್ರಿಕ್ಸ್',
+  'metrics.export': 'ಮೆಟ್ರಿಕ್ಸ್ ಅನ್ನು JSON ಆಗಿ ರಫ್ತು ಮಾಡಿ',
+  'metrics.close': 'ಏಜೆಂಟ್ ಮೆಟ್ರಿಕ್ಸ್ ಮುಚ್ಚಿ',
+  'metrics.timeline': 'ಸ್ಥಿತಿ ಕಾಲರೇಖೆ',
+  'metrics.turns': 'ಪ್ರತಿ ತಿರುವಿನ ವಿಳಂಬ',
+  'metrics.noTurns': 'ಇನ್ನೂ ಯಾವುದೇ ತಿರುವುಗಳಿಲ್ಲ. ಏಜೆಂಟ್ ಉತ್ತರಿಸಿದ ನಂತರ ಮೆಟ್ರಿಕ್ಸ್ ಕಾಣಿಸುತ್ತವೆ.',
+  'metrics.metric': 'ಮೆಟ್ರಿಕ್',
+  'metrics.mean': 'ಸರಾಸರಿ',
+  'metrics.max': 'ಗರಿಷ್ಠ',
+  'metrics.endOfTurn': 'ತಿರುವಿನ ಅಂತ್ಯ ಪತ್ತೆ',
+  'metrics.responseLatency': 'ಮಾತು ಮುಗಿದಿದ್ದರಿಂದ ಮೊದಲ ಧ್ವನಿಯವರೆಗೆ',
+  'metrics.reportDelivery': 'ವರದಿ ವಿತರಣೆ',
+
+  'connection.rejoining': 'ಮರುಸಂಪರ್ಕಿಸಲಾಗುತ್ತಿದೆ ({attempt}/{max})...',
+  'connection.reconnecting': 'ಮರುಸಂಪರ್ಕಿಸಲಾಗುತ್ತಿದೆ...',
+  'connection.reconnected': 'ಮರುಸಂಪರ್ಕಗೊಂಡಿದೆ',
+  'connection.excellent': 'ಅತ್ಯುತ್ತಮ ಸಂಪರ್ಕ',
+  'connection.good': 'ಉತ್ತಮ ಸಂಪರ್ಕ',
+  'connection.poor': 'ದುರ್ಬಲ ಸಂಪರ್ಕ',
+  'connection.lost': 'ಸಂಪರ್ಕ ಕಡಿತಗೊಂಡಿದೆ',
+  'connection.connected': 'ಸಂಪರ್ಕಗೊಂಡಿದೆ',
+
+  'report.title': 'ರೋಗನಿರ್ಣಯ ವರದಿ',
+  'report.close': 'ರೋಗನಿರ್ಣಯ ವರದಿಯನ್ನು ಮುಚ್ಚಿ',
+  'report.exportPdf': 'PDF ಆಗಿ ರಫ್ತು ಮಾಡಿ',
+  'report.exportMarkdown': 'Markdown ಆಗಿ ರಫ್ತು ಮಾಡಿ',
+  'report.exportJson': 'JSON ಆಗಿ ರಫ್ತು ಮಾಡಿ',
+  'report.exportFailed': 'ರೋಗನಿರ್ಣಯ ವರದಿಯನ್ನು ರಫ್ತು ಮಾಡಲಾಗಲಿಲ್ಲ',
+  'report.versions': 'ವರದಿ ಆವೃತ್ತಿಗಳು',
+  'report.version': 'ವರದಿ {number}',
+  'report.versionLatest': 'ವರದಿ {number} (ಇತ್ತೀಚಿನದು)',
+  'report.versionWithTime': 'ವರದಿ {number} ({time})',
+  'report.compare': 'ಹೋಲಿಸಿ',
+  'report.compareTitle': 'ಇನ್ನೊಂದು ವರದಿಯೊಂದಿಗೆ ಹೋಲಿಸಿ',
+  'report.compareWith': 'ವರದಿ {number} ಅನ್ನು ಇದರೊಂದಿಗೆ ಹೋಲಿಸಿ',
+  'report.viewingEarlier':
+    '{total} ರಲ್ಲಿ ವರದಿ {number} ನೋಡುತ್ತಿದ್ದೀರಿ, {time} ಕ್ಕೆ ಸ್ವೀಕರಿಸಲಾಗಿದೆ.',
+  'report.showLatest': 'ಇತ್ತೀಚಿನದನ್ನು ತೋರಿಸಿ',
+  'report.identical': 'ಈ ವರದಿಗಳು ಒಂದೇ ಆಗಿವೆ.',
+  'report.diffLabel': 'ವರದಿ {number} · {time}',
+  'report.diffRemoved': 'ತೆಗೆದುಹಾಕಲಾಗಿದೆ:',
+  'report.diffAdded': 'ಸೇರಿಸಲಾಗಿದೆ:',
+  'report.webSources': 'ವೆಬ್ ಮೂಲಗಳು',
+  'report.videos': 'ರೋಗನಿರ್ಣಯ ವೀಡಿಯೊಗಳು ({count})',
+  'report.watchVideo': 'ರೋಗನಿರ್ಣಯ ವೀಡಿಯೊ ನೋಡಿ',
+  'report.invalidVideo': 'ಅಮಾನ್ಯ YouTube URL. ದಯವಿಟ್ಟು ವೀಡಿಯೊ ಲಿಂಕ್ ಪರಿಶೀಲಿಸಿ.',
+
+  'errors.mediaDevices': 'ನಿಮ್ಮ ಮೀಡಿಯಾ ಸಾಧನಗಳಲ್ಲಿ ದೋಷ ಕಂಡುಬಂದಿದೆ',
+  'errors.unauthorized': 'ನೀವು ಸೈನ್ ಇನ್ ಆಗಿಲ್ಲ. ದಯವಿಟ್ಟು ಸೈನ್ ಇನ್ ಮಾಡಿ ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+  'errors.invalidResume': 'ಹಿಂದಿನ ಸೆಷನ್‌ನ ಅವಧಿ ಮುಗಿದಿದೆ. ದಯವಿಟ್ಟು ಹೊಸ ಕರೆ ಪ್ರಾರಂಭಿಸಿ.',
+  'errors.rateLimited':
+    'ಹಲವು ಪ್ರಯತ್ನಗಳು. ದಯವಿಟ್ಟು {seconds} ಸೆಕೆಂಡುಗಳು ಕಾಯಿರಿ ಮತ್ತು ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+  'errors.connectionDetails': 'ಸಂಪರ್ಕ ವಿವರಗಳನ್ನು ಪಡೆಯುವಲ್ಲಿ ದೋಷ!',
+  'errors.agentDispatch':
+    'ಈ ಕರೆಗಾಗಿ ಸಹಾಯಕವನ್ನು ಪ್ರಾರಂಭಿಸಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ. ದಯವಿಟ್ಟು ಸ್ವಲ್ಪ ಸಮಯದ ನಂತರ ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+};
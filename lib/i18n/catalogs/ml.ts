@@ -0,0 +1,218 @@
+import type { Catalog } from '../types';
+
+export const ml: Catalog = {
+  'welcome.tagline': 'മെക്കാനിക്കിന്റെ വിശ്വസ്ത സഹ-പൈലറ്റ്',
+  'welcome.selectLanguage': 'ഭാഷ തിരഞ്ഞെടുക്കുക',
+  'welcome.voiceAssistant': 'വോയ്‌സ് അസിസ്റ്റന്റ്',
+  'welcome.liveAssistant': 'ലൈവ് അസിസ്റ്റന്റ്',
+  'welcome.vehicleDetails': 'വാഹന വിവരങ്ങൾ (ഓപ്ഷണൽ)',
+  'welcome.startCall': 'കോൾ ആരംഭിക്കുക',
+  'welcome.resumeCall': 'മുമ്പത്തെ കോൾ തുടരുക',
+  'welcome.pastSessions': 'മുൻ സെഷനുകൾ',
+
+  'session.agentListening': 'ഏജന്റ് കേൾക്കുന്നു, ഒരു ചോദ്യം ചോദിക്കൂ',
+
+  'joinFailure.title': 'കോൾ ആരംഭിക്കാനായില്ല',
+  'joinFailure.agentDidNotJoin':
+    'അസിസ്റ്റന്റ് സമയത്ത് കോളിൽ ചേർന്നില്ല. അത് തിരക്കിലോ ഓഫ്‌ലൈനിലോ ആയിരിക്കാം.',
+  'joinFailure.agentDidNotInitialize': 'അസിസ്റ്റന്റ് ചേർന്നു, പക്ഷേ സമയത്ത് തയ്യാറായില്ല.',
+  'joinFailure.dispatchFailed': 'ഈ കോളിനായി അസിസ്റ്റന്റിനെ ആരംഭിക്കാനായില്ല.',
+  'joinFailure.connectFailed':
+    'കോളിലേക്ക് കണക്റ്റ് ചെയ്യാനായില്ല. നിങ്ങളുടെ ഇന്റർനെറ്റ് കണക്ഷൻ പരിശോധിക്കുക.',
+  'joinFailure.retry': 'വീണ്ടും ശ്രമിക്കുക',
+  'joinFailure.reportProblem': 'പ്രശ്നം റിപ്പോർട്ട് ചെയ്യുക',
+  'joinFailure.detailsCopied': 'പ്രശ്ന വിവരങ്ങൾ പകർത്തി',
+  'joinFailure.back': 'തിരികെ',
+
+  'history.title': 'മുൻ സെഷനുകൾ',
+  'history.close': 'സെഷൻ ചരിത്രം അടയ്ക്കുക',
+  'history.search': 'ട്രാൻസ്ക്രിപ്റ്റുകളും റിപ്പോർട്ടുകളും തിരയുക...',
+  'history.loading': 'ലോഡ് ചെയ്യുന്നു...',
+  'history.loadFailed': 'സെഷനുകൾ ലോഡ് ചെയ്യാനായില്ല: {error}',
+  'history.empty': 'ഇതുവരെ സെഷനുകളൊന്നും രേഖപ്പെടുത്തിയിട്ടില്ല.',
+  'history.noMatches': 'പൊരുത്തപ്പെടുന്ന സെഷനുകളില്ല.',
+  'history.delete': 'സെഷൻ ഇല്ലാതാക്കുക',
+  'history.confirmDelete': 'ഈ സെഷൻ ഇല്ലാതാക്കണോ? ഇത് പഴയപടിയാക്കാനാകില്ല.',
+  'history.back': 'തിരികെ',
+  'history.report': 'റിപ്പോർട്ട്',
+
+  'vehicle.title': 'വാഹന വിവരങ്ങൾ',
+  'vehicle.close': 'വാഹന വിവരങ്ങൾ അടയ്ക്കുക',
+  'vehicle.vin': 'VIN',
+  'vehicle.vinPlaceholder': '17 അക്ഷരങ്ങളുള്ള VIN',
+  'vehicle.vinLength': 'VIN-ൽ കൃത്യം 17 അക്ഷരങ്ങളുണ്ട്.',
+  'vehicle.vinCharacters': 'A–Z (I, O, Q ഒഴികെ), 0–9 എന്നിവ മാത്രമേ അനുവദിക്കൂ.',
+  'vehicle.vinChecksum': 'ചെക്ക് അക്കം പൊരുത്തപ്പെടുന്നില്ല. VIN വീണ്ടും പരിശോധിക്കുക.',
+  'vehicle.vinChecksumWarning':
+    'ചെക്ക് അക്കം പൊരുത്തപ്പെടുന്നില്ല. വടക്കേ അമേരിക്കയ്ക്ക് പുറത്ത് ഇത് സാധാരണമാണ്.',
+  'vehicle.modelYear': 'മോഡൽ വർഷം {year}',
+  'vehicle.make': 'നിർമ്മാതാവ്',
+  'vehicle.model': 'മോഡൽ',
+  'vehicle.year': 'വർഷം',
+  'vehicle.mileage': 'ഓടിയ ദൂരം (കി.മീ)',
+  'vehicle.engineCode': 'എഞ്ചിൻ കോഡ്',
+  'vehicle.symptoms': 'റിപ്പോർട്ട് ചെയ്ത ലക്ഷണങ്ങൾ',
+  'vehicle.symptomsPlaceholder': 'ഉദാ. തണുപ്പിൽ അസ്ഥിരമായ ഐഡിൽ, ചെക്ക് എഞ്ചിൻ ലൈറ്റ് ഓണാണ്',
+  'vehicle.clear': 'മായ്ക്കുക',
+  'vehicle.save': 'സംരക്ഷിക്കുക',
+
+  'dtc.noDescription': 'ഓഫ്‌ലൈൻ കോഡ് പട്ടികയിൽ വിവരണമില്ല.',
+  'dtc.system': 'സിസ്റ്റം',
+  'dtc.type': 'തരം',
+  'dtc.area': 'ഭാഗം',
+  'dtc.powertrain': 'പവർട്രെയിൻ',
+  'dtc.chassis': 'ഷാസി',
+  'dtc.body': 'ബോഡി',
+  'dtc.network': 'നെറ്റ്‌വർക്കും വാഹന സംയോജനവും',
+  'dtc.subsystem.fuelAirEmissions': 'ഇന്ധനം, വായു മീറ്ററിംഗ്, സഹായ ബഹിർഗമന നിയന്ത്രണങ്ങൾ',
+  'dtc.subsystem.fuelAir': 'ഇന്ധനവും വായു മീറ്ററിംഗും',
+  'dtc.subsystem.injectorCircuit': 'ഇന്ധനവും വായു മീറ്ററിംഗും (ഇൻജക്ടർ സർക്യൂട്ട്)',
+  'dtc.subsystem.ignition': 'ഇഗ്നിഷൻ സംവിധാനം അല്ലെങ്കിൽ മിസ്‌ഫയർ',
+  'dtc.subsystem.emissionControls': 'സഹായ ബഹിർഗമന നിയന്ത്രണങ്ങൾ',
+  'dtc.subsystem.speedIdle': 'വാഹന വേഗം, ഐഡിൽ നിയന്ത്രണം, സഹായ ഇൻപുട്ടുകൾ',
+  'dtc.subsystem.computer': 'കമ്പ്യൂട്ടറും ഔട്ട്പുട്ട് സർക്യൂട്ടുകളും',
+  'dtc.subsystem.transmission': 'ട്രാൻസ്മിഷൻ',
+  'dtc.subsystem.hybrid': 'ഹൈബ്രിഡ് പ്രൊപ്പൽഷൻ',
+  'dtc.generic': 'പൊതുവായത് (SAE)',
+  'dtc.manufacturer': 'നിർമ്മാതാവിന് പ്രത്യേകം',
+  'dtc.manufacturerNote': 'അർത്ഥം നിർമ്മാതാവിനനുസരിച്ച് മാറും; OEM സർവീസ് വിവരങ്ങളിൽ ഉറപ്പാക്കുക.',
+  'dtc.close': 'അടയ്ക്കുക',
+
+  'controls.label': 'വോയ്‌സ് അസിസ്റ്റന്റ് നിയന്ത്രണങ്ങൾ',
+  'controls.toggleChat': 'ചാറ്റ് കാണിക്കുക/മറയ്ക്കുക',
+  'controls.toggleReport': 'ഡയഗ്നോസ്റ്റിക് റിപ്പോർട്ട് കാണിക്കുക/മറയ്ക്കുക',
+  'controls.toggleMetrics': 'ഏജന്റ് മെട്രിക്സ് കാണിക്കുക/മറയ്ക്കുക',
+  'controls.endCall': 'കോൾ അവസാനിപ്പിക്കുക',
+  'controls.end': 'അവസാനിപ്പിക്കുക',
+  'chat.placeholder': 'എന്തെങ്കിലും ടൈപ്പ് ചെയ്യുക...',
+  'chat.send': 'അയയ്ക്കുക',
+  'chat.sendFailed': 'സന്ദേശം അയയ്ക്കാനായില്ല, വീണ്ടും ശ്രമിക്കുക',
+  'chat.interrupted': 'തടസ്സപ്പെടുത്തി',
+
+  'attachments.attach': 'ഫയലുകൾ അറ്റാച്ച് ചെയ്യുക',
+  'attachments.takePhoto': 'ഫോട്ടോ എടുക്കുക',
+  'attachments.remove': '{name} നീക്കം ചെയ്യുക',
+  'attachments.uploading': 'അറ്റാച്ച്മെന്റുകൾ അപ്‌ലോഡ് ചെയ്യുന്നു',
+  'attachments.uploadFailed': 'അറ്റാച്ച്മെന്റുകൾ അയയ്ക്കാനായില്ല, വീണ്ടും ശ്രമിക്കുക',
+  'attachments.typeNotAllowed': '{name} പിന്തുണയ്ക്കുന്ന ഫയൽ തരമല്ല',
+  'attachments.tooLarge': '{name} {max} MB-യിൽ കൂടുതലാണ്',
+  'attachments.tooMany': 'പരമാവധി {max} ഫയലുകൾ അറ്റാച്ച് ചെയ്യാം',
+
+  'commands.label': 'കമാൻഡുകൾ',
+  'commands.report': 'ഡയഗ്നോസ്റ്റിക് റിപ്പോർട്ട് തുറക്കുക',
+  'commands.dtc': 'ട്രബിൾ കോഡിനെക്കുറിച്ച് ഏജന്റിനോട് ചോദിക്കുക',
+  'commands.language': 'ഭാഷ മാറ്റുക',
+  'commands.end': 'കോൾ അവസാനിപ്പിക്കുക',
+  'commands.unknown': 'അജ്ഞാത കമാൻഡ് /{command}',
+  'commands.usage': 'ഉപയോഗം: {usage}',
+  'commands.dtcMessage': 'ട്രബിൾ കോഡ് {code} കണ്ടെത്താൻ സഹായിക്കുക',
+
+  'inputMode.label': 'ഇൻപുട്ട് മോഡ്',
+  'inputMode.alwaysOn': 'എപ്പോഴും ഓൺ',
+  'inputMode.pushToTalk': 'അമർത്തി സംസാരിക്കുക',
+  'inputMode.toggleToTalk': 'ടാപ്പ് ചെയ്ത് സംസാരിക്കുക',
+  'inputMode.holdToTalk': 'അമർത്തിപ്പിടിച്ച് സംസാരിക്കുക',
+  'inputMode.talking': 'സംസാരിക്കുന്നു...',
+  'inputMode.tapToTalk': 'സംസാരിക്കാൻ ടാപ്പ് ചെയ്യുക',
+  'inputMode.tapToStop': 'നിർത്താൻ ടാപ്പ് ചെയ്യുക',
+  'inputMode.changeKey': 'സംസാരിക്കാനുള്ള കീ മാറ്റുക ({key})',
+  'inputMode.pressKey': 'ഒരു കീ അമർത്തുക...',
+
+  'audioProcessing.label': 'ഓഡിയോ പ്രോസസ്സിംഗ്',
+  'audioProcessing.highPassFilter': 'താഴ്ന്ന മുരൾച്ച ഒഴിവാക്കുക',
+  'audioProcessing.noiseGate': 'നോയ്സ് ഗേറ്റ്',
+  'audioProcessing.noiseSuppression': 'ശബ്ദ നിയന്ത്രണം',
+  'audioProcessing.inputLevel': 'മൈക്രോഫോൺ നില',
+  'micTest.start': 'മൈക്രോഫോൺ പരിശോധിക്കുക',
+  'micTest.recording': 'റെക്കോർഡ് ചെയ്യുന്നു, എന്തെങ്കിലും പറയൂ...',
+  'micTest.playing': 'നിങ്ങളുടെ റെക്കോർഡിംഗ് പ്ലേ ചെയ്യുന്നു',
+  'micTest.failed': 'മൈക്രോഫോൺ പരിശോധന പരാജയപ്പെട്ടു',
+
+  'preflight.title': 'ചേരുന്നതിന് മുമ്പ്',
+  'preflight.microphone': 'മൈക്രോഫോൺ',
+  'preflight.camera': 'ക്യാമറ',
+  'preflight.connectionDetails': 'സെഷൻ ആക്സസ്',
+  'preflight.server': 'കോൾ സെർവർ',
+  'preflight.checking': 'പരിശോധിക്കുന്നു...',
+  'preflight.passed': 'ശരി',
+  'preflight.skipped': 'പരിശോധിച്ചിട്ടില്ല',
+  'preflight.cameraNotUsed': 'വോയ്‌സ് കോളുകളിൽ ഉപയോഗിക്കുന്നില്ല',
+  'preflight.speakNow': 'നില പരിശോധിക്കാൻ എന്തെങ്കിലും പറയൂ',
+  'preflight.micHeard': 'നിങ്ങളുടെ ശബ്ദം കേൾക്കുന്നുണ്ട്',
+  'preflight.latency': '{ms} ms-ൽ എത്താം',
+  'preflight.permissionDenied': 'ആക്സസ് തടഞ്ഞു. ബ്രൗസറിന്റെ സൈറ്റ് ക്രമീകരണങ്ങളിൽ അനുവദിക്കുക.',
+  'preflight.deviceNotFound': 'ഉപകരണമൊന്നും കണ്ടെത്തിയില്ല',
+  'preflight.deviceInUse': 'ഉപകരണം മറ്റൊരു ആപ്പ് ഉപയോഗിക്കുന്നു',
+  'preflight.serverRejected': 'സെർവർ ഈ സെഷൻ സ്വീകരിച്ചില്ല',
+  'preflight.serverUnreachable': 'ഈ നെറ്റ്‌വർക്കിൽ നിന്ന് സെർവറിൽ എത്താനായില്ല',
+  'preflight.join': 'കോളിൽ ചേരുക',
+  'preflight.joinAnyway': 'എന്നാലും ചേരുക',
+  'preflight.retry': 'വീണ്ടും പരിശോധിക്കുക',
+  'preflight.back': 'തിരികെ',
+  'liveAssistant.snapshot': 'ഏജന്റിന് സ്നാപ്പ്ഷോട്ട് അയയ്ക്കുക',
+  'liveAssistant.snapshotSending': 'സ്നാപ്പ്ഷോട്ട് അയയ്ക്കുന്നു…',
+  'liveAssistant.snapshotSent': 'സ്നാപ്പ്ഷോട്ട് അയച്ചു',
+  'liveAssistant.snapshotFailed': 'സ്നാപ്പ്ഷോട്ട് അയയ്ക്കാനായില്ല',
+  'liveAssistant.dismissPrompt': 'അടയ്ക്കുക',
+
+  'captions.label': 'അടിക്കുറിപ്പുകൾ',
+  'captions.off': 'ഓഫ്',
+  'captions.standard': 'സാധാരണ',
+  'captions.large': 'വലിയ അക്ഷരങ്ങൾ',
+  'captions.highContrast': 'ഉയർന്ന കോൺട്രാസ്റ്റ്',
+
+  'metrics.title': 'ഏജന്റ് മെട്രിക്സ്',
+  'metrics.export': 'മെട്രിക്സ് JSON ആയി എക്സ്പോർട്ട് ചെയ്യുക',
+  'metrics.close': 'ഏജന്റ് മെട്രിക്സ് അടയ്ക്കുക',
+  'metrics.timeline': 'നില സമയരേഖ',
+  'metrics.turns': 'ഓരോ ഊഴത്തിലെയും കാലതാമസം',
+  'metrics.noTurns': 'ഇതുവരെ ഊഴങ്ങളില്ല. ഏജന്റ് മറുപടി നൽകുമ്പോൾ മെട്രിക്സ് കാണാം.',
+  'metrics.metric': 'മെട്രിക്',
+  'metrics.mean': 'ശരാശരി',
+  'metrics.max': 'പരമാവധി',
+  'metrics.endOfTurn': 'ഊഴം അവസാനിച്ചത് കണ്ടെത്തൽ',
+  'metrics.responseLatency': 'സംസാരം അവസാനിച്ചതു മുതൽ ആദ്യ ശബ്ദം വരെ',
+  'metrics.reportDelivery': 'റിപ്പോർട്ട് ലഭ്യമാകൽ',
+
+  'connection.rejoining': 'വീണ്ടും കണക്റ്റ് ചെയ്യുന്നു ({attempt}/{max})...',
+  'connection.reconnecting': 'വീണ്ടും കണക്റ്റ് ചെയ്യുന്നു...',
+  'connection.reconnected': 'വീണ്ടും കണക്റ്റ് ചെയ്തു',
+  'connection.excellent': 'മികച്ച കണക്ഷൻ',
+  'connection.good': 'നല്ല കണക്ഷൻ',
+  'connection.poor': 'ദുർബലമായ കണക്ഷൻ',
+  'connection.lost': 'കണക്ഷൻ നഷ്ടപ്പെട്ടു',
+  'connection.connected': 'കണക്റ്റ് ചെയ്തു',
+
+  'report.title': 'ഡയഗ്നോസ്റ്റിക് റിപ്പോർട്ട്',
+  'report.close': 'ഡയഗ്നോസ്റ്റിക് റിപ്പോർട്ട് അടയ്ക്കുക',
+  'report.exportPdf': 'PDF ആയി എക്‌സ്‌പോർട്ട് ചെയ്യുക',
+  'report.exportMarkdown': 'Markdown ആയി എക്‌സ്‌പോർട്ട് ചെയ്യുക',
+  'report.exportJson': 'JSON ആയി എക്‌സ്‌പോർട്ട് ചെയ്യുക',
+  'report.exportFailed': 'ഡയഗ്നോസ്റ്റിക് റിപ്പോർട്ട് എക്‌സ്‌പോർട്ട് ചെയ്യാനായില്ല',
+  'report.versions': 'റിപ്പോർട്ട് പതിപ്പുകൾ',
+  'report.version': 'റിപ്പോർട്ട് {number}',
+  'report.versionLatest': 'റിപ്പോർട്ട് {number} (ഏറ്റവും പുതിയത്)',
+  'report.versionWithTime': 'റിപ്പോർട്ട് {number} ({time})',
+  'report.compare': 'താരതമ്യം ചെയ്യുക',
+  'report.compareTitle': 'മറ്റൊരു റിപ്പോർട്ടുമായി താരതമ്യം ചെയ്യുക',
+  'report.compareWith': 'റിപ്പോർട്ട് {number} ഇതുമായി താരതമ്യം ചെയ്യുക',
+  'report.viewingEarlier': '{total}-ൽ റിപ്പോർട്ട് {number} കാണുന്നു, {time}-ന് ലഭിച്ചു.',
+  'report.showLatest': 'ഏറ്റവും പുതിയത് കാണിക്കുക',
+  'report.identical': 'ഈ റിപ്പോർട്ടുകൾ ഒരുപോലെയാണ്.',
+  'report.diffLabel': 'റിപ്പോർട്ട് {number} · {time}',
+  'report.diffRemoved': 'നീക്കം ചെയ്തു:',
+  'report.diffAdded': 'ചേർത്തു:',
+  'report.webSources': 'വെബ് ഉറവിടങ്ങൾ',
+  'report.videos': 'ഡയഗ്നോസ്റ്റിക് വീഡിയോകൾ ({count})',
+  'report.watchVideo': 'ഡയഗ്നോസ്റ്റിക് വീഡിയോ കാണുക',
+  'report.invalidVideo': 'അസാധുവായ YouTube URL. ദയവായി വീഡിയോ ലിങ്ക് പരിശോധിക്കുക.',
+
+  'errors.mediaDevices': 'നിങ്ങളുടെ മീഡിയ ഉപകരണങ്ങളിൽ ഒരു പിശക് സംഭവിച്ചു',
+  'errors.unauthorized': 'നിങ്ങൾ സൈൻ ഇൻ ചെയ്തിട്ടില്ല. ദയവായി സൈൻ ഇൻ ചെയ്ത് വീണ്ടും ശ്രമിക്കുക.',
+  'errors.invalidResume': 'മുമ്പത്തെ സെഷന്റെ കാലാവധി കഴിഞ്ഞു. ദയവായി പുതിയ കോൾ ആരംഭിക്കുക.',
+  'errors.rateLimited':
+    'വളരെയധികം ശ്രമങ്ങൾ. ദയവായി {seconds} സെക്കൻഡ് കാത്തിരുന്ന് വീണ്ടും ശ്രമിക്കുക.',
+  'errors.connectionDetails': 'കണക്ഷൻ വിവരങ്ങൾ ലഭിക്കുന്നതിൽ പിശക്!',
+  'errors.agentDispatch':
+    'ഈ കോളിനായി അസിസ്റ്റന്റിനെ ആരംഭിക്കാനായില്ല. അൽപ്പസമയത്തിനുശേഷം വീണ്ടും ശ്രമിക്കുക.',
+};
@@ -0,0 +1,215 @@
+import type { Catalog } from '../types';
+
+export const mr: Catalog = {
+  'welcome.tagline': 'मेकॅनिकचा विश्वासू सह-वैमानिक',
+  'welcome.selectLanguage': 'भाषा निवडा',
+  'welcome.voiceAssistant': 'व्हॉइस सहाय्यक',
+  'welcome.liveAssistant': 'लाइव्ह सहाय्यक',
+  'welcome.vehicleDetails': 'वाहनाचा तपशील (ऐच्छिक)',
+  'welcome.startCall': 'कॉल सुरू करा',
+  'welcome.resumeCall': 'मागील कॉल पुन्हा सुरू करा',
+  'welcome.pastSessions': 'मागील सत्रे',
+
+  'session.agentListening': 'एजंट ऐकत आहे, प्रश्न विचारा',
+
+  'joinFailure.title': 'कॉल सुरू करता आला नाही',
+  'joinFailure.agentDidNotJoin':
+    'असिस्टंट वेळेत कॉलमध्ये सामील झाला नाही. तो व्यस्त किंवा ऑफलाइन असू शकतो.',
+  'joinFailure.agentDidNotInitialize': 'असिस्टंट सामील झाला, पण वेळेत तयार झाला नाही.',
+  'joinFailure.dispatchFailed': 'या कॉलसाठी असिस्टंट सुरू करता आला नाही.',
+  'joinFailure.connectFailed': 'कॉलशी कनेक्ट होता आले नाही. तुमचे इंटरनेट कनेक्शन तपासा.',
+  'joinFailure.retry': 'पुन्हा प्रयत्न करा',
+  'joinFailure.reportProblem': 'समस्या कळवा',
+  'joinFailure.detailsCopied': 'समस्येचा तपशील कॉपी केला',
+  'joinFailure.back': 'मागे',
+
+  'history.title': 'मागील सत्रे',
+  'history.close': 'सत्र इतिहास बंद करा',
+  'history.search': 'ट्रान्सक्रिप्ट आणि अहवाल शोधा...',
+  'history.loading': 'लोड होत आहे...',
+  'history.loadFailed': 'सत्रे लोड करता आली नाहीत: {error}',
+  'history.empty': 'अद्याप कोणतेही सत्र नोंदवलेले नाही.',
+  'history.noMatches': 'जुळणारी सत्रे नाहीत.',
+  'history.delete': 'सत्र हटवा',
+  'history.confirmDelete': 'हे सत्र हटवायचे? हे पूर्ववत करता येणार नाही.',
+  'history.back': 'मागे',
+  'history.report': 'अहवाल',
+
+  'vehicle.title': 'वाहन तपशील',
+  'vehicle.close': 'वाहन तपशील बंद करा',
+  'vehicle.vin': 'VIN',
+  'vehicle.vinPlaceholder': '17 अक्षरी VIN',
+  'vehicle.vinLength': 'VIN मध्ये नेमके 17 अक्षरे असतात.',
+  'vehicle.vinCharacters': 'फक्त A–Z (I, O, Q वगळून) आणि 0–9 चालतात.',
+  'vehicle.vinChecksum': 'चेक अंक जुळत नाही. कृपया VIN पुन्हा तपासा.',
+  'vehicle.vinChecksumWarning': 'चेक अंक जुळत नाही. उत्तर अमेरिकेबाहेर हे सामान्य आहे.',
+  'vehicle.modelYear': 'मॉडेल वर्ष {year}',
+  'vehicle.make': 'उत्पादक',
+  'vehicle.model': 'मॉडेल',
+  'vehicle.year': 'वर्ष',
+  'vehicle.mileage': 'मायलेज (कि.मी.)',
+  'vehicle.engineCode': 'इंजिन कोड',
+  'vehicle.symptoms': 'सांगितलेली लक्षणे',
+  'vehicle.symptomsPlaceholder': 'उदा. थंड असताना खडबडीत आयडल, चेक इंजिन लाइट चालू',
+  'vehicle.clear': 'साफ करा',
+  'vehicle.save': 'जतन करा',
+
+  'dtc.noDescription': 'ऑफलाइन कोड तक्त्यात वर्णन नाही.',
+  'dtc.system': 'सिस्टम',
+  'dtc.type': 'प्रकार',
+  'dtc.area': 'विभाग',
+  'dtc.powertrain': 'पॉवरट्रेन',
+  'dtc.chassis': 'चेसिस',
+  'dtc.body': 'बॉडी',
+  'dtc.network': 'नेटवर्क आणि वाहन एकत्रीकरण',
+  'dtc.subsystem.fuelAirEmissions': 'इंधन, हवा मीटरिंग आणि सहायक उत्सर्जन नियंत्रणे',
+  'dtc.subsystem.fuelAir': 'इंधन आणि हवा मीटरिंग',
+  'dtc.subsystem.injectorCircuit': 'इंधन आणि हवा मीटरिंग (इंजेक्टर सर्किट)',
+  'dtc.subsystem.ignition': 'इग्निशन प्रणाली किंवा मिसफायर',
+  'dtc.subsystem.emissionControls': 'सहायक उत्सर्जन नियंत्रणे',
+  'dtc.subsystem.speedIdle': 'वाहनाचा वेग, आयडल नियंत्रण आणि सहायक इनपुट',
+  'dtc.subsystem.computer': 'संगणक आणि आउटपुट सर्किट',
+  'dtc.subsystem.transmission': 'ट्रान्समिशन',
+  'dtc.subsystem.hybrid': 'हायब्रिड प्रणोदन',
+  'dtc.generic': 'सामान्य (SAE)',
+  'dtc.manufacturer': 'उत्पादक-विशिष्ट',
+  'dtc.manufacturerNote': 'अर्थ उत्पादकानुसार बदलतो; OEM सर्व्हिस माहितीतून खात्री करा.',
+  'dtc.close': 'बंद करा',
+
+  'controls.label': 'व्हॉइस सहाय्यक नियंत्रणे',
+  'controls.toggleChat': 'चॅट दाखवा/लपवा',
+  'controls.toggleReport': 'निदान अहवाल दाखवा/लपवा',
+  'controls.toggleMetrics': 'एजंट मेट्रिक्स दाखवा/लपवा',
+  'controls.endCall': 'कॉल संपवा',
+  'controls.end': 'संपवा',
+  'chat.placeholder': 'काहीतरी लिहा...',
+  'chat.send': 'पाठवा',
+  'chat.sendFailed': 'संदेश पाठवता आला नाही, कृपया पुन्हा प्रयत्न करा',
+  'chat.interrupted': 'मध्येच थांबवले',
+
+  'attachments.attach': 'फाइल्स जोडा',
+  'attachments.takePhoto': 'फोटो काढा',
+  'attachments.remove': '{name} काढा',
+  'attachments.uploading': 'जोडलेल्या फाइल्स अपलोड होत आहेत',
+  'attachments.uploadFailed': 'जोडलेल्या फाइल्स पाठवता आल्या नाहीत, कृपया पुन्हा प्रयत्न करा',
+  'attachments.typeNotAllowed': '{name} हा समर्थित फाइल प्रकार नाही',
+  'attachments.tooLarge': '{name} {max} MB पेक्षा मोठी आहे',
+  'attachments.tooMany': 'तुम्ही जास्तीत जास्त {max} फाइल्स जोडू शकता',
+
+  'commands.label': 'कमांड',
+  'commands.report': 'डायग्नोस्टिक अहवाल उघडा',
+  'commands.dtc': 'ट्रबल कोडबद्दल एजंटला विचारा',
+  'commands.language': 'भाषा बदला',
+  'commands.end': 'कॉल संपवा',
+  'commands.unknown': 'अज्ञात कमांड /{command}',
+  'commands.usage': 'वापर: {usage}',
+  'commands.dtcMessage': 'ट्रबल कोड {code} चे निदान करण्यात मदत करा',
+
+  'inputMode.label': 'इनपुट मोड',
+  'inputMode.alwaysOn': 'नेहमी चालू',
+  'inputMode.pushToTalk': 'दाबून बोला',
+  'inputMode.toggleToTalk': 'टॅप करून बोला',
+  'inputMode.holdToTalk': 'दाबून धरून बोला',
+  'inputMode.talking': 'बोलत आहात...',
+  'inputMode.tapToTalk': 'बोलण्यासाठी टॅप करा',
+  'inputMode.tapToStop': 'थांबवण्यासाठी टॅप करा',
+  'inputMode.changeKey': 'बोलण्याची की बदला ({key})',
+  'inputMode.pressKey': 'एखादी की दाबा...',
+
+  'audioProcessing.label': 'ऑडिओ प्रक्रिया',
+  'audioProcessing.highPassFilter': 'कमी घरघर आवाज काढा',
+  'audioProcessing.noiseGate': 'नॉइज गेट',
+  'audioProcessing.noiseSuppression': 'आवाज दडपण',
+  'audioProcessing.inputLevel': 'मायक्रोफोन पातळी',
+  'micTest.start': 'मायक्रोफोन तपासा',
+  'micTest.recording': 'रेकॉर्ड होत आहे, काहीतरी बोला...',
+  'micTest.playing': 'तुमचे रेकॉर्डिंग वाजत आहे',
+  'micTest.failed': 'मायक्रोफोन चाचणी अयशस्वी झाली',
+
+  'preflight.title': 'सामील होण्यापूर्वी',
+  'preflight.microphone': 'मायक्रोफोन',
+  'preflight.camera': 'कॅमेरा',
+  'preflight.connectionDetails': 'सत्र प्रवेश',
+  'preflight.server': 'कॉल सर्व्हर',
+  'preflight.checking': 'तपासत आहे...',
+  'preflight.passed': 'ठीक',
+  'preflight.skipped': 'तपासले नाही',
+  'preflight.cameraNotUsed': 'व्हॉइस कॉलमध्ये वापरले जात नाही',
+  'preflight.speakNow': 'पातळी तपासण्यासाठी काहीतरी बोला',
+  'preflight.micHeard': 'तुमचा आवाज येत आहे',
+  'preflight.latency': '{ms} ms मध्ये पोहोचता येते',
+  'preflight.permissionDenied': 'प्रवेश अवरोधित आहे. ब्राउझरच्या साइट सेटिंग्जमध्ये परवानगी द्या.',
+  'preflight.deviceNotFound': 'कोणतेही उपकरण सापडले नाही',
+  'preflight.deviceInUse': 'उपकरण दुसरे ॲप वापरत आहे',
+  'preflight.serverRejected': 'सर्व्हरने हे सत्र स्वीकारले नाही',
+  'preflight.serverUnreachable': 'या नेटवर्कवरून सर्व्हरपर्यंत पोहोचता आले नाही',
+  'preflight.join': 'कॉलमध्ये सामील व्हा',
+  'preflight.joinAnyway': 'तरीही सामील व्हा',
+  'preflight.retry': 'पुन्हा तपासा',
+  'preflight.back': 'मागे',
+  'liveAssistant.snapshot': 'एजंटला स्नॅपशॉट पाठवा',
+  'liveAssistant.snapshotSending': 'स्नॅपशॉट पाठवत आहे…',
+  'liveAssistant.snapshotSent': 'स्नॅपशॉट पाठवला',
+  'liveAssistant.snapshotFailed': 'स्नॅपशॉट पाठवता आला नाही',
+  'liveAssistant.dismissPrompt': 'बंद करा',
+
+  'captions.label': 'कॅप्शन',
+  'captions.off': 'बंद',
+  'captions.standard': 'सामान्य',
+  'captions.large': 'मोठा मजकूर',
+  'captions.highContrast': 'उच्च कॉन्ट्रास्ट',
+
+  'metrics.title': 'एजंट मेट्रिक्स',
+  'metrics.export': 'मेट्रिक्स JSON म्हणून निर्यात करा',
+  'metrics.close': 'एजंट मेट्रिक्स बंद करा',
+  'metrics.timeline': 'स्थिती कालरेषा',
+  'metrics.turns': 'प्रत्येक फेरीचा विलंब',
+  'metrics.noTurns': 'अजून फेऱ्या नाहीत. एजंटने उत्तर दिल्यावर मेट्रिक्स दिसतील.',
+  'metrics.metric': 'मेट्रिक',
+  'metrics.mean': 'सरासरी',
+  'metrics.max': 'कमाल',
+  'metrics.endOfTurn': 'फेरी समाप्ती ओळख',
+  'metrics.responseLatency': 'बोलणे संपल्यापासून पहिल्या आवाजापर्यंत',
+  'metrics.reportDelivery': 'अहवाल वितरण',
+
+  'connection.rejoining': 'पुन्हा जोडत आहे ({attempt}/{max})...',
+  'connection.reconnecting': 'पुन्हा जोडत आहे...',
+  'connection.reconnected': 'पुन्हा जोडले',
+  'connection.excellent': 'उत्कृष्ट कनेक्शन',
+  'connection.good': 'चांगले कनेक्शन',
+  'connection.poor': 'कमकुवत कनेक्शन',
+  'connection.lost': 'कनेक्शन तुटले',
+  'connection.connected': 'जोडलेले',
+
+  'report.title': 'निदान अहवाल',
+  'report.close': 'निदान अहवाल बंद करा',
+  'report.exportPdf': 'PDF म्हणून निर्यात करा',
+  'report.exportMarkdown': 'Markdown म्हणून निर्यात करा',
+  'report.exportJson': 'JSON म्हणून निर्यात करा',
+  'report.exportFailed': 'निदान अहवाल निर्यात करता आला नाही',
+  'report.versions': 'अहवालाच्या आवृत्त्या',
+  'report.version': 'अहवाल {number}',
+  'report.versionLatest': 'अहवाल {number} (नवीनतम)',
+  'report.versionWithTime': 'अहवाल {number} ({time})',
+  'report.compare': 'तुलना करा',
+  'report.compareTitle': 'दुसऱ्या अहवालाशी तुलना करा',
+  'report.compareWith': 'अहवाल {number} ची तुलना करा',
+  'report.viewingEarlier': '{total} पैकी अहवाल {number} पाहत आहात, {time} वाजता मिळाला.',
+  'report.showLatest': 'नवीनतम दाखवा',
+  'report.identical': 'हे अहवाल सारखेच आहेत.',
+  'report.diffLabel': 'अहवाल {number} · {time}',
+  'report.diffRemoved': 'काढले:',
+  'report.diffAdded': 'जोडले:',
+  'report.webSources': 'वेब स्रोत',
+  'report.videos': 'निदान व्हिडिओ ({count})',
+  'report.watchVideo': 'निदान व्हिडिओ पहा',
+  'report.invalidVideo': 'अवैध YouTube URL. कृपया व्हिडिओ लिंक तपासा.',
+
+  'errors.mediaDevices': 'तुमच्या मीडिया उपकरणांमध्ये त्रुटी आली',
+  'errors.unauthorized': 'तुम्ही साइन इन केलेले नाही. कृपया साइन इन करून पुन्हा प्रयत्न करा.',
+  'errors.invalidResume': 'मागील सत्राची मुदत संपली आहे. कृपया नवीन कॉल सुरू करा.',
+  'errors.rateLimited': 'खूप जास्त प्रयत्न. कृपया {seconds} सेकंद थांबा आणि पुन्हा प्रयत्न करा.',
+  'errors.connectionDetails': 'कनेक्शन तपशील मिळवताना त्रुटी!',
+  'errors.agentDispatch':
+    'या कॉलसाठी असिस्टंट सुरू करता आला नाही. कृपया थोड्या वेळाने पुन्हा प्रयत्न करा.',
+};
@@ -0,0 +1,220 @@
+import type { Catalog } from '../types';
+
+export const ta: Catalog = {
+  'welcome.tagline': 'மேக்கானிக்கிற்கான நம்பத்தகுந்த துணை விமானி',
+  'welcome.selectLanguage': 'மொழியைத் தேர்ந்தெடுக்கவும்',
+  'welcome.voiceAssistant': 'குரல் உதவியாளர்',
+  'welcome.liveAssistant': 'நேரடி உதவியாளர்',
+  'welcome.vehicleDetails': 'வாகன விவரங்கள் (விருப்பத்தேர்வு)',
+  'welcome.startCall': 'அழைப்பை தொடங்குக',
+  'welcome.resumeCall': 'முந்தைய அழைப்பைத் தொடரவும்',
+  'welcome.pastSessions': 'முந்தைய அமர்வுகள்',
+
+  'session.agentListening': 'முகவர் கேட்கிறது, ஒரு கேள்வி கேளுங்கள்',
+
+  'joinFailure.title': 'அழைப்பைத் தொடங்க முடியவில்லை',
+  'joinFailure.agentDidNotJoin':
+    'உதவியாளர் சரியான நேரத்தில் அழைப்பில் சேரவில்லை. அது பிஸியாகவோ ஆஃப்லைனிலோ இருக்கலாம்.',
+  'joinFailure.agentDidNotInitialize': 'உதவியாளர் சேர்ந்தது, ஆனால் சரியான நேரத்தில் தயாராகவில்லை.',
+  'joinFailure.dispatchFailed': 'இந்த அழைப்பிற்கு உதவியாளரைத் தொடங்க முடியவில்லை.',
+  'joinFailure.connectFailed':
+    'அழைப்புடன் இணைக்க முடியவில்லை. உங்கள் இணைய இணைப்பைச் சரிபார்க்கவும்.',
+  'joinFailure.retry': 'மீண்டும் முயற்சிக்கவும்',
+  'joinFailure.reportProblem': 'சிக்கலைப் புகாரளிக்கவும்',
+  'joinFailure.detailsCopied': 'சிக்கல் விவரங்கள் நகலெடுக்கப்பட்டன',
+  'joinFailure.back': 'பின்செல்',
+
+  'history.title': 'முந்தைய அமர்வுகள்',
+  'history.close': 'அமர்வு வரலாற்றை மூடு',
+  'history.search': 'உரைப்பதிவுகள் மற்றும் அறிக்கைகளில் தேடு...',
+  'history.loading': 'ஏற்றுகிறது...',
+  'history.loadFailed': 'அமர்வுகளை ஏற்ற முடியவில்லை: {error}',
+  'history.empty': 'இதுவரை எந்த அமர்வும் பதிவு செய்யப்படவில்லை.',
+  'history.noMatches': 'பொருந்தும் அமர்வுகள் இல்லை.',
+  'history.delete': 'அமர்வை நீக்கு',
+  'history.confirmDelete': 'இந்த அமர்வை நீக்கவா? இதைத் திரும்பப் பெற முடியாது.',
+  'history.back': 'பின்செல்',
+  'history.report': 'அறிக்கை',
+
+  'vehicle.title': 'வாகன விவரங்கள்',
+  'vehicle.close': 'வாகன விவரங்களை மூடு',
+  'vehicle.vin': 'VIN',
+  'vehicle.vinPlaceholder': '17 எழுத்து VIN',
+  'vehicle.vinLength': 'VIN இல் சரியாக 17 எழுத்துகள் இருக்கும்.',
+  'vehicle.vinCharacters': 'A–Z (I, O, Q தவிர) மற்றும் 0–9 மட்டுமே அனுமதிக்கப்படும்.',
+  'vehicle.vinChecksum': 'சரிபார்ப்பு இலக்கம் பொருந்தவில்லை. VIN-ஐ மீண்டும் சரிபார்க்கவும்.',
+  'vehicle.vinChecksumWarning':
+    'சரிபார்ப்பு இலக்கம் பொருந்தவில்லை. வட அமெரிக்காவுக்கு வெளியே இது சாதாரணம்.',
+  'vehicle.modelYear': 'மாடல் ஆண்டு {year}',
+  'vehicle.make': 'தயாரிப்பு நிறுவனம்',
+  'vehicle.model': 'மாடல்',
+  'vehicle.year': 'ஆண்டு',
+  'vehicle.mileage': 'ஓடிய தூரம் (கி.மீ)',
+  'vehicle.engineCode': 'என்ஜின் குறியீடு',
+  'vehicle.symptoms': 'தெரிவிக்கப்பட்ட அறிகுறிகள்',
+  'vehicle.symptomsPlaceholder': 'எ.கா. குளிரில் சீரற்ற ஐடில், செக் என்ஜின் விளக்கு எரிகிறது',
+  'vehicle.clear': 'அழி',
+  'vehicle.save': 'சேமி',
+
+  'dtc.noDescription': 'ஆஃப்லைன் குறியீட்டு அட்டவணையில் விளக்கம் இல்லை.',
+  'dtc.system': 'அமைப்பு',
+  'dtc.type': 'வகை',
+  'dtc.area': 'பகுதி',
+  'dtc.powertrain': 'பவர்டிரெயின்',
+  'dtc.chassis': 'சேசிஸ்',
+  'dtc.body': 'பாடி',
+  'dtc.network': 'நெட்வொர்க் மற்றும் வாகன ஒருங்கிணைப்பு',
+  'dtc.subsystem.fuelAirEmissions': 'எரிபொருள், காற்று அளவீடு மற்றும் துணை உமிழ்வு கட்டுப்பாடுகள்',
+  'dtc.subsystem.fuelAir': 'எரிபொருள் மற்றும் காற்று அளவீடு',
+  'dtc.subsystem.injectorCircuit': 'எரிபொருள் மற்றும் காற்று அளவீடு (இன்ஜெக்டர் சர்க்யூட்)',
+  'dtc.subsystem.ignition': 'பற்றவைப்பு அமைப்பு அல்லது மிஸ்ஃபயர்',
+  'dtc.subsystem.emissionControls': 'துணை உமிழ்வு கட்டுப்பாடுகள்',
+  'dtc.subsystem.speedIdle': 'வாகன வேகம், ஐடில் கட்டுப்பாடு மற்றும் துணை உள்ளீடுகள்',
+  'dtc.subsystem.computer': 'கணினி மற்றும் வெளியீட்டு சர்க்யூட்கள்',
+  'dtc.subsystem.transmission': 'டிரான்ஸ்மிஷன்',
+  'dtc.subsystem.hybrid': 'ஹைப்ரிட் உந்துவிசை',
+  'dtc.generic': 'பொதுவானது (SAE)',
+  'dtc.manufacturer': 'தயாரிப்பாளருக்கு உரியது',
+  'dtc.manufacturerNote':
+    'பொருள் தயாரிப்பாளரைப் பொறுத்து மாறும்; OEM சேவைத் தகவலுடன் உறுதிசெய்யவும்.',
+  'dtc.close': 'மூடு',
+
+  'controls.label': 'குரல் உதவியாளர் கட்டுப்பாடுகள்',
+  'controls.toggleChat': 'அரட்டையைக் காட்டு/மறை',
+  'controls.toggleReport': 'கண்டறிதல் அறிக்கையைக் காட்டு/மறை',
+  'controls.toggleMetrics': 'முகவர் அளவீடுகளைக் காட்டு/மறை',
+  'controls.endCall': 'அழைப்பை முடி',
+  'controls.end': 'முடி',
+  'chat.placeholder': 'ஏதாவது தட்டச்சு செய்யவும்...',
+  'chat.send': 'அனுப்பு',
+  'chat.sendFailed': 'செய்தியை அனுப்ப முடியவில்லை, மீண்டும் முயற்சிக்கவும்',
+  'chat.interrupted': 'இடைமறிக்கப்பட்டது',
+
+  'attachments.attach': 'கோப்புகளை இணை',
+  'attachments.takePhoto': 'புகைப்படம் எடு',
+  'attachments.remove': '{name} ஐ நீக்கு',
+  'attachments.uploading': 'இணைப்புகள் பதிவேற்றப்படுகின்றன',
+  'attachments.uploadFailed': 'இணைப்புகளை அனுப்ப முடியவில்லை, மீண்டும் முயற்சிக்கவும்',
+  'attachments.typeNotAllowed': '{name} ஆதரிக்கப்படும் கோப்பு வகை அல்ல',
+  'attachments.tooLarge': '{name} {max} MB ஐ விட பெரியது',
+  'attachments.tooMany': 'அதிகபட்சம் {max} கோப்புகளை இணைக்கலாம்',
+
+  'commands.label': 'கட்டளைகள்',
+  'commands.report': 'கண்டறிதல் அறிக்கையைத் திற',
+  'commands.dtc': 'பிழைக் குறியீடு பற்றி முகவரிடம் கேள்',
+  'commands.language': 'மொழியை மாற்று',
+  'commands.end': 'அழைப்பை முடி',
+  'commands.unknown': 'தெரியாத கட்டளை /{command}',
+  'commands.usage': 'பயன்பாடு: {usage}',
+  'commands.dtcMessage': 'பிழைக் குறியீடு {code} ஐக் கண்டறிய உதவுங்கள்',
+
+  'inputMode.label': 'உள்ளீட்டு முறை',
+  'inputMode.alwaysOn': 'எப்போதும் இயக்கத்தில்',
+  'inputMode.pushToTalk': 'அழுத்திப் பேசு',
+  'inputMode.toggleToTalk': 'தட்டிப் பேசு',
+  'inputMode.holdToTalk': 'அழுத்திப் பிடித்துப் பேசவும்',
+  'inputMode.talking': 'பேசுகிறீர்கள்...',
+  'inputMode.tapToTalk': 'பேச தட்டவும்',
+  'inputMode.tapToStop': 'நிறுத்த தட்டவும்',
+  'inputMode.changeKey': 'பேசும் விசையை மாற்று ({key})',
+  'inputMode.pressKey': 'ஒரு விசையை அழுத்தவும்...',
+
+  'audioProcessing.label': 'ஆடியோ செயலாக்கம்',
+  'audioProcessing.highPassFilter': 'குறைந்த இரைச்சலை வெட்டு',
+  'audioProcessing.noiseGate': 'இரைச்சல் கேட்',
+  'audioProcessing.noiseSuppression': 'இரைச்சல் அடக்கம்',
+  'audioProcessing.inputLevel': 'மைக்ரோஃபோன் நிலை',
+  'micTest.start': 'மைக்ரோஃபோனைச் சோதிக்கவும்',
+  'micTest.recording': 'பதிவாகிறது, ஏதாவது பேசுங்கள்...',
+  'micTest.playing': 'உங்கள் பதிவு இயங்குகிறது',
+  'micTest.failed': 'மைக்ரோஃபோன் சோதனை தோல்வியடைந்தது',
+
+  'preflight.title': 'சேருவதற்கு முன்',
+  'preflight.microphone': 'மைக்ரோஃபோன்',
+  'preflight.camera': 'கேமரா',
+  'preflight.connectionDetails': 'அமர்வு அணுகல்',
+  'preflight.server': 'அழைப்பு சேவையகம்',
+  'preflight.checking': 'சரிபார்க்கிறது...',
+  'preflight.passed': 'சரி',
+  'preflight.skipped': 'சரிபார்க்கப்படவில்லை',
+  'preflight.cameraNotUsed': 'குரல் அழைப்புகளில் பயன்படுத்தப்படாது',
+  'preflight.speakNow': 'நிலையைச் சரிபார்க்க ஏதாவது பேசுங்கள்',
+  'preflight.micHeard': 'உங்கள் குரல் கேட்கிறது',
+  'preflight.latency': '{ms} ms இல் அணுகலாம்',
+  'preflight.permissionDenied': 'அணுகல் தடுக்கப்பட்டது. உலாவியின் தள அமைப்புகளில் அனுமதிக்கவும்.',
+  'preflight.deviceNotFound': 'சாதனம் எதுவும் கிடைக்கவில்லை',
+  'preflight.deviceInUse': 'சாதனத்தை வேறு செயலி பயன்படுத்துகிறது',
+  'preflight.serverRejected': 'சேவையகம் இந்த அமர்வை ஏற்கவில்லை',
+  'preflight.serverUnreachable': 'இந்த நெட்வொர்க்கிலிருந்து சேவையகத்தை அணுக முடியவில்லை',
+  'preflight.join': 'அழைப்பில் சேர்',
+  'preflight.joinAnyway': 'எப்படியும் சேர்',
+  'preflight.retry': 'மீண்டும் சரிபார்',
+  'preflight.back': 'பின்செல்',
+  'liveAssistant.snapshot': 'முகவருக்கு ஸ்னாப்ஷாட் அனுப்பு',
+  'liveAssistant.snapshotSending': 'ஸ்னாப்ஷாட் அனுப்பப்படுகிறது…',
+  'liveAssistant.snapshotSent': 'ஸ்னாப்ஷாட் அனுப்பப்பட்டது',
+  'liveAssistant.snapshotFailed': 'ஸ்னாப்ஷாட்டை அனுப்ப முடியவில்லை',
+  'liveAssistant.dismissPrompt': 'மூடு',
+
+  'captions.label': 'தலைப்புகள்',
+  'captions.off': 'அணை',
+  'captions.standard': 'சாதாரணம்',
+  'captions.large': 'பெரிய எழுத்து',
+  'captions.highContrast': 'உயர் மாறுபாடு',
+
+  'metrics.title': 'முகவர் அளவீடுகள்',
+  'metrics.export': 'அளவீடுகளை JSON ஆக ஏற்றுமதி செய்',
+  'metrics.close': 'முகவர் அளவீடுகளை மூடு',
+  'metrics.timeline': 'நிலை காலவரிசை',
+  'metrics.turns': 'ஒவ்வொரு முறைக்குமான தாமதம்',
+  'metrics.noTurns': 'இன்னும் முறைகள் இல்லை. முகவர் பதிலளித்ததும் அளவீடுகள் தோன்றும்.',
+  'metrics.metric': 'அளவீடு',
+  'metrics.mean': 'சராசரி',
+  'metrics.max': 'அதிகபட்சம்',
+  'metrics.endOfTurn': 'முறை முடிவு கண்டறிதல்',
+  'metrics.responseLatency': 'பேச்சு முடிவிலிருந்து முதல் ஒலி வரை',
+  'metrics.reportDelivery': 'அறிக்கை வழங்கல்',
+
+  'connection.rejoining': 'மீண்டும் இணைக்கிறது ({attempt}/{max})...',
+  'connection.reconnecting': 'மீண்டும் இணைக்கிறது...',
+  'connection.reconnected': 'மீண்டும் இணைக்கப்பட்டது',
+  'connection.excellent': 'சிறந்த இணைப்பு',
+  'connection.good': 'நல்ல இணைப்பு',
+  'connection.poor': 'பலவீனமான இணைப்பு',
+  'connection.lost': 'இணைப்பு துண்டிக்கப்பட்டது',
+  'connection.connected': 'இணைக்கப்பட்டது',
+
+  'report.title': 'கண்டறிதல் அறிக்கை',
+  'report.close': 'கண்டறிதல் அறிக்கையை மூடு',
+  'report.exportPdf': 'PDF ஆக ஏற்றுமதி செய்',
+  'report.exportMarkdown': 'Markdown ஆக ஏற்றுமதி செய்',
+  'report.exportJson': 'JSON ஆக ஏற்றுமதி செய்',
+  'report.exportFailed': 'கண்டறிதல் அறிக்கையை ஏற்றுமதி செய்ய முடியவில்லை',
+  'report.versions': 'அறிக்கை பதிப்புகள்',
+  'report.version': 'அறிக்கை {number}',
+  'report.versionLatest': 'அறிக்கை {number} (சமீபத்தியது)',
+  'report.versionWithTime': 'அறிக்கை {number} ({time})',
+  'report.compare': 'ஒப்பிடு',
+  'report.compareTitle': 'மற்றொரு அறிக்கையுடன் ஒப்பிடு',
+  'report.compareWith': 'அறிக்கை {number} ஐ இதனுடன் ஒப்பிடு',
+  'report.viewingEarlier':
+    '{total} இல் அறிக்கை {number} பார்க்கப்படுகிறது, {time} க்கு பெறப்பட்டது.',
+  'report.showLatest': 'சமீபத்தியதைக் காட்டு',
+  'report.identical': 'இந்த அறிக்கைகள் ஒரே மாதிரியானவை.',
+  'report.diffLabel': 'அறிக்கை {number} · {time}',
+  'report.diffRemoved': 'நீக்கப்பட்டது:',
+  'report.diffAdded': 'சேர்க்கப்பட்டது:',
+  'report.webSources': 'இணைய ஆதாரங்கள்',
+  'report.videos': '{count, plural, one {கண்டறிதல் வீடியோ (#)} other {கண்டறிதல் வீடியோக்கள் (#)}}',
+  'report.watchVideo': 'கண்டறிதல் வீடியோவைப் பார்க்கவும்',
+  'report.invalidVideo': 'தவறான YouTube URL. வீடியோ இணைப்பைச் சரிபார்க்கவும்.',
+
+  'errors.mediaDevices': 'உங்கள் மீடியா சாதனங்களில் பிழை ஏற்பட்டது',
+  'errors.unauthorized': 'நீங்கள் உள்நுழையவில்லை. உள்நுழைந்து மீண்டும் முயற்சிக்கவும்.',
+  'errors.invalidResume': 'முந்தைய அமர்வு காலாவதியானது. புதிய அழைப்பைத் தொடங்கவும்.',
+  'errors.rateLimited':
+    '{seconds, plural, one {அதிக முயற்சிகள். # விநாடி காத்திருந்து மீண்டும் முயற்சிக்கவும்.} other {அதிக முயற்சிகள். # விநாடிகள் காத்திருந்து மீண்டும் முயற்சிக்கவும்.}}',
+  'errors.connectionDetails': 'இணைப்பு விவரங்களைப் பெறுவதில் பிழை!',
+  'errors.agentDispatch':
+    'இந்த அழைப்பிற்கு உதவியாளரைத் தொடங்க முடியவில்லை. சிறிது நேரம் கழித்து மீண்டும் முயற்சிக்கவும்.',
+};
@@ -0,0 +1,217 @@
+import type { Catalog } from '../types';
+
+export const te: Catalog = {
+  'welcome.tagline': 'మెకానిక్ యొక్క నమ్మకమైన సహ-పైలట్',
+  'welcome.selectLanguage': 'భాషను ఎంచుకోండి',
+  'welcome.voiceAssistant': 'వాయిస్ అసిస్టెంట్',
+  'welcome.liveAssistant': 'లైవ్ అసిస్టెంట్',
+  'welcome.vehicleDetails': 'వాహన వివరాలు (ఐచ్ఛికం)',
+  'welcome.startCall': 'కాల్ ప్రారంభించండి',
+  'welcome.resumeCall': 'మునుపటి కాల్‌ను కొనసాగించండి',
+  'welcome.pastSessions': 'గత సెషన్‌లు',
+
+  'session.agentListening': 'ఏజెంట్ వింటోంది, ప్రశ్న అడగండి',
+
+  'joinFailure.title': 'కాల్‌ను ప్రారంభించలేకపోయాము',
+  'joinFailure.agentDidNotJoin':
+    'అసిస్టెంట్ సమయానికి కాల్‌లో చేరలేదు. అది బిజీగా లేదా ఆఫ్‌లైన్‌లో ఉండవచ్చు.',
+  'joinFailure.agentDidNotInitialize': 'అసిస్టెంట్ చేరింది, కానీ సమయానికి సిద్ధం కాలేదు.',
+  'joinFailure.dispatchFailed': 'ఈ కాల్ కోసం అసిస్టెంట్‌ను ప్రారంభించలేకపోయాము.',
+  'joinFailure.connectFailed':
+    'కాల్‌కు కనెక్ట్ కాలేకపోయాము. మీ ఇంటర్నెట్ కనెక్షన్‌ను తనిఖీ చేయండి.',
+  'joinFailure.retry': 'మళ్లీ ప్రయత్నించండి',
+  'joinFailure.reportProblem': 'సమస్యను నివేదించండి',
+  'joinFailure.detailsCopied': 'సమస్య వివరాలు కాపీ చేయబడ్డాయి',
+  'joinFailure.back': 'వెనుకకు',
+
+  'history.title': 'గత సెషన్‌లు',
+  'history.close': 'సెషన్ చరిత్రను మూసివేయండి',
+  'history.search': 'ట్రాన్స్‌క్రిప్ట్‌లు మరియు నివేదికలలో వెతకండి...',
+  'history.loading': 'లోడ్ అవుతోంది...',
+  'history.loadFailed': 'సెషన్‌లను లోడ్ చేయలేకపోయాము: {error}',
+  'history.empty': 'ఇంకా ఏ సెషన్ రికార్డ్ కాలేదు.',
+  'history.noMatches': 'సరిపోలే సెషన్‌లు లేవు.',
+  'history.delete': 'సెషన్‌ను తొలగించండి',
+  'history.confirmDelete': 'ఈ సెషన్‌ను తొలగించాలా? దీన్ని తిరిగి పొందలేరు.',
+  'history.back': 'వెనుకకు',
+  'history.report': 'నివేదిక',
+
+  'vehicle.title': 'వాహన వివరాలు',
+  'vehicle.close': 'వాహన వివరాలను మూసివేయండి',
+  'vehicle.vin': 'VIN',
+  'vehicle.vinPlaceholder': '17 అక్షరాల VIN',
+  'vehicle.vinLength': 'VIN లో సరిగ్గా 17 అక్షరాలు ఉంటాయి.',
+  'vehicle.vinCharacters': 'A–Z (I, O, Q తప్ప) మరియు 0–9 మాత్రమే అనుమతించబడతాయి.',
+  'vehicle.vinChecksum': 'చెక్ అంకె సరిపోలలేదు. దయచేసి VIN ను మళ్లీ తనిఖీ చేయండి.',
+  'vehicle.vinChecksumWarning': 'చెక్ అంకె సరిపోలలేదు. ఉత్తర అమెరికా వెలుపల ఇది సాధారణం.',
+  'vehicle.modelYear': 'మోడల్ సంవత్సరం {year}',
+  'vehicle.make': 'తయారీదారు',
+  'vehicle.model': 'మోడల్',
+  'vehicle.year': 'సంవత్సరం',
+  'vehicle.mileage': 'మైలేజ్ (కి.మీ)',
+  'vehicle.engineCode': 'ఇంజిన్ కోడ్',
+  'vehicle.symptoms': 'తెలిపిన లక్షణాలు',
+  'vehicle.symptomsPlaceholder': 'ఉదా. చల్లగా ఉన్నప్పుడు అస్థిర ఐడిల్, చెక్ ఇంజిన్ లైట్ ఆన్',
+  'vehicle.clear': 'క్లియర్ చేయండి',
+  'vehicle.save': 'సేవ్ చేయండి',
+
+  'dtc.noDescription': 'ఆఫ్‌లైన్ కోడ్ పట్టికలో వివరణ లేదు.',
+  'dtc.system': 'సిస్టమ్',
+  'dtc.type': 'రకం',
+  'dtc.area': 'విభాగం',
+  'dtc.powertrain': 'పవర్‌ట్రెయిన్',
+  'dtc.chassis': 'ఛాసిస్',
+  'dtc.body': 'బాడీ',
+  'dtc.network': 'నెట్‌వర్క్ మరియు వాహన అనుసంధానం',
+  'dtc.subsystem.fuelAirEmissions': 'ఇంధనం, గాలి మీటరింగ్ మరియు సహాయక ఉద్గార నియంత్రణలు',
+  'dtc.subsystem.fuelAir': 'ఇంధనం మరియు గాలి మీటరింగ్',
+  'dtc.subsystem.injectorCircuit': 'ఇంధనం మరియు గాలి మీటరింగ్ (ఇంజెక్టర్ సర్క్యూట్)',
+  'dtc.subsystem.ignition': 'ఇగ్నిషన్ వ్యవస్థ లేదా మిస్‌ఫైర్',
+  'dtc.subsystem.emissionControls': 'సహాయక ఉద్గార నియంత్రణలు',
+  'dtc.subsystem.speedIdle': 'వాహన వేగం, ఐడిల్ నియంత్రణ మరియు సహాయక ఇన్‌పుట్‌లు',
+  'dtc.subsystem.computer': 'కంప్యూటర్ మరియు అవుట్‌పుట్ సర్క్యూట్‌లు',
+  'dtc.subsystem.transmission': 'ట్రాన్స్‌మిషన్',
+  'dtc.subsystem.hybrid': 'హైబ్రిడ్ ప్రొపల్షన్',
+  'dtc.generic': 'సాధారణం (SAE)',
+  'dtc.manufacturer': 'తయారీదారు-నిర్దిష్టం',
+  'dtc.manufacturerNote': 'అర్థం తయారీదారును బట్టి మారుతుంది; OEM సర్వీస్ సమాచారంతో నిర్ధారించండి.',
+  'dtc.close': 'మూసివేయండి',
+
+  'controls.label': 'వాయిస్ అసిస్టెంట్ నియంత్రణలు',
+  'controls.toggleChat': 'చాట్ చూపించు/దాచు',
+  'controls.toggleReport': 'డయాగ్నస్టిక్ నివేదిక చూపించు/దాచు',
+  'controls.toggleMetrics': 'ఏజెంట్ మెట్రిక్స్ చూపు/దాచు',
+  'controls.endCall': 'కాల్ ముగించు',
+  'controls.end': 'ముగించు',
+  'chat.placeholder': 'ఏదైనా టైప్ చేయండి...',
+  'chat.send': 'పంపు',
+  'chat.sendFailed': 'సందేశం పంపడం సాధ్యం కాలేదు, మళ్లీ ప్రయత్నించండి',
+  'chat.interrupted': 'అంతరాయం కలిగింది',
+
+  'attachments.attach': 'ఫైల్‌లను జోడించండి',
+  'attachments.takePhoto': 'ఫోటో తీయండి',
+  'attachments.remove': '{name} తీసివేయండి',
+  'attachments.uploading': 'జోడింపులు అప్‌లోడ్ అవుతున్నాయి',
+  'attachments.uploadFailed': 'జోడింపులను పంపడం సాధ్యం కాలేదు, మళ్లీ ప్రయత్నించండి',
+  'attachments.typeNotAllowed': '{name} మద్దతు ఉన్న ఫైల్ రకం కాదు',
+  'attachments.tooLarge': '{name} {max} MB కంటే పెద్దది',
+  'attachments.tooMany': 'మీరు గరిష్ఠంగా {max} ఫైల్‌లను జోడించవచ్చు',
+
+  'commands.label': 'ఆదేశాలు',
+  'commands.report': 'డయాగ్నస్టిక్ నివేదికను తెరవండి',
+  'commands.dtc': 'ట్రబుల్ కోడ్ గురించి ఏజెంట్‌ను అడగండి',
+  'commands.language': 'భాషను మార్చండి',
+  'commands.end': 'కాల్ ముగించండి',
+  'commands.unknown': 'తెలియని ఆదేశం /{command}',
+  'commands.usage': 'వినియోగం: {usage}',
+  'commands.dtcMessage': 'ట్రబుల్ కోడ్ {code} ని నిర్ధారించడంలో సహాయం చేయండి',
+
+  'inputMode.label': 'ఇన్‌పుట్ మోడ్',
+  'inputMode.alwaysOn': 'ఎల్లప్పుడూ ఆన్',
+  'inputMode.pushToTalk': 'నొక్కి మాట్లాడండి',
+  'inputMode.toggleToTalk': 'ట్యాప్ చేసి మాట్లాడండి',
+  'inputMode.holdToTalk': 'నొక్కి పట్టి మాట్లాడండి',
+  'inputMode.talking': 'మాట్లాడుతున్నారు...',
+  'inputMode.tapToTalk': 'మాట్లాడటానికి ట్యాప్ చేయండి',
+  'inputMode.tapToStop': 'ఆపడానికి ట్యాప్ చేయండి',
+  'inputMode.changeKey': 'మాట్లాడే కీని మార్చండి ({key})',
+  'inputMode.pressKey': 'ఒక కీని నొక్కండి...',
+
+  'audioProcessing.label': 'ఆడియో ప్రాసెసింగ్',
+  'audioProcessing.highPassFilter': 'తక్కువ గర్జన శబ్దాన్ని తొలగించండి',
+  'audioProcessing.noiseGate': 'నాయిస్ గేట్',
+  'audioProcessing.noiseSuppression': 'శబ్ద నిరోధం',
+  'audioProcessing.inputLevel': 'మైక్రోఫోన్ స్థాయి',
+  'micTest.start': 'మైక్రోఫోన్‌ను పరీక్షించండి',
+  'micTest.recording': 'రికార్డ్ అవుతోంది, ఏదైనా మాట్లాడండి...',
+  'micTest.playing': 'మీ రికార్డింగ్ ప్లే అవుతోంది',
+  'micTest.failed': 'మైక్రోఫోన్ పరీక్ష విఫలమైంది',
+
+  'preflight.title': 'చేరే ముందు',
+  'preflight.microphone': 'మైక్రోఫోన్',
+  'preflight.camera': 'కెమెరా',
+  'preflight.connectionDetails': 'సెషన్ యాక్సెస్',
+  'preflight.server': 'కాల్ సర్వర్',
+  'preflight.checking': 'తనిఖీ చేస్తోంది...',
+  'preflight.passed': 'సరే',
+  'preflight.skipped': 'తనిఖీ చేయలేదు',
+  'preflight.cameraNotUsed': 'వాయిస్ కాల్‌లలో ఉపయోగించబడదు',
+  'preflight.speakNow': 'స్థాయిని తనిఖీ చేయడానికి ఏదైనా మాట్లాడండి',
+  'preflight.micHeard': 'మీ స్వరం వినిపిస్తోంది',
+  'preflight.latency': '{ms} ms లో చేరుకోవచ్చు',
+  'preflight.permissionDenied': 'యాక్సెస్ నిరోధించబడింది. బ్రౌజర్ సైట్ సెట్టింగ్‌లలో అనుమతించండి.',
+  'preflight.deviceNotFound': 'పరికరం కనుగొనబడలేదు',
+  'preflight.deviceInUse': 'పరికరాన్ని మరో యాప్ ఉపయోగిస్తోంది',
+  'preflight.serverRejected': 'సర్వర్ ఈ సెషన్‌ను అంగీకరించలేదు',
+  'preflight.serverUnreachable': 'ఈ నెట్‌వర్క్ నుండి సర్వర్‌ను చేరుకోలేకపోయాము',
+  'preflight.join': 'కాల్‌లో చేరండి',
+  'preflight.joinAnyway': 'అయినా చేరండి',
+  'preflight.retry': 'మళ్లీ తనిఖీ చేయండి',
+  'preflight.back': 'వెనుకకు',
+  'liveAssistant.snapshot': 'ఏజెంట్‌కు స్నాప్‌షాట్ పంపండి',
+  'liveAssistant.snapshotSending': 'స్నాప్‌షాట్ పంపుతోంది…',
+  'liveAssistant.snapshotSent': 'స్నాప్‌షాట్ పంపబడింది',
+  'liveAssistant.snapshotFailed': 'స్నాప్‌షాట్ పంపడం సాధ్యం కాలేదు',
+  'liveAssistant.dismissPrompt': 'మూసివేయి',
+
+  'captions.label': 'క్యాప్షన్లు',
+  'captions.off': 'ఆఫ్',
+  'captions.standard': 'సాధారణం',
+  'captions.large': 'పెద్ద అక్షరాలు',
+  'captions.highContrast': 'అధిక కాంట్రాస్ట్',
+
+  'metrics.title': 'ఏజెంట్ మెట్రిక్స్',
+  'metrics.export': 'మెట్రిక్స్‌ను JSON గా ఎగుమతి చేయండి',
+  'metrics.close': 'ఏజెంట్ మెట్రిక్స్ మూసివేయండి',
+  'metrics.timeline': 'స్థితి కాలక్రమం',
+  'metrics.turns': 'ప్రతి మలుపుకు ఆలస్యం',
+  'metrics.noTurns': 'ఇంకా మలుపులు లేవు. ఏజెంట్ సమాధానం ఇచ్చాక మెట్రిక్స్ కనిపిస్తాయి.',
+  'metrics.metric': 'మెట్రిక్',
+  'metrics.mean': 'సగటు',
+  'metrics.max': 'గరిష్ఠం',
+  'metrics.endOfTurn': 'మలుపు ముగింపు గుర్తింపు',
+  'metrics.responseLatency': 'మాట ముగింపు నుండి మొదటి ఆడియో వరకు',
+  'metrics.reportDelivery': 'నివేదిక డెలివరీ',
+
+  'connection.rejoining': 'మళ్లీ కనెక్ట్ అవుతోంది ({attempt}/{max})...',
+  'connection.reconnecting': 'మళ్లీ కనెక్ట్ అవుతోంది...',
+  'connection.reconnected': 'మళ్లీ కనెక్ట్ అయింది',
+  'connection.excellent': 'అద్భుతమైన కనెక్షన్',
+  'connection.good': 'మంచి కనెక్షన్',
+  'connection.poor': 'బలహీనమైన కనెక్షన్',
+  'connection.lost': 'కనెక్షన్ పోయింది',
+  'connection.connected': 'కనెక్ట్ అయింది',
+
+  'report.title': 'డయాగ్నస్టిక్ నివేదిక',
+  'report.close': 'డయాగ్నస్టిక్ నివేదికను మూసివేయండి',
+  'report.exportPdf': 'PDFగా ఎగుమతి చేయండి',
+  'report.exportMarkdown': 'Markdownగా ఎగుమతి చేయండి',
+  'report.exportJson': 'JSONగా ఎగుమతి చేయండి',
+  'report.exportFailed': 'డయాగ్నస్టిక్ నివేదికను ఎగుమతి చేయలేకపోయాము',
+  'report.versions': 'నివేదిక సంస్కరణలు',
+  'report.version': 'నివేదిక {number}',
+  'report.versionLatest': 'నివేదిక {number} (తాజాది)',
+  'report.versionWithTime': 'నివేదిక {number} ({time})',
+  'report.compare': 'పోల్చండి',
+  'report.compareTitle': 'మరో నివేదికతో పోల్చండి',
+  'report.compareWith': 'నివేదిక {number}ను దీనితో పోల్చండి',
+  'report.viewingEarlier': '{total}లో నివేదిక {number} చూస్తున్నారు, {time}కి అందింది.',
+  'report.showLatest': 'తాజాది చూపించు',
+  'report.identical': 'ఈ నివేదికలు ఒకేలా ఉన్నాయి.',
+  'report.diffLabel': 'నివేదిక {number} · {time}',
+  'report.diffRemoved': 'తొలగించబడింది:',
+  'report.diffAdded': 'జోడించబడింది:',
+  'report.webSources': 'వెబ్ మూలాలు',
+  'report.videos': 'డయాగ్నస్టిక్ వీడియోలు ({count})',
+  'report.watchVideo': 'డయాగ్నస్టిక్ వీడియో చూడండి',
+  'report.invalidVideo': 'చెల్లని YouTube URL. దయచేసి వీడియో లింక్‌ను తనిఖీ చేయండి.',
+
+  'errors.mediaDevices': 'మీ మీడియా పరికరాలలో లోపం ఏర్పడింది',
+  'errors.unauthorized': 'మీరు సైన్ ఇన్ చేయలేదు. దయచేసి సైన్ ఇన్ చేసి మళ్లీ ప్రయత్నించండి.',
+  'errors.invalidResume': 'మునుపటి సెషన్ గడువు ముగిసింది. దయచేసి కొత్త కాల్ ప్రారంభించండి.',
+  'errors.rateLimited':
+    'చాలా ఎక్కువ ప్రయత్నాలు. దయచేసి {seconds} సెకన్లు వేచి ఉండి మళ్లీ ప్రయత్నించండి.',
+  'errors.connectionDetails': 'కనెక్షన్ వివరాలను పొందడంలో లోపం!',
+  'errors.agentDispatch':
+    'ఈ కాల్ కోసం అసిస్టెంట్‌ను ప్రారంభించలేకపోయాము. దయచేసి కొద్దిసేపటి తర్వాత మళ్లీ ప్రయత్నించండి.',
+};
@@ -0,0 +1,96 @@
+export type MessageValue = string | number | Date;
+export type MessageValues = Record<string, MessageValue>;
+
+function formatValue(value: MessageValue, locale: string) {
+  if (typeof value === 'number') return new Intl.NumberFormat(locale).format(value);
+  if (value instanceof Date) return new Intl.DateTimeFormat(locale).format(value);
+  return value;
+}
+
+/** Index of the `}` matching the `{` at `start`, or -1 when it is not closed. */
+function findClosingBrace(pattern: string, start: number) {
+  let depth = 0;
+  for (let i = start; i < pattern.length; i++) {
+    if (pattern[i] === '{') depth++;
+    else if (pattern[i] === '}' && --depth === 0) return i;
+  }
+  return -1;
+}
+
+/** Parses `one {...} other {...}` into a selector → sub-message map. */
+function parseOptions(source: string): Record<string, string> {
+  const options: Record<string, string> = {};
+  let i = 0;
+  while (i < source.length) {
+    while (/\s/.test(source[i] ?? '')) i++;
+    const open = source.indexOf('{', i);
+    if (open === -1) break;
+    const close = findClosingBrace(source, open);
+    if (close === -1) break;
+    options[source.slice(i, open).trim()] = source.slice(open + 1, close);
+    i = close + 1;
+  }
+  return options;
+}
+
+function formatArgument(body: string, values: MessageValues, locale: string): string {
+  const [name, type, ...rest] = body.split(',');
+  const key = name.trim();
+  const value = values[key];
+  if (type === undefined) {
+    // Leave unknown placeholders visible so they are easy to spot
+    return value === undefined ? `{${key}}` : formatValue(value, locale);
+  }
+
+  const options = parseOptions(rest.join(','));
+  switch (type.trim()) {
+    case 'plural': {
+      const count = Number(value);
+      const branch =
+        options[`=${count}`] ??
+        options[new Intl.PluralRules(locale).select(count)] ??
+        options.other ??
+        '';
+      return formatPattern(branch, values, locale, count);
+    }
+    case 'select':
+      return formatPattern(options[String(value)] ?? options.other ?? '', values, locale);
+    default:
+      return value === undefined ? `{${key}}` : formatValue(value, locale);
+  }
+}
+
+function formatPattern(
+  pattern: string,
+  values: MessageValues,
+  locale: string,
+  pluralCount?: number
+): string {
+  let result = '';
+  let i = 0;
+  while (i < pattern.length) {
+    const char = pattern[i];
+    if (char === '{') {
+      const close = findClosingBrace(pattern, i);
+      if (close === -1) return result + pattern.slice(i);
+      result += formatArgument(pattern.slice(i + 1, close), values, locale);
+      i = close + 1;
+    } else if (char === '#' && pluralCount !== undefined) {
+      result += formatValue(pluralCount, locale);
+      i++;
+    } else {
+      result += char;
+      i++;
+    }
+  }
+  return result;
+}
+
+/**
+ * Formats a message using the subset of ICU MessageFormat the catalogs need: `{name}`
+ * interpolation, `{count, plural, =0 {...} one {...} other {...}}` with `#` for the number, and
+ * `{value, select, a {...} other {...}}`.
+ */
+export function formatMessage(pattern: string, values: MessageValues = {}, locale = 'en') {
+  return formatPattern(pattern, values, locale);
+}
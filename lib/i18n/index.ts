@@ -0,0 +1,100 @@
+import {
+  type BuiltInLanguage,
+  DEFAULT_LANGUAGE,
+  type Language,
+  getLanguage,
+  isLanguage,
+} from '@/lib/languages';
+import type { LocalizedText } from '@/lib/types';
+import { bn } from './catalogs/bn';
+import { en } from './catalogs/en';
+import { hi } from './catalogs/hi';
+import { kn } from './catalogs/kn';
+import { ml } from './catalogs/ml';
+import { mr } from './catalogs/mr';
+import { ta } from './catalogs/ta';
+import { te } from './catalogs/te';
+import { type MessageValues, formatMessage } from './format';
+import type { Catalog, MessageKey } from './types';
+
+export type { Catalog, MessageKey, MessageValues };
+
+export { DEFAULT_LANGUAGE };
+
+/**
+ * One catalog per language in the registry (`lib/languages`). Languages added through the app
+ * config have none until one is added here, and are shown in English.
+ */
+export const CATALOGS: Record<BuiltInLanguage, Catalog> = { en, kn, hi, ta, te, mr, ml, bn };
+
+function getCatalog(language: Language): Catalog | undefined {
+  return Object.hasOwn(CATALOGS, language) ? CATALOGS[language as BuiltInLanguage] : undefined;
+}
+
+export type Translate = (key: MessageKey, values?: MessageValues) => string;
+
+const warnedMissingKeys = new Set<string>();
+
+/** Locale of a registry language, or the code itself for a language added by the app config. */
+export function getLocale(language: Language | null | undefined) {
+  const code = language ?? DEFAULT_LANGUAGE;
+  return isLanguage(code) ? getLanguage(code).locale : code;
+}
+
+export function translate(
+  language: Language | null | undefined,
+  key: MessageKey,
+  values?: MessageValues,
+  locale = getLocale(language)
+): string {
+  const catalog = getCatalog(language ?? DEFAULT_LANGUAGE);
+  const message = catalog?.[key];
+  if (message !== undefined) return formatMessage(message, values, locale);
+
+  // Languages without a catalog are expected to fall back, so only gaps in catalogs are reported
+  if (
+    process.env.NODE_ENV !== 'production' &&
+    catalog &&
+    !warnedMissingKeys.has(`${language}:${key}`)
+  ) {
+    warnedMissingKeys.add(`${language}:${key}`);
+    console.warn(`[i18n] Missing "${key}" for "${language}", falling back to English`);
+  }
+  return formatMessage(en[key], values, locale);
+}
+
+/** Text configured per language, e.g. tenant copy, falling back to its `default` entry. */
+export function localize(text: LocalizedText | undefined, language: Language | null | undefined) {
+  return text?.[language ?? DEFAULT_LANGUAGE] ?? text?.default;
+}
+
+export function createTranslator(
+  language: Language | null | undefined,
+  locale?: string
+): Translate {
+  return (key, values) => translate(language, key, values, locale);
+}
+
+/** Keys each language is missing compared to the English source catalog. */
+export function findMissingKeys(): Partial<Record<Language, MessageKey[]>> {
+  const keys = Object.keys(en) as MessageKey[];
+  const report: Partial<Record<Language, MessageKey[]>> = {};
+  for (const [language, catalog] of Object.entries(CATALOGS)) {
+    const missing = keys.filter((key) => catalog[key] === undefined);
+    if (missing.length > 0) report[language] = missing;
+  }
+  return report;
+}
+
+/** Logs the missing-key report to the console. Meant for development builds. */
+export function reportMissingKeys() {
+  const report = findMissingKeys();
+  const languages = Object.keys(report) as Language[];
+  if (languages.length === 0) return;
+
+  console.groupCollapsed(`[i18n] ${languages.length} catalog(s) have missing translations`);
+  for (const language of languages) {
+    console.warn(`${language}:`, report[language]);
+  }
+  console.groupEnd();
+}
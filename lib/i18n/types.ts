@@ -0,0 +1,6 @@
+import type { MessageKey } from './catalogs/en';
+
+export type { MessageKey };
+
+/** Translations for one language; keys left out fall back to English. */
+export type Catalog = Partial<Record<MessageKey, string>>;
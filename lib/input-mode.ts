@@ -0,0 +1,51 @@
+import type { MessageKey } from './i18n';
+
+/**
+ * How the microphone is opened during a call:
+ * - `always-on`: open the whole call, the agent detects turns from voice activity
+ * - `push-to-talk`: open while the talk button or key is held
+ * - `toggle-to-talk`: the talk button or key opens and closes it
+ */
+export type InputMode = 'always-on' | 'push-to-talk' | 'toggle-to-talk';
+
+export const INPUT_MODES: { mode: InputMode; label: MessageKey }[] = [
+  { mode: 'always-on', label: 'inputMode.alwaysOn' },
+  { mode: 'push-to-talk', label: 'inputMode.pushToTalk' },
+  { mode: 'toggle-to-talk', label: 'inputMode.toggleToTalk' },
+];
+
+export interface InputModeSettings {
+  mode: InputMode;
+  /** `KeyboardEvent.code` of the talk key. Foot pedals send a key of their own, e.g. `F13`. */
+  talkKey: string;
+}
+
+export const DEFAULT_INPUT_MODE_SETTINGS: InputModeSettings = {
+  mode: 'always-on',
+  talkKey: 'Space',
+};
+
+/**
+ * Participant attributes the agent reads to adapt turn detection. `inputMode` is one of the
+ * `InputMode` values; `talking` is `"true"` while the microphone is open for the user's turn and
+ * `"false"` once they let go, which ends the turn in the push/toggle modes.
+ */
+export const INPUT_MODE_ATTRIBUTE = 'inputMode';
+export const TALKING_ATTRIBUTE = 'talking';
+
+export function isInputMode(value: unknown): value is InputMode {
+  return INPUT_MODES.some(({ mode }) => mode === value);
+}
+
+/** A readable name for a `KeyboardEvent.code`, e.g. `KeyT` → `T`. */
+export function describeKey(code: string) {
+  return code.replace(/^(Key|Digit|Numpad)(?=.)/, '').replace(/(Left|Right)$/, '');
+}
+
+/** Whether a key press was meant for a text field rather than the talk key. */
+export function isTypingTarget(target: EventTarget | null) {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+  );
+}
@@ -0,0 +1,198 @@
+import type { ParticipantMetadata } from './types';
+
+export interface LanguageDefinition {
+  code: string;
+  /** Name of the language in its own script, shown in the language pickers. */
+  label: string;
+  englishName: string;
+  /** BCP 47 locale used for plurals, numbers and dates. */
+  locale: string;
+  dir: 'ltr' | 'rtl';
+  /**
+   * Font families to try before the app's default sans font. The `--font-noto-*` variables are
+   * defined by the root layout.
+   */
+  fonts: readonly string[];
+  /** Preferred TTS voice, passed to the agent in the participant metadata. */
+  ttsVoice?: string;
+}
+
+/**
+ * Every language the app and agent support out of the box. Adding one here also needs a message
+ * catalog in `lib/i18n/catalogs`. Deployments choose which languages to offer with
+ * `AppConfig.languages`, and can change or add languages with `AppConfig.languageOverrides`.
+ */
+export const LANGUAGES = [
+  {
+    code: 'en',
+    label: 'English',
+    englishName: 'English',
+    locale: 'en-IN',
+    dir: 'ltr',
+    fonts: [],
+    ttsVoice: 'en-IN-Neural2-A',
+  },
+  {
+    code: 'kn',
+    label: 'ಕನ್ನಡ',
+    englishName: 'Kannada',
+    locale: 'kn-IN',
+    dir: 'ltr',
+    fonts: ['var(--font-noto-kannada)'],
+    ttsVoice: 'kn-IN-Wavenet-A',
+  },
+  {
+    code: 'hi',
+    label: 'हिंदी',
+    englishName: 'Hindi',
+    locale: 'hi-IN',
+    dir: 'ltr',
+    fonts: ['var(--font-noto-devanagari)'],
+    ttsVoice: 'hi-IN-Neural2-A',
+  },
+  {
+    code: 'ta',
+    label: 'தமிழ்',
+    englishName: 'Tamil',
+    locale: 'ta-IN',
+    dir: 'ltr',
+    fonts: ['var(--font-noto-tamil)'],
+    ttsVoice: 'ta-IN-Wavenet-A',
+  },
+  {
+    code: 'te',
+    label: 'తెలుగు',
+    englishName: 'Telugu',
+    locale: 'te-IN',
+    dir: 'ltr',
+    fonts: ['var(--font-noto-telugu)'],
+    ttsVoice: 'te-IN-Standard-A',
+  },
+  {
+    code: 'mr',
+    label: 'मराठी',
+    englishName: 'Marathi',
+    locale: 'mr-IN',
+    dir: 'ltr',
+    fonts: ['var(--font-noto-devanagari)'],
+    ttsVoice: 'mr-IN-Wavenet-A',
+  },
+  {
+    code: 'ml',
+    label: 'മലയാളം',
+    englishName: 'Malayalam',
+    locale: 'ml-IN',
+    dir: 'ltr',
+    fonts: ['var(--font-noto-malayalam)'],
+    ttsVoice: 'ml-IN-Wavenet-A',
+  },
+  {
+    code: 'bn',
+    label: 'বাংলা',
+    englishName: 'Bengali',
+    locale: 'bn-IN',
+    dir: 'ltr',
+    fonts: ['var(--font-noto-bengali)'],
+    ttsVoice: 'bn-IN-Wavenet-A',
+  },
+] as const satisfies readonly LanguageDefinition[];
+
+/** Code of a language in the registry, each of which has a message catalog. */
+export type BuiltInLanguage = (typeof LANGUAGES)[number]['code'];
+
+/** Code of a language in the registry or added through `AppConfig.languageOverrides`. */
+export type Language = string;
+
+/**
+ * Changes to a registry language, or a language to add when its code is not in the registry.
+ * Added languages need a `label`; their locale defaults to the code and, without a message
+ * catalog, their UI falls back to English.
+ */
+export type LanguageOverride = Partial<Omit<LanguageDefinition, 'code'>>;
+
+export const DEFAULT_LANGUAGE: BuiltInLanguage = 'en';
+
+const LANGUAGES_BY_CODE = new Map<string, LanguageDefinition>(
+  LANGUAGES.map((language) => [language.code, language])
+);
+
+// Codes and locales end up in `Intl` calls, which throw on malformed tags
+export const LOCALE_PATTERN = /^[a-z]{2,3}(?:-[a-z0-9]{2,8})*$/i;
+
+export function isLanguage(
+  value: unknown,
+  languages: readonly LanguageDefinition[] = LANGUAGES
+): value is Language {
+  return typeof value === 'string' && languages.some(({ code }) => code === value);
+}
+
+/** The definition of `code` in `languages`, or of the default language when it is not there. */
+export function getLanguage(
+  code: Language,
+  languages: readonly LanguageDefinition[] = LANGUAGES
+): LanguageDefinition {
+  return (
+    languages.find((language) => language.code === code) ??
+    LANGUAGES_BY_CODE.get(code) ??
+    LANGUAGES_BY_CODE.get(DEFAULT_LANGUAGE)!
+  );
+}
+
+/** CSS `font-family` value for a language, falling back to the app's default fonts. */
+export function languageFontFamily({ fonts }: LanguageDefinition) {
+  return [...fonts, 'var(--default-font-family)', 'sans-serif'].join(', ');
+}
+
+/** The registry with `overrides` merged over its entries, and the languages they add after it. */
+function applyOverrides(overrides: Record<string, LanguageOverride>): LanguageDefinition[] {
+  const registry: LanguageDefinition[] = LANGUAGES.map((language) => ({
+    ...language,
+    ...overrides[language.code],
+  }));
+  const added = Object.entries(overrides).flatMap(([code, { label, ...override }]) => {
+    if (LANGUAGES_BY_CODE.has(code)) return [];
+    if (!LOCALE_PATTERN.test(code) || !label) {
+      console.warn(`Ignoring language "${code}": it needs a language code and a label`);
+      return [];
+    }
+    const language: LanguageDefinition = {
+      code,
+      label,
+      englishName: label,
+      locale: code,
+      dir: 'ltr',
+      fonts: [],
+      ...override,
+    };
+    return [language];
+  });
+  return [...registry, ...added];
+}
+
+/**
+ * The languages to offer, in order, from a list of codes such as `['en', 'hi', 'ta']`, with
+ * `overrides` from the app config applied. Unknown codes are skipped with a warning; an empty or
+ * fully invalid list offers all languages.
+ */
+export function resolveLanguages(
+  codes: readonly string[] = [],
+  overrides: Record<string, LanguageOverride> = {}
+): LanguageDefinition[] {
+  const available = applyOverrides(overrides);
+  const enabled = codes.flatMap((code) => {
+    const language = available.find((candidate) => candidate.code === code);
+    if (language) return [language];
+    console.warn(`Ignoring unknown language "${code}"`);
+    return [];
+  });
+  return enabled.length > 0 ? [...new Set(enabled)] : available;
+}
+
+/** Language fields of the participant metadata, so the agent can pick its STT and TTS setup. */
+export function languageMetadata({
+  code,
+  locale,
+  ttsVoice,
+}: LanguageDefinition): Pick<ParticipantMetadata, 'language' | 'locale' | 'ttsVoice'> {
+  return { language: code, locale, ttsVoice };
+}
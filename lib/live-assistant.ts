@@ -0,0 +1,81 @@
+import type { VideoCaptureOptions } from 'livekit-client';
+
+/** Byte stream topic snapshots are sent on. The agent registers a byte stream handler for it. */
+export const SNAPSHOT_TOPIC = 'live-assistant.snapshot';
+
+/**
+ * Text stream topic the agent sends on-screen prompts on, e.g. "point at the coolant reservoir".
+ * The text is either the prompt itself or `{ "text": "...", "duration_ms": 8000 }`; an empty
+ * prompt clears the one shown.
+ */
+export const PROMPT_TOPIC = 'live-assistant.prompt';
+
+const SNAPSHOT_MIME_TYPE = 'image/jpeg';
+const SNAPSHOT_QUALITY = 0.85;
+// Enough detail to read part numbers and labels without sending full-resolution frames
+const SNAPSHOT_MAX_WIDTH = 1920;
+
+export interface LivePrompt {
+  id: string;
+  text: string;
+  /** How long to show the prompt for; shown until replaced or dismissed when absent. */
+  durationMs?: number;
+}
+
+function isMobileDevice() {
+  return (
+    typeof navigator !== 'undefined' && /Android|iPhone|iPad|iPod|Mobile/i.test(navigator.userAgent)
+  );
+}
+
+/**
+ * Camera options for an inspection: a device picked by the user wins, otherwise phones and
+ * tablets open the rear camera so the user can point it at the vehicle.
+ */
+export function inspectionCaptureOptions(deviceId?: string): VideoCaptureOptions {
+  if (deviceId) return { deviceId };
+  return isMobileDevice() ? { facingMode: 'environment' } : {};
+}
+
+/** Grabs the current frame of a camera track as a JPEG. */
+export async function captureSnapshot(track: MediaStreamTrack): Promise<File> {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.srcObject = new MediaStream([track]);
+  try {
+    await video.play();
+    const scale = Math.min(1, SNAPSHOT_MAX_WIDTH / video.videoWidth);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+    canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+    const blob = await new Promise<Blob | null>((resolve) =>
+      canvas.toBlob(resolve, SNAPSHOT_MIME_TYPE, SNAPSHOT_QUALITY)
+    );
+    if (!blob) throw new Error('Could not encode the camera frame');
+    return new File([blob], `snapshot-${Date.now()}.jpg`, { type: SNAPSHOT_MIME_TYPE });
+  } finally {
+    video.pause();
+    video.srcObject = null;
+  }
+}
+
+/** Reads a prompt sent on {@link PROMPT_TOPIC}. Returns `null` for a prompt that clears the screen. */
+export function parsePrompt(id: string, raw: string): LivePrompt | null {
+  let text = raw.trim();
+  let durationMs: number | undefined;
+  if (text.startsWith('{')) {
+    try {
+      const value = JSON.parse(text);
+      text = typeof value.text === 'string' ? value.text.trim() : '';
+      if (typeof value.duration_ms === 'number' && value.duration_ms > 0) {
+        durationMs = value.duration_ms;
+      }
+    } catch {
+      // Not JSON after all, show it as it is
+    }
+  }
+  return text ? { id, text, durationMs } : null;
+}
@@ -0,0 +1,51 @@
+import { defaultSchema } from 'rehype-sanitize';
+import type { Options as SanitizeSchema } from 'rehype-sanitize';
+
+/** Protocols a rendered link may point to. Everything else (javascript:, data:, vbscript:…) is dropped. */
+export const ALLOWED_LINK_PROTOCOLS = ['http:', 'https:', 'mailto:', 'tel:'];
+
+/** Images are fetched by the browser without a click, so only secure remote sources are allowed. */
+export const ALLOWED_IMAGE_PROTOCOLS = ['https:'];
+
+/**
+ * Returns the URL when its protocol is on the allow-list, otherwise an empty string. Relative URLs
+ * and in-page anchors are rejected for images and kept for links.
+ */
+export function sanitizeUrl(url: string, kind: 'link' | 'image' = 'link'): string {
+  const trimmed = url.trim();
+  if (!trimmed) return '';
+
+  if (kind === 'link' && trimmed.startsWith('#')) return trimmed;
+
+  let parsed: URL;
+  try {
+    parsed = new URL(trimmed);
+  } catch {
+    return '';
+  }
+
+  const allowed = kind === 'image' ? ALLOWED_IMAGE_PROTOCOLS : ALLOWED_LINK_PROTOCOLS;
+  return allowed.includes(parsed.protocol) ? parsed.toString() : '';
+}
+
+/**
+ * HTML the agent may embed in Markdown. Based on GitHub's schema (which already strips scripts,
+ * event handlers and inline styles) with the URL protocols narrowed to our allow-lists.
+ */
+export const MARKDOWN_SANITIZE_SCHEMA: SanitizeSchema = {
+  ...defaultSchema,
+  tagNames: (defaultSchema.tagNames ?? []).filter((tag) => tag !== 'input'),
+  protocols: {
+    ...defaultSchema.protocols,
+    href: ALLOWED_LINK_PROTOCOLS.map((protocol) => protocol.slice(0, -1)),
+    src: ALLOWED_IMAGE_PROTOCOLS.map((protocol) => protocol.slice(0, -1)),
+  },
+};
+
+/**
+ * The backend writes bullet points with a `•` glyph rather than Markdown list markers; map them
+ * onto `-` (keeping indentation) so they render as real, nestable lists.
+ */
+export function normalizeAgentMarkdown(content: string): string {
+  return content.replace(/^(\s*)•\s+/gm, '$1- ');
+}
@@ -0,0 +1,63 @@
+export type PreflightCheckId = 'microphone' | 'camera' | 'connectionDetails' | 'server';
+
+export type PreflightCheck =
+  | { status: 'running' | 'skipped' }
+  | { status: 'passed'; latencyMs?: number }
+  | { status: 'failed'; error: Error };
+
+export type PreflightChecks = Record<PreflightCheckId, PreflightCheck>;
+
+/** Checks in the order they are listed to the user. */
+export const PREFLIGHT_CHECK_IDS: PreflightCheckId[] = [
+  'microphone',
+  'camera',
+  'connectionDetails',
+  'server',
+];
+
+export class ServerCheckError extends Error {
+  /** `rejected`: the server answered but refused the token; `unreachable`: no answer at all. */
+  readonly reason: 'rejected' | 'unreachable';
+
+  constructor(reason: ServerCheckError['reason'], message: string) {
+    super(message);
+    this.name = 'ServerCheckError';
+    this.reason = reason;
+  }
+}
+
+// The endpoint the LiveKit client itself uses to explain a failed connection. It checks the
+// token without joining, so no room is created and no agent is dispatched for the check.
+function validateUrl(serverUrl: string, token: string) {
+  const url = new URL(serverUrl.replace(/^ws/, 'http'));
+  url.pathname = `${url.pathname.replace(/\/$/, '')}/rtc/validate`;
+  url.searchParams.set('access_token', token);
+  return url;
+}
+
+/**
+ * Whether the LiveKit server is reachable from this network and accepts the participant token.
+ * Resolves with the round-trip time in milliseconds, rejects with a {@link ServerCheckError}.
+ */
+export async function checkServer(serverUrl: string, token: string, timeoutMs = 10_000) {
+  const startedAt = performance.now();
+  let response: Response;
+  try {
+    response = await fetch(validateUrl(serverUrl, token), {
+      cache: 'no-store',
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+  } catch (error) {
+    throw new ServerCheckError(
+      'unreachable',
+      error instanceof Error ? error.message : 'Server was not reachable'
+    );
+  }
+  const latencyMs = Math.round(performance.now() - startedAt);
+
+  if (!response.ok) {
+    const message = (await response.text().catch(() => '')) || response.statusText;
+    throw new ServerCheckError(response.status < 500 ? 'rejected' : 'unreachable', message);
+  }
+  return latencyMs;
+}
@@ -0,0 +1,189 @@
+/**
+ * Counter storage for the rate limiter. The in-memory store only covers a single server
+ * instance; deployments running several instances should plug in a shared store (Redis, KV)
+ * with {@link setRateLimitStore}.
+ */
+export interface RateLimitStore {
+  /**
+   * Increments the counter for `key` in its current window, starting a new window of `windowMs`
+   * if there is none, and returns the updated count and when the window resets (epoch ms).
+   */
+  increment(key: string, windowMs: number): Promise<{ count: number; resetAt: number }>;
+}
+
+export interface RateLimitRule {
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Seconds until the tightest exhausted window resets; 0 when allowed. */
+  retryAfter: number;
+}
+
+/** Which counters a check applies to; rules for a missing key are skipped. */
+export interface RateLimitKeys {
+  ip?: string;
+  userId?: string;
+}
+
+const SWEEP_INTERVAL_MS = 60_000;
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+  let lastSweep = Date.now();
+
+  return {
+    async increment(key, windowMs) {
+      const now = Date.now();
+      // Drop expired windows now and then so the map does not grow with every client ever seen
+      if (now - lastSweep > SWEEP_INTERVAL_MS) {
+        for (const [entryKey, entry] of windows) {
+          if (entry.resetAt <= now) windows.delete(entryKey);
+        }
+        lastSweep = now;
+      }
+
+      const current = windows.get(key);
+      if (!current || current.resetAt <= now) {
+        const entry = { count: 1, resetAt: now + windowMs };
+        windows.set(key, entry);
+        return { ...entry };
+      }
+      current.count += 1;
+      return { ...current };
+    },
+  };
+}
+
+const UNIT_MS: Record<string, number> = {
+  s: 1_000,
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+};
+
+/**
+ * Parses a comma-separated list of `<limit>/<window>` rules such as `10/1m,100/1d`. Invalid
+ * entries are skipped with a warning.
+ */
+export function parseRateLimitRules(spec: string): RateLimitRule[] {
+  return spec
+    .split(',')
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .flatMap((part) => {
+      const match = part.match(/^(\d+)\s*\/\s*(\d+)?\s*([smhd])$/);
+      if (!match || Number(match[1]) <= 0) {
+        console.warn(`Ignoring invalid rate limit rule "${part}"`);
+        return [];
+      }
+      const [, limit, amount = '1', unit] = match;
+      return [{ limit: Number(limit), windowMs: Number(amount) * UNIT_MS[unit] }];
+    });
+}
+
+export interface RateLimiterOptions {
+  store: RateLimitStore;
+  /** Rules applied per client IP. Checked before authentication. */
+  ipRules: RateLimitRule[];
+  /** Rules applied per authenticated user, whichever IP they come from. */
+  userRules: RateLimitRule[];
+  /** Prefix for store keys, so several limiters can share one store. */
+  prefix?: string;
+}
+
+export interface RateLimiter {
+  check(keys: RateLimitKeys): Promise<RateLimitResult>;
+}
+
+export function createRateLimiter({
+  store,
+  ipRules,
+  userRules,
+  prefix = 'rl',
+}: RateLimiterOptions): RateLimiter {
+  return {
+    async check({ ip, userId }) {
+      const checks = [
+        ...(ip
+          ? ipRules.map((rule) => ({ rule, key: `${prefix}:ip:${ip}:${rule.windowMs}` }))
+          : []),
+        ...(userId
+          ? userRules.map((rule) => ({ rule, key: `${prefix}:user:${userId}:${rule.windowMs}` }))
+          : []),
+      ];
+
+      const results = await Promise.all(
+        checks.map(async ({ rule, key }) => ({
+          rule,
+          ...(await store.increment(key, rule.windowMs)),
+        }))
+      );
+      const exceeded = results.filter(({ rule, count }) => count > rule.limit);
+      if (exceeded.length === 0) return { allowed: true, retryAfter: 0 };
+
+      const resetAt = Math.max(...exceeded.map((result) => result.resetAt));
+      return { allowed: false, retryAfter: Math.max(1, Math.ceil((resetAt - Date.now()) / 1000)) };
+    },
+  };
+}
+
+/**
+ * Client IP from proxy headers, or `undefined` when it cannot be trusted, so such requests skip the
+ * IP rules instead of sharing one bucket. Each of the `TRUSTED_PROXY_HOPS` proxies in front of the
+ * app (1 by default) appends the address it saw to `X-Forwarded-For`; entries left of those were
+ * sent by the client and may be forged. Set it to 0 when requests reach the app directly.
+ */
+export function getClientIp(req: Request): string | undefined {
+  const hops = trustedProxyHops();
+  if (hops === 0) return undefined;
+
+  const forwarded = (req.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  if (forwarded.length >= hops) return forwarded[forwarded.length - hops];
+  return req.headers.get('x-real-ip')?.trim() || undefined;
+}
+
+let proxyHops: number | undefined;
+
+function trustedProxyHops() {
+  if (proxyHops !== undefined) return proxyHops;
+  const value = Number(process.env.TRUSTED_PROXY_HOPS ?? 1);
+  if (Number.isInteger(value) && value >= 0) {
+    proxyHops = value;
+  } else {
+    console.warn(`Ignoring invalid TRUSTED_PROXY_HOPS "${process.env.TRUSTED_PROXY_HOPS}"`);
+    proxyHops = 1;
+  }
+  return proxyHops;
+}
+
+let store: RateLimitStore | undefined;
+let limiter: RateLimiter | undefined;
+
+/** Replaces the default in-memory store, e.g. with a Redis-backed adapter. */
+export function setRateLimitStore(value: RateLimitStore) {
+  store = value;
+  limiter = undefined;
+}
+
+/**
+ * Limiter for the token endpoint, configured with `RATE_LIMIT_IP` and `RATE_LIMIT_USER`.
+ * Set either to an empty string to disable that set of rules.
+ */
+export function getConnectionRateLimiter(): RateLimiter {
+  if (limiter) return limiter;
+
+  store ??= createMemoryRateLimitStore();
+  limiter = createRateLimiter({
+    store,
+    ipRules: parseRateLimitRules(process.env.RATE_LIMIT_IP ?? '20/1m,200/1h'),
+    userRules: parseRateLimitRules(process.env.RATE_LIMIT_USER ?? '10/1m,100/1d'),
+    prefix: 'connection-details',
+  });
+  return limiter;
+}
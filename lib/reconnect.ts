@@ -0,0 +1,29 @@
+import { ApiError } from './api-error';
+
+/** Attempts to start or rejoin a call before giving up and showing the failure screen. */
+export const MAX_RESUME_ATTEMPTS = 5;
+
+const BASE_DELAY_MS = 1_000;
+const MAX_DELAY_MS = 15_000;
+
+/**
+ * Delay before retry number `attempt` (0-based): exponential backoff with jitter, so clients that
+ * dropped together (e.g. the workshop Wi-Fi went down) do not all retry at the same moment.
+ * Honours `Retry-After` when the token endpoint rate limited us.
+ */
+export function getRetryDelay(attempt: number, error?: unknown) {
+  const ceiling = Math.min(BASE_DELAY_MS * 2 ** attempt, MAX_DELAY_MS);
+  const delay = ceiling / 2 + Math.random() * (ceiling / 2);
+  const retryAfter = error instanceof ApiError && error.retryAfter ? error.retryAfter * 1000 : 0;
+  return Math.max(delay, retryAfter);
+}
+
+/**
+ * Network failures and server errors are worth retrying; auth, expired sessions, a misconfigured
+ * server and an agent that could not be dispatched are not, and are shown straight away.
+ */
+export function isRetryableConnectError(error: unknown) {
+  if (!(error instanceof ApiError)) return true;
+  if (error.code === 'server_misconfigured' || error.code === 'agent_dispatch_failed') return false;
+  return error.code === 'rate_limited' || error.status >= 500;
+}
@@ -0,0 +1,62 @@
+import { DTC_PATTERN } from './dtc';
+
+// Minimal hast shapes; only what this plugin touches
+interface HastText {
+  type: 'text';
+  value: string;
+}
+
+interface HastElement {
+  type: 'element';
+  tagName: string;
+  properties: Record<string, unknown>;
+  children: HastNode[];
+}
+
+type HastNode = HastText | HastElement | { type: string; children?: HastNode[] };
+
+// Codes inside these elements are left alone: links already point somewhere, and code blocks
+// are literal output from a scan tool
+const SKIPPED_TAGS = new Set(['a', 'code', 'pre']);
+
+function splitText(node: HastText): HastNode[] {
+  const parts: HastNode[] = [];
+  let lastIndex = 0;
+  for (const match of node.value.matchAll(DTC_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      parts.push({ type: 'text', value: node.value.slice(lastIndex, index) });
+    }
+    parts.push({
+      type: 'element',
+      tagName: 'span',
+      properties: { dataDtc: match[0].toUpperCase() },
+      children: [{ type: 'text', value: match[0] }],
+    });
+    lastIndex = index + match[0].length;
+  }
+  if (parts.length === 0) return [node];
+  if (lastIndex < node.value.length) {
+    parts.push({ type: 'text', value: node.value.slice(lastIndex) });
+  }
+  return parts;
+}
+
+function transform(node: HastNode) {
+  if (!('children' in node) || !node.children) return;
+  if (node.type === 'element' && SKIPPED_TAGS.has((node as HastElement).tagName)) return;
+
+  node.children = node.children.flatMap((child) => {
+    if (child.type === 'text') return splitText(child as HastText);
+    transform(child);
+    return [child];
+  });
+}
+
+/**
+ * Rehype plugin that wraps OBD-II trouble codes in `<span data-dtc="P0301">`. It must run after
+ * rehype-sanitize, which would otherwise strip the data attribute.
+ */
+export default function rehypeDtc() {
+  return (tree: HastNode) => transform(tree);
+}
@@ -0,0 +1,258 @@
+import type { jsPDF } from 'jspdf';
+import type { DiagnosticReport } from './agent-protocol';
+import { downloadBlob } from './utils';
+
+export const REPORT_EXPORT_VERSION = 1;
+
+export type ReportExportFormat = 'pdf' | 'markdown' | 'json';
+
+export interface ReportMetadata {
+  language: string;
+  voiceBase?: string;
+  roomName?: string;
+  /** When the session the report belongs to started (ms since epoch). */
+  sessionStartedAt?: number;
+}
+
+export interface ReportExport {
+  version: number;
+  exportedAt: string;
+  metadata: {
+    language: string;
+    voiceBase?: string;
+    roomName?: string;
+    sessionStartedAt?: string;
+  };
+  content: string;
+  web_sources: DiagnosticReport['web_sources'];
+  youtube_videos: DiagnosticReport['youtube_videos'];
+}
+
+const FILE_EXTENSIONS: Record<ReportExportFormat, string> = {
+  pdf: 'pdf',
+  markdown: 'md',
+  json: 'json',
+};
+
+export function buildReportExport(
+  report: DiagnosticReport,
+  metadata: ReportMetadata,
+  exportedAt = new Date()
+): ReportExport {
+  return {
+    version: REPORT_EXPORT_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    metadata: {
+      language: metadata.language,
+      voiceBase: metadata.voiceBase,
+      roomName: metadata.roomName,
+      sessionStartedAt:
+        metadata.sessionStartedAt !== undefined
+          ? new Date(metadata.sessionStartedAt).toISOString()
+          : undefined,
+    },
+    content: report.content,
+    web_sources: report.web_sources,
+    youtube_videos: report.youtube_videos,
+  };
+}
+
+function metadataLines(data: ReportExport): [string, string][] {
+  const { metadata } = data;
+  const lines: [string, string][] = [['Exported', data.exportedAt]];
+  if (metadata.sessionStartedAt) lines.push(['Session started', metadata.sessionStartedAt]);
+  lines.push(['Language', metadata.language]);
+  if (metadata.voiceBase) lines.push(['Assistant', metadata.voiceBase]);
+  if (metadata.roomName) lines.push(['Room', metadata.roomName]);
+  return lines;
+}
+
+export function reportToMarkdown(data: ReportExport): string {
+  const sections = [
+    '# Diagnostic Report',
+    metadataLines(data)
+      .map(([label, value]) => `- **${label}:** ${value}`)
+      .join('\n'),
+    data.content.trim(),
+  ];
+
+  if (data.web_sources.length > 0) {
+    sections.push(
+      '## Web Sources',
+      data.web_sources.map((source) => `- [${source.title}](${source.url})`).join('\n')
+    );
+  }
+  if (data.youtube_videos.length > 0) {
+    sections.push(
+      '## Diagnostic Videos',
+      data.youtube_videos.map((video) => `- [${video.title || video.url}](${video.url})`).join('\n')
+    );
+  }
+
+  return sections.join('\n\n') + '\n';
+}
+
+// Reduce inline Markdown to what reads well as plain PDF text
+function stripInlineMarkdown(line: string) {
+  return line
+    .replace(/!\[([^\]]*)\]\(([^)]+)\)/g, '$1')
+    .replace(/\[([^\]]+)\]\(([^)]+)\)/g, '$1 ($2)')
+    .replace(/\*\*([^*]+)\*\*/g, '$1')
+    .replace(/`([^`]+)`/g, '$1');
+}
+
+// jsPDF's built-in fonts only cover Latin, so text in these scripts is drawn with a Noto font from
+// `public/fonts/pdf`. Each of them also covers Latin, for part numbers and codes within the text.
+// The dandas (।, ॥) are shared with other scripts, so they do not pick Devanagari
+const PDF_SCRIPT_FONTS = [
+  { family: 'NotoSansDevanagari', pattern: /[\u0900-\u0963\u0966-\u097F]/ },
+  { family: 'NotoSansBengali', pattern: /[\u0980-\u09FF]/ },
+  { family: 'NotoSansTamil', pattern: /[\u0B80-\u0BFF]/ },
+  { family: 'NotoSansTelugu', pattern: /[\u0C00-\u0C7F]/ },
+  { family: 'NotoSansKannada', pattern: /[\u0C80-\u0CFF]/ },
+  { family: 'NotoSansMalayalam', pattern: /[\u0D00-\u0D7F]/ },
+];
+
+async function fetchFontBase64(file: string) {
+  const res = await fetch(`/fonts/pdf/${file}`);
+  if (!res.ok) throw new Error(`${res.status} ${res.statusText}`);
+  const bytes = new Uint8Array(await res.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Embeds the script fonts `text` needs. Returns the families that could be loaded; text in the
+ * others falls back to helvetica.
+ */
+async function embedScriptFonts(doc: jsPDF, text: string) {
+  const needed = PDF_SCRIPT_FONTS.filter(({ pattern }) => pattern.test(text));
+  const loaded = await Promise.all(
+    needed.map(async ({ family }) => {
+      try {
+        const styles = [
+          { style: 'normal', file: `${family}-Regular.ttf` },
+          { style: 'bold', file: `${family}-Bold.ttf` },
+        ];
+        const fonts = await Promise.all(styles.map(({ file }) => fetchFontBase64(file)));
+        styles.forEach(({ style, file }, i) => {
+          doc.addFileToVFS(file, fonts[i]);
+          doc.addFont(file, family, style);
+        });
+        return family;
+      } catch (error) {
+        console.warn(`Failed to load the ${family} font for the PDF:`, error);
+        return null;
+      }
+    })
+  );
+  return new Set(loaded.filter((family) => family !== null));
+}
+
+/**
+ * Lays the report out as text with jsPDF. jsPDF is loaded on demand since it is only needed when
+ * a mechanic actually exports a report. jsPDF does not shape text, so in the Indic scripts some
+ * conjuncts and vowel signs are drawn as separate letters.
+ */
+export async function reportToPdf(data: ReportExport): Promise<Blob> {
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF({ unit: 'pt', format: 'a4' });
+  const scriptFonts = await embedScriptFonts(doc, JSON.stringify(data));
+  const fontFor = (text: string) =>
+    PDF_SCRIPT_FONTS.find(({ family, pattern }) => scriptFonts.has(family) && pattern.test(text))
+      ?.family ?? 'helvetica';
+
+  const margin = 48;
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const maxWidth = pageWidth - margin * 2;
+  let y = margin;
+
+  const write = (text: string, { size = 11, bold = false, indent = 0, gap = 4 } = {}) => {
+    doc.setFont(fontFor(text), bold ? 'bold' : 'normal');
+    doc.setFontSize(size);
+    const lineHeight = size * 1.35;
+    for (const line of doc.splitTextToSize(text, maxWidth - indent) as string[]) {
+      if (y + lineHeight > pageHeight - margin) {
+        doc.addPage();
+        y = margin;
+      }
+      doc.text(line, margin + indent, y);
+      y += lineHeight;
+    }
+    y += gap;
+  };
+
+  write('Diagnostic Report', { size: 18, bold: true, gap: 8 });
+  for (const [label, value] of metadataLines(data)) {
+    write(`${label}: ${value}`, { size: 9, gap: 0 });
+  }
+  y += 12;
+
+  for (const rawLine of data.content.split('\n')) {
+    const line = rawLine.trimEnd();
+    if (!line.trim()) {
+      y += 6;
+      continue;
+    }
+
+    const heading = line.match(/^#{1,6}\s+(.*)$/) ?? line.match(/^\*\*([^*]+):\*\*\s*$/);
+    const bullet = line.match(/^(\s*)(?:[-*•]|\d+\.)\s+(.*)$/);
+    if (heading) {
+      write(stripInlineMarkdown(heading[1]), { size: 13, bold: true, gap: 6 });
+    } else if (bullet) {
+      const depth = Math.floor(bullet[1].length / 2);
+      write(`• ${stripInlineMarkdown(bullet[2])}`, { indent: 12 + depth * 12, gap: 2 });
+    } else {
+      write(stripInlineMarkdown(line));
+    }
+  }
+
+  if (data.web_sources.length > 0) {
+    y += 8;
+    write('Web Sources', { size: 13, bold: true, gap: 6 });
+    for (const source of data.web_sources) {
+      write(`• ${source.title} (${source.url})`, { indent: 12, gap: 2 });
+    }
+  }
+  if (data.youtube_videos.length > 0) {
+    y += 8;
+    write('Diagnostic Videos', { size: 13, bold: true, gap: 6 });
+    for (const video of data.youtube_videos) {
+      write(`• ${video.title || 'Video'} (${video.url})`, { indent: 12, gap: 2 });
+    }
+  }
+
+  return doc.output('blob');
+}
+
+export function reportFileName(data: ReportExport, format: ReportExportFormat) {
+  const stamp = data.exportedAt.slice(0, 16).replace(/[-:]/g, '').replace('T', '-');
+  return `diagnostic-report-${stamp}.${FILE_EXTENSIONS[format]}`;
+}
+
+export async function exportReport(
+  report: DiagnosticReport,
+  metadata: ReportMetadata,
+  format: ReportExportFormat
+) {
+  const data = buildReportExport(report, metadata);
+
+  let blob: Blob;
+  switch (format) {
+    case 'pdf':
+      blob = await reportToPdf(data);
+      break;
+    case 'markdown':
+      blob = new Blob([reportToMarkdown(data)], { type: 'text/markdown;charset=utf-8' });
+      break;
+    case 'json':
+      blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+      break;
+  }
+
+  downloadBlob(blob, reportFileName(data, format));
+}
@@ -0,0 +1,74 @@
+import { SignJWT, jwtVerify } from 'jose';
+
+/** How long a participant token, and with it the option to resume its room, stays valid. */
+export const SESSION_TTL_SECONDS = 15 * 60;
+
+const ROOM_NAME_PREFIX = 'voice_assistant_room_';
+const ROOM_NAME_PATTERN = /^voice_assistant_room_[0-9a-f-]{36}$/;
+const RESUME_AUDIENCE = 'session-resume';
+
+export function createRoomName() {
+  return `${ROOM_NAME_PREFIX}${crypto.randomUUID()}`;
+}
+
+export function isValidRoomName(value: string) {
+  return ROOM_NAME_PATTERN.test(value);
+}
+
+const encoder = new TextEncoder();
+let derivedSecret: Promise<Uint8Array> | undefined;
+
+/**
+ * `SESSION_RESUME_SECRET`, or a key derived from `LIVEKIT_API_SECRET` with HKDF, so resume tokens
+ * and LiveKit tokens are never signed with the same key.
+ */
+function resumeSecret(): Promise<Uint8Array> {
+  const dedicated = process.env.SESSION_RESUME_SECRET;
+  if (dedicated) return Promise.resolve(encoder.encode(dedicated));
+
+  const apiSecret = process.env.LIVEKIT_API_SECRET;
+  if (!apiSecret) throw new Error('SESSION_RESUME_SECRET or LIVEKIT_API_SECRET must be set');
+  derivedSecret ??= crypto.subtle
+    .importKey('raw', encoder.encode(apiSecret), 'HKDF', false, ['deriveBits'])
+    .then((key) =>
+      crypto.subtle.deriveBits(
+        {
+          name: 'HKDF',
+          hash: 'SHA-256',
+          salt: new Uint8Array(0),
+          info: encoder.encode(RESUME_AUDIENCE),
+        },
+        key,
+        256
+      )
+    )
+    .then((bits) => new Uint8Array(bits));
+  return derivedSecret;
+}
+
+/**
+ * Signs a token that lets `userId` rejoin `roomName` until the participant token for that room
+ * would have expired. Room names alone are not enough to rejoin, so a leaked or guessed name
+ * cannot be used to listen in on someone else's session.
+ */
+export async function createResumeToken(roomName: string, userId: string) {
+  return new SignJWT({ room: roomName })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setSubject(userId)
+    .setAudience(RESUME_AUDIENCE)
+    .setIssuedAt()
+    .setExpirationTime(`${SESSION_TTL_SECONDS}s`)
+    .sign(await resumeSecret());
+}
+
+export async function verifyResumeToken(token: string, roomName: string, userId: string) {
+  try {
+    const { payload } = await jwtVerify(token, await resumeSecret(), {
+      audience: RESUME_AUDIENCE,
+      subject: userId,
+    });
+    return payload.room === roomName;
+  } catch {
+    return false;
+  }
+}
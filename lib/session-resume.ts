@@ -0,0 +1,75 @@
+import type { ConnectionDetails } from '@/app/api/connection-details/route';
+import type { VoiceBase } from '@/hooks/useConnectionDetails';
+import type { Language } from '@/lib/languages';
+import { type VehicleContext, parseVehicleContext } from './vehicle';
+
+const STORAGE_KEY = 'allion-session-resume';
+
+/** What is needed to rejoin the last call in this tab, and how it was set up. */
+export interface SessionResumeInfo {
+  roomName: string;
+  resumeToken: string;
+  expiresAt: number;
+  language: Language;
+  voiceBase: VoiceBase;
+  vehicle?: VehicleContext;
+}
+
+export type ResumeTarget = Pick<SessionResumeInfo, 'roomName' | 'resumeToken'>;
+
+// Kept in sessionStorage so a reload resumes, but a second tab starts its own call
+export function saveResumeInfo(
+  details: ConnectionDetails,
+  settings: Pick<SessionResumeInfo, 'language' | 'voiceBase' | 'vehicle'>
+) {
+  const info: SessionResumeInfo = {
+    roomName: details.roomName,
+    resumeToken: details.resumeToken,
+    expiresAt: details.expiresAt,
+    ...settings,
+  };
+  try {
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(info));
+  } catch (error) {
+    console.warn('Failed to save session resume info:', error);
+  }
+}
+
+/** The stored resume info, or `null` when there is none or it has expired. */
+export function loadResumeInfo(now = Date.now()): SessionResumeInfo | null {
+  try {
+    const raw = sessionStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+
+    const info = JSON.parse(raw) as Partial<SessionResumeInfo>;
+    if (
+      typeof info.roomName !== 'string' ||
+      typeof info.resumeToken !== 'string' ||
+      typeof info.expiresAt !== 'number' ||
+      info.expiresAt <= now ||
+      typeof info.language !== 'string' ||
+      !info.voiceBase
+    ) {
+      clearResumeInfo();
+      return null;
+    }
+    return {
+      roomName: info.roomName,
+      resumeToken: info.resumeToken,
+      expiresAt: info.expiresAt,
+      language: info.language,
+      voiceBase: info.voiceBase,
+      vehicle: parseVehicleContext(info.vehicle),
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function clearResumeInfo() {
+  try {
+    sessionStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Storage unavailable (private mode); nothing to clear
+  }
+}
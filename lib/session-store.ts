@@ -0,0 +1,116 @@
+import type { VoiceBase } from '@/hooks/useConnectionDetails';
+import type { Language } from '@/lib/languages';
+import type { DiagnosticReport, ReportVersion } from './agent-protocol';
+
+const DB_NAME = 'allion-sessions';
+const DB_VERSION = 1;
+const STORE_NAME = 'sessions';
+
+export interface StoredMessage {
+  id: string;
+  timestamp: number;
+  role: 'user' | 'assistant';
+  text: string;
+  /** Files sent with the message. Only their details are kept, not the contents. */
+  attachments?: { name: string; type: string; size: number }[];
+}
+
+export interface StoredSession {
+  id: string;
+  startedAt: number;
+  /** Unset while the session is still in progress (or the tab closed before it ended). */
+  endedAt?: number;
+  language: Language;
+  voiceBase: VoiceBase;
+  roomName?: string;
+  messages: StoredMessage[];
+  /** The latest diagnostic report shown in the TextOutputPanel. */
+  report: DiagnosticReport | null;
+  /** Every report received during the session, oldest first. Missing on older records. */
+  reports?: ReportVersion[];
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | undefined;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available in this environment'));
+  }
+
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex('startedAt', 'startedAt');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).catch((error) => {
+    // Allow a later call to retry, e.g. after the user leaves private browsing
+    dbPromise = undefined;
+    throw error;
+  });
+
+  return dbPromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE_NAME, mode);
+  return requestToPromise(run(transaction.objectStore(STORE_NAME)));
+}
+
+export function saveSession(session: StoredSession): Promise<IDBValidKey> {
+  return withStore('readwrite', (store) => store.put(session));
+}
+
+export function getSession(id: string): Promise<StoredSession | undefined> {
+  return withStore('readonly', (store) => store.get(id));
+}
+
+export function deleteSession(id: string): Promise<undefined> {
+  return withStore('readwrite', (store) => store.delete(id));
+}
+
+/** All stored sessions, most recent first. */
+export async function listSessions(): Promise<StoredSession[]> {
+  const sessions = await withStore<StoredSession[]>('readonly', (store) =>
+    store.index('startedAt').getAll()
+  );
+  return sessions.reverse();
+}
+
+/** Report versions of a session, falling back to the single latest report on older records. */
+export function getSessionReports(session: StoredSession): ReportVersion[] {
+  if (session.reports?.length) return session.reports;
+  if (!session.report) return [];
+  return [
+    {
+      id: session.id,
+      receivedAt: session.endedAt ?? session.startedAt,
+      report: session.report,
+    },
+  ];
+}
+
+/** Case-insensitive match against the transcript and report text of a session. */
+export function sessionMatchesQuery(session: StoredSession, query: string): boolean {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  const reports = getSessionReports(session);
+  if (reports.some(({ report }) => report.content.toLowerCase().includes(needle))) return true;
+  return session.messages.some((message) => message.text.toLowerCase().includes(needle));
+}
@@ -0,0 +1,194 @@
+import type { ReceivedChatMessage } from '@livekit/components-react';
+
+/** Text stream topic LiveKit agents publish user and agent transcriptions on. */
+export const TRANSCRIPTION_TOPIC = 'lk.transcription';
+
+// Stream attributes set by the agent framework
+const SEGMENT_ATTRIBUTE = 'lk.segment_id';
+const FINAL_ATTRIBUTE = 'lk.transcription_final';
+
+/**
+ * - `interim`: still being spoken or transcribed; user speech may still be revised
+ * - `final`: complete
+ * - `interrupted`: an agent turn the user talked over, cut off where the agent stopped speaking
+ */
+export type SegmentStatus = 'interim' | 'final' | 'interrupted';
+
+export type TranscriptRole = 'user' | 'assistant';
+
+export interface TranscriptSegment {
+  /** The segment id, shared by every stream that revises the same utterance. */
+  id: string;
+  role: TranscriptRole;
+  participantIdentity: string;
+  text: string;
+  status: SegmentStatus;
+  timestamp: number;
+}
+
+interface OpenStream {
+  segmentId: string;
+  /** From the stream attributes; `undefined` when the sender does not mark final streams. */
+  final?: boolean;
+}
+
+export interface TranscriptState {
+  segments: TranscriptSegment[];
+  streams: Record<string, OpenStream>;
+}
+
+export type TranscriptAction =
+  | {
+      type: 'stream-opened';
+      streamId: string;
+      attributes?: Record<string, string>;
+      role: TranscriptRole;
+      participantIdentity: string;
+      timestamp: number;
+    }
+  /** `text` is everything received on the stream so far. */
+  | { type: 'stream-text'; streamId: string; text: string }
+  | { type: 'stream-closed'; streamId: string }
+  | { type: 'reset' };
+
+export const EMPTY_TRANSCRIPT: TranscriptState = { segments: [], streams: {} };
+
+function updateSegment(
+  segments: TranscriptSegment[],
+  id: string,
+  update: (segment: TranscriptSegment) => TranscriptSegment
+) {
+  return segments.map((segment) => (segment.id === id ? update(segment) : segment));
+}
+
+/**
+ * Folds transcription streams into segments. User speech arrives as a series of streams with the
+ * same segment id, each carrying the whole utterance so far, the last one marked final. Agent
+ * speech arrives as one stream per segment that grows as the agent speaks and closes when done.
+ * An agent segment still streaming when the user starts speaking was barged in on.
+ */
+export function transcriptReducer(
+  state: TranscriptState,
+  action: TranscriptAction
+): TranscriptState {
+  switch (action.type) {
+    case 'stream-opened': {
+      const { streamId, attributes, role, participantIdentity, timestamp } = action;
+      const segmentId = attributes?.[SEGMENT_ATTRIBUTE] ?? streamId;
+      const finalAttribute = attributes?.[FINAL_ATTRIBUTE];
+      const streams = {
+        ...state.streams,
+        [streamId]: {
+          segmentId,
+          final: finalAttribute === undefined ? undefined : finalAttribute === 'true',
+        },
+      };
+
+      if (state.segments.some((segment) => segment.id === segmentId)) {
+        return { segments: state.segments, streams };
+      }
+      let segments = state.segments;
+      if (role === 'user') {
+        segments = segments.map((segment) =>
+          segment.role === 'assistant' && segment.status === 'interim'
+            ? { ...segment, status: 'interrupted' }
+            : segment
+        );
+      }
+      const segment: TranscriptSegment = {
+        id: segmentId,
+        role,
+        participantIdentity,
+        text: '',
+        status: 'interim',
+        timestamp,
+      };
+      return { segments: [...segments, segment], streams };
+    }
+
+    case 'stream-text': {
+      const stream = state.streams[action.streamId];
+      if (!stream) return state;
+      return {
+        ...state,
+        segments: updateSegment(state.segments, stream.segmentId, (segment) => ({
+          ...segment,
+          text: action.text,
+        })),
+      };
+    }
+
+    case 'stream-closed': {
+      const stream = state.streams[action.streamId];
+      if (!stream) return state;
+      const streams = { ...state.streams };
+      delete streams[action.streamId];
+      return {
+        streams,
+        segments: updateSegment(state.segments, stream.segmentId, (segment) => {
+          if (segment.status !== 'interim') return segment;
+          // A closed agent stream is the whole turn; user speech waits for its final revision
+          const done = segment.role === 'assistant' || stream.final !== false;
+          return done ? { ...segment, status: 'final' } : segment;
+        }),
+      };
+    }
+
+    case 'reset':
+      return EMPTY_TRANSCRIPT;
+  }
+}
+
+/** A chat or transcript entry, with the state of its transcription for spoken ones. */
+export interface TranscriptMessage extends ReceivedChatMessage {
+  status: SegmentStatus;
+  source: 'transcription' | 'chat';
+}
+
+// How far apart the same text may arrive over chat and transcription to count as one message
+const DEDUPE_WINDOW_MS = 15_000;
+
+function normalize(text: string) {
+  return text.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Merges transcript segments and chat messages in time order. Text typed in the chat is echoed as
+ * a transcription by some agents, and some agents send their replies both ways; such duplicates
+ * are shown once, as the chat message, which is complete and can carry attachments.
+ */
+export function mergeTranscript(
+  segments: TranscriptSegment[],
+  chatMessages: ReceivedChatMessage[],
+  getParticipant: (identity: string) => ReceivedChatMessage['from']
+): TranscriptMessage[] {
+  const isDuplicate = (segment: TranscriptSegment) => {
+    if (segment.status === 'interim') return false;
+    const text = normalize(segment.text);
+    return chatMessages.some(
+      (message) =>
+        message.from?.identity === segment.participantIdentity &&
+        Math.abs(message.timestamp - segment.timestamp) <= DEDUPE_WINDOW_MS &&
+        normalize(message.message) === text
+    );
+  };
+
+  const merged: TranscriptMessage[] = [
+    ...segments
+      .filter((segment) => segment.text.trim() && !isDuplicate(segment))
+      .map(
+        (segment): TranscriptMessage => ({
+          id: segment.id,
+          timestamp: segment.timestamp,
+          message: segment.text,
+          from: getParticipant(segment.participantIdentity),
+          status: segment.status,
+          source: 'transcription',
+        })
+      ),
+    ...chatMessages.map(
+      (message): TranscriptMessage => ({ ...message, status: 'final', source: 'chat' })
+    ),
+  ];
+  return merged.sort((a, b) => a.timestamp - b.timestamp);
+}
@@ -1,10 +1,6 @@
-import type { TranscriptionSegment } from 'livekit-client';
+import type { LanguageOverride } from './languages';
+import type { VehicleContext } from './vehicle';
 
-export interface CombinedTranscription extends TranscriptionSegment {
-  role: 'assistant' | 'user';
-  receivedAtMediaTimestamp: number;
-  receivedAt: number;
-}
 export type ThemeMode = 'dark' | 'light' | 'system';
 
 export interface AppConfig {
@@ -16,12 +12,109 @@ export interface AppConfig {
   supportsVideoInput: boolean;
   supportsScreenShare: boolean;
   isPreConnectBufferEnabled: boolean;
+  /** Check devices and connectivity on a preflight screen before joining. */
+  isPreflightEnabled: boolean;
+  /** Offer the agent state timeline and latency metrics panel in the control bar. */
+  isMetricsPanelEnabled: boolean;
+  /** How long to wait for the agent to join and get ready before showing the failure screen. */
+  agentJoinTimeoutSeconds: number;
+  /** Address the failure screen's "report problem" action writes to; without it, details are copied. */
+  supportEmail?: string;
+  /** Language codes to offer, in order, e.g. `['en', 'hi', 'ta']`. Empty offers all. */
+  languages: string[];
+  /** Changes to registry languages by code, e.g. another TTS voice, or languages to add. */
+  languageOverrides: Record<string, LanguageOverride>;
+  /** Files users may attach to chat messages. */
+  attachments: AttachmentLimits;
 
   logo: string;
   startButtonText: string;
   accent?: string;
   logoDark?: string;
   accentDark?: string;
+
+  /** Branding beyond the fields above, used when no tenant rule matches. */
+  branding: BrandingExtras;
+  /** Named branding profiles, applied over the default branding when a tenant rule selects them. */
+  brandings: Record<string, BrandingOverrides>;
+  /** Checked in order; the first rule that matches the request picks the branding profile. */
+  tenants: TenantRule[];
+}
+
+export interface AttachmentLimits {
+  enabled: boolean;
+  /** Largest file accepted, in megabytes. */
+  maxFileSizeMb: number;
+  /** Most files sent with one message. */
+  maxFiles: number;
+  /** MIME types, or wildcards such as `image/*`, in the format of an `accept` attribute. */
+  acceptedTypes: string[];
+}
+
+/** Text in several languages, keyed by language code, with an optional `default` entry. */
+export type LocalizedText = Record<string, string>;
+
+/** Welcome screen colours, as CSS colour values. */
+export interface BrandingPalette {
+  backgroundFrom: string;
+  backgroundVia: string;
+  backgroundTo: string;
+  buttonFrom: string;
+  buttonTo: string;
+  ring: string;
+}
+
+export interface WelcomeCopy {
+  /** Wordmark shown inside the welcome ring. */
+  title: string;
+  /** Replaces the translated tagline and start button label when set for the UI language. */
+  tagline?: LocalizedText;
+  startButton?: LocalizedText;
+  /** Image drawn behind the welcome screen, over the gradient. */
+  background?: string;
+}
+
+export interface BrandingExtras {
+  companyUrl?: string;
+  favicon?: string;
+  /** Background of the generated OpenGraph image. */
+  openGraphImage?: string;
+  palette: BrandingPalette;
+  welcome: WelcomeCopy;
+}
+
+/** The branding for one request: the default branding with the tenant's profile applied. */
+export interface BrandingProfile
+  extends BrandingExtras,
+    Pick<
+      AppConfig,
+      | 'pageTitle'
+      | 'pageDescription'
+      | 'companyName'
+      | 'logo'
+      | 'logoDark'
+      | 'accent'
+      | 'accentDark'
+    > {
+  /** Name of the profile in `AppConfig.brandings`, or `default`. */
+  id: string;
+}
+
+export type BrandingOverrides = Partial<
+  Omit<BrandingProfile, 'id' | 'palette' | 'welcome'> & {
+    palette: Partial<BrandingPalette>;
+    welcome: Partial<WelcomeCopy>;
+  }
+>;
+
+/** Selects a branding profile for requests matching any of the given criteria. */
+export interface TenantRule {
+  branding: string;
+  /** Host names, optionally with a leading `*.` wildcard. */
+  hosts?: string[];
+  /** First path segment, e.g. `/acme-motors`. */
+  pathPrefix?: string;
+  sandboxIds?: string[];
 }
 
 export interface SandboxConfig {
@@ -29,6 +122,8 @@ export interface SandboxConfig {
     | { type: 'string'; value: string }
     | { type: 'number'; value: number }
     | { type: 'boolean'; value: boolean }
+    | { type: 'array'; value: unknown[] }
+    | { type: 'object'; value: Record<string, unknown> }
     | null;
 }
 
@@ -43,13 +138,23 @@ export interface YouTubeVideo {
   thumbnail: string;
   video_id: string;
 }
-export interface StructuredMessage {
-  voice_output: string;
-  text_output: {
-    content: string;
-    web_sources?: WebSource[];
-    youtube_videos?: YouTubeVideo[];
-    has_external_sources?: boolean;
-  };
-  html_output: string;
+
+/** JSON carried in the local participant's metadata, read by the agent. */
+export interface ParticipantMetadata {
+  language: string;
+  /** BCP 47 locale and preferred TTS voice for `language`, from the language registry. */
+  locale?: string;
+  ttsVoice?: string;
+  voiceBase: string;
+  vehicle?: VehicleContext;
+}
+
+/**
+ * JSON the agent is dispatched with: the metadata the call starts with, plus the ids of the
+ * authenticated user so the agent can attribute the session. Participants can rewrite their own
+ * metadata but not this, so the ids are only sent here.
+ */
+export interface DispatchMetadata extends ParticipantMetadata {
+  workshopId?: string;
+  technicianId?: string;
 }
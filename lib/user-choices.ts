@@ -0,0 +1,56 @@
+import type { LocalUserChoices } from '@livekit/components-react';
+import { DEFAULT_INPUT_MODE_SETTINGS, type InputMode, isInputMode } from './input-mode';
+
+/** The device choices LiveKit's `usePersistentUserChoices` remembers, plus the input mode. */
+export interface UserChoices extends LocalUserChoices {
+  inputMode: InputMode;
+  /** `KeyboardEvent.code` of the talk key. */
+  talkKey: string;
+}
+
+export const DEFAULT_USER_CHOICES: UserChoices = {
+  videoEnabled: true,
+  audioEnabled: true,
+  videoDeviceId: 'default',
+  audioDeviceId: 'default',
+  username: '',
+  inputMode: DEFAULT_INPUT_MODE_SETTINGS.mode,
+  talkKey: DEFAULT_INPUT_MODE_SETTINGS.talkKey,
+};
+
+// The key LiveKit's `usePersistentUserChoices` uses, so choices saved by it carry over
+const STORAGE_KEY = 'lk-user-choices';
+
+function loadStored(): Record<string, unknown> {
+  const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+  return stored && typeof stored === 'object' ? stored : {};
+}
+
+export function loadUserChoices(defaults: Partial<UserChoices> = {}): UserChoices {
+  const choices: UserChoices = { ...DEFAULT_USER_CHOICES, ...defaults };
+  try {
+    const stored = loadStored();
+    for (const key of Object.keys(choices) as (keyof UserChoices)[]) {
+      if (typeof stored[key] === typeof choices[key]) {
+        (choices as unknown as Record<string, unknown>)[key] = stored[key];
+      }
+    }
+  } catch {
+    return { ...DEFAULT_USER_CHOICES, ...defaults };
+  }
+  if (!isInputMode(choices.inputMode)) choices.inputMode = DEFAULT_USER_CHOICES.inputMode;
+  if (!choices.talkKey) choices.talkKey = DEFAULT_USER_CHOICES.talkKey;
+  return choices;
+}
+
+/**
+ * Saves `changes` over the stored choices rather than replacing them, so hooks mounted in
+ * different components do not undo each other's changes.
+ */
+export function saveUserChoices(changes: Partial<UserChoices>) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...loadStored(), ...changes }));
+  } catch (error) {
+    console.warn('Failed to save user choices:', error);
+  }
+}
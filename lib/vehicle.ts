@@ -0,0 +1,133 @@
+/** Vehicle details the mechanic can share with the agent before (or during) a call. */
+export interface VehicleContext {
+  vin?: string;
+  make?: string;
+  model?: string;
+  year?: number;
+  /** Odometer reading in kilometres. */
+  mileage?: number;
+  engineCode?: string;
+  /** Free-text description of the customer complaint. */
+  symptoms?: string;
+}
+
+export type VinIssue = 'length' | 'characters' | 'checksum';
+
+export interface VinValidation {
+  valid: boolean;
+  /** A checksum mismatch on a non-North-American VIN is reported but does not invalidate it. */
+  issue?: VinIssue;
+  modelYear?: number;
+}
+
+const VIN_LENGTH = 17;
+// I, O and Q are never used in a VIN to avoid confusion with 1 and 0
+const VIN_PATTERN = /^[A-HJ-NPR-Z0-9]{17}$/;
+
+// prettier-ignore
+const TRANSLITERATION: Record<string, number> = {
+  A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, G: 7, H: 8,
+  J: 1, K: 2, L: 3, M: 4, N: 5, P: 7, R: 9,
+  S: 2, T: 3, U: 4, V: 5, W: 6, X: 7, Y: 8, Z: 9,
+};
+
+const POSITION_WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+
+// Position 10 cycles through these codes every 30 years, starting with A = 1980 / 2010
+const MODEL_YEAR_CODES = 'ABCDEFGHJKLMNPRSTVWXY123456789';
+
+const MAX_TEXT_LENGTH = 120;
+const MAX_SYMPTOMS_LENGTH = 1_000;
+
+export function normalizeVin(vin: string) {
+  return vin.trim().toUpperCase().replace(/\s+/g, '');
+}
+
+/** Computes the ISO 3779 / FMVSS 115 check digit (position 9). */
+export function computeVinCheckDigit(vin: string): string {
+  const sum = normalizeVin(vin)
+    .split('')
+    .reduce((total, char, index) => {
+      const value = /\d/.test(char) ? Number(char) : (TRANSLITERATION[char] ?? 0);
+      return total + value * POSITION_WEIGHTS[index];
+    }, 0);
+  const remainder = sum % 11;
+  return remainder === 10 ? 'X' : String(remainder);
+}
+
+/**
+ * Decodes the model year from position 10. North American VINs disambiguate the 30-year cycle
+ * with position 7: a letter means 2010 or later, a digit means 2009 or earlier. Elsewhere
+ * position 7 carries no such meaning, so the most recent year not in the future is used.
+ */
+export function decodeModelYear(vin: string, now = new Date()): number | undefined {
+  const normalized = normalizeVin(vin);
+  if (normalized.length !== VIN_LENGTH) return undefined;
+
+  const index = MODEL_YEAR_CODES.indexOf(normalized[9]);
+  if (index === -1) return undefined;
+
+  const earlier = 1980 + index;
+  const later = 2010 + index;
+  if (isNorthAmericanVin(normalized)) {
+    return /[A-Z]/.test(normalized[6]) ? later : earlier;
+  }
+  // Model years may run one year ahead of the calendar
+  return later <= now.getFullYear() + 1 ? later : earlier;
+}
+
+/** WMI regions 1–5 (North America) are required to carry a valid check digit. */
+export function isNorthAmericanVin(vin: string) {
+  return /^[1-5]/.test(vin);
+}
+
+export function validateVin(vin: string): VinValidation {
+  const normalized = normalizeVin(vin);
+  if (normalized.length !== VIN_LENGTH) return { valid: false, issue: 'length' };
+  if (!VIN_PATTERN.test(normalized)) return { valid: false, issue: 'characters' };
+
+  const modelYear = decodeModelYear(normalized);
+  if (computeVinCheckDigit(normalized) !== normalized[8]) {
+    return { valid: !isNorthAmericanVin(normalized), issue: 'checksum', modelYear };
+  }
+  return { valid: true, modelYear };
+}
+
+function cleanText(value: unknown, maxLength = MAX_TEXT_LENGTH): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const trimmed = value.trim().slice(0, maxLength);
+  return trimmed || undefined;
+}
+
+function cleanInteger(value: unknown, min: number, max: number): number | undefined {
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof number !== 'number' || !Number.isFinite(number)) return undefined;
+  const rounded = Math.round(number);
+  return rounded >= min && rounded <= max ? rounded : undefined;
+}
+
+/**
+ * Normalizes untrusted input (form state, query parameters) into a {@link VehicleContext}.
+ * Unknown keys, invalid VINs and out-of-range numbers are dropped rather than rejected, so a
+ * partially filled form still reaches the agent.
+ */
+export function parseVehicleContext(input: unknown): VehicleContext | undefined {
+  if (typeof input !== 'object' || input === null) return undefined;
+  const raw = input as Record<string, unknown>;
+
+  const vin = typeof raw.vin === 'string' ? normalizeVin(raw.vin) : '';
+  const vinValidation = vin ? validateVin(vin) : undefined;
+
+  const context: VehicleContext = {
+    vin: vinValidation?.valid ? vin : undefined,
+    make: cleanText(raw.make),
+    model: cleanText(raw.model),
+    year: cleanInteger(raw.year, 1980, new Date().getFullYear() + 1) ?? vinValidation?.modelYear,
+    mileage: cleanInteger(raw.mileage, 0, 5_000_000),
+    engineCode: cleanText(raw.engineCode),
+    symptoms: cleanText(raw.symptoms, MAX_SYMPTOMS_LENGTH),
+  };
+
+  const entries = Object.entries(context).filter(([, value]) => value !== undefined);
+  return entries.length > 0 ? (Object.fromEntries(entries) as VehicleContext) : undefined;
+}
@@ -0,0 +1,15 @@
+import { type NextRequest, NextResponse } from 'next/server';
+
+/**
+ * Passes the requested pathname on to server components, which cannot read it otherwise, so the
+ * tenant's branding can be picked by path prefix (see `lib/branding.ts`).
+ */
+export function middleware(req: NextRequest) {
+  const headers = new Headers(req.headers);
+  headers.set('x-pathname', req.nextUrl.pathname);
+  return NextResponse.next({ request: { headers } });
+}
+
+export const config = {
+  matcher: ['/((?!api|_next/static|_next/image|.*\\.\\w+$).*)'],
+};